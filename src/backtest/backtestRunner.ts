@@ -0,0 +1,270 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { TradingEngine } from '../core/tradingEngine';
+import { BacktestBroker } from '../brokers/backtest/broker';
+import {
+  DAY_HIGH_LOW_BREAKOUT,
+  DayHighLowBreakoutParams,
+  DayHighLowBreakoutStrategy,
+  loadDayHighLowBreakoutParams
+} from '../strategies/dayHighLowBreakout';
+import { IStrategy } from '../strategies/base';
+import { createStrategy } from '../strategies/registry';
+import { strategyStateStore } from '../services/strategyStateStore';
+import { riskStateStore } from '../services/riskStateStore';
+import { volumeTracker } from '../services/volumeTracker';
+import { vwapTracker } from '../services/vwapTracker';
+import { orderIdempotencyManager } from '../services/orderIdempotency';
+import {
+  calculateStrategyMetrics,
+  calculateTradeMetrics,
+  DailyMetrics,
+  TradeMetrics
+} from '../services/metricsTracker';
+import { configManager } from '../config';
+import { AppConfig, StrategyContext, TradingMode } from '../types';
+import { clock, SimulatedClock } from '../utils/clock';
+import { logger } from '../utils/logger';
+import { loadReplayDays, ReplayDay } from './dataLoader';
+
+export interface BacktestOptions {
+  dataPath: string;
+  outputDir: string;
+  initialBalance?: number;
+  symbols?: string[];
+  from?: string; // YYYY-MM-DD (IST)
+  to?: string;   // YYYY-MM-DD (IST)
+  paramsFile?: string; // Strategy parameter overrides (defaults to STRATEGY_PARAMS_FILE)
+  paramOverrides?: Partial<DayHighLowBreakoutParams>; // Applied on top of the file defaults
+  strategies?: string[]; // Strategies to replay (defaults to STRATEGIES)
+  days?: ReplayDay[]; // Preloaded sessions - skips reading dataPath (optimiser runs)
+  config?: AppConfig;
+}
+
+export interface BacktestSummary {
+  dataPath: string;
+  outputDir: string;
+  from: string | null;
+  to: string | null;
+  tradingDays: number;
+  ticksReplayed: number;
+  symbols: string[];
+  paramsFile: string | null;
+  params: DayHighLowBreakoutParams; // Effective defaults (per-symbol overrides live in paramsFile)
+  startingBalance: number;
+  endingBalance: number;
+  returnPercent: number;
+  overall: DailyMetrics;
+  byStrategy: Record<string, DailyMetrics>;
+  daily: DailyMetrics[];
+}
+
+/**
+ * Backtest Runner - Replays recorded sessions through the real TradingEngine
+ *
+ * Each replayed tick advances a SimulatedClock, is published by the BacktestBroker as
+ * market data, and the runner waits for any resulting signal to be fully processed
+ * (risk checks, order, fill) before moving on. The engine writes trades.csv and
+ * daily_metrics.csv into the output directory exactly as it does live.
+ */
+export class BacktestRunner {
+  private readonly options: BacktestOptions;
+  private readonly config: AppConfig;
+  private trades: TradeMetrics[] = [];
+
+  constructor(options: BacktestOptions) {
+    this.options = options;
+
+    const baseConfig = options.config || configManager.getConfig();
+    this.config = {
+      ...baseConfig,
+      // Replays always run as PAPER (LIMIT entries, broker-simulated brackets)
+      trading: { ...baseConfig.trading, mode: TradingMode.PAPER },
+      // Never notify the live Telegram chat from a replay
+      telegram: { botToken: '', chatId: '', commandsEnabled: false },
+      // ...nor serve the live control API
+      controlApiToken: null,
+      strategyParamsFile: options.paramsFile || baseConfig.strategyParamsFile
+    };
+  }
+
+  public async run(): Promise<BacktestSummary> {
+    const days = this.options.days || loadReplayDays(this.options.dataPath, {
+      symbols: this.options.symbols,
+      from: this.options.from,
+      to: this.options.to
+    });
+
+    if (days.length === 0) {
+      throw new Error('No market data found for the requested backtest range');
+    }
+
+    const symbols = this.options.symbols && this.options.symbols.length > 0
+      ? this.options.symbols
+      : collectSymbols(days);
+    const initialBalance = this.options.initialBalance || 1000000;
+
+    // Build strategies (validating their parameters) before touching the process-wide clock or state paths
+    const params = loadDayHighLowBreakoutParams(this.config.strategyParamsFile, this.options.paramOverrides);
+    const strategies: IStrategy[] = (this.options.strategies || this.config.strategies).map(name =>
+      name === DAY_HIGH_LOW_BREAKOUT
+        ? new DayHighLowBreakoutStrategy(this.createContext(initialBalance), symbols, params)
+        : createStrategy(name, this.createContext(initialBalance), symbols, this.config.strategyParamsFile)
+    );
+
+    fs.mkdirSync(this.options.outputDir, { recursive: true });
+
+    const simulatedClock = new SimulatedClock(this.sessionTime(days[0].date, this.config.trading.marketStartTime));
+    clock.use(simulatedClock);
+    strategyStateStore.setStatePath(path.join(this.options.outputDir, 'state', 'daily_state.json'));
+    riskStateStore.setStatePath(path.join(this.options.outputDir, 'state', 'risk_state.json'));
+    orderIdempotencyManager.setStorageDir(path.join(this.options.outputDir, 'state'));
+    // Start from an empty 5-min candle history and VWAP - nothing carries over from a previous run
+    volumeTracker.resetSessionVolume();
+    vwapTracker.resetSession();
+
+    const broker = new BacktestBroker(initialBalance);
+    const engine = new TradingEngine(this.config, symbols, {
+      broker,
+      initialBalance,
+      exportDir: this.options.outputDir
+    });
+
+    for (const strategy of strategies) {
+      engine.addStrategy(strategy);
+    }
+
+    const initialKillSwitch = configManager.isKillSwitchActive();
+    const daily: DailyMetrics[] = [];
+    let ticksReplayed = 0;
+
+    try {
+      await engine.startReplay();
+
+      for (const day of days) {
+        logger.info(`📼 Replaying ${day.date} (${day.ticks.length} ticks)`);
+
+        simulatedClock.set(this.sessionTime(day.date, this.config.trading.marketStartTime));
+        configManager.setKillSwitch(this.config.trading.killSwitch);
+        await engine.startTradingDay();
+
+        const squareOffAt = this.sessionTime(day.date, this.config.trading.autoSquareOffTime);
+        let squaredOff = false;
+
+        for (const tick of day.ticks) {
+          if (!squaredOff && tick.timestamp.getTime() >= squareOffAt) {
+            simulatedClock.set(squareOffAt);
+            await engine.closeAllPositions('Auto square-off');
+            squaredOff = true;
+          }
+
+          simulatedClock.set(tick.timestamp);
+          broker.replayTick(tick);
+          await this.settle(engine);
+          ticksReplayed++;
+        }
+
+        // Data may end before square-off time - never carry an intraday position overnight
+        await engine.closeAllPositions('Auto square-off (end of data)');
+        await this.settle(engine);
+        await engine.endTradingDay();
+
+        daily.push(engine.getMetricsTracker().calculateDailyMetrics(day.date));
+      }
+    } finally {
+      await engine.stopReplay();
+      configManager.setKillSwitch(initialKillSwitch);
+      clock.reset();
+    }
+
+    const trades = engine.getMetricsTracker().getAllTrades();
+    this.trades = trades;
+    const overall = calculateTradeMetrics('ALL', trades, initialBalance);
+    const endingBalance = initialBalance + overall.totalPnL; // Net of charges
+
+    const summary: BacktestSummary = {
+      dataPath: this.options.dataPath,
+      outputDir: this.options.outputDir,
+      from: days[0].date,
+      to: days[days.length - 1].date,
+      tradingDays: days.length,
+      ticksReplayed,
+      symbols,
+      paramsFile: this.config.strategyParamsFile,
+      params: params.getDefaults(),
+      startingBalance: initialBalance,
+      endingBalance,
+      returnPercent: ((endingBalance - initialBalance) / initialBalance) * 100,
+      overall,
+      byStrategy: calculateStrategyMetrics(trades, initialBalance),
+      daily
+    };
+
+    fs.writeFileSync(
+      path.join(this.options.outputDir, 'summary.json'),
+      JSON.stringify(summary, null, 2)
+    );
+
+    logger.info('📊 Backtest complete', {
+      days: summary.tradingDays,
+      trades: summary.overall.totalTrades,
+      pnl: `₹${summary.overall.totalPnL.toFixed(2)}`,
+      outputDir: this.options.outputDir
+    });
+
+    return summary;
+  }
+
+  /**
+   * Closed trades from the last run (net of charges), in exit order.
+   */
+  public getTrades(): TradeMetrics[] {
+    return [...this.trades];
+  }
+
+  private createContext(initialBalance: number): StrategyContext {
+    const marginMultiplier = this.config.trading.riskLimits.marginMultiplier;
+    return {
+      marketData: new Map(),
+      positions: new Map(),
+      accountInfo: {
+        balance: initialBalance,
+        availableMargin: initialBalance,
+        usedMargin: 0,
+        realizedPnL: 0,
+        unrealizedPnL: 0,
+        marginMultiplier,
+        effectiveBuyingPower: initialBalance * marginMultiplier
+      },
+      config: this.config.trading
+    };
+  }
+
+  /**
+   * Let every signal and event handler triggered by the last tick run to completion.
+   */
+  private async settle(engine: TradingEngine): Promise<void> {
+    await engine.waitForPendingSignals();
+    await new Promise(resolve => setImmediate(resolve));
+  }
+
+  /**
+   * Epoch ms for an IST wall-clock time (HH:MM) on the given trading day.
+   */
+  private sessionTime(date: string, time: string): number {
+    return Date.parse(`${date}T${time.padStart(5, '0')}:00+05:30`);
+  }
+}
+
+/**
+ * Every symbol that appears in the replayed sessions, sorted.
+ */
+export function collectSymbols(days: ReplayDay[]): string[] {
+  const symbols = new Set<string>();
+  for (const day of days) {
+    for (const tick of day.ticks) {
+      symbols.add(tick.symbol);
+    }
+  }
+  return Array.from(symbols).sort();
+}
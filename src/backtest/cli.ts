@@ -0,0 +1,71 @@
+import * as path from 'path';
+import { BacktestRunner, BacktestSummary } from './backtestRunner';
+import { parseArgs } from './args';
+import { logger } from '../utils/logger';
+
+/**
+ * Backtest CLI
+ *
+ * Usage:
+ *   npm run backtest -- --data ./data/ticks [--from 2025-01-01] [--to 2025-01-31]
+ *                       [--symbols RELIANCE-EQ,TCS-EQ] [--capital 1000000]
+ *                       [--params ./strategy-params.json] [--strategies DayHighLowBreakout,OpeningRangeBreakout]
+ *                       [--out ./exports/backtests/my-run] [--log-level error]
+ */
+
+function printSummary(summary: BacktestSummary): void {
+  const overall = summary.overall;
+  const lines = [
+    '',
+    '═══════════════ BACKTEST SUMMARY ═══════════════',
+    `Period:        ${summary.from} → ${summary.to} (${summary.tradingDays} days)`,
+    `Symbols:       ${summary.symbols.length}`,
+    `Parameters:    ${summary.paramsFile || 'strategy defaults'}`,
+    `Ticks:         ${summary.ticksReplayed.toLocaleString('en-IN')}`,
+    `Capital:       ₹${summary.startingBalance.toLocaleString('en-IN')} → ₹${summary.endingBalance.toLocaleString('en-IN', { maximumFractionDigits: 2 })} (${summary.returnPercent.toFixed(2)}%)`,
+    `Trades:        ${overall.totalTrades} (W ${overall.winningTrades} / L ${overall.losingTrades} / BE ${overall.breakEvenTrades})`,
+    `Win rate:      ${overall.winRate.toFixed(1)}%`,
+    `Net P&L:       ₹${overall.totalPnL.toFixed(2)}`,
+    `Max drawdown:  ${overall.maxDrawdown.toFixed(2)}%`,
+    `Sharpe:        ${overall.sharpeRatio.toFixed(2)}`,
+    ...Object.values(summary.byStrategy).map(s =>
+      `  ${s.date}: ${s.totalTrades} trades, ₹${s.totalPnL.toFixed(2)} (${s.winRate.toFixed(1)}% win)`
+    ),
+    `Output:        ${summary.outputDir}`,
+    '════════════════════════════════════════════════',
+    ''
+  ];
+  console.log(lines.join('\n'));
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.data) {
+    console.error('Missing required --data <file|directory>');
+    process.exit(1);
+  }
+
+  logger.setLogLevel(args['log-level'] || 'error');
+
+  const runId = new Date().toISOString().replace(/[:.]/g, '-');
+  const runner = new BacktestRunner({
+    dataPath: path.resolve(args.data),
+    outputDir: path.resolve(args.out || path.join('exports', 'backtests', runId)),
+    initialBalance: args.capital ? parseFloat(args.capital) : undefined,
+    symbols: args.symbols ? args.symbols.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    from: args.from,
+    to: args.to,
+    paramsFile: args.params ? path.resolve(args.params) : undefined,
+    strategies: args.strategies ? args.strategies.split(',').map(s => s.trim()).filter(Boolean) : undefined
+  });
+
+  const summary = await runner.run();
+  printSummary(summary);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Backtest failed:', error.message);
+  process.exit(1);
+});
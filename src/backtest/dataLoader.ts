@@ -0,0 +1,250 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { MarketData } from '../types';
+import { logger } from '../utils/logger';
+import { getISTDate } from '../utils/clock';
+
+/**
+ * Historical Data Loader - Reads recorded market data for the backtester
+ *
+ * Supported formats:
+ *  - Tick files (.ndjson / .jsonl, optionally .gz): one MarketData JSON object per line,
+ *    timestamp as an ISO string or epoch milliseconds. Files written by the TickRecorder
+ *    (exchangeTimestamp/receivedAt instead of timestamp) are read as-is.
+ *  - 1-minute candle files (.csv): header `timestamp,symbol,open,high,low,close,volume`.
+ *    Each candle is expanded into four synthetic ticks (open → low/high → high/low → close)
+ *    carrying the running day high/low and cumulative volume, matching what the live
+ *    WebSocket feed reports.
+ */
+
+export interface LoadOptions {
+  symbols?: string[];
+  from?: string; // YYYY-MM-DD (IST), inclusive
+  to?: string;   // YYYY-MM-DD (IST), inclusive
+}
+
+export interface ReplayDay {
+  date: string; // YYYY-MM-DD (IST)
+  ticks: MarketData[];
+}
+
+export interface Candle {
+  timestamp: Date;
+  symbol: string;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;
+}
+
+const TICK_FILE = /\.(ndjson|jsonl)(\.gz)?$/;
+const CANDLE_FILE = /\.csv(\.gz)?$/;
+
+/**
+ * Load every supported file under `source` (file or directory) and group the ticks by IST trading day.
+ */
+export function loadReplayDays(source: string, options: LoadOptions = {}): ReplayDay[] {
+  const files = listDataFiles(source);
+  if (files.length === 0) {
+    throw new Error(`No .ndjson/.jsonl/.csv data files found at ${source}`);
+  }
+
+  const symbolFilter = options.symbols && options.symbols.length > 0
+    ? new Set(options.symbols)
+    : null;
+
+  let ticks: MarketData[] = [];
+  for (const file of files) {
+    const content = readDataFile(file);
+    const fileTicks = CANDLE_FILE.test(file)
+      ? expandCandles(parseCandleCsv(content))
+      : parseTickLines(content, file);
+
+    ticks = ticks.concat(fileTicks.filter(t => !symbolFilter || symbolFilter.has(t.symbol)));
+    logger.info(`📂 Loaded ${fileTicks.length} ticks from ${path.basename(file)}`);
+  }
+
+  // Stable sort keeps each symbol's intra-candle tick order intact
+  ticks.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+  const days = new Map<string, MarketData[]>();
+  for (const tick of ticks) {
+    const date = toISTDate(tick.timestamp);
+    if (options.from && date < options.from) continue;
+    if (options.to && date > options.to) continue;
+
+    if (!days.has(date)) {
+      days.set(date, []);
+    }
+    days.get(date)!.push(tick);
+  }
+
+  return Array.from(days.entries())
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([date, dayTicks]) => ({ date, ticks: dayTicks }));
+}
+
+export function parseCandleCsv(content: string): Candle[] {
+  const lines = content.split(/\r?\n/).filter(line => line.trim().length > 0);
+  if (lines.length === 0) {
+    return [];
+  }
+
+  const header = lines[0].split(',').map(h => h.trim().toLowerCase());
+  const column = (name: string): number => {
+    const index = header.indexOf(name);
+    if (index === -1) {
+      throw new Error(`Candle CSV missing required column: ${name}`);
+    }
+    return index;
+  };
+
+  const cols = {
+    timestamp: column('timestamp'),
+    symbol: column('symbol'),
+    open: column('open'),
+    high: column('high'),
+    low: column('low'),
+    close: column('close'),
+    volume: column('volume')
+  };
+
+  return lines.slice(1).map(line => {
+    const values = line.split(',').map(v => v.trim());
+    return {
+      timestamp: parseTimestamp(values[cols.timestamp]),
+      symbol: values[cols.symbol],
+      open: parseFloat(values[cols.open]),
+      high: parseFloat(values[cols.high]),
+      low: parseFloat(values[cols.low]),
+      close: parseFloat(values[cols.close]),
+      volume: parseFloat(values[cols.volume]) || 0
+    };
+  });
+}
+
+/**
+ * Expand 1-minute candles into synthetic ticks spread across the minute.
+ * A bullish candle is assumed to trade O → L → H → C, a bearish one O → H → L → C,
+ * which is the conservative ordering for breakout entries.
+ */
+export function expandCandles(candles: Candle[]): MarketData[] {
+  const sorted = [...candles].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  const session = new Map<string, { date: string; open: number; high: number; low: number; volume: number }>();
+  const ticks: MarketData[] = [];
+
+  for (const candle of sorted) {
+    const date = toISTDate(candle.timestamp);
+    let day = session.get(candle.symbol);
+    if (!day || day.date !== date) {
+      day = { date, open: candle.open, high: candle.open, low: candle.open, volume: 0 };
+      session.set(candle.symbol, day);
+    }
+
+    const prices = candle.close >= candle.open
+      ? [candle.open, candle.low, candle.high, candle.close]
+      : [candle.open, candle.high, candle.low, candle.close];
+    const start = candle.timestamp.getTime();
+
+    prices.forEach((price, i) => {
+      day!.high = Math.max(day!.high, price);
+      day!.low = Math.min(day!.low, price);
+      day!.volume += candle.volume / prices.length;
+
+      ticks.push({
+        symbol: candle.symbol,
+        ltp: price,
+        open: day!.open,
+        high: day!.high,
+        low: day!.low,
+        close: price,
+        volume: Math.round(day!.volume),
+        timestamp: new Date(start + i * 15000)
+      });
+    });
+  }
+
+  return ticks;
+}
+
+function parseTickLines(content: string, file: string): MarketData[] {
+  const ticks: MarketData[] = [];
+  const lines = content.split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    try {
+      const raw = JSON.parse(line);
+      ticks.push({
+        symbol: raw.symbol,
+        ltp: Number(raw.ltp),
+        open: Number(raw.open ?? raw.ltp),
+        high: Number(raw.high ?? raw.ltp),
+        low: Number(raw.low ?? raw.ltp),
+        close: Number(raw.ltp), // Live MarketData.close is the LTP (recorded `close` is previous day's)
+        volume: Number(raw.volume ?? 0),
+        timestamp: parseTimestamp(raw.timestamp ?? raw.exchangeTimestamp ?? raw.receivedAt)
+      });
+    } catch (error: any) {
+      logger.warn(`Skipping malformed tick at ${path.basename(file)}:${index + 1}`, {
+        error: error.message
+      });
+    }
+  });
+
+  return ticks;
+}
+
+/**
+ * Epoch milliseconds, or an ISO-like string. Strings without a zone are taken as IST,
+ * which is how broker candle exports are usually stamped.
+ */
+function parseTimestamp(value: string | number): Date {
+  const text = String(value).trim();
+  let ms: number;
+  if (typeof value === 'number' || /^\d+$/.test(text)) {
+    ms = Number(value);
+  } else if (/(Z|[+-]\d{2}:?\d{2})$/.test(text)) {
+    ms = Date.parse(text);
+  } else {
+    ms = Date.parse(`${text.replace(' ', 'T')}+05:30`);
+  }
+  if (isNaN(ms)) {
+    throw new Error(`Invalid timestamp: ${value}`);
+  }
+  return new Date(ms);
+}
+
+function listDataFiles(source: string): string[] {
+  if (!fs.existsSync(source)) {
+    throw new Error(`Backtest data path not found: ${source}`);
+  }
+
+  if (fs.statSync(source).isFile()) {
+    return [source];
+  }
+
+  // Recurse so a TickRecorder root (<dir>/<YYYY-MM-DD>/<SYMBOL>.ndjson.gz) can be passed directly
+  return fs.readdirSync(source)
+    .sort()
+    .flatMap(name => {
+      const fullPath = path.join(source, name);
+      if (fs.statSync(fullPath).isDirectory()) {
+        return listDataFiles(fullPath);
+      }
+      return TICK_FILE.test(name) || CANDLE_FILE.test(name) ? [fullPath] : [];
+    });
+}
+
+function readDataFile(file: string): string {
+  const buffer = fs.readFileSync(file);
+  return file.endsWith('.gz')
+    ? zlib.gunzipSync(buffer).toString('utf-8')
+    : buffer.toString('utf-8');
+}
+
+export function toISTDate(timestamp: Date): string {
+  return getISTDate(timestamp);
+}
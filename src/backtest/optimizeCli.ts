@@ -0,0 +1,121 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { parseArgs } from './args';
+import {
+  OptimizationReport,
+  ParameterOptimizer,
+  RANK_METRICS,
+  RankMetric,
+  SearchSpace,
+  WalkForwardOptions
+} from './optimizer';
+import { logger } from '../utils/logger';
+
+/**
+ * Parameter Optimiser CLI
+ *
+ * Usage:
+ *   npm run optimize -- --data ./data/ticks --space ./space.json
+ *                       [--search grid|random] [--samples 50] [--seed 1]
+ *                       [--rank-by pnl|sharpe|drawdown|winRate] [--min-trades 1]
+ *                       [--walk-forward 20:5] [--from 2025-01-01] [--to 2025-03-31]
+ *                       [--symbols RELIANCE-EQ,TCS-EQ] [--capital 1000000]
+ *                       [--params ./strategy-params.json] [--out ./exports/backtests/opt-run]
+ *
+ * space.json maps parameters to a list of values or a {min, max, step} range:
+ *   { "stopLossPercent": [0.2, 0.25, 0.3], "targetPercent": { "min": 0.4, "max": 0.8, "step": 0.1 } }
+ */
+
+function parseWalkForward(value: string): WalkForwardOptions {
+  const match = /^(\d+):(\d+)$/.exec(value);
+  if (!match) {
+    throw new Error('--walk-forward expects <inSampleDays>:<outOfSampleDays>, e.g. 20:5');
+  }
+  return { inSampleDays: parseInt(match[1]), outOfSampleDays: parseInt(match[2]) };
+}
+
+function printReport(report: OptimizationReport): void {
+  const top = report.results.slice(0, 10).map(r =>
+    `#${String(r.rank).padEnd(3)} ${JSON.stringify(r.params)}  trades ${r.metrics.totalTrades}  ` +
+    `win ${r.metrics.winRate.toFixed(1)}%  P&L ₹${r.metrics.totalPnL.toFixed(2)}  ` +
+    `Sharpe ${r.metrics.sharpeRatio.toFixed(2)}  DD ${r.metrics.maxDrawdown.toFixed(2)}%`
+  );
+
+  const lines = [
+    '',
+    '═══════════════ OPTIMISATION RESULTS ═══════════════',
+    `Search:        ${report.search} (${report.candidates} candidates, ranked by ${report.rankBy})`,
+    ...top
+  ];
+
+  if (report.walkForward) {
+    const oos = report.walkForward.outOfSample;
+    lines.push(
+      '',
+      `Walk-forward:  ${report.walkForward.windows.length} windows (${report.walkForward.inSampleDays} IS / ${report.walkForward.outOfSampleDays} OOS days)`,
+      `Out-of-sample: ${oos.totalTrades} trades, win ${oos.winRate.toFixed(1)}%, P&L ₹${oos.totalPnL.toFixed(2)}, ` +
+      `Sharpe ${oos.sharpeRatio.toFixed(2)}, DD ${oos.maxDrawdown.toFixed(2)}%`
+    );
+  }
+
+  lines.push(`Output:        ${report.outputDir}`, '════════════════════════════════════════════════════', '');
+  console.log(lines.join('\n'));
+}
+
+async function main(): Promise<void> {
+  const args = parseArgs(process.argv.slice(2));
+
+  if (!args.data || !args.space) {
+    console.error('Missing required --data <file|directory> and --space <json file>');
+    process.exit(1);
+  }
+
+  const search = args.search || 'grid';
+  if (search !== 'grid' && search !== 'random') {
+    console.error('--search must be grid or random');
+    process.exit(1);
+  }
+
+  const rankBy = (args['rank-by'] || 'pnl') as RankMetric;
+  if (!RANK_METRICS.includes(rankBy)) {
+    console.error(`--rank-by must be one of ${RANK_METRICS.join(', ')}`);
+    process.exit(1);
+  }
+
+  logger.setLogLevel(args['log-level'] || 'error');
+
+  const space = JSON.parse(fs.readFileSync(path.resolve(args.space), 'utf-8')) as SearchSpace;
+  const runId = new Date().toISOString().replace(/[:.]/g, '-');
+
+  const optimizer = new ParameterOptimizer({
+    dataPath: path.resolve(args.data),
+    outputDir: path.resolve(args.out || path.join('exports', 'backtests', `optimize-${runId}`)),
+    space,
+    search,
+    samples: args.samples ? parseInt(args.samples) : undefined,
+    seed: args.seed ? parseInt(args.seed) : undefined,
+    rankBy,
+    minTrades: args['min-trades'] ? parseInt(args['min-trades']) : undefined,
+    walkForward: args['walk-forward'] ? parseWalkForward(args['walk-forward']) : undefined,
+    initialBalance: args.capital ? parseFloat(args.capital) : undefined,
+    symbols: args.symbols ? args.symbols.split(',').map(s => s.trim()).filter(Boolean) : undefined,
+    from: args.from,
+    to: args.to,
+    paramsFile: args.params ? path.resolve(args.params) : undefined,
+    onRunComplete: (completed, total, result) => {
+      console.log(
+        `[${completed}/${total}] ${result.from} → ${result.to} ${JSON.stringify(result.params)} ` +
+        `trades ${result.metrics.totalTrades}, P&L ₹${result.metrics.totalPnL.toFixed(2)}`
+      );
+    }
+  });
+
+  const report = await optimizer.run();
+  printReport(report);
+  process.exit(0);
+}
+
+main().catch((error) => {
+  console.error('Optimisation failed:', error.message);
+  process.exit(1);
+});
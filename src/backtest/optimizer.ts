@@ -0,0 +1,428 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BacktestRunner, collectSymbols } from './backtestRunner';
+import { loadReplayDays, ReplayDay } from './dataLoader';
+import { calculateTradeMetrics, DailyMetrics, TradeMetrics } from '../services/metricsTracker';
+import {
+  DAY_HIGH_LOW_BREAKOUT_DEFAULTS,
+  DayHighLowBreakoutParams,
+  loadDayHighLowBreakoutParams
+} from '../strategies/dayHighLowBreakout';
+import { AppConfig } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * Parameter Optimiser - Grid / random search over strategy parameters on top of the backtester
+ *
+ * Every candidate is a full BacktestRunner replay (real engine, risk checks, charges), ranked
+ * on the same calculateTradeMetrics maths as the daily CSV. Walk-forward mode re-picks the best
+ * candidate on each rolling in-sample window and scores it on the following unseen days, so the
+ * out-of-sample numbers show what the optimisation would actually have earned.
+ */
+
+export type NumericParam = {
+  [K in keyof DayHighLowBreakoutParams]: DayHighLowBreakoutParams[K] extends number ? K : never
+}[keyof DayHighLowBreakoutParams];
+
+export type ParamRange = number[] | { min: number; max: number; step: number };
+export type SearchSpace = Partial<Record<NumericParam, ParamRange>>;
+export type Candidate = Partial<Record<NumericParam, number>>;
+
+export type SearchMode = 'grid' | 'random';
+export type RankMetric = 'pnl' | 'sharpe' | 'drawdown' | 'winRate';
+
+export const RANK_METRICS: RankMetric[] = ['pnl', 'sharpe', 'drawdown', 'winRate'];
+
+export interface WalkForwardOptions {
+  inSampleDays: number;
+  outOfSampleDays: number; // Also the step between windows
+}
+
+export interface OptimizerOptions {
+  dataPath: string;
+  outputDir: string;
+  space: SearchSpace;
+  search?: SearchMode;
+  samples?: number;   // Random search: candidates to draw
+  seed?: number;      // Random search: makes the draw reproducible
+  rankBy?: RankMetric;
+  minTrades?: number; // Runs with fewer trades rank below every run that qualifies
+  walkForward?: WalkForwardOptions;
+  initialBalance?: number;
+  symbols?: string[];
+  from?: string; // YYYY-MM-DD (IST)
+  to?: string;   // YYYY-MM-DD (IST)
+  paramsFile?: string;
+  config?: AppConfig;
+  onRunComplete?: (completed: number, total: number, result: CandidateResult) => void;
+}
+
+export interface CandidateResult {
+  rank: number;
+  params: Candidate;
+  from: string;
+  to: string;
+  metrics: DailyMetrics;
+  returnPercent: number;
+  qualified: boolean; // Met minTrades
+}
+
+export interface WalkForwardWindow {
+  window: number;
+  inSample: CandidateResult;    // Best candidate on the in-sample days
+  outOfSample: CandidateResult; // Same parameters on the following unseen days
+}
+
+export interface OptimizationReport {
+  dataPath: string;
+  outputDir: string;
+  search: SearchMode;
+  rankBy: RankMetric;
+  candidates: number;
+  results: CandidateResult[]; // Whole range, best first
+  walkForward: {
+    inSampleDays: number;
+    outOfSampleDays: number;
+    windows: WalkForwardWindow[];
+    outOfSample: DailyMetrics; // All out-of-sample trades combined
+  } | null;
+}
+
+const MAX_GRID_SIZE = 5000;
+const DEFAULT_RANDOM_SAMPLES = 50;
+
+const NUMERIC_PARAMS = (Object.keys(DAY_HIGH_LOW_BREAKOUT_DEFAULTS) as (keyof DayHighLowBreakoutParams)[])
+  .filter(key => typeof DAY_HIGH_LOW_BREAKOUT_DEFAULTS[key] === 'number') as NumericParam[];
+
+export class ParameterOptimizer {
+  private readonly options: OptimizerOptions;
+  private readonly search: SearchMode;
+  private readonly rankBy: RankMetric;
+  private readonly minTrades: number;
+  private readonly initialBalance: number;
+  private runCount: number = 0;
+  private totalRuns: number = 0;
+
+  constructor(options: OptimizerOptions) {
+    this.options = options;
+    this.search = options.search || 'grid';
+    this.rankBy = options.rankBy || 'pnl';
+    this.minTrades = options.minTrades ?? 1;
+    this.initialBalance = options.initialBalance || 1000000;
+  }
+
+  public async run(): Promise<OptimizationReport> {
+    const candidates = this.buildCandidates();
+
+    // Reject invalid combinations before spending any time replaying - this also checks
+    // values for numeric choice parameters such as volatilityTimeframe
+    for (const candidate of candidates) {
+      loadDayHighLowBreakoutParams(this.options.paramsFile, candidate as Partial<DayHighLowBreakoutParams>);
+    }
+
+    const days = loadReplayDays(this.options.dataPath, {
+      symbols: this.options.symbols,
+      from: this.options.from,
+      to: this.options.to
+    });
+    if (days.length === 0) {
+      throw new Error('No market data found for the requested optimisation range');
+    }
+
+    const symbols = this.options.symbols && this.options.symbols.length > 0
+      ? this.options.symbols
+      : collectSymbols(days);
+
+    const windows = this.options.walkForward
+      ? splitWalkForward(days, this.options.walkForward)
+      : [];
+
+    this.runCount = 0;
+    this.totalRuns = candidates.length * (1 + windows.length) + windows.length;
+
+    logger.info('🔬 Parameter optimisation started', {
+      search: this.search,
+      candidates: candidates.length,
+      days: days.length,
+      walkForwardWindows: windows.length,
+      totalRuns: this.totalRuns
+    });
+
+    fs.mkdirSync(this.options.outputDir, { recursive: true });
+
+    const results = await this.evaluate(candidates, days, symbols, 'full');
+
+    let walkForward: OptimizationReport['walkForward'] = null;
+    if (this.options.walkForward) {
+      const windowResults: WalkForwardWindow[] = [];
+      const outOfSampleTrades: TradeMetrics[] = [];
+
+      for (let i = 0; i < windows.length; i++) {
+        const { inSample, outOfSample } = windows[i];
+        const ranked = await this.evaluate(candidates, inSample, symbols, `wf-${i + 1}-is`);
+        const best = ranked[0];
+
+        const { result, trades } = await this.runCandidate(
+          best.params, outOfSample, symbols, path.join(`wf-${i + 1}-oos`, 'best')
+        );
+        outOfSampleTrades.push(...trades);
+        windowResults.push({ window: i + 1, inSample: best, outOfSample: result });
+
+        logger.info(`🔬 Walk-forward window ${i + 1}/${windows.length}`, {
+          inSample: `${best.from} → ${best.to}`,
+          outOfSample: `${result.from} → ${result.to}`,
+          params: best.params,
+          inSamplePnL: `₹${best.metrics.totalPnL.toFixed(2)}`,
+          outOfSamplePnL: `₹${result.metrics.totalPnL.toFixed(2)}`
+        });
+      }
+
+      walkForward = {
+        inSampleDays: this.options.walkForward.inSampleDays,
+        outOfSampleDays: this.options.walkForward.outOfSampleDays,
+        windows: windowResults,
+        outOfSample: calculateTradeMetrics('OUT_OF_SAMPLE', outOfSampleTrades, this.initialBalance)
+      };
+    }
+
+    const report: OptimizationReport = {
+      dataPath: this.options.dataPath,
+      outputDir: this.options.outputDir,
+      search: this.search,
+      rankBy: this.rankBy,
+      candidates: candidates.length,
+      results,
+      walkForward
+    };
+
+    this.writeReport(report);
+    return report;
+  }
+
+  /**
+   * Expand the search space into the candidate list (grid) or a seeded sample of it (random).
+   */
+  public buildCandidates(): Candidate[] {
+    const axes = Object.entries(this.options.space).map(([param, range]) => {
+      if (!NUMERIC_PARAMS.includes(param as NumericParam)) {
+        throw new Error(`Cannot optimise "${param}" - expected one of ${NUMERIC_PARAMS.join(', ')}`);
+      }
+      const values = expandRange(param, range as ParamRange);
+      return { param: param as NumericParam, values };
+    });
+
+    if (axes.length === 0) {
+      throw new Error('Search space is empty - give at least one parameter range');
+    }
+
+    const gridSize = axes.reduce((size, axis) => size * axis.values.length, 1);
+
+    if (this.search === 'grid') {
+      if (gridSize > MAX_GRID_SIZE) {
+        throw new Error(`Grid has ${gridSize} combinations (max ${MAX_GRID_SIZE}) - narrow the ranges or use random search`);
+      }
+
+      let candidates: Candidate[] = [{}];
+      for (const axis of axes) {
+        candidates = candidates.flatMap(candidate =>
+          axis.values.map(value => ({ ...candidate, [axis.param]: value }))
+        );
+      }
+      return candidates;
+    }
+
+    const samples = Math.min(this.options.samples || DEFAULT_RANDOM_SAMPLES, gridSize);
+    const random = seededRandom(this.options.seed ?? 1);
+    const seen = new Set<string>();
+    const candidates: Candidate[] = [];
+
+    while (candidates.length < samples) {
+      const candidate: Candidate = {};
+      for (const axis of axes) {
+        candidate[axis.param] = axis.values[Math.floor(random() * axis.values.length)];
+      }
+
+      const key = JSON.stringify(candidate);
+      if (!seen.has(key)) {
+        seen.add(key);
+        candidates.push(candidate);
+      }
+    }
+    return candidates;
+  }
+
+  private async evaluate(
+    candidates: Candidate[],
+    days: ReplayDay[],
+    symbols: string[],
+    label: string
+  ): Promise<CandidateResult[]> {
+    const results: CandidateResult[] = [];
+    for (let i = 0; i < candidates.length; i++) {
+      const { result } = await this.runCandidate(candidates[i], days, symbols, path.join(label, `run-${i + 1}`));
+      results.push(result);
+    }
+    return rankResults(results, this.rankBy);
+  }
+
+  private async runCandidate(
+    params: Candidate,
+    days: ReplayDay[],
+    symbols: string[],
+    runDir: string
+  ): Promise<{ result: CandidateResult; trades: TradeMetrics[] }> {
+    const runner = new BacktestRunner({
+      dataPath: this.options.dataPath,
+      outputDir: path.join(this.options.outputDir, 'runs', runDir),
+      initialBalance: this.initialBalance,
+      symbols,
+      days,
+      paramsFile: this.options.paramsFile,
+      paramOverrides: params as Partial<DayHighLowBreakoutParams>,
+      config: this.options.config
+    });
+
+    const summary = await runner.run();
+    const result: CandidateResult = {
+      rank: 0,
+      params,
+      from: summary.from!,
+      to: summary.to!,
+      metrics: summary.overall,
+      returnPercent: summary.returnPercent,
+      qualified: summary.overall.totalTrades >= this.minTrades
+    };
+
+    this.runCount++;
+    this.options.onRunComplete?.(this.runCount, this.totalRuns, result);
+
+    return { result, trades: runner.getTrades() };
+  }
+
+  private writeReport(report: OptimizationReport): void {
+    const params = Object.keys(this.options.space) as NumericParam[];
+
+    const header = ['rank', ...params, 'trades', 'win_rate', 'net_pnl', 'return_pct', 'sharpe', 'max_drawdown_pct', 'qualified'];
+    const rows = report.results.map(r => [
+      r.rank,
+      ...params.map(p => r.params[p]),
+      r.metrics.totalTrades,
+      r.metrics.winRate.toFixed(2),
+      r.metrics.totalPnL.toFixed(2),
+      r.returnPercent.toFixed(4),
+      r.metrics.sharpeRatio.toFixed(4),
+      r.metrics.maxDrawdown.toFixed(4),
+      r.qualified
+    ].join(','));
+    fs.writeFileSync(path.join(report.outputDir, 'results.csv'), [header.join(','), ...rows].join('\n') + '\n');
+
+    if (report.walkForward) {
+      const wfHeader = [
+        'window', 'is_from', 'is_to', 'oos_from', 'oos_to', ...params,
+        'is_trades', 'is_net_pnl', 'is_sharpe', 'oos_trades', 'oos_net_pnl', 'oos_sharpe', 'oos_max_drawdown_pct'
+      ];
+      const wfRows = report.walkForward.windows.map(w => [
+        w.window,
+        w.inSample.from,
+        w.inSample.to,
+        w.outOfSample.from,
+        w.outOfSample.to,
+        ...params.map(p => w.inSample.params[p]),
+        w.inSample.metrics.totalTrades,
+        w.inSample.metrics.totalPnL.toFixed(2),
+        w.inSample.metrics.sharpeRatio.toFixed(4),
+        w.outOfSample.metrics.totalTrades,
+        w.outOfSample.metrics.totalPnL.toFixed(2),
+        w.outOfSample.metrics.sharpeRatio.toFixed(4),
+        w.outOfSample.metrics.maxDrawdown.toFixed(4)
+      ].join(','));
+      fs.writeFileSync(path.join(report.outputDir, 'walk_forward.csv'), [wfHeader.join(','), ...wfRows].join('\n') + '\n');
+    }
+
+    fs.writeFileSync(path.join(report.outputDir, 'optimization.json'), JSON.stringify(report, null, 2));
+  }
+}
+
+/**
+ * Sort best first and assign ranks. Runs below minTrades always rank last;
+ * ties on the chosen metric fall back to net P&L.
+ */
+export function rankResults(results: CandidateResult[], rankBy: RankMetric): CandidateResult[] {
+  const score = (r: CandidateResult): number => {
+    switch (rankBy) {
+      case 'sharpe': return r.metrics.sharpeRatio;
+      case 'drawdown': return -r.metrics.maxDrawdown;
+      case 'winRate': return r.metrics.winRate;
+      default: return r.metrics.totalPnL;
+    }
+  };
+
+  return [...results]
+    .sort((a, b) =>
+      Number(b.qualified) - Number(a.qualified) ||
+      score(b) - score(a) ||
+      b.metrics.totalPnL - a.metrics.totalPnL
+    )
+    .map((r, i) => ({ ...r, rank: i + 1 }));
+}
+
+/**
+ * Rolling in-sample / out-of-sample windows, stepping by the out-of-sample length
+ * so every out-of-sample day is scored exactly once.
+ */
+export function splitWalkForward(
+  days: ReplayDay[],
+  options: WalkForwardOptions
+): { inSample: ReplayDay[]; outOfSample: ReplayDay[] }[] {
+  const { inSampleDays, outOfSampleDays } = options;
+  if (inSampleDays < 1 || outOfSampleDays < 1) {
+    throw new Error('Walk-forward in-sample and out-of-sample lengths must be at least 1 day');
+  }
+
+  const windows: { inSample: ReplayDay[]; outOfSample: ReplayDay[] }[] = [];
+  for (let start = 0; start + inSampleDays + outOfSampleDays <= days.length; start += outOfSampleDays) {
+    windows.push({
+      inSample: days.slice(start, start + inSampleDays),
+      outOfSample: days.slice(start + inSampleDays, start + inSampleDays + outOfSampleDays)
+    });
+  }
+
+  if (windows.length === 0) {
+    throw new Error(`Walk-forward needs at least ${inSampleDays + outOfSampleDays} trading days, found ${days.length}`);
+  }
+  return windows;
+}
+
+function expandRange(param: string, range: ParamRange): number[] {
+  if (Array.isArray(range)) {
+    if (range.length === 0 || range.some(v => typeof v !== 'number')) {
+      throw new Error(`Range for "${param}" must be a non-empty list of numbers`);
+    }
+    return [...new Set(range)];
+  }
+
+  const { min, max, step } = range;
+  if (![min, max, step].every(v => typeof v === 'number' && isFinite(v)) || step <= 0 || max < min) {
+    throw new Error(`Range for "${param}" needs numeric min <= max and a positive step`);
+  }
+
+  const values: number[] = [];
+  for (let i = 0; min + i * step <= max + 1e-9; i++) {
+    values.push(parseFloat((min + i * step).toFixed(10)));
+  }
+  return values;
+}
+
+/**
+ * Small deterministic PRNG (mulberry32) so random searches can be repeated.
+ */
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -9,6 +9,8 @@ import {
   PositionType,
   Trade,
   MarketData,
+  MarketQuote,
+  OrderModification,
 } from "../../types";
 import { BrokerConfig } from "../../types";
 import { logger } from "../../utils/logger";
@@ -309,6 +311,67 @@ export class AngelOneBroker extends BaseBroker {
     return await this.client.cancelOrder(orderId);
   }
 
+  /**
+   * Modify a working order in place. Angel One wants the full order on a modify, so the
+   * current one is read from the order book and the changes laid over it.
+   */
+  public async modifyOrder(
+    orderId: string,
+    changes: OrderModification,
+  ): Promise<boolean> {
+    if (!this.isConnected) {
+      logger.error("Broker not connected");
+      return false;
+    }
+
+    try {
+      const orderBook = await this.client.getOrderBook();
+      const current = orderBook.find(
+        (order: any) => order.orderid === orderId,
+      );
+      if (!current) {
+        logger.warn("Order not found for modification", { orderId });
+        return false;
+      }
+
+      const status = this.mapAngelOrderStatus(current.orderstatus || "");
+      if (
+        status === OrderStatus.FILLED ||
+        status === OrderStatus.CANCELLED ||
+        status === OrderStatus.REJECTED
+      ) {
+        logger.warn("Cannot modify order", { orderId, status });
+        return false;
+      }
+
+      const roundPrice = (price: number) =>
+        tickSizeRounder.roundToTickSize(price).toFixed(2);
+
+      return await this.client.modifyOrder({
+        variety: current.variety,
+        orderid: orderId,
+        ordertype: current.ordertype,
+        producttype: current.producttype,
+        duration: current.duration,
+        price:
+          changes.price !== undefined
+            ? roundPrice(changes.price)
+            : String(current.price ?? "0"),
+        quantity: (changes.quantity ?? parseInt(current.quantity)).toString(),
+        tradingsymbol: current.tradingsymbol,
+        symboltoken: current.symboltoken,
+        exchange: current.exchange,
+        triggerprice:
+          changes.triggerPrice !== undefined
+            ? roundPrice(changes.triggerPrice)
+            : String(current.triggerprice ?? "0"),
+      });
+    } catch (error: any) {
+      logger.error("Modify order error", { orderId, error: error.message });
+      return false;
+    }
+  }
+
   public async getOrders(): Promise<Order[]> {
     if (!this.isConnected) {
       logger.error("Broker not connected");
@@ -338,6 +401,7 @@ export class AngelOneBroker extends BaseBroker {
       averagePrice: parseFloat(angelOrder.averageprice || "0"),
       timestamp: new Date(angelOrder.ordertime),
       broker: "AngelOne",
+      parentOrderId: angelOrder.parentorderid || undefined,
     };
   }
 
@@ -474,6 +538,26 @@ export class AngelOneBroker extends BaseBroker {
     }
   }
 
+  public async getQuote(symbol: string): Promise<MarketQuote | null> {
+    if (!this.isConnected) {
+      logger.error("Broker not connected");
+      return null;
+    }
+
+    try {
+      const symbolToken = await this.getSymbolToken(symbol);
+      if (!symbolToken) {
+        logger.error("Symbol token not found", { symbol });
+        return null;
+      }
+
+      return await this.client.getQuote("NSE", symbol, symbolToken);
+    } catch (error: any) {
+      logger.error("Get quote error", { symbol, error: error.message });
+      return null;
+    }
+  }
+
   /**
    * @deprecated Tokens are now fetched dynamically. This method is kept for backwards compatibility.
    */
@@ -1,9 +1,10 @@
 import axios, { AxiosInstance } from 'axios';
 import crypto from 'crypto';
 import thirtyTwo from 'thirty-two';
-import { BrokerConfig } from '../../types';
+import { BrokerConfig, MarketQuote } from '../../types';
 import { logger } from '../../utils/logger';
 import { authStateManager } from '../../services/authStateManager';
+import { metricsRegistry, tradingMetrics } from '../../services/prometheusMetrics';
 
 interface AngelAuthResponse {
   status: boolean;
@@ -31,6 +32,20 @@ interface AngelOrderRequest {
   quantity: string;
 }
 
+interface AngelModifyOrderRequest {
+  variety: string;
+  orderid: string;
+  ordertype: string;
+  producttype: string;
+  duration: string;
+  price: string;
+  quantity: string;
+  tradingsymbol: string;
+  symboltoken: string;
+  exchange: string;
+  triggerprice?: string;
+}
+
 interface AngelOrderResponse {
   status: boolean;
   message: string;
@@ -79,6 +94,13 @@ export class AngelOneClient {
 
     this.setupInterceptors();
     this.loadPersistedState();
+
+    metricsRegistry.setCollector('angelOneLogin', () => {
+      const status = this.getLoginStatus();
+      tradingMetrics.loginAttempts.set({}, status.loginAttempts);
+      tradingMetrics.brokerAuthenticated.set({}, status.isAuthenticated ? 1 : 0);
+      tradingMetrics.loginCooldownSeconds.set({}, Math.ceil(status.cooldownRemainingMs / 1000));
+    });
   }
 
   /**
@@ -414,6 +436,28 @@ export class AngelOneClient {
     }
   }
 
+  public async modifyOrder(modifyRequest: AngelModifyOrderRequest): Promise<boolean> {
+    try {
+      const response = await this.client.post<AngelOrderResponse>(
+        '/rest/secure/angelbroking/order/v1/modifyOrder',
+        modifyRequest
+      );
+
+      if (response.data.status) {
+        logger.info('Order modified successfully', { orderId: modifyRequest.orderid });
+        logger.audit('ORDER_MODIFIED', { modifyRequest });
+        return true;
+      } else {
+        logger.error('Order modification failed', response.data);
+        logger.audit('ORDER_MODIFY_FAILED', { modifyRequest, error: response.data.message });
+        return false;
+      }
+    } catch (error: any) {
+      logger.error('Order modification error', error);
+      return false;
+    }
+  }
+
   public async cancelOrder(orderId: string, variety: string = 'NORMAL'): Promise<boolean> {
     try {
       const response = await this.client.post(
@@ -561,6 +605,45 @@ export class AngelOneClient {
     }
   }
 
+  /**
+   * Full quote for one symbol - LTP, OHLC, previous close, circuit bands and top of book
+   */
+  public async getQuote(exchange: string, tradingSymbol: string, symbolToken: string): Promise<MarketQuote | null> {
+    const tokenValid = await this.ensureValidToken();
+    if (!tokenValid) {
+      logger.warn('Token validation failed before quote request', { symbol: tradingSymbol });
+      return null;
+    }
+
+    const data = await this.getMarketData('FULL', { [exchange]: [symbolToken] });
+    const item = data?.fetched?.find((entry: any) => entry.symbolToken === symbolToken);
+    if (!item) {
+      return null;
+    }
+
+    // Empty depth levels come back with a zero price
+    const bestPrice = (levels: any[] | undefined): number | null => {
+      const price = parseFloat(levels?.[0]?.price);
+      return price > 0 ? price : null;
+    };
+
+    return {
+      symbol: tradingSymbol,
+      ltp: parseFloat(item.ltp),
+      open: parseFloat(item.open),
+      high: parseFloat(item.high),
+      low: parseFloat(item.low),
+      prevClose: parseFloat(item.close),
+      upperCircuit: parseFloat(item.upperCircuit),
+      lowerCircuit: parseFloat(item.lowerCircuit),
+      bestBid: bestPrice(item.depth?.buy),
+      bestAsk: bestPrice(item.depth?.sell),
+      totalBuyQuantity: Number(item.totBuyQuan) || 0,
+      totalSellQuantity: Number(item.totSellQuan) || 0,
+      timestamp: new Date(),
+    };
+  }
+
   public isAuthenticated(): boolean {
     return this.jwtToken !== null;
   }
@@ -0,0 +1,296 @@
+import { BaseBroker } from '../base';
+import { Order, Position, OrderSide, OrderType, OrderStatus, PositionType, Trade, MarketData, MarketQuote, OrderModification } from '../../types';
+import { logger } from '../../utils/logger';
+import { clock } from '../../utils/clock';
+
+interface BacktestOrder extends Order {
+  target?: number;
+}
+
+/**
+ * Backtest Broker - Replays recorded market data and fills orders against it.
+ *
+ * Orders fill synchronously at the last replayed price so the engine's fill monitor
+ * sees them on its first poll. Bracket stop-loss/target legs are checked on every
+ * replayed tick, mirroring the PaperBroker's exchange-level auto-exit simulation.
+ */
+export class BacktestBroker extends BaseBroker {
+  private orders: Map<string, BacktestOrder> = new Map();
+  private positions: Map<string, Position> = new Map();
+  private bracketEntries: Map<string, string> = new Map(); // Symbol -> entry order that set the open position's bracket
+  private lastPrices: Map<string, number> = new Map();
+  private accountBalance: number;
+  private orderSequence: number = 0;
+
+  constructor(initialBalance: number = 1000000) {
+    super();
+    this.accountBalance = initialBalance;
+  }
+
+  public async connect(): Promise<boolean> {
+    this.isConnected = true;
+    logger.info('Backtest broker connected');
+    return true;
+  }
+
+  public async disconnect(): Promise<void> {
+    this.isConnected = false;
+    logger.info('Backtest broker disconnected');
+  }
+
+  /**
+   * Feed one recorded tick: update prices, trigger bracket exits, then publish
+   * the tick to the engine exactly as a live data feed would.
+   */
+  public replayTick(data: MarketData): void {
+    this.lastPrices.set(data.symbol, data.ltp);
+
+    const position = this.positions.get(data.symbol);
+    if (position) {
+      position.currentPrice = data.ltp;
+      this.checkBracketExit(position, data.ltp);
+    }
+
+    this.emitMarketData(data);
+  }
+
+  public async placeOrder(
+    symbol: string,
+    side: OrderSide,
+    type: OrderType,
+    quantity: number,
+    price?: number,
+    stopPrice?: number,
+    target?: number
+  ): Promise<Order | null> {
+    if (!this.isConnected) {
+      logger.error('Backtest broker not connected');
+      return null;
+    }
+
+    const marketPrice = this.lastPrices.get(symbol);
+    if (!marketPrice) {
+      logger.warn('Backtest order rejected - no price replayed yet', { symbol });
+      return null;
+    }
+
+    const order: BacktestOrder = {
+      orderId: this.generateOrderId(),
+      symbol,
+      side,
+      type,
+      quantity,
+      price,
+      stopPrice,
+      status: OrderStatus.SUBMITTED,
+      filledQuantity: 0,
+      averagePrice: 0,
+      timestamp: clock.date(),
+      broker: 'Backtest',
+      target
+    };
+
+    this.orders.set(order.orderId, order);
+    this.emitOrderUpdate(order);
+
+    // A LIMIT order that is not marketable is cancelled straight away - there is no
+    // pending book in a replay, and leaving it open would stall the fill monitor.
+    if (type === OrderType.LIMIT && price) {
+      const marketable = side === OrderSide.BUY ? marketPrice <= price : marketPrice >= price;
+      if (!marketable) {
+        order.status = OrderStatus.CANCELLED;
+        this.emitOrderUpdate(order);
+        logger.info('Backtest limit order not marketable - cancelled', {
+          orderId: order.orderId,
+          symbol,
+          limitPrice: price,
+          marketPrice
+        });
+        return order;
+      }
+    }
+
+    this.fillOrder(order, marketPrice);
+    return order;
+  }
+
+  /**
+   * Orders fill or cancel as they are placed, so the only thing left to modify is the
+   * stop of a bracket entry whose position is still open
+   */
+  public async modifyOrder(orderId: string, changes: OrderModification): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    const position = order ? this.positions.get(order.symbol) : undefined;
+    if (!order || !position || this.bracketEntries.get(order.symbol) !== orderId) {
+      logger.warn('Backtest order cannot be modified', { orderId });
+      return false;
+    }
+
+    if (changes.triggerPrice === undefined || changes.price !== undefined || changes.quantity !== undefined) {
+      logger.warn('Only the stop-loss trigger of an open bracket can be modified', { orderId, ...changes });
+      return false;
+    }
+
+    position.stopLoss = changes.triggerPrice;
+    logger.audit('BACKTEST_ORDER_MODIFIED', { orderId, ...changes });
+    return true;
+  }
+
+  public async cancelOrder(orderId: string): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order || order.status === OrderStatus.FILLED || order.status === OrderStatus.CANCELLED) {
+      return false;
+    }
+
+    order.status = OrderStatus.CANCELLED;
+    this.emitOrderUpdate(order);
+    return true;
+  }
+
+  public async getOrders(): Promise<Order[]> {
+    return Array.from(this.orders.values());
+  }
+
+  public async getPositions(): Promise<Position[]> {
+    return Array.from(this.positions.values());
+  }
+
+  public async getAccountBalance(): Promise<number> {
+    return this.accountBalance;
+  }
+
+  public async getLTP(symbol: string): Promise<number | null> {
+    return this.lastPrices.get(symbol) ?? null;
+  }
+
+  // Recorded ticks and candles carry no circuit bands or order book
+  public async getQuote(_symbol: string): Promise<MarketQuote | null> {
+    return null;
+  }
+
+  /**
+   * Called by the engine at market open - clears the previous session's order book.
+   */
+  public resetDailyData(): void {
+    this.orders.clear();
+    this.lastPrices.clear();
+  }
+
+  private fillOrder(order: BacktestOrder, fillPrice: number): void {
+    order.status = OrderStatus.FILLED;
+    order.filledQuantity = order.quantity;
+    order.averagePrice = fillPrice;
+    this.emitOrderUpdate(order);
+
+    this.updatePosition(order, fillPrice);
+
+    const trade: Trade = {
+      tradeId: `TRADE-${order.orderId}`,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: order.quantity,
+      price: fillPrice,
+      timestamp: clock.date(),
+      orderId: order.orderId
+    };
+    this.emitTrade(trade);
+
+    logger.audit('BACKTEST_ORDER_FILLED', { order, trade });
+  }
+
+  private updatePosition(order: BacktestOrder, fillPrice: number): void {
+    const existing = this.positions.get(order.symbol);
+
+    if (!existing) {
+      this.positions.set(order.symbol, {
+        symbol: order.symbol,
+        type: order.side === OrderSide.BUY ? PositionType.LONG : PositionType.SHORT,
+        quantity: order.quantity,
+        entryPrice: fillPrice,
+        currentPrice: fillPrice,
+        pnl: 0,
+        pnlPercent: 0,
+        entryTime: clock.date(),
+        stopLoss: order.stopPrice,
+        target: order.target
+      });
+      if (order.stopPrice || order.target) {
+        this.bracketEntries.set(order.symbol, order.orderId);
+      }
+      return;
+    }
+
+    const isClosing = (existing.type === PositionType.LONG && order.side === OrderSide.SELL) ||
+      (existing.type === PositionType.SHORT && order.side === OrderSide.BUY);
+
+    if (isClosing) {
+      const closedQuantity = Math.min(existing.quantity, order.quantity);
+      const pnl = existing.type === PositionType.LONG
+        ? (fillPrice - existing.entryPrice) * closedQuantity
+        : (existing.entryPrice - fillPrice) * closedQuantity;
+
+      this.accountBalance += pnl;
+      existing.quantity -= closedQuantity;
+
+      if (existing.quantity === 0) {
+        this.positions.delete(order.symbol);
+        this.bracketEntries.delete(order.symbol);
+      }
+    } else {
+      const totalQuantity = existing.quantity + order.quantity;
+      existing.entryPrice = ((existing.entryPrice * existing.quantity) +
+        (fillPrice * order.quantity)) / totalQuantity;
+      existing.quantity = totalQuantity;
+    }
+  }
+
+  /**
+   * Simulate the exchange-side bracket legs. Stops fill at the tick that breaches
+   * them (gaps through the stop are not rescued), targets fill at the target price.
+   */
+  private checkBracketExit(position: Position, ltp: number): void {
+    const isLong = position.type === PositionType.LONG;
+    let exitPrice: number | null = null;
+    let exitReason = '';
+
+    if (position.stopLoss && (isLong ? ltp <= position.stopLoss : ltp >= position.stopLoss)) {
+      exitPrice = ltp;
+      exitReason = 'STOP_LOSS';
+    } else if (position.target && (isLong ? ltp >= position.target : ltp <= position.target)) {
+      exitPrice = position.target;
+      exitReason = 'TARGET';
+    }
+
+    if (exitPrice === null) {
+      return;
+    }
+
+    const exitOrder: BacktestOrder = {
+      orderId: this.generateOrderId(),
+      symbol: position.symbol,
+      side: isLong ? OrderSide.SELL : OrderSide.BUY,
+      type: OrderType.MARKET,
+      quantity: position.quantity,
+      status: OrderStatus.SUBMITTED,
+      filledQuantity: 0,
+      averagePrice: 0,
+      timestamp: clock.date(),
+      broker: 'Backtest'
+    };
+
+    this.orders.set(exitOrder.orderId, exitOrder);
+
+    logger.info(`${exitReason === 'TARGET' ? '🎯' : '🛑'} Backtest bracket exit`, {
+      symbol: position.symbol,
+      exitReason,
+      exitPrice
+    });
+
+    this.fillOrder(exitOrder, exitPrice);
+  }
+
+  private generateOrderId(): string {
+    this.orderSequence++;
+    return `BT-${this.orderSequence}`;
+  }
+}
@@ -1,5 +1,5 @@
 import { EventEmitter } from 'events';
-import { Order, Trade, Position, MarketData, OrderSide, OrderType } from '../types';
+import { Order, OrderModification, Trade, Position, MarketData, MarketQuote, OrderSide, OrderType } from '../types';
 
 export interface IBroker extends EventEmitter {
   connect(): Promise<boolean>;
@@ -15,11 +15,13 @@ export interface IBroker extends EventEmitter {
     target?: number
   ): Promise<Order | null>;
 
+  modifyOrder(orderId: string, changes: OrderModification): Promise<boolean>; // In place - the order stays live at the exchange throughout
   cancelOrder(orderId: string): Promise<boolean>;
   getOrders(): Promise<Order[]>;
   getPositions(): Promise<Position[]>;
   getAccountBalance(): Promise<number>;
   getLTP(symbol: string): Promise<number | null>;
+  getQuote(symbol: string): Promise<MarketQuote | null>; // null when the data source has no full quote
 
   on(event: 'order_update', listener: (order: Order) => void): this;
   on(event: 'trade', listener: (trade: Trade) => void): this;
@@ -44,11 +46,13 @@ export abstract class BaseBroker extends EventEmitter implements IBroker {
     target?: number
   ): Promise<Order | null>;
 
+  abstract modifyOrder(orderId: string, changes: OrderModification): Promise<boolean>;
   abstract cancelOrder(orderId: string): Promise<boolean>;
   abstract getOrders(): Promise<Order[]>;
   abstract getPositions(): Promise<Position[]>;
   abstract getAccountBalance(): Promise<number>;
   abstract getLTP(symbol: string): Promise<number | null>;
+  abstract getQuote(symbol: string): Promise<MarketQuote | null>;
 
   public isConnectedToBroker(): boolean {
     return this.isConnected;
@@ -1,5 +1,5 @@
 import { BaseBroker } from '../base';
-import { Order, Position, OrderSide, OrderType, OrderStatus, PositionType, Trade, BrokerConfig, MarketData } from '../../types';
+import { Order, Position, OrderSide, OrderType, OrderStatus, PositionType, Trade, BrokerConfig, MarketData, MarketQuote, OrderModification } from '../../types';
 import { logger } from '../../utils/logger';
 import { AngelOneClient } from '../angelone/client';
 import { TradingTelegramBot } from '../../telegram/bot';
@@ -8,12 +8,21 @@ import { WebSocketDataFeed } from '../../services/websocketDataFeed';
 import { marketDataCache } from '../../services/marketDataCache';
 import { symbolTokenService } from '../../services/symbolTokenService';
 import { configManager } from '../../config';
+import { volumeTracker } from '../../services/volumeTracker';
+import { FillModel, Fill, FillQuote, RealisticFillModel } from './fillModel';
+import { OfflineMarketFeed } from './offlineFeed';
+import { clock } from '../../utils/clock';
 
 interface SimulatedOrder extends Order {
   submittedAt: Date;
   target?: number;
 }
 
+interface WorkingOrderState {
+  lastVolume: number | null; // Cumulative session volume at the previous evaluation
+  triggered: boolean;        // Stop orders: trigger price has printed
+}
+
 /**
  * Paper Trading Broker - Uses REAL Angel One market data but sends signals to Telegram
  * instead of placing actual orders. Perfect for testing strategies with live data.
@@ -28,28 +37,40 @@ export class PaperBroker extends BaseBroker {
   private angelClient: AngelOneClient | null = null;
   private telegramBot: TradingTelegramBot | null = null;
   private wsDataFeed: WebSocketDataFeed | null = null;
+  // Local data source replacing Angel One entirely (no credentials, no network)
+  private offlineFeed: OfflineMarketFeed | null = null;
 
   // Track monitoring intervals to prevent leaks and duplicate monitoring
   private monitoringIntervals: Map<string, NodeJS.Timeout> = new Map();
+  private bracketEntries: Map<string, string> = new Map(); // Symbol -> entry order whose bracket is monitored
 
   // Market hours configuration
   private marketStartTime: string = '09:15';
   private marketEndTime: string = '15:30';
 
+  // Fill simulation - latency, spread/impact, partial fills and trade-through LIMIT fills
+  private fillModel: FillModel;
+  // Orders waiting on later ticks: unfilled LIMITs, untriggered stops and partial-fill remainders
+  private workingOrders: Map<string, WorkingOrderState> = new Map();
+
   constructor(
     initialBalance: number = 1000000,
     angelConfig?: BrokerConfig,
     telegramConfig?: TelegramConfig,
     watchlist?: string[],
     marketStartTime?: string,
-    marketEndTime?: string
+    marketEndTime?: string,
+    fillModel: FillModel = new RealisticFillModel(),
+    offlineFeed: OfflineMarketFeed | null = null
   ) {
     super();
     this.accountBalance = initialBalance;
     this.startingBalance = initialBalance;
+    this.fillModel = fillModel;
+    this.offlineFeed = offlineFeed;
 
-    // Initialize real Angel One client for data fetching
-    if (angelConfig) {
+    // Initialize real Angel One client for data fetching (not needed with an offline feed)
+    if (angelConfig && !offlineFeed) {
       this.angelClient = new AngelOneClient(angelConfig);
     }
 
@@ -70,6 +91,10 @@ export class PaperBroker extends BaseBroker {
 
   public async connect(): Promise<boolean> {
     try {
+      if (this.offlineFeed) {
+        this.connectOfflineFeed(this.offlineFeed);
+      }
+
       // Connect to real Angel One API for market data
       if (this.angelClient) {
         const connected = await this.angelClient.login();
@@ -91,20 +116,7 @@ export class PaperBroker extends BaseBroker {
             );
 
             // Forward market data events AND update cache
-            this.wsDataFeed.on('market_data', (data: MarketData) => {
-              try {
-                // Update cache for instant access (eliminates API calls)
-                marketDataCache.update(data);
-
-                // Emit market data for strategies to consume
-                this.emit('market_data', data);
-              } catch (dataError: any) {
-                logger.error('Error processing market data', {
-                  error: dataError.message,
-                  symbol: data?.symbol
-                });
-              }
-            });
+            this.wsDataFeed.on('market_data', (data: MarketData) => this.handleMarketData(data));
 
             // CRITICAL: Add error handler to prevent crashes
             this.wsDataFeed.on('error', (error: Error) => {
@@ -170,16 +182,19 @@ export class PaperBroker extends BaseBroker {
           '📱 Signals will be sent to this chat\n' +
           `💰 Starting Balance: ₹${this.startingBalance.toLocaleString('en-IN')}\n\n` +
           '⚠️ No actual orders will be placed\n\n' +
-          '📡 Real-time WebSocket market data streaming'
+          (this.offlineFeed
+            ? '💾 OFFLINE market data (local file / synthetic)'
+            : '📡 Real-time WebSocket market data streaming')
         );
       }
 
       this.isConnected = true;
-      logger.info('Paper broker connected (REAL data mode)');
+      logger.info(`Paper broker connected (${this.offlineFeed ? 'OFFLINE' : 'REAL'} data mode)`);
       logger.audit('PAPER_BROKER_CONNECTED', {
         initialBalance: this.accountBalance,
         realDataEnabled: this.angelClient !== null,
-        dataStreamingEnabled: this.wsDataFeed !== null
+        dataStreamingEnabled: this.wsDataFeed !== null,
+        offlineData: this.offlineFeed !== null
       });
 
       return true;
@@ -196,6 +211,12 @@ export class PaperBroker extends BaseBroker {
       this.wsDataFeed = null;
     }
 
+    if (this.offlineFeed) {
+      this.offlineFeed.stop();
+      this.offlineFeed.removeAllListeners();
+      clock.reset();
+    }
+
     this.isConnected = false;
 
     // Send final summary to Telegram
@@ -215,6 +236,7 @@ export class PaperBroker extends BaseBroker {
     // Clear all data on disconnect
     this.orders.clear();
     this.positions.clear();
+    this.workingOrders.clear();
 
     // FIXED: Clean up all monitoring intervals to prevent memory leaks
     for (const [symbol, interval] of this.monitoringIntervals.entries()) {
@@ -222,6 +244,7 @@ export class PaperBroker extends BaseBroker {
       logger.debug(`Cleaned up monitoring interval for ${symbol}`);
     }
     this.monitoringIntervals.clear();
+    this.bracketEntries.clear();
 
     logger.info('Disconnected from paper broker - all positions, orders, and monitoring cleared');
     logger.audit('PAPER_BROKER_DISCONNECTED', {
@@ -284,10 +307,12 @@ export class PaperBroker extends BaseBroker {
 
       logger.audit('PAPER_ORDER_SIGNAL', order);
 
-      // Simulate order execution for paper trading P&L tracking
+      // Simulate order execution for paper trading P&L tracking, after exchange round-trip latency
       setTimeout(() => {
-        this.simulateOrderExecution(orderId, currentPrice);
-      }, Math.random() * 1000 + 500);
+        this.simulateOrderExecution(orderId, currentPrice).catch((error: any) => {
+          logger.error('Paper order simulation failed', { orderId, error: error.message });
+        });
+      }, this.fillModel.getLatencyMs());
 
       return order;
     } catch (error: any) {
@@ -297,6 +322,43 @@ export class PaperBroker extends BaseBroker {
     }
   }
 
+  /**
+   * Start the offline feed. Its session clock becomes the process-wide clock so the
+   * scheduler, strategies and cache staleness checks follow the simulated session.
+   */
+  private connectOfflineFeed(feed: OfflineMarketFeed): void {
+    clock.use(feed.getClock());
+
+    feed.removeAllListeners();
+    feed.on('market_data', (data: MarketData) => this.handleMarketData(data));
+    feed.on('end', () => {
+      logger.warn('💾 Offline market data exhausted - no further ticks this run');
+    });
+    feed.start();
+
+    logger.info('✅ Offline market data feed started (no Angel One session)', {
+      sessionTime: clock.date().toISOString()
+    });
+  }
+
+  private handleMarketData(data: MarketData): void {
+    try {
+      // Update cache for instant access (eliminates API calls)
+      marketDataCache.update(data);
+
+      // Give working orders a chance to fill on this tick
+      this.processWorkingOrders(data);
+
+      // Emit market data for strategies to consume
+      this.emit('market_data', data);
+    } catch (dataError: any) {
+      logger.error('Error processing market data', {
+        error: dataError.message,
+        symbol: data?.symbol
+      });
+    }
+  }
+
   /**
    * Send trading signal to Telegram
    */
@@ -422,11 +484,13 @@ export class PaperBroker extends BaseBroker {
       // Update position price
       currentPosition.currentPrice = currentPrice;
 
-      // Check stop-loss hit
-      if (position.stopLoss) {
+      const exitSide = position.type === PositionType.LONG ? OrderSide.SELL : OrderSide.BUY;
+
+      // Check stop-loss hit - read from the live position, trailing may have moved it
+      if (currentPosition.stopLoss) {
         const stopLossHit = position.type === PositionType.LONG
-          ? currentPrice <= position.stopLoss
-          : currentPrice >= position.stopLoss;
+          ? currentPrice <= currentPosition.stopLoss
+          : currentPrice >= currentPosition.stopLoss;
 
         if (stopLossHit) {
           clearInterval(monitoringInterval);
@@ -434,22 +498,39 @@ export class PaperBroker extends BaseBroker {
           logger.info('🛑 BRACKET ORDER: Stop-loss triggered automatically', {
             symbol,
             type: 'STOP_LOSS',
-            triggerPrice: `₹${position.stopLoss.toFixed(2)}`,
+            triggerPrice: `₹${currentPosition.stopLoss.toFixed(2)}`,
             currentPrice: `₹${currentPrice.toFixed(2)}`,
             note: 'Simulating exchange-level auto-exit'
           });
-          await this.executeAutomaticExit(symbol, currentPosition, currentPrice, 'STOP_LOSS');
+
+          // FIX: The stop leg is a stop-market order - it fills at the next price after the
+          // trigger (plus spread/impact), not at the trigger, so gaps through the stop cost extra
+          await new Promise(resolve => setTimeout(resolve, this.fillModel.getLatencyMs()));
+          if (this.positions.get(symbol) !== currentPosition || currentPosition.quantity === 0) {
+            return; // Closed elsewhere while the exit was in flight
+          }
+
+          const nextPrice = await this.getRealLTP(symbol) || currentPrice;
+          const stopFill = this.fillModel.fillMarket(
+            exitSide,
+            currentPosition.quantity,
+            this.getExitQuote(symbol, nextPrice)
+          );
+          await this.executeAutomaticExit(symbol, currentPosition, stopFill?.price ?? nextPrice, 'STOP_LOSS');
           return;
         }
       }
 
-      // Check target hit
+      // Check target hit - the target leg is a LIMIT order, so price must trade through it
       if (position.target) {
-        const targetHit = position.type === PositionType.LONG
-          ? currentPrice >= position.target
-          : currentPrice <= position.target;
+        const targetFill = this.fillModel.fillLimit(
+          exitSide,
+          position.target,
+          currentPosition.quantity,
+          this.getExitQuote(symbol, currentPrice)
+        );
 
-        if (targetHit) {
+        if (targetFill) {
           clearInterval(monitoringInterval);
           this.monitoringIntervals.delete(symbol);
           logger.info('🎯 BRACKET ORDER: Target reached automatically', {
@@ -459,7 +540,7 @@ export class PaperBroker extends BaseBroker {
             currentPrice: `₹${currentPrice.toFixed(2)}`,
             note: 'Simulating exchange-level auto-exit'
           });
-          await this.executeAutomaticExit(symbol, currentPosition, currentPrice, 'TARGET');
+          await this.executeAutomaticExit(symbol, currentPosition, targetFill.price, 'TARGET');
           return;
         }
       }
@@ -583,9 +664,20 @@ export class PaperBroker extends BaseBroker {
     });
   }
 
-  private simulateOrderExecution(orderId: string, executionPrice: number): void {
+  /**
+   * Quote for bracket exits - the whole position exits in one order, so no volume cap
+   */
+  private getExitQuote(symbol: string, ltp: number): FillQuote {
+    return {
+      ltp,
+      avgFiveMinVolume: volumeTracker.getAvgFiveMinVolume(symbol),
+      availableVolume: null
+    };
+  }
+
+  private async simulateOrderExecution(orderId: string, fallbackPrice: number): Promise<void> {
     const order = this.orders.get(orderId);
-    if (!order) return;
+    if (!order || order.status !== OrderStatus.SUBMITTED) return; // Cancelled during latency
 
     // SIMULATION 1: Random Rejection (1% chance)
     if (Math.random() < 0.01) {
@@ -596,110 +688,146 @@ export class PaperBroker extends BaseBroker {
       return;
     }
 
-    if (order.type === OrderType.MARKET || order.type === OrderType.LIMIT) {
-      // SIMULATION 2: Realistic Slippage (0.1% to 0.5%)
-      // Direction depends on order side: Buy pays more, Sell gets less
-      const slippagePercent = (Math.random() * 0.004) + 0.001; // 0.1% to 0.5%
-      const slippageAmount = executionPrice * slippagePercent;
-
-      let fillPrice = executionPrice;
-      if (order.type === OrderType.MARKET) {
-        fillPrice = order.side === OrderSide.BUY
-          ? executionPrice + slippageAmount
-          : executionPrice - slippageAmount;
-      } else if (order.type === OrderType.LIMIT && order.price) {
-        // Limit orders execute at limit price or better
-        // Checks if limit price is reachable
-        const limitCheck = order.side === OrderSide.BUY
-          ? executionPrice <= order.price // Buy: current must be <= limit
-          : executionPrice >= order.price; // Sell: current must be >= limit
-
-        if (!limitCheck) {
-          // Limit not reached, don't fill yet (could implement pending queue, but for now just skip/cancel)
-          // Actually paper broker usually fills immediately. 
-          // If limit not reached, we should strictly NOT fill.
-          // But simulateOrderExecution is called via setTimeout from placeOrder.
-          // If we don't fill now, we need a queue. 
-          // For simplicity in Phase 2, if limit allows, we fill at limit (or better).
-          // If not, we cancel or leave pending?
-          // Let's assume user logic checks limit viability.
-          fillPrice = order.price;
-        } else {
-          // Limit reached, fill at limit or market? limit acts as cap.
-          // Usually fills at market if market is better.
-          // Let's use executionPrice (market) but capped at Limit?
-          // Actually if I Buy Limit 100, and Market is 99, I get 99.
-          fillPrice = order.side === OrderSide.BUY
-            ? Math.min(order.price, executionPrice + slippageAmount)
-            : Math.max(order.price, executionPrice - slippageAmount);
-        }
+    // FIX: Price against the quote when the order reaches the exchange, not when it was sent
+    const ltp = await this.getRealLTP(order.symbol) || fallbackPrice;
+
+    this.workingOrders.set(orderId, { lastVolume: null, triggered: false });
+    this.evaluateWorkingOrder(order, ltp, null);
+
+    if (this.workingOrders.has(orderId)) {
+      logger.info('Paper order working - waiting for price/volume', {
+        orderId,
+        symbol: order.symbol,
+        type: order.type,
+        limitPrice: order.price,
+        stopPrice: order.stopPrice,
+        ltp: `₹${ltp.toFixed(2)}`,
+        remaining: order.quantity - order.filledQuantity
+      });
+    }
+  }
+
+  /**
+   * Re-evaluate working orders for the ticked symbol
+   */
+  private processWorkingOrders(data: MarketData): void {
+    for (const orderId of Array.from(this.workingOrders.keys())) {
+      const order = this.orders.get(orderId);
+      if (!order) {
+        this.workingOrders.delete(orderId);
+        continue;
       }
 
-      // SIMULATION 3: Partial Fills (10% chance)
-      let fillQuantity = order.quantity;
-      let status = OrderStatus.FILLED;
-
-      // Only for larger orders (>10 qty) to be realistic
-      if (order.quantity > 10 && Math.random() < 0.10) {
-        const partialPercent = Math.random() * 0.5 + 0.1; // 10% to 60% fill
-        fillQuantity = Math.floor(order.quantity * partialPercent);
-        status = OrderStatus.PARTIALLY_FILLED; // Partial simulated, but effectively done for this one-shot simulation
-        // In real life, remainder stays pending. Here we close it or leave it?
-        // To simplify, we'll mark remaining as cancelled or just fill partial and stop.
-        // Let's simulate "Partial then Cancelled" or just Partial.
-        // If we leave it partial, system might wait.
-        // Let's fill partial and assume remainder is pending (but we won't fill it later in this simple sim).
-        // Actually, TradingEngine handles Partial? 
-        // Logic: if fillResult.status === 'PARTIAL', it logs.
-        // Let's stick to FILLED for now to avoid stuck states, unless verified.
-        // Reverting partial fill for now to avoid complexity in handling "Pending".
-        // Will just log it as simulated partial.
-        logger.info('Simulated Partial Fill scenario (Processed as simplified fill)', {
-          original: order.quantity,
-          wouldBePartial: fillQuantity
+      if (order.symbol === data.symbol) {
+        this.evaluateWorkingOrder(order, data.ltp, data.volume);
+      }
+    }
+  }
+
+  /**
+   * Try to (partially) fill a working order against the current price.
+   * @param cumVolume Cumulative session volume from the tick (null when not tick-driven)
+   */
+  private evaluateWorkingOrder(order: SimulatedOrder, ltp: number, cumVolume: number | null): void {
+    const state = this.workingOrders.get(order.orderId);
+    if (!state) return;
+
+    const isStop = order.type === OrderType.STOP_LOSS || order.type === OrderType.STOP_LOSS_MARKET;
+
+    // Stops become executable on the tick AFTER the trigger prints, so a gap fills through the trigger
+    if (isStop && !state.triggered) {
+      const triggered = order.stopPrice !== undefined && (order.side === OrderSide.BUY
+        ? ltp >= order.stopPrice
+        : ltp <= order.stopPrice);
+
+      if (triggered) {
+        state.triggered = true;
+        state.lastVolume = cumVolume;
+        logger.info('Paper stop order triggered', {
+          orderId: order.orderId,
+          symbol: order.symbol,
+          stopPrice: order.stopPrice,
+          ltp: `₹${ltp.toFixed(2)}`
         });
-        // We will fill FULLY for stability in Phase 2, but log slippage.
       }
+      return;
+    }
 
-      order.status = status; // Keep FILLED
-      order.filledQuantity = fillQuantity; // Full
-      order.averagePrice = fillPrice;
+    // First fill is capped against typical 5-min volume; later slices against volume traded since
+    const avgFiveMinVolume = volumeTracker.getAvgFiveMinVolume(order.symbol);
+    let availableVolume: number | null;
+    if (order.filledQuantity === 0) {
+      availableVolume = avgFiveMinVolume > 0 ? avgFiveMinVolume : null;
+    } else {
+      availableVolume = cumVolume !== null && state.lastVolume !== null
+        ? Math.max(0, cumVolume - state.lastVolume)
+        : 0;
+    }
+    if (cumVolume !== null) {
+      state.lastVolume = cumVolume;
+    }
 
-      this.emitOrderUpdate(order);
+    const quote: FillQuote = { ltp, avgFiveMinVolume, availableVolume };
+    const remaining = order.quantity - order.filledQuantity;
+    const usesLimit = (order.type === OrderType.LIMIT || order.type === OrderType.STOP_LOSS) && order.price;
 
-      const trade: Trade = {
-        tradeId: `TRADE-${orderId}`,
-        symbol: order.symbol,
-        side: order.side,
-        quantity: order.filledQuantity,
-        price: fillPrice,
-        timestamp: new Date(),
-        orderId: orderId
-      };
+    const fill = usesLimit
+      ? this.fillModel.fillLimit(order.side, order.price!, remaining, quote)
+      : this.fillModel.fillMarket(order.side, remaining, quote);
 
-      this.emitTrade(trade);
-      this.updatePosition(order, fillPrice);
+    if (fill) {
+      this.applyFill(order, fill, ltp);
+    }
+  }
 
-      logger.info('Paper order filled', {
-        orderId,
-        symbol: order.symbol,
-        price: `₹${fillPrice.toFixed(2)}`,
-        slippage: `₹${(Math.abs(fillPrice - executionPrice)).toFixed(2)} (${(slippagePercent * 100).toFixed(2)}%)`,
-        quantity: order.filledQuantity
-      });
+  private applyFill(order: SimulatedOrder, fill: Fill, referencePrice: number): void {
+    const filledValue = order.averagePrice * order.filledQuantity + fill.price * fill.quantity;
+    order.filledQuantity += fill.quantity;
+    order.averagePrice = filledValue / order.filledQuantity;
+    order.status = order.filledQuantity >= order.quantity
+      ? OrderStatus.FILLED
+      : OrderStatus.PARTIALLY_FILLED;
 
-      logger.audit('PAPER_ORDER_FILLED', { order, trade, slippagePercent });
+    if (order.status === OrderStatus.FILLED) {
+      this.workingOrders.delete(order.orderId);
     }
+
+    this.emitOrderUpdate(order);
+
+    const trade: Trade = {
+      tradeId: `TRADE-${order.orderId}-${order.filledQuantity}`,
+      symbol: order.symbol,
+      side: order.side,
+      quantity: fill.quantity,
+      price: fill.price,
+      timestamp: new Date(),
+      orderId: order.orderId
+    };
+
+    this.emitTrade(trade);
+    this.updatePosition(order, fill.price, fill.quantity);
+
+    const slippage = Math.abs(fill.price - referencePrice);
+    logger.info(order.status === OrderStatus.FILLED ? 'Paper order filled' : 'Paper order partially filled', {
+      orderId: order.orderId,
+      symbol: order.symbol,
+      price: `₹${fill.price.toFixed(2)}`,
+      slippage: `₹${slippage.toFixed(2)} (${((slippage / referencePrice) * 100).toFixed(2)}%)`,
+      quantity: fill.quantity,
+      filledQuantity: `${order.filledQuantity}/${order.quantity}`
+    });
+
+    logger.audit('PAPER_ORDER_FILLED', { order, trade, referencePrice });
   }
 
-  private updatePosition(order: SimulatedOrder, fillPrice: number): void {
+  private updatePosition(order: SimulatedOrder, fillPrice: number, fillQuantity: number): void {
     const existingPosition = this.positions.get(order.symbol);
 
     if (!existingPosition) {
       const newPosition: Position = {
         symbol: order.symbol,
         type: order.side === OrderSide.BUY ? PositionType.LONG : PositionType.SHORT,
-        quantity: order.quantity,
+        quantity: fillQuantity,
         entryPrice: fillPrice,
         currentPrice: fillPrice,
         pnl: 0,
@@ -718,13 +846,14 @@ export class PaperBroker extends BaseBroker {
 
       // Simulate bracket order behavior - set up auto-exit monitoring
       if (order.stopPrice || order.target) {
+        this.bracketEntries.set(order.symbol, order.orderId);
         this.setupBracketOrderMonitoring(order.symbol, newPosition);
       }
     } else {
       if ((existingPosition.type === PositionType.LONG && order.side === OrderSide.SELL) ||
         (existingPosition.type === PositionType.SHORT && order.side === OrderSide.BUY)) {
 
-        const closedQuantity = Math.min(existingPosition.quantity, order.quantity);
+        const closedQuantity = Math.min(existingPosition.quantity, fillQuantity);
         const pnl = existingPosition.type === PositionType.LONG
           ? (fillPrice - existingPosition.entryPrice) * closedQuantity
           : (existingPosition.entryPrice - fillPrice) * closedQuantity;
@@ -753,9 +882,9 @@ export class PaperBroker extends BaseBroker {
           fillPrice
         });
       } else {
-        const totalQuantity = existingPosition.quantity + order.quantity;
+        const totalQuantity = existingPosition.quantity + fillQuantity;
         const avgPrice = ((existingPosition.entryPrice * existingPosition.quantity) +
-          (fillPrice * order.quantity)) / totalQuantity;
+          (fillPrice * fillQuantity)) / totalQuantity;
 
         existingPosition.quantity = totalQuantity;
         existingPosition.entryPrice = avgPrice;
@@ -777,6 +906,7 @@ export class PaperBroker extends BaseBroker {
     }
 
     order.status = OrderStatus.CANCELLED;
+    this.workingOrders.delete(orderId);
     this.emitOrderUpdate(order);
 
     logger.info('Paper order cancelled', { orderId });
@@ -785,6 +915,79 @@ export class PaperBroker extends BaseBroker {
     return true;
   }
 
+  /**
+   * Modify a working order in place - it keeps working against later ticks with the new
+   * price, trigger or quantity
+   */
+  public async modifyOrder(orderId: string, changes: OrderModification): Promise<boolean> {
+    const order = this.orders.get(orderId);
+    if (!order) {
+      logger.warn('Order not found for modification', { orderId });
+      return false;
+    }
+
+    // A filled bracket entry stands for its stop and target legs, which live on the position
+    if (
+      order.status === OrderStatus.FILLED &&
+      this.bracketEntries.get(order.symbol) === orderId &&
+      this.monitoringIntervals.has(order.symbol)
+    ) {
+      return this.modifyBracketStop(order.symbol, orderId, changes);
+    }
+
+    if (
+      order.status === OrderStatus.FILLED ||
+      order.status === OrderStatus.CANCELLED ||
+      order.status === OrderStatus.REJECTED
+    ) {
+      logger.warn('Cannot modify order', { orderId, status: order.status });
+      return false;
+    }
+
+    if (changes.quantity !== undefined && changes.quantity <= order.filledQuantity) {
+      logger.warn('Cannot modify order below its filled quantity', {
+        orderId,
+        quantity: changes.quantity,
+        filledQuantity: order.filledQuantity
+      });
+      return false;
+    }
+
+    if (changes.price !== undefined) order.price = changes.price;
+    if (changes.triggerPrice !== undefined) order.stopPrice = changes.triggerPrice;
+    if (changes.quantity !== undefined) order.quantity = changes.quantity;
+    this.emitOrderUpdate(order);
+
+    logger.info('Paper order modified', { orderId, ...changes });
+    logger.audit('PAPER_ORDER_MODIFIED', { orderId, ...changes });
+
+    return true;
+  }
+
+  /**
+   * Move the stop of a monitored bracket - the monitor checks the new level from its next tick
+   */
+  private modifyBracketStop(symbol: string, orderId: string, changes: OrderModification): boolean {
+    const position = this.positions.get(symbol);
+    if (!position || changes.triggerPrice === undefined || changes.price !== undefined || changes.quantity !== undefined) {
+      logger.warn('Only the stop-loss trigger of an open bracket can be modified', { orderId, ...changes });
+      return false;
+    }
+
+    const oldStopLoss = position.stopLoss;
+    position.stopLoss = changes.triggerPrice;
+
+    logger.info('Paper bracket stop-loss modified', {
+      orderId,
+      symbol,
+      oldStopLoss: oldStopLoss !== undefined ? `₹${oldStopLoss.toFixed(2)}` : 'N/A',
+      newStopLoss: `₹${changes.triggerPrice.toFixed(2)}`
+    });
+    logger.audit('PAPER_ORDER_MODIFIED', { orderId, ...changes });
+
+    return true;
+  }
+
   public async getOrders(): Promise<Order[]> {
     return Array.from(this.orders.values());
   }
@@ -822,6 +1025,28 @@ export class PaperBroker extends BaseBroker {
     return await this.getRealLTP(symbol);
   }
 
+  /**
+   * Full quote from Angel One - offline feeds have no circuit bands or order book
+   */
+  public async getQuote(symbol: string): Promise<MarketQuote | null> {
+    if (!this.angelClient || !this.angelClient.isAuthenticated()) {
+      return null;
+    }
+
+    try {
+      const symbolToken = await symbolTokenService.getToken(symbol);
+      if (!symbolToken) {
+        logger.warn('Symbol token not found', { symbol });
+        return null;
+      }
+
+      return await this.angelClient.getQuote('NSE', symbol, symbolToken);
+    } catch (error: any) {
+      logger.error('Failed to get real quote', { symbol, error: error.message });
+      return null;
+    }
+  }
+
   /**
    * Update market price - fetches real price if Angel client is available
    */
@@ -0,0 +1,131 @@
+import { OrderSide, PaperFillConfig } from '../../types';
+
+const TICK_SIZE = 0.05; // NSE equity tick size
+
+export const DEFAULT_PAPER_FILL_CONFIG: PaperFillConfig = {
+  latencyMs: 250,
+  latencyJitterMs: 250,
+  spreadBps: 5,
+  impactBps: 10,
+  maxVolumeParticipation: 0.1
+};
+
+/**
+ * Market state a simulated fill is priced against.
+ */
+export interface FillQuote {
+  ltp: number;
+  avgFiveMinVolume: number;       // Average completed 5-min candle volume (0 = unknown)
+  availableVolume: number | null; // Volume this fill may participate in (null = unlimited)
+}
+
+export interface Fill {
+  price: number;
+  quantity: number; // May be less than requested - the remainder stays working
+}
+
+/**
+ * Fill Model - Decides how a simulated order would have filled on the exchange
+ *
+ * PaperBroker delegates every pricing decision here so paper P&L tracks what REAL
+ * mode would have produced instead of filling at the last print.
+ */
+export interface FillModel {
+  /**
+   * Delay between order submission (or a stop trigger) and the fill attempt.
+   */
+  getLatencyMs(): number;
+
+  /**
+   * Fill a marketable order (MARKET, or a stop-market after its trigger) at the current quote.
+   */
+  fillMarket(side: OrderSide, quantity: number, quote: FillQuote): Fill | null;
+
+  /**
+   * Fill a LIMIT order, or return null while price has not traded through the limit.
+   */
+  fillLimit(side: OrderSide, limitPrice: number, quantity: number, quote: FillQuote): Fill | null;
+}
+
+/**
+ * Default fill model:
+ * - Latency: fixed delay plus uniform jitter
+ * - Cost: half the spread (min one tick) plus square-root market impact vs 5-min volume
+ * - Size: each fill takes at most `maxVolumeParticipation` of the available volume
+ * - LIMIT: fills only once price trades strictly through the limit, never worse than the limit
+ * Fill prices are rounded to the tick against the trader.
+ */
+export class RealisticFillModel implements FillModel {
+  private config: PaperFillConfig;
+  private random: () => number;
+
+  constructor(config: PaperFillConfig = DEFAULT_PAPER_FILL_CONFIG, random: () => number = Math.random) {
+    this.config = config;
+    this.random = random;
+  }
+
+  public getLatencyMs(): number {
+    return this.config.latencyMs + this.random() * this.config.latencyJitterMs;
+  }
+
+  public fillMarket(side: OrderSide, quantity: number, quote: FillQuote): Fill | null {
+    const fillQuantity = this.getFillableQuantity(quantity, quote);
+    if (fillQuantity <= 0) {
+      return null;
+    }
+
+    return {
+      price: this.getAdversePrice(side, fillQuantity, quote),
+      quantity: fillQuantity
+    };
+  }
+
+  public fillLimit(side: OrderSide, limitPrice: number, quantity: number, quote: FillQuote): Fill | null {
+    // Touching the limit is not enough - queue position means only a trade-through is a sure fill
+    const tradedThrough = side === OrderSide.BUY
+      ? quote.ltp < limitPrice
+      : quote.ltp > limitPrice;
+
+    if (!tradedThrough) {
+      return null;
+    }
+
+    const fill = this.fillMarket(side, quantity, quote);
+    if (!fill) {
+      return null;
+    }
+
+    return {
+      price: side === OrderSide.BUY
+        ? Math.min(limitPrice, fill.price)
+        : Math.max(limitPrice, fill.price),
+      quantity: fill.quantity
+    };
+  }
+
+  private getFillableQuantity(quantity: number, quote: FillQuote): number {
+    if (quote.availableVolume === null || this.config.maxVolumeParticipation <= 0) {
+      return quantity;
+    }
+
+    return Math.min(quantity, Math.floor(quote.availableVolume * this.config.maxVolumeParticipation));
+  }
+
+  private getAdversePrice(side: OrderSide, quantity: number, quote: FillQuote): number {
+    const halfSpread = Math.max(quote.ltp * this.config.spreadBps / 10000, TICK_SIZE) / 2;
+    const impact = quote.avgFiveMinVolume > 0
+      ? quote.ltp * (this.config.impactBps / 10000) * Math.sqrt(quantity / quote.avgFiveMinVolume)
+      : 0;
+
+    const price = side === OrderSide.BUY
+      ? quote.ltp + halfSpread + impact
+      : quote.ltp - halfSpread - impact;
+
+    // Round to the tick against the trader; epsilon absorbs float noise on exact ticks
+    const ticks = side === OrderSide.BUY
+      ? Math.ceil(price / TICK_SIZE - 1e-9)
+      : Math.floor(price / TICK_SIZE + 1e-9);
+
+    return Math.max(TICK_SIZE, parseFloat((ticks * TICK_SIZE).toFixed(2)));
+  }
+}
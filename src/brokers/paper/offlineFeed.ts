@@ -0,0 +1,265 @@
+import { EventEmitter } from 'events';
+import { MarketData, PaperDataConfig, PaperDataSource } from '../../types';
+import { loadReplayDays } from '../../backtest/dataLoader';
+import { Clock, SimulatedClock, clock, getISTDate, isISTWeekend } from '../../utils/clock';
+import { logger } from '../../utils/logger';
+
+/**
+ * Offline Market Feed - Local market data for PAPER mode without a broker session
+ *
+ * A feed owns its session clock: PaperBroker installs it process-wide on connect, so
+ * market hours, signal windows and cooldowns follow the simulated session (at
+ * `speed`x real time) no matter when or where the bot is run. Emits 'market_data'
+ * with the same MarketData shape as the live WebSocket feed, and 'end' once the data
+ * (or the synthetic session) is exhausted.
+ */
+export interface OfflineMarketFeed extends EventEmitter {
+  getClock(): Clock;
+  start(): void;
+  stop(): void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PUMP_INTERVAL_MS = 100;
+
+/**
+ * Replays recorded ticks or 1-min candles (TickRecorder output, backtest data files).
+ * Multi-day data plays back to back - the clock jumps straight to the next session.
+ */
+export class RecordedTickFeed extends EventEmitter implements OfflineMarketFeed {
+  private ticks: MarketData[];
+  private speed: number;
+  private clock: SimulatedClock;
+  private nextIndex: number = 0;
+  private lastPumpAt: number = 0;
+  private pumpInterval: NodeJS.Timeout | null = null;
+
+  constructor(dataPath: string, symbols: string[], speed: number = 1) {
+    super();
+    const days = loadReplayDays(dataPath, { symbols });
+    this.ticks = days.flatMap(day => day.ticks);
+    if (this.ticks.length === 0) {
+      throw new Error(`No recorded ticks for ${symbols.join(', ') || 'any symbol'} at ${dataPath}`);
+    }
+
+    this.speed = speed;
+    this.clock = new SimulatedClock(this.ticks[0].timestamp);
+
+    logger.info('📼 Recorded offline feed loaded', {
+      path: dataPath,
+      days: days.length,
+      ticks: this.ticks.length,
+      from: days[0].date,
+      to: days[days.length - 1].date
+    });
+  }
+
+  public getClock(): Clock {
+    return this.clock;
+  }
+
+  public start(): void {
+    if (this.pumpInterval) return;
+
+    this.lastPumpAt = Date.now();
+    this.pumpInterval = setInterval(() => this.pump(), PUMP_INTERVAL_MS);
+    this.pump();
+  }
+
+  public stop(): void {
+    if (this.pumpInterval) {
+      clearInterval(this.pumpInterval);
+      this.pumpInterval = null;
+    }
+  }
+
+  private pump(): void {
+    const wallNow = Date.now();
+    this.clock.advance((wallNow - this.lastPumpAt) * this.speed);
+    this.lastPumpAt = wallNow;
+
+    while (this.nextIndex < this.ticks.length) {
+      const tick = this.ticks[this.nextIndex];
+
+      // Overnight gap: skip straight to the next session instead of waiting it out
+      if (this.nextIndex > 0 &&
+        getISTDate(tick.timestamp) !== getISTDate(this.ticks[this.nextIndex - 1].timestamp)) {
+        this.clock.set(Math.max(this.clock.now(), tick.timestamp.getTime()));
+      }
+
+      if (tick.timestamp.getTime() > this.clock.now()) {
+        return;
+      }
+
+      this.nextIndex++;
+      this.emit('market_data', tick);
+    }
+
+    logger.info('📼 Recorded offline feed finished', { ticks: this.ticks.length });
+    this.stop();
+    this.emit('end');
+  }
+}
+
+interface SyntheticSymbolState {
+  open: number;
+  high: number;
+  low: number;
+  ltp: number;
+  volume: number;
+}
+
+/**
+ * Generates a geometric random walk per symbol from today's market open (the previous
+ * weekday on weekends) until market close.
+ */
+export class SyntheticTickFeed extends EventEmitter implements OfflineMarketFeed {
+  private readonly TICK_VOLATILITY = 0.0005; // ~0.05% standard deviation per tick
+  private readonly TICK_SIZE = 0.05;
+
+  private symbols: string[];
+  private tickIntervalMs: number;
+  private speed: number;
+  private sessionEnd: number;
+  private clock: SimulatedClock;
+  private random: () => number;
+  private state: Map<string, SyntheticSymbolState> = new Map();
+  private tickInterval: NodeJS.Timeout | null = null;
+
+  constructor(
+    symbols: string[],
+    marketStartTime: string,
+    marketEndTime: string,
+    tickIntervalMs: number = 1000,
+    speed: number = 1,
+    random: () => number = Math.random
+  ) {
+    super();
+    if (symbols.length === 0) {
+      throw new Error('Synthetic offline feed needs at least one symbol');
+    }
+
+    this.symbols = symbols;
+    this.tickIntervalMs = tickIntervalMs;
+    this.speed = speed;
+    this.random = random;
+
+    const sessionDate = getLatestWeekday();
+    const sessionStart = Date.parse(`${sessionDate}T${marketStartTime}:00+05:30`);
+    this.sessionEnd = Date.parse(`${sessionDate}T${marketEndTime}:00+05:30`);
+    this.clock = new SimulatedClock(sessionStart);
+
+    for (const symbol of symbols) {
+      const open = this.getStartingPrice(symbol);
+      this.state.set(symbol, { open, high: open, low: open, ltp: open, volume: 0 });
+    }
+
+    logger.info('🎲 Synthetic offline feed ready', {
+      symbols: symbols.length,
+      session: `${sessionDate} ${marketStartTime}-${marketEndTime} IST`,
+      tickIntervalMs,
+      speed
+    });
+  }
+
+  public getClock(): Clock {
+    return this.clock;
+  }
+
+  public start(): void {
+    if (this.tickInterval) return;
+
+    this.tickInterval = setInterval(() => this.generateTicks(), this.tickIntervalMs);
+    this.generateTicks();
+  }
+
+  public stop(): void {
+    if (this.tickInterval) {
+      clearInterval(this.tickInterval);
+      this.tickInterval = null;
+    }
+  }
+
+  private generateTicks(): void {
+    if (this.clock.now() > this.sessionEnd) {
+      logger.info('🎲 Synthetic offline feed reached market close');
+      this.stop();
+      this.emit('end');
+      return;
+    }
+
+    for (const symbol of this.symbols) {
+      const s = this.state.get(symbol)!;
+      const move = Math.exp(this.gaussian() * this.TICK_VOLATILITY);
+
+      s.ltp = Math.max(this.TICK_SIZE, Math.round((s.ltp * move) / this.TICK_SIZE) * this.TICK_SIZE);
+      s.ltp = parseFloat(s.ltp.toFixed(2));
+      s.high = Math.max(s.high, s.ltp);
+      s.low = Math.min(s.low, s.ltp);
+      s.volume += Math.round(this.random() * 2000) + 1;
+
+      this.emit('market_data', {
+        symbol,
+        ltp: s.ltp,
+        open: s.open,
+        high: s.high,
+        low: s.low,
+        close: s.ltp,
+        volume: s.volume,
+        timestamp: new Date(this.clock.now())
+      } as MarketData);
+    }
+
+    this.clock.advance(this.tickIntervalMs * this.speed);
+  }
+
+  /**
+   * Stable per-symbol starting price between ₹100 and ₹3000
+   */
+  private getStartingPrice(symbol: string): number {
+    let hash = 0;
+    for (const char of symbol) {
+      hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+    }
+    return 100 + (hash % 2900);
+  }
+
+  /**
+   * Standard normal sample (Box-Muller)
+   */
+  private gaussian(): number {
+    const u = Math.max(this.random(), Number.EPSILON);
+    const v = this.random();
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+}
+
+/**
+ * Today's IST date, or the most recent weekday when run on a weekend.
+ */
+function getLatestWeekday(): string {
+  let time = clock.now();
+  while (isISTWeekend(time)) {
+    time -= DAY_MS;
+  }
+  return getISTDate(time);
+}
+
+/**
+ * Build the offline feed for the configured PAPER data source (null for ANGEL_ONE).
+ */
+export function createOfflineFeed(
+  config: PaperDataConfig,
+  symbols: string[],
+  marketStartTime: string,
+  marketEndTime: string
+): OfflineMarketFeed | null {
+  switch (config.source) {
+    case PaperDataSource.FILE:
+      return new RecordedTickFeed(config.filePath, symbols, config.speed);
+    case PaperDataSource.SYNTHETIC:
+      return new SyntheticTickFeed(symbols, marketStartTime, marketEndTime, config.tickIntervalMs, config.speed);
+    default:
+      return null;
+  }
+}
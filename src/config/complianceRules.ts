@@ -0,0 +1,205 @@
+import fs from "fs";
+
+/**
+ * Compliance Rules - Declarative, ordered pre-trade rule list
+ *
+ * COMPLIANCE_RULES_FILE is a JSON file listing the rules in the order they run, each
+ * with its options. Rules can be switched off with "enabled": false, except the ones
+ * in MANDATORY_COMPLIANCE_RULES. A rule left out of the file still runs, with default
+ * options, at its place in the default order:
+ *
+ *   {
+ *     "rules": [
+ *       { "rule": "killSwitch" },
+ *       { "rule": "idempotency" },
+ *       { "rule": "tradingHours" },
+ *       { "rule": "bannedList", "symbols": ["YESBANK-EQ"] },
+ *       { "rule": "priceBand", "minPrice": 50, "maxPrice": 0 },
+ *       { "rule": "circuitLimit", "circuitBufferPercent": 2 },
+ *       { "rule": "fatFinger", "maxDeviationPercent": 3 },
+ *       { "rule": "maxQuantity", "maxQuantity": 5000 },
+ *       { "rule": "maxOrderValue", "maxOrderValue": 250000 },
+ *       { "rule": "productType" },
+ *       { "rule": "exposure" },
+ *       { "rule": "strategyAllocation" },
+ *       { "rule": "margin" },
+ *       { "rule": "risk" }
+ *     ]
+ *   }
+ *
+ * Without a file DEFAULT_COMPLIANCE_RULES apply.
+ */
+
+export const COMPLIANCE_RULE_NAMES = [
+  "killSwitch",
+  "idempotency",
+  "tradingHours",
+  "bannedList",
+  "priceBand",
+  "circuitLimit",
+  "fatFinger",
+  "maxQuantity",
+  "maxOrderValue",
+  "productType",
+  "exposure",
+  "strategyAllocation",
+  "margin",
+  "risk",
+] as const;
+
+export type ComplianceRuleName = (typeof COMPLIANCE_RULE_NAMES)[number];
+
+export const MANDATORY_COMPLIANCE_RULES: readonly ComplianceRuleName[] = ["killSwitch", "idempotency", "margin", "risk"];
+
+export interface ComplianceRuleOptions {
+  symbols: string[];            // bannedList: symbols that may never be entered
+  minPrice: number;             // priceBand: lowest share price to trade (0 = no minimum)
+  maxPrice: number;             // priceBand: highest share price to trade (0 = no maximum)
+  circuitBufferPercent: number; // circuitLimit: min distance of LTP from the circuit an entry runs into
+  maxDeviationPercent: number;  // fatFinger: max distance of order price, stop and target from LTP
+  maxQuantity: number;          // maxQuantity: shares per order (0 = no cap)
+  maxOrderValue: number;        // maxOrderValue: ₹ per order (0 = no cap)
+}
+
+export interface ComplianceRuleConfig {
+  rule: ComplianceRuleName;
+  enabled: boolean;
+  options: ComplianceRuleOptions;
+}
+
+export const DEFAULT_COMPLIANCE_RULE_OPTIONS: ComplianceRuleOptions = {
+  symbols: [],
+  minPrice: 0,
+  maxPrice: 0,
+  circuitBufferPercent: 1,
+  maxDeviationPercent: 5,
+  maxQuantity: 0,
+  maxOrderValue: 0,
+};
+
+// Options each rule accepts in the file
+const RULE_OPTIONS: Record<ComplianceRuleName, (keyof ComplianceRuleOptions)[]> = {
+  killSwitch: [],
+  idempotency: [],
+  tradingHours: [],
+  bannedList: ["symbols"],
+  priceBand: ["minPrice", "maxPrice"],
+  circuitLimit: ["circuitBufferPercent"],
+  fatFinger: ["maxDeviationPercent"],
+  maxQuantity: ["maxQuantity"],
+  maxOrderValue: ["maxOrderValue"],
+  productType: [],
+  exposure: [],
+  strategyAllocation: [],
+  margin: [],
+  risk: [],
+};
+
+export const DEFAULT_COMPLIANCE_RULES: readonly ComplianceRuleConfig[] = COMPLIANCE_RULE_NAMES.map((rule) => ({
+  rule,
+  enabled: true,
+  options: DEFAULT_COMPLIANCE_RULE_OPTIONS,
+}));
+
+/**
+ * Ordered rule list from a compliance rules file (defaults without one). Throws on
+ * unreadable files and lists every validation error at once.
+ */
+export function loadComplianceRules(filePath: string | null | undefined): ComplianceRuleConfig[] {
+  if (!filePath) {
+    return [...DEFAULT_COMPLIANCE_RULES];
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read compliance rules from ${filePath}: ${error.message}`);
+  }
+
+  if (typeof raw !== "object" || raw === null || !Array.isArray(raw.rules)) {
+    throw new Error(`Compliance rules file ${filePath} must contain a JSON object with a "rules" array`);
+  }
+
+  const errors: string[] = [];
+  const rules: ComplianceRuleConfig[] = [];
+
+  raw.rules.forEach((entry: any, index: number) => {
+    const scope = `rules[${index}]`;
+    if (typeof entry !== "object" || entry === null || !COMPLIANCE_RULE_NAMES.includes(entry.rule)) {
+      errors.push(`${scope}.rule must be one of ${COMPLIANCE_RULE_NAMES.join(", ")}`);
+      return;
+    }
+
+    const name = entry.rule as ComplianceRuleName;
+    if (rules.some((r) => r.rule === name)) {
+      errors.push(`${scope}: ${name} is listed more than once`);
+      return;
+    }
+
+    const options: ComplianceRuleOptions = { ...DEFAULT_COMPLIANCE_RULE_OPTIONS };
+    for (const [key, value] of Object.entries(entry)) {
+      if (key === "rule") continue;
+      if (key === "enabled") {
+        if (typeof value !== "boolean") errors.push(`${scope}.enabled must be true or false`);
+        continue;
+      }
+      if (!(RULE_OPTIONS[name] as string[]).includes(key)) {
+        errors.push(`${scope}.${key} is not an option of ${name}`);
+        continue;
+      }
+
+      const error = key === "symbols"
+        ? checkSymbols(value)
+        : typeof value === "number" && isFinite(value) && value >= 0 ? null : "must be a number, 0 or more";
+      if (error) {
+        errors.push(`${scope}.${key} ${error}`);
+        continue;
+      }
+      (options as unknown as Record<string, unknown>)[key] = value;
+    }
+
+    const enabled = entry.enabled !== false;
+    if (!enabled && MANDATORY_COMPLIANCE_RULES.includes(name)) {
+      errors.push(`${scope}: ${name} cannot be disabled`);
+    }
+    if (name === "fatFinger" && options.maxDeviationPercent === 0) {
+      errors.push(`${scope}.maxDeviationPercent must be more than 0`);
+    }
+    if (name === "priceBand" && options.maxPrice > 0 && options.maxPrice <= options.minPrice) {
+      errors.push(`${scope}.maxPrice must be above minPrice`);
+    }
+
+    rules.push({ rule: name, enabled, options: Object.freeze(options) });
+  });
+
+  if (errors.length > 0) {
+    throw new Error(`Compliance rules validation failed (${filePath}):\n${errors.join("\n")}`);
+  }
+
+  return withOmittedRules(rules);
+}
+
+/**
+ * Add every rule the file leaves out, enabled with default options, ahead of the first
+ * listed rule that comes after it in the default order (at the end if none does).
+ */
+function withOmittedRules(listed: ComplianceRuleConfig[]): ComplianceRuleConfig[] {
+  const rules = [...listed];
+
+  COMPLIANCE_RULE_NAMES.forEach((name, order) => {
+    if (rules.some((r) => r.rule === name)) return;
+
+    const before = rules.findIndex((r) => COMPLIANCE_RULE_NAMES.indexOf(r.rule) > order);
+    const rule = { rule: name, enabled: true, options: DEFAULT_COMPLIANCE_RULE_OPTIONS };
+    rules.splice(before === -1 ? rules.length : before, 0, rule);
+  });
+
+  return rules;
+}
+
+function checkSymbols(value: unknown): string | null {
+  return Array.isArray(value) && value.every((symbol) => typeof symbol === "string")
+    ? null
+    : "must be a list of symbols";
+}
@@ -1,11 +1,25 @@
 import dotenv from "dotenv";
+import fs from "fs";
+import path from "path";
 import {
   AppConfig,
   TradingMode,
   TradingConfig,
   BrokerConfig,
   TelegramConfig,
+  TickRecorderConfig,
+  SignalJournalConfig,
+  PaperFillConfig,
+  PaperDataConfig,
+  PaperDataSource,
+  PositionSizingConfig,
+  PositionSizingPolicy,
+  CandleTimeframe,
+  ExposureLimitsConfig,
+  DrawdownConfig,
+  LossStreakConfig,
 } from "../types";
+import { loadComplianceRules } from "./complianceRules";
 
 dotenv.config();
 
@@ -22,6 +36,25 @@ class ConfigManager {
       trading: this.loadTradingConfig(),
       broker: this.loadBrokerConfig(),
       telegram: this.loadTelegramConfig(),
+      tickRecorder: this.loadTickRecorderConfig(),
+      signalJournal: this.loadSignalJournalConfig(),
+      paperFill: this.loadPaperFillConfig(),
+      paperData: this.loadPaperDataConfig(),
+      positionSizing: this.loadPositionSizingConfig(),
+      exposureLimits: this.loadExposureLimitsConfig(),
+      drawdown: this.loadDrawdownConfig(),
+      lossStreak: this.loadLossStreakConfig(),
+      strategyParamsFile: process.env.STRATEGY_PARAMS_FILE
+        ? path.resolve(process.env.STRATEGY_PARAMS_FILE)
+        : null,
+      complianceRulesFile: process.env.COMPLIANCE_RULES_FILE
+        ? path.resolve(process.env.COMPLIANCE_RULES_FILE)
+        : null,
+      controlApiToken: process.env.CONTROL_API_TOKEN || null,
+      strategies: (process.env.STRATEGIES || "DayHighLowBreakout")
+        .split(",")
+        .map((s) => s.trim())
+        .filter(Boolean),
       logLevel: process.env.LOG_LEVEL || "info",
       enableAuditLog: process.env.ENABLE_AUDIT_LOG === "true",
     };
@@ -87,6 +120,93 @@ class ConfigManager {
     return {
       botToken: process.env.TELEGRAM_BOT_TOKEN || "",
       chatId: process.env.TELEGRAM_CHAT_ID || "",
+      commandsEnabled: process.env.TELEGRAM_COMMANDS_ENABLED === "true",
+    };
+  }
+
+  private loadTickRecorderConfig(): TickRecorderConfig {
+    return {
+      enabled: process.env.RECORD_TICKS === "true",
+      directory:
+        process.env.TICK_RECORD_DIR || path.join(process.cwd(), "data", "ticks"),
+      retentionDays: parseInt(process.env.TICK_RETENTION_DAYS || "30"),
+    };
+  }
+
+  private loadSignalJournalConfig(): SignalJournalConfig {
+    return {
+      enabled: process.env.SIGNAL_JOURNAL !== "false",
+      directory:
+        process.env.SIGNAL_JOURNAL_DIR || path.join(process.cwd(), "data", "signals"),
+      retentionDays: parseInt(process.env.SIGNAL_JOURNAL_RETENTION_DAYS || "90"),
+    };
+  }
+
+  private loadPaperFillConfig(): PaperFillConfig {
+    return {
+      latencyMs: parseInt(process.env.PAPER_FILL_LATENCY_MS || "250"),
+      latencyJitterMs: parseInt(process.env.PAPER_FILL_LATENCY_JITTER_MS || "250"),
+      spreadBps: parseFloat(process.env.PAPER_SPREAD_BPS || "5"),
+      impactBps: parseFloat(process.env.PAPER_IMPACT_BPS || "10"),
+      maxVolumeParticipation: parseFloat(process.env.PAPER_MAX_VOLUME_PARTICIPATION || "0.1"),
+    };
+  }
+
+  private loadPaperDataConfig(): PaperDataConfig {
+    const source = process.env.PAPER_DATA_SOURCE?.toUpperCase() as PaperDataSource;
+
+    return {
+      source: Object.values(PaperDataSource).includes(source)
+        ? source
+        : PaperDataSource.ANGEL_ONE,
+      filePath:
+        process.env.PAPER_DATA_PATH || path.join(process.cwd(), "data", "ticks"),
+      speed: parseFloat(process.env.PAPER_REPLAY_SPEED || "1"),
+      tickIntervalMs: parseInt(process.env.PAPER_SYNTHETIC_TICK_MS || "1000"),
+    };
+  }
+
+  private loadPositionSizingConfig(): PositionSizingConfig {
+    const policy = process.env.SIZING_POLICY?.toUpperCase() as PositionSizingPolicy;
+
+    return {
+      policy: Object.values(PositionSizingPolicy).includes(policy)
+        ? policy
+        : PositionSizingPolicy.FIXED_NOTIONAL,
+      volatilityTargetPercent: parseFloat(process.env.SIZING_VOL_TARGET_PERCENT || "0.5"),
+      atrTimeframe: parseInt(process.env.SIZING_ATR_TIMEFRAME || "5") as CandleTimeframe,
+      atrPeriod: parseInt(process.env.SIZING_ATR_PERIOD || "14"),
+      kellyFraction: parseFloat(process.env.SIZING_KELLY_FRACTION || "0.5"),
+      kellyMaxRiskPercent: parseFloat(process.env.SIZING_KELLY_MAX_RISK_PERCENT || "2"),
+      kellyMinTrades: parseInt(process.env.SIZING_KELLY_MIN_TRADES || "20"),
+    };
+  }
+
+  private loadExposureLimitsConfig(): ExposureLimitsConfig {
+    return {
+      maxGrossExposurePercent: parseFloat(process.env.MAX_GROSS_EXPOSURE_PERCENT || "300"),
+      maxNetExposurePercent: parseFloat(process.env.MAX_NET_EXPOSURE_PERCENT || "200"),
+      maxSectorExposurePercent: parseFloat(process.env.MAX_SECTOR_EXPOSURE_PERCENT || "100"),
+    };
+  }
+
+  private loadDrawdownConfig(): DrawdownConfig {
+    return {
+      reduceSizeAtPercent: parseFloat(process.env.DRAWDOWN_REDUCE_PERCENT || "2"),
+      sizeReductionPercent: parseFloat(process.env.DRAWDOWN_SIZE_REDUCTION_PERCENT || "50"),
+      haltEntriesAtPercent: parseFloat(process.env.DRAWDOWN_HALT_PERCENT || "3"),
+      flattenAtPercent: parseFloat(process.env.DRAWDOWN_FLATTEN_PERCENT || "4"),
+      giveBackActivationPercent: parseFloat(process.env.GIVEBACK_ACTIVATION_PERCENT || "1"),
+      giveBackPercent: parseFloat(process.env.GIVEBACK_PERCENT || "50"),
+    };
+  }
+
+  private loadLossStreakConfig(): LossStreakConfig {
+    return {
+      symbolLossLimit: parseInt(process.env.SYMBOL_LOSS_STREAK_LIMIT || "2"),
+      bookLossLimit: parseInt(process.env.BOOK_LOSS_STREAK_LIMIT || "3"),
+      bookPauseMinutes: parseFloat(process.env.BOOK_LOSS_STREAK_PAUSE_MINUTES || "30"),
+      losingDaySizeReductionPercent: parseFloat(process.env.LOSING_DAY_SIZE_REDUCTION_PERCENT || "50"),
     };
   }
 
@@ -114,8 +234,8 @@ class ConfigManager {
         errors.push("ANGEL_PASSWORD_REAL is required for REAL mode");
       if (!this.config.broker.totpSecret)
         errors.push("ANGEL_TOTP_SECRET_REAL is required for REAL mode");
-    } else {
-      // Check Paper Credentials
+    } else if (!this.isOffline()) {
+      // Check Paper Credentials (offline sources need no broker session)
       if (!this.config.broker.apiKey)
         errors.push("ANGEL_API_KEY_PAPER is required for PAPER mode");
       if (!this.config.broker.clientId)
@@ -126,12 +246,15 @@ class ConfigManager {
         errors.push("ANGEL_TOTP_SECRET_PAPER is required for PAPER mode");
     }
 
-    if (!this.config.telegram.botToken) {
-      errors.push("TELEGRAM_BOT_TOKEN is required");
-    }
+    // Telegram stays optional offline - without a token notifications are simply skipped
+    if (!this.isOffline()) {
+      if (!this.config.telegram.botToken) {
+        errors.push("TELEGRAM_BOT_TOKEN is required");
+      }
 
-    if (!this.config.telegram.chatId) {
-      errors.push("TELEGRAM_CHAT_ID is required");
+      if (!this.config.telegram.chatId) {
+        errors.push("TELEGRAM_CHAT_ID is required");
+      }
     }
 
     if (
@@ -160,6 +283,150 @@ class ConfigManager {
       errors.push("MARKET_END_TIME must be in HH:MM format");
     }
 
+    if (
+      isNaN(this.config.tickRecorder.retentionDays) ||
+      this.config.tickRecorder.retentionDays < 0
+    ) {
+      errors.push("TICK_RETENTION_DAYS must be 0 (keep forever) or a positive number");
+    }
+
+    if (
+      isNaN(this.config.signalJournal.retentionDays) ||
+      this.config.signalJournal.retentionDays < 0
+    ) {
+      errors.push("SIGNAL_JOURNAL_RETENTION_DAYS must be 0 (keep forever) or a positive number");
+    }
+
+    const paperFill = this.config.paperFill;
+    if (
+      [paperFill.latencyMs, paperFill.latencyJitterMs, paperFill.spreadBps, paperFill.impactBps]
+        .some((value) => isNaN(value) || value < 0)
+    ) {
+      errors.push("PAPER_FILL_LATENCY_MS, PAPER_FILL_LATENCY_JITTER_MS, PAPER_SPREAD_BPS and PAPER_IMPACT_BPS must be 0 or positive");
+    }
+
+    if (
+      isNaN(paperFill.maxVolumeParticipation) ||
+      paperFill.maxVolumeParticipation < 0 ||
+      paperFill.maxVolumeParticipation > 1
+    ) {
+      errors.push("PAPER_MAX_VOLUME_PARTICIPATION must be between 0 and 1");
+    }
+
+    if (
+      process.env.PAPER_DATA_SOURCE &&
+      !Object.values(PaperDataSource).includes(
+        process.env.PAPER_DATA_SOURCE.toUpperCase() as PaperDataSource,
+      )
+    ) {
+      errors.push(
+        `PAPER_DATA_SOURCE must be one of ${Object.values(PaperDataSource).join(", ")}`,
+      );
+    }
+
+    if (isNaN(this.config.paperData.speed) || this.config.paperData.speed <= 0) {
+      errors.push("PAPER_REPLAY_SPEED must be a positive number");
+    }
+
+    if (
+      isNaN(this.config.paperData.tickIntervalMs) ||
+      this.config.paperData.tickIntervalMs <= 0
+    ) {
+      errors.push("PAPER_SYNTHETIC_TICK_MS must be a positive number");
+    }
+
+    if (
+      process.env.SIZING_POLICY &&
+      !Object.values(PositionSizingPolicy).includes(
+        process.env.SIZING_POLICY.toUpperCase() as PositionSizingPolicy,
+      )
+    ) {
+      errors.push(
+        `SIZING_POLICY must be one of ${Object.values(PositionSizingPolicy).join(", ")}`,
+      );
+    }
+
+    const sizing = this.config.positionSizing;
+    if (![1, 3, 5, 15].includes(sizing.atrTimeframe)) {
+      errors.push("SIZING_ATR_TIMEFRAME must be 1, 3, 5 or 15");
+    }
+
+    if (
+      [sizing.volatilityTargetPercent, sizing.atrPeriod, sizing.kellyFraction, sizing.kellyMaxRiskPercent]
+        .some((value) => isNaN(value) || value <= 0) ||
+      isNaN(sizing.kellyMinTrades) ||
+      sizing.kellyMinTrades < 0
+    ) {
+      errors.push("SIZING_VOL_TARGET_PERCENT, SIZING_ATR_PERIOD, SIZING_KELLY_FRACTION and SIZING_KELLY_MAX_RISK_PERCENT must be positive; SIZING_KELLY_MIN_TRADES 0 or more");
+    }
+
+    const exposure = this.config.exposureLimits;
+    if (
+      [exposure.maxGrossExposurePercent, exposure.maxNetExposurePercent, exposure.maxSectorExposurePercent]
+        .some((value) => isNaN(value) || value < 0)
+    ) {
+      errors.push("MAX_GROSS_EXPOSURE_PERCENT, MAX_NET_EXPOSURE_PERCENT and MAX_SECTOR_EXPOSURE_PERCENT must be 0 (off) or more");
+    }
+
+    const drawdown = this.config.drawdown;
+    if (
+      Object.values(drawdown).some((value) => isNaN(value) || value < 0) ||
+      drawdown.sizeReductionPercent > 100 ||
+      drawdown.giveBackPercent > 100
+    ) {
+      errors.push("DRAWDOWN_* and GIVEBACK_* settings must be 0 (off) or more; DRAWDOWN_SIZE_REDUCTION_PERCENT and GIVEBACK_PERCENT at most 100");
+    }
+
+    // Enabled stages must escalate: reduce < halt < flatten
+    const stages = [drawdown.reduceSizeAtPercent, drawdown.haltEntriesAtPercent, drawdown.flattenAtPercent]
+      .filter((value) => value > 0);
+    if (stages.some((value, i) => i > 0 && value <= stages[i - 1])) {
+      errors.push("DRAWDOWN_REDUCE_PERCENT, DRAWDOWN_HALT_PERCENT and DRAWDOWN_FLATTEN_PERCENT must increase");
+    }
+
+    const lossStreak = this.config.lossStreak;
+    if (
+      Object.values(lossStreak).some((value) => isNaN(value) || value < 0) ||
+      lossStreak.losingDaySizeReductionPercent > 100
+    ) {
+      errors.push("SYMBOL_LOSS_STREAK_LIMIT, BOOK_LOSS_STREAK_LIMIT, BOOK_LOSS_STREAK_PAUSE_MINUTES and LOSING_DAY_SIZE_REDUCTION_PERCENT must be 0 (off) or more; LOSING_DAY_SIZE_REDUCTION_PERCENT at most 100");
+    }
+
+    if (
+      this.config.strategyParamsFile &&
+      !fs.existsSync(this.config.strategyParamsFile)
+    ) {
+      errors.push(
+        `STRATEGY_PARAMS_FILE not found: ${this.config.strategyParamsFile}`,
+      );
+    }
+
+    if (this.config.complianceRulesFile) {
+      if (!fs.existsSync(this.config.complianceRulesFile)) {
+        errors.push(
+          `COMPLIANCE_RULES_FILE not found: ${this.config.complianceRulesFile}`,
+        );
+      } else {
+        try {
+          loadComplianceRules(this.config.complianceRulesFile);
+        } catch (error: any) {
+          errors.push(error.message);
+        }
+      }
+    }
+
+    if (this.config.controlApiToken !== null && this.config.controlApiToken.length < 16) {
+      errors.push("CONTROL_API_TOKEN must be at least 16 characters");
+    }
+
+    if (this.config.strategies.length === 0) {
+      errors.push("STRATEGIES must name at least one strategy");
+    } else if (
+      new Set(this.config.strategies).size !== this.config.strategies.length
+    ) {
+      errors.push("STRATEGIES must not list a strategy twice");
+    }
+
     if (errors.length > 0) {
       throw new Error(`Configuration validation failed:\n${errors.join("\n")}`);
     }
@@ -178,6 +445,18 @@ class ConfigManager {
     return this.config.trading.mode;
   }
 
+  /**
+   * True when no broker session or network is needed: backtests, and PAPER mode
+   * fed from a local (FILE / SYNTHETIC) data source.
+   */
+  public isOffline(): boolean {
+    return (
+      process.env.BACKTEST === "true" ||
+      (this.config.trading.mode === TradingMode.PAPER &&
+        this.config.paperData.source !== PaperDataSource.ANGEL_ONE)
+    );
+  }
+
   public isKillSwitchActive(): boolean {
     return this.config.trading.killSwitch;
   }
@@ -0,0 +1,238 @@
+import fs from "fs";
+import { StrategyAllocation } from "../types";
+
+/**
+ * Strategy Parameters - Typed, validated tunables per strategy instance
+ *
+ * Each strategy declares its parameter interface, defaults and a schema. Overrides
+ * come from an optional JSON file (STRATEGY_PARAMS_FILE / backtest --params) keyed
+ * by strategy name, with per-symbol overrides layered on top of the strategy defaults:
+ *
+ *   {
+ *     "DayHighLowBreakout": {
+ *       "defaults": { "stopLossPercent": 0.3 },
+ *       "symbols": { "RELIANCE-EQ": { "targetPercent": 0.8 } },
+ *       "allocation": { "capitalPercent": 60, "maxTradesPerDay": 6, "maxDailyLossPercent": 2 }
+ *     }
+ *   }
+ *
+ * "allocation" is the strategy's capital bucket and daily limits (see StrategyAllocator).
+ */
+
+export type ParamRule =
+  | { type: "number" | "integer"; min?: number; max?: number }
+  | { type: "time" } // HH:MM (IST)
+  | { type: "choice"; values: readonly (string | number)[] };
+
+export type ParamSchema<P> = { [K in keyof P]: ParamRule };
+
+export interface StrategyParamOverrides<P> {
+  defaults?: Partial<P>;
+  symbols?: Record<string, Partial<P>>;
+  allocation?: Partial<StrategyAllocation>;
+}
+
+const ALLOCATION_SCHEMA: ParamSchema<StrategyAllocation> = {
+  capitalPercent: { type: "number", min: 0.01, max: 100 },
+  maxTradesPerDay: { type: "integer", min: 1 },
+  maxDailyLossPercent: { type: "number", min: 0.01, max: 100 },
+};
+
+export class StrategyParameters<P extends object> {
+  private readonly defaults: P;
+  private readonly perSymbol: Map<string, P> = new Map();
+
+  constructor(
+    strategyName: string,
+    schema: ParamSchema<P>,
+    baseDefaults: P,
+    overrides: StrategyParamOverrides<P> = {},
+  ) {
+    const errors: string[] = [];
+
+    this.defaults = mergeParams(
+      baseDefaults,
+      overrides.defaults,
+      schema,
+      `${strategyName}.defaults`,
+      errors,
+    );
+
+    for (const [symbol, symbolOverrides] of Object.entries(overrides.symbols || {})) {
+      this.perSymbol.set(
+        symbol,
+        mergeParams(
+          this.defaults,
+          symbolOverrides,
+          schema,
+          `${strategyName}.symbols.${symbol}`,
+          errors,
+        ),
+      );
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`Strategy parameter validation failed:\n${errors.join("\n")}`);
+    }
+  }
+
+  /**
+   * Effective parameters for a symbol (strategy defaults when it has no overrides)
+   */
+  public forSymbol(symbol: string): P {
+    return this.perSymbol.get(symbol) || this.defaults;
+  }
+
+  public getDefaults(): P {
+    return this.defaults;
+  }
+
+  public getOverriddenSymbols(): string[] {
+    return [...this.perSymbol.keys()];
+  }
+}
+
+/**
+ * Read one strategy's section of a parameters file. Returns no overrides when the
+ * file has no entry for the strategy; throws on unreadable or malformed files.
+ */
+export function loadStrategyParamOverrides<P>(
+  filePath: string,
+  strategyName: string,
+): StrategyParamOverrides<P> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+  } catch (error: any) {
+    throw new Error(`Failed to read strategy parameters from ${filePath}: ${error.message}`);
+  }
+
+  if (!isPlainObject(raw)) {
+    throw new Error(`Strategy parameters file ${filePath} must contain a JSON object`);
+  }
+
+  const section = raw[strategyName];
+  if (section === undefined) {
+    return {};
+  }
+
+  const errors: string[] = [];
+  if (!isPlainObject(section)) {
+    errors.push(`${strategyName} must be an object`);
+  } else {
+    for (const key of Object.keys(section)) {
+      if (key !== "defaults" && key !== "symbols" && key !== "allocation") {
+        errors.push(
+          `${strategyName}.${key} is not recognised (expected "defaults", "symbols" or "allocation")`,
+        );
+      }
+    }
+    if (section.defaults !== undefined && !isPlainObject(section.defaults)) {
+      errors.push(`${strategyName}.defaults must be an object`);
+    }
+    if (section.symbols !== undefined) {
+      if (!isPlainObject(section.symbols)) {
+        errors.push(`${strategyName}.symbols must be an object keyed by symbol`);
+      } else {
+        for (const [symbol, value] of Object.entries(section.symbols)) {
+          if (!isPlainObject(value)) {
+            errors.push(`${strategyName}.symbols.${symbol} must be an object`);
+          }
+        }
+      }
+    }
+    if (section.allocation !== undefined) {
+      if (!isPlainObject(section.allocation)) {
+        errors.push(`${strategyName}.allocation must be an object`);
+      } else {
+        mergeParams<Partial<StrategyAllocation>>(
+          {},
+          section.allocation,
+          ALLOCATION_SCHEMA,
+          `${strategyName}.allocation`,
+          errors,
+        );
+      }
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Strategy parameter validation failed (${filePath}):\n${errors.join("\n")}`);
+  }
+
+  return section as StrategyParamOverrides<P>;
+}
+
+/**
+ * Capital allocation for a strategy from the parameters file. Returns an empty
+ * allocation (whole account, global limits) without a file or allocation entry.
+ */
+export function loadStrategyAllocation(
+  filePath: string | null | undefined,
+  strategyName: string,
+): Partial<StrategyAllocation> {
+  if (!filePath) {
+    return {};
+  }
+  return loadStrategyParamOverrides(filePath, strategyName).allocation || {};
+}
+
+function mergeParams<P extends object>(
+  base: P,
+  overrides: Partial<P> | undefined,
+  schema: ParamSchema<P>,
+  scope: string,
+  errors: string[],
+): P {
+  const merged = { ...base };
+
+  for (const [key, value] of Object.entries(overrides || {})) {
+    const rule = (schema as Record<string, ParamRule>)[key];
+    if (!rule) {
+      errors.push(`${scope}.${key} is not a known parameter`);
+      continue;
+    }
+
+    const error = checkParam(value, rule);
+    if (error) {
+      errors.push(`${scope}.${key} ${error}`);
+      continue;
+    }
+
+    (merged as Record<string, unknown>)[key] = value;
+  }
+
+  return Object.freeze(merged);
+}
+
+function checkParam(value: unknown, rule: ParamRule): string | null {
+  if (rule.type === "time") {
+    return typeof value === "string" && /^([0-1][0-9]|2[0-3]):[0-5][0-9]$/.test(value)
+      ? null
+      : "must be a time in HH:MM format";
+  }
+
+  if (rule.type === "choice") {
+    return (typeof value === "string" || typeof value === "number") && rule.values.includes(value)
+      ? null
+      : `must be one of ${rule.values.map((v) => (typeof v === "string" ? `"${v}"` : v)).join(", ")}`;
+  }
+
+  if (typeof value !== "number" || !isFinite(value)) {
+    return "must be a number";
+  }
+  if (rule.type === "integer" && !Number.isInteger(value)) {
+    return "must be a whole number";
+  }
+  if (rule.min !== undefined && value < rule.min) {
+    return `must be at least ${rule.min}`;
+  }
+  if (rule.max !== undefined && value > rule.max) {
+    return `must be at most ${rule.max}`;
+  }
+  return null;
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
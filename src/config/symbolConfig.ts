@@ -57,3 +57,73 @@ export function getSymbolMarginMultiplier(symbol: string): number {
 export function getSymbolConfig(symbol: string): SymbolConfig {
   return SYMBOL_CONFIGS[symbol] ?? { symbol, marginMultiplier: 5 };
 }
+
+/**
+ * Sector of each tradable symbol, used for per-sector exposure limits.
+ * Symbols missing here fall into UNCLASSIFIED_SECTOR, which is limited as one sector.
+ */
+export const UNCLASSIFIED_SECTOR = 'UNCLASSIFIED';
+
+export const SYMBOL_SECTORS: Record<string, string> = {
+  // Banks
+  'HDFCBANK-EQ': 'BANKING',
+  'ICICIBANK-EQ': 'BANKING',
+  'SBIN-EQ': 'BANKING',
+  'KOTAKBANK-EQ': 'BANKING',
+  'AXISBANK-EQ': 'BANKING',
+  // Financial services (NBFCs, capital markets, insurance)
+  'BAJFINANCE-EQ': 'FINANCIAL_SERVICES',
+  'BAJAJFINSV-EQ': 'FINANCIAL_SERVICES',
+  'MUTHOOTFIN-EQ': 'FINANCIAL_SERVICES',
+  'ANGELONE-EQ': 'FINANCIAL_SERVICES',
+  'BSE-EQ': 'FINANCIAL_SERVICES',
+  'HDFCAMC-EQ': 'FINANCIAL_SERVICES',
+  // Information technology
+  'TCS-EQ': 'IT',
+  'INFY-EQ': 'IT',
+  'WIPRO-EQ': 'IT',
+  'HCLTECH-EQ': 'IT',
+  'TECHM-EQ': 'IT',
+  'COFORGE-EQ': 'IT',
+  // Energy, power
+  'RELIANCE-EQ': 'ENERGY',
+  'NTPC-EQ': 'ENERGY',
+  // Automobiles
+  'MARUTI-EQ': 'AUTOMOBILE',
+  'TATAMOTORS-EQ': 'AUTOMOBILE',
+  'BAJAJ-AUTO-EQ': 'AUTOMOBILE',
+  'HEROMOTOCO-EQ': 'AUTOMOBILE',
+  // FMCG
+  'HINDUNILVR-EQ': 'FMCG',
+  'ITC-EQ': 'FMCG',
+  'BRITANNIA-EQ': 'FMCG',
+  // Consumer durables and retail
+  'TITAN-EQ': 'CONSUMER',
+  'ASIANPAINT-EQ': 'CONSUMER',
+  'TRENT-EQ': 'CONSUMER',
+  'DIXON-EQ': 'CONSUMER',
+  'AMBER-EQ': 'CONSUMER',
+  // Cement and construction materials
+  'ULTRACEMCO-EQ': 'CEMENT',
+  'GRASIM-EQ': 'CEMENT',
+  // Capital goods, engineering, defence
+  'LT-EQ': 'CAPITAL_GOODS',
+  'ABB-EQ': 'CAPITAL_GOODS',
+  'CUMMINSIND-EQ': 'CAPITAL_GOODS',
+  'HAL-EQ': 'CAPITAL_GOODS',
+  // Healthcare and pharma
+  'SUNPHARMA-EQ': 'HEALTHCARE',
+  'ALKEM-EQ': 'HEALTHCARE',
+  'APOLLOHOSP-EQ': 'HEALTHCARE',
+  // Telecom
+  'BHARTIARTL-EQ': 'TELECOM',
+};
+
+/**
+ * Get sector for a symbol
+ * @param symbol Trading symbol
+ * @returns Sector name (UNCLASSIFIED if not mapped)
+ */
+export function getSymbolSector(symbol: string): string {
+  return SYMBOL_SECTORS[symbol] ?? UNCLASSIFIED_SECTOR;
+}
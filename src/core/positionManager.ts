@@ -96,6 +96,7 @@ export class PositionManager extends EventEmitter {
         // Emit with complete position data including exit price
         this.emit('position_closed', {
           ...position,
+          quantity: closedQuantity,   // Report the size that was closed, not the zero remainder
           pnl: netPnL,
           pnlPercent,
           currentPrice: trade.price, // Ensure currentPrice is set
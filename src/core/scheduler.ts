@@ -1,6 +1,7 @@
 import * as cron from 'node-cron';
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { Clock, clock as defaultClock, getISTTime, isISTWeekend } from '../utils/clock';
 
 export class MarketScheduler extends EventEmitter {
   private marketStartTime: string; // Data fetching starts (9:15 AM)
@@ -15,15 +16,18 @@ export class MarketScheduler extends EventEmitter {
   private dailySummaryJob: cron.ScheduledTask | null = null;
   private readonly IST_TIMEZONE = 'Asia/Kolkata';
   private readonly DAILY_SUMMARY_TIME = '17:00'; // 5 PM IST
+  private readonly clock: Clock;
 
   constructor(
     marketStartTime: string,
     marketEndTime: string,
     autoSquareOffTime: string,
     signalStartTime: string = '09:30',
-    signalEndTime: string = '15:00'
+    signalEndTime: string = '15:00',
+    clock: Clock = defaultClock
   ) {
     super();
+    this.clock = clock;
     this.marketStartTime = marketStartTime;
     this.marketEndTime = marketEndTime;
     this.autoSquareOffTime = autoSquareOffTime;
@@ -39,9 +43,7 @@ export class MarketScheduler extends EventEmitter {
     this.scheduleDailySummary();
 
     // Get current time in IST for logging
-    const now = new Date();
-    const istTime = new Date(now.toLocaleString('en-US', { timeZone: this.IST_TIMEZONE }));
-    const currentIstTime = istTime.toLocaleString('en-IN', {
+    const currentIstTime = new Date(this.clock.now()).toLocaleString('en-IN', {
       timeZone: this.IST_TIMEZONE,
       hour12: false
     });
@@ -121,41 +123,35 @@ export class MarketScheduler extends EventEmitter {
 
   public isMarketHours(): boolean {
     // Check if market is open for DATA FETCHING (9:15 AM - 3:30 PM)
-    const now = new Date();
-    const istTime = new Date(now.toLocaleString('en-US', { timeZone: this.IST_TIMEZONE }));
+    const now = this.clock.now();
 
     // Check weekends (Saturday = 6, Sunday = 0)
-    const day = istTime.getDay();
-    if (day === 0 || day === 6) {
+    if (isISTWeekend(now)) {
       return false;
     }
 
-    const currentTime = `${String(istTime.getHours()).padStart(2, '0')}:${String(istTime.getMinutes()).padStart(2, '0')}`;
+    const currentTime = getISTTime(now);
 
     return currentTime >= this.marketStartTime && currentTime <= this.marketEndTime;
   }
 
   public isSignalGenerationHours(): boolean {
     // Check if we should GENERATE SIGNALS (9:30 AM - 3:00 PM)
-    const now = new Date();
-    const istTime = new Date(now.toLocaleString('en-US', { timeZone: this.IST_TIMEZONE }));
+    const now = this.clock.now();
 
     // Check weekends (Saturday = 6, Sunday = 0)
-    const day = istTime.getDay();
-    if (day === 0 || day === 6) {
+    if (isISTWeekend(now)) {
       return false;
     }
 
-    const currentTime = `${String(istTime.getHours()).padStart(2, '0')}:${String(istTime.getMinutes()).padStart(2, '0')}`;
+    const currentTime = getISTTime(now);
 
     return currentTime >= this.signalStartTime && currentTime <= this.signalEndTime;
   }
 
   public isAfterSquareOffTime(): boolean {
     // Get current time in IST
-    const now = new Date();
-    const istTime = new Date(now.toLocaleString('en-US', { timeZone: this.IST_TIMEZONE }));
-    const currentTime = `${String(istTime.getHours()).padStart(2, '0')}:${String(istTime.getMinutes()).padStart(2, '0')}`;
+    const currentTime = getISTTime(this.clock.now());
 
     return currentTime >= this.autoSquareOffTime;
   }
@@ -2,11 +2,24 @@ import { EventEmitter } from "events";
 import { IBroker } from "../brokers/base";
 import { AngelOneBroker } from "../brokers/angelone/broker";
 import { PaperBroker } from "../brokers/paper/broker";
-import { RiskManager } from "../risk/riskManager";
+import { RealisticFillModel } from "../brokers/paper/fillModel";
+import { createOfflineFeed } from "../brokers/paper/offlineFeed";
+import { RiskManager, TradeRecord } from "../risk/riskManager";
+import { StrategyAllocator } from "../risk/strategyAllocator";
+import { ExposureLimiter } from "../risk/exposureLimiter";
+import { DrawdownMonitor, DrawdownStageChange } from "../risk/drawdownMonitor";
+import { CompliancePipeline } from "../risk/compliance";
+import { createComplianceRules } from "../risk/complianceRules";
+import {
+  SizingPolicy,
+  SizingResult,
+  createSizingPolicy,
+  summariseTradeOutcomes,
+} from "../risk/positionSizer";
 import { PositionManager } from "./positionManager";
 import { MarketScheduler } from "./scheduler";
 import { IStrategy } from "../strategies/base";
-import { TradingTelegramBot } from "../telegram/bot";
+import { StrategyTradeSummary, TradingTelegramBot } from "../telegram/bot";
 import {
   AppConfig,
   TradingMode,
@@ -16,9 +29,15 @@ import {
   Position,
   Order,
   MarketData,
+  StrategyAllocation,
+  Candle,
+  CandleTimeframe,
 } from "../types";
 import { logger } from "../utils/logger";
 import configManager from "../config";
+import { loadStrategyAllocation } from "../config/strategyParams";
+import { loadComplianceRules } from "../config/complianceRules";
+import { getSymbolMarginMultiplier } from "../config/symbolConfig";
 import { positionLockManager } from "../utils/positionLock";
 import { HeartbeatMonitor } from "../services/heartbeatMonitor";
 import { OrderFillMonitor } from "../services/orderFillMonitor";
@@ -26,38 +45,87 @@ import { StopLossManager } from "../services/stopLossManager";
 import { retry } from "../utils/retry";
 import { orderIdempotencyManager } from "../services/orderIdempotency";
 import { MetricsTracker } from "../services/metricsTracker";
+import { PerformanceTracker } from "../services/performanceTracker";
 import { PositionReconciliationService } from "../services/positionReconciliationService";
 import { DashboardDisplay } from "../services/dashboardDisplay";
 import { healthCheckServer } from "../utils/healthCheck";
+import { CircuitState, circuitBreakerManager } from "../utils/circuitBreaker";
+import { ControlApi, ManualCloseResult, StrategyControlState } from "../services/controlApi";
+import { WebDashboard } from "../services/webDashboard";
+import { metricsRegistry, tradingMetrics } from "../services/prometheusMetrics";
+import {
+  signalJournal,
+  SignalJournalDetails,
+  SignalJournalOutcome,
+  SignalJournalStage,
+} from "../services/signalJournal";
 import { marginChecker } from "../services/marginChecker";
 import { circuitLimitDetector } from "../services/circuitLimitDetector";
+import { Clock, clock, getISTTime } from "../utils/clock";
+import { tickRecorder } from "../services/tickRecorder";
+import { CandleAggregator } from "../services/candleAggregator";
+import { CandleIndicators } from "../indicators/candleIndicators";
+
+export interface TradingEngineOptions {
+  broker?: IBroker; // Use this broker instead of the one selected by trading mode
+  initialBalance?: number; // Starting capital before the broker reports a balance
+  exportDir?: string; // Directory for MetricsTracker CSV exports
+  clock?: Clock; // Time source for market-hours checks (defaults to the process-wide clock)
+}
+
+// Owner of signals handled without a strategy name (e.g. injected directly)
+const UNASSIGNED_STRATEGY = "UNASSIGNED";
+
+interface SymbolOwner {
+  strategy: string;
+  action: "BUY" | "SELL"; // Entry side of the position being held or opened
+}
 
 export class TradingEngine extends EventEmitter {
   private config: AppConfig;
   private broker: IBroker;
   private riskManager: RiskManager;
+  private strategyAllocator: StrategyAllocator;
+  private sizingPolicy: SizingPolicy;
+  private exposureLimiter: ExposureLimiter;
+  private drawdownMonitor: DrawdownMonitor;
+  private compliance: CompliancePipeline;
   private positionManager: PositionManager;
   private scheduler: MarketScheduler;
   private telegramBot: TradingTelegramBot;
   private heartbeatMonitor: HeartbeatMonitor;
   private stopLossManager: StopLossManager;
   private metricsTracker: MetricsTracker;
+  private performanceTracker: PerformanceTracker; // Equity curve for the web dashboard
+  private candleAggregator: CandleAggregator;
+  private indicators: CandleIndicators;
   private positionReconciliation?: PositionReconciliationService;
   private dashboardDisplay?: DashboardDisplay;
   private strategies: Map<string, IStrategy> = new Map();
+  private symbolOwners: Map<string, SymbolOwner> = new Map(); // Which strategy holds each symbol
   private isRunning: boolean = false;
   private initialBalance: number = 0;
   private watchlist: string[] = [];
   private symbolsToTrail: Set<string> = new Set(); // Track symbols that requested trailing SL
+  private circuitExits: Set<string> = new Set(); // Held symbols already exited on a circuit hit
+  private entriesPaused: boolean = false; // Operator /pause - exits keep running
+  private pausedStrategies: Set<string> = new Set(); // Strategies paused over the control API - exits keep running
+  private inFlightSignals: Set<Promise<void>> = new Set(); // Signals still being processed
 
   // Slippage configuration (IMPROVED - Dynamic calculation)
   private readonly SLIPPAGE_BUFFER_MIN = 0.001; // 0.1% minimum expected slippage
   private readonly SLIPPAGE_BUFFER_MAX = 0.005; // 0.5% maximum expected slippage
 
+  // Every entry is an intraday (MIS) order
+  private readonly PRODUCT_TYPE = "INTRADAY";
+
   // Limit order configuration
   private readonly LIMIT_ORDER_TOLERANCE = 0.0015; // 0.15% tolerance for limit orders
   private readonly ORDER_TIMEOUT_MS = 30000; // 30 seconds timeout for limit orders
 
+  // Angel One can list a ROBO order's legs after the entry shows as filled
+  private readonly STOP_LEG_LOOKUP_DELAYS_MS = [500, 1000, 2000]; // Backoff between order-book lookups
+
   // Logging throttle - log strategy feeding every 10 seconds
   private lastStrategyLogTime: Map<string, number> = new Map();
   private readonly STRATEGY_LOG_INTERVAL_MS = 10000; // 10 seconds
@@ -69,26 +137,102 @@ export class TradingEngine extends EventEmitter {
   private reconnectionInterval?: NodeJS.Timeout;
   private readonly RECONNECTION_INTERVAL_MS = 60 * 1000; // Try reconnecting every 1 minute
 
-  constructor(config: AppConfig, watchlist?: string[]) {
+  constructor(
+    config: AppConfig,
+    watchlist?: string[],
+    options: TradingEngineOptions = {},
+  ) {
     super();
     this.config = config;
     this.watchlist = watchlist || [];
 
-    this.broker = this.initializeBroker();
-    this.initialBalance = 1000000;
+    this.broker = options.broker || this.initializeBroker();
+    this.initialBalance = options.initialBalance || 1000000;
     this.riskManager = new RiskManager(
       config.trading.riskLimits,
       this.initialBalance,
+      config.lossStreak,
+    );
+    this.strategyAllocator = new StrategyAllocator(
+      config.trading.riskLimits,
+      this.initialBalance,
+    );
+    this.sizingPolicy = createSizingPolicy(config.positionSizing);
+    this.exposureLimiter = new ExposureLimiter(config.exposureLimits);
+    this.drawdownMonitor = new DrawdownMonitor(
+      config.drawdown,
+      this.initialBalance,
     );
     this.positionManager = new PositionManager(this.broker);
+    this.candleAggregator = new CandleAggregator();
+    // Subscribes to closed bars ahead of the strategy forwarding in setupEventHandlers
+    this.indicators = new CandleIndicators(this.candleAggregator);
     this.scheduler = new MarketScheduler(
       config.trading.marketStartTime,
       config.trading.marketEndTime,
       config.trading.autoSquareOffTime,
       config.trading.signalStartTime,
       config.trading.signalEndTime,
+      options.clock,
     );
+    // Everything below is read when a rule runs, not captured now
+    const engine = this;
+    this.compliance = new CompliancePipeline(
+      createComplianceRules(loadComplianceRules(config.complianceRulesFile), {
+        isKillSwitchActive: () => configManager.isKillSwitchActive(),
+        claimOrder: (orderKey, symbol, side) =>
+          orderIdempotencyManager.canPlaceOrder(orderKey, symbol, side),
+        isEntryWindowOpen: () =>
+          this.scheduler.isMarketHours() &&
+          this.scheduler.isSignalGenerationHours() &&
+          !this.scheduler.isAfterSquareOffTime(),
+        getOpenPositions: () => this.positionManager.getAllPositions(),
+        getStrategyExposure: (strategy) => this.getStrategyExposure(strategy),
+        checkMargin: (orderValue) =>
+          marginChecker.checkMarginAvailable(
+            this.broker,
+            orderValue,
+            this.config.trading.riskLimits.marginMultiplier,
+          ),
+        get exposureLimiter() {
+          return engine.exposureLimiter;
+        },
+        get strategyAllocator() {
+          return engine.strategyAllocator;
+        },
+        get riskManager() {
+          return engine.riskManager;
+        },
+      }),
+    );
+    logger.info("🛡️ Pre-trade compliance rules", {
+      rules: this.compliance.getRuleNames(),
+    });
     this.telegramBot = new TradingTelegramBot(config.telegram);
+    this.telegramBot.setCommandHandlers({
+      status: () => this.sendStatusReport(),
+      positions: () => this.sendPositionsReport(),
+      pnl: () => this.sendPnLReport(),
+      risk: () => this.sendRiskStatsReport(),
+      pause: async () => this.setEntriesPaused(true),
+      resume: async () => this.setEntriesPaused(false),
+      closePosition: async (symbol) => {
+        const result = await this.closePositionManually(symbol, "Closed from Telegram");
+        if (result === "NO_POSITION") return `No open position in ${symbol}`;
+        if (result === "BUSY") return `${symbol} is busy with another order - try again`;
+        return `🔴 Close order placed for ${symbol}`;
+      },
+      flatten: async () => {
+        const count = await this.flattenPositions("Flattened from Telegram");
+        return `🔴 Close orders placed for ${count} position(s)`;
+      },
+      setKillSwitch: async (active) => {
+        this.setKillSwitch(active, "telegram");
+        return active
+          ? "🔴 Kill switch ON - all trading stopped. Open positions are untouched: /flatten to close them."
+          : "🟢 Kill switch OFF - trading allowed";
+      },
+    });
 
     // FIX #4: Initialize heartbeat monitor
     this.heartbeatMonitor = new HeartbeatMonitor();
@@ -97,15 +241,92 @@ export class TradingEngine extends EventEmitter {
     this.stopLossManager = new StopLossManager(this.broker);
 
     // Initialize metrics tracker
-    this.metricsTracker = new MetricsTracker(this.initialBalance);
+    this.metricsTracker = new MetricsTracker(
+      this.initialBalance,
+      options.exportDir,
+    );
+    this.performanceTracker = new PerformanceTracker(this.initialBalance);
+
+    metricsRegistry.setCollector("tradingEngine", () => {
+      tradingMetrics.openPositions.set({}, this.positionManager.getAllPositions().length);
+      tradingMetrics.realizedPnL.set({}, this.riskManager.getRiskStats().dailyPnL);
+      tradingMetrics.unrealizedPnL.set({}, this.positionManager.getTotalPnL());
+      for (const stats of circuitBreakerManager.getAllStats()) {
+        for (const state of Object.values(CircuitState)) {
+          tradingMetrics.circuitBreakerState.set(
+            { breaker: stats.name, state },
+            stats.state === state ? 1 : 0,
+          );
+        }
+        tradingMetrics.circuitBreakerFailures.set({ breaker: stats.name }, stats.failureCount);
+      }
+    });
+
+    if (config.controlApiToken) {
+      healthCheckServer.setMetricsToken(config.controlApiToken);
+      healthCheckServer.setControlApi(
+        new ControlApi(config.controlApiToken, {
+          getPositions: () => this.positionManager.getAllPositions(),
+          getOrders: () => this.broker.getOrders(),
+          getRiskStats: () => this.riskManager.getRiskStats(),
+          getLiveMetrics: () => this.metricsTracker.getLiveMetrics(),
+          getCircuitBreakers: () => circuitBreakerManager.getAllStats(),
+          getStrategies: () => this.getStrategyStates(),
+          setStrategyPaused: (name, paused) => this.setStrategyPaused(name, paused),
+          setKillSwitch: (active) => this.setKillSwitch(active, "api"),
+          closePosition: (symbol) => this.closePositionManually(symbol, "Closed from control API"),
+          flatten: () => this.flattenPositions("Flattened from control API"),
+          updateRiskLimits: (limits) => {
+            this.riskManager.updateRiskLimits(limits);
+            return this.riskManager.getRiskLimits();
+          },
+          getSignalJournal: (query) => signalJournal.query(query),
+          getSignalFunnel: (date, strategy) => signalJournal.getFunnel(date, strategy),
+        }),
+      );
+      healthCheckServer.setDashboard(
+        new WebDashboard(config.controlApiToken, {
+          getStatus: () => ({
+            mode: this.config.trading.mode,
+            killSwitch: configManager.isKillSwitchActive(),
+            entriesPaused: this.entriesPaused,
+          }),
+          getLiveMetrics: () => this.metricsTracker.getLiveMetrics(),
+          getPositions: () => this.positionManager.getAllPositions(),
+          getTodayTrades: () => this.riskManager.getDailyTrades(),
+          getEquityCurve: () => this.performanceTracker.getEquityCurve(),
+          getBreakoutLevels: () =>
+            [...this.strategies.values()].flatMap((strategy) =>
+              (strategy.getBreakoutLevels?.() ?? []).map((levels) => ({
+                ...levels,
+                strategy: strategy.getName(),
+              })),
+            ),
+          getFeedHealth: () => ({
+            alive: this.heartbeatMonitor.isDataFeedAlive(),
+            msSinceLastData: this.heartbeatMonitor.getTimeSinceLastData(),
+          }),
+        }),
+      );
+    }
 
     this.setupEventHandlers();
   }
 
   private initializeBroker(): IBroker {
     if (this.config.trading.mode === TradingMode.PAPER) {
-      logger.info("Initializing PAPER trading mode with REAL data");
-      // Paper mode uses real Angel One data but sends Telegram signals instead of orders
+      // Paper mode uses real Angel One data (or an offline feed) but sends Telegram signals instead of orders
+      const offlineFeed = createOfflineFeed(
+        this.config.paperData,
+        this.watchlist,
+        this.config.trading.marketStartTime,
+        this.config.trading.marketEndTime,
+      );
+      logger.info(
+        offlineFeed
+          ? `Initializing PAPER trading mode with OFFLINE data (${this.config.paperData.source})`
+          : "Initializing PAPER trading mode with REAL data",
+      );
       return new PaperBroker(
         1000000, // Initial balance
         this.config.broker, // Angel One config for real data
@@ -113,6 +334,8 @@ export class TradingEngine extends EventEmitter {
         this.watchlist, // Watchlist for market data fetching
         this.config.trading.marketStartTime, // Market start time for data control
         this.config.trading.marketEndTime, // Market end time for data control
+        new RealisticFillModel(this.config.paperFill), // Latency, spread, impact and partial fills
+        offlineFeed, // Local data source - replaces the Angel One session when set
       );
     } else {
       logger.info("Initializing REAL trading mode");
@@ -136,7 +359,7 @@ export class TradingEngine extends EventEmitter {
       this.heartbeatMonitor.recordDataReceived();
 
       // Throttle logging - log every 10 seconds per symbol
-      const now = Date.now();
+      const now = clock.now();
       const lastLog = this.lastStrategyLogTime.get(data.symbol) || 0;
 
       if (now - lastLog >= this.STRATEGY_LOG_INTERVAL_MS) {
@@ -151,6 +374,9 @@ export class TradingEngine extends EventEmitter {
         });
       }
 
+      // Close any finished bars first so strategies see the candle before the tick after it
+      this.candleAggregator.onTick(data);
+
       // Feed data to all active strategies (happens on every tick, just throttle logging)
       for (const strategy of this.strategies.values()) {
         strategy.onMarketData(data);
@@ -158,31 +384,63 @@ export class TradingEngine extends EventEmitter {
 
       // NEW: Trailing Stop-Loss Engine
       this.handleTrailingStopLoss(data);
+
+      // Held symbols trading at their circuit band
+      this.handleCircuitHit(data).catch((error) => {
+        logger.error("Circuit hit handling failed", {
+          symbol: data.symbol,
+          error: error.message,
+        });
+      });
+    });
+
+    this.candleAggregator.on("candle_closed", (candle: Candle, timeframe: CandleTimeframe) => {
+      for (const strategy of this.strategies.values()) {
+        strategy.onCandle?.(candle, timeframe);
+      }
     });
 
     this.positionManager.on("position_opened", (position: Position) => {
+      position.strategy = this.symbolOwners.get(position.symbol)?.strategy;
       logger.info("Position opened", position);
 
-      // Keep every strategy's context in sync and trigger cooldown/state logic
+      // Positions picked up from the broker were never quoted - fetch their circuit bands
+      if (!circuitLimitDetector.getBands(position.symbol)) {
+        this.broker
+          .getQuote(position.symbol)
+          .then((quote) => quote && circuitLimitDetector.recordQuote(quote))
+          .catch(() => undefined);
+      }
+
+      // Every strategy sees the symbol as occupied; only the owner runs its cooldown/state logic
       for (const strategy of this.strategies.values()) {
         strategy.setContextPosition(position.symbol, position);
-        strategy.onPositionUpdate(position);
+        if (this.isPositionOwner(strategy, position)) {
+          strategy.onPositionUpdate(position);
+        }
       }
     });
 
     this.positionManager.on("position_closed", (position: any) => {
+      // Positions replaced by broker updates lose the stamp - the owner map still has it
+      position.strategy =
+        position.strategy || this.symbolOwners.get(position.symbol)?.strategy;
+      this.symbolOwners.delete(position.symbol);
+      this.circuitExits.delete(position.symbol);
       logger.info("Position closed", position);
 
-      // Remove from every strategy's context and notify for cooldown/state reset
+      // Remove from every strategy's context and notify the owner for cooldown/state reset
       for (const strategy of this.strategies.values()) {
         strategy.removeContextPosition(position.symbol);
-        strategy.onPositionUpdate({ ...position, quantity: 0 });
+        if (this.isPositionOwner(strategy, position)) {
+          strategy.onPositionUpdate({ ...position, quantity: 0 });
+        }
       }
 
       // Record trade with detailed information for daily summary
       const pnlPercent =
         (position.pnl / (position.entryPrice * position.quantity)) * 100;
-      this.riskManager.recordTrade(position.pnl, {
+      const netPnL = this.riskManager.recordTrade(position.pnl, {
         symbol: position.symbol,
         side: position.type === "LONG" ? "SELL" : "BUY", // Closing side
         quantity: position.quantity,
@@ -190,15 +448,25 @@ export class TradingEngine extends EventEmitter {
         exitPrice: position.currentPrice || position.exitPrice,
         pnlPercent: pnlPercent,
         entryTime: position.entryTime,
-        exitTime: position.exitTime || new Date(),
+        exitTime: position.exitTime || clock.date(),
+        strategy: position.strategy,
       });
 
+      // Strategy attribution and the drawdown breaker use the same net figure as the daily loss limit
+      if (position.strategy) {
+        this.strategyAllocator.recordTrade(position.strategy, netPnL);
+      }
+
+      // Realized now - the closed position is already out of the open P&L
+      this.drawdownMonitor.recordTrade(netPnL);
+      this.drawdownMonitor.update(this.positionManager.getTotalPnL());
+
       // IMPROVEMENT: Record trade in metrics tracker for comprehensive analytics
       const exitPrice = position.currentPrice || position.exitPrice;
       const entryPrice = position.entryPrice;
       const holdTimeMs = position.exitTime
         ? position.exitTime.getTime() - position.entryTime.getTime()
-        : Date.now() - position.entryTime.getTime();
+        : clock.now() - position.entryTime.getTime();
 
       // Calculate actual slippage (approximate - would need entry order price for exact)
       const actualSlippage =
@@ -207,7 +475,7 @@ export class TradingEngine extends EventEmitter {
       this.metricsTracker.recordTrade({
         symbol: position.symbol,
         entryTime: position.entryTime,
-        exitTime: position.exitTime || new Date(),
+        exitTime: position.exitTime || clock.date(),
         side: position.type === "LONG" ? "SELL" : "BUY",
         entryPrice: position.entryPrice,
         exitPrice: exitPrice,
@@ -224,6 +492,18 @@ export class TradingEngine extends EventEmitter {
               ? "LOSS"
               : "BREAKEVEN",
         exitReason: position.exitReason || "MANUAL",
+        strategy: position.strategy,
+      });
+
+      this.performanceTracker.recordTrade({
+        symbol: position.symbol,
+        side: position.type === "LONG" ? "BUY" : "SELL", // Entry side
+        entryPrice: position.entryPrice,
+        exitPrice: exitPrice,
+        quantity: position.quantity,
+        entryTime: position.entryTime,
+        exitTime: position.exitTime || clock.date(),
+        reason: position.exitReason || "MANUAL",
       });
 
       // Send enhanced Telegram notification with full trade details
@@ -237,7 +517,7 @@ export class TradingEngine extends EventEmitter {
           exitPrice: position.currentPrice || position.exitPrice,
           quantity: position.quantity,
           entryTime: position.entryTime,
-          exitTime: position.exitTime || new Date(),
+          exitTime: position.exitTime || clock.date(),
         },
       );
     });
@@ -279,26 +559,82 @@ export class TradingEngine extends EventEmitter {
       logger.warn("Approaching daily loss limit", data);
     });
 
+    this.riskManager.on("symbol_blocked", async (data: any) => {
+      await this.telegramBot.sendRiskAlert(
+        "Symbol Blocked",
+        `${data.symbol}: ${data.losses} consecutive losses\n\nNo new entries in ${data.symbol} for the rest of the day.`,
+      );
+    });
+
+    this.riskManager.on("entries_paused", async (data: any) => {
+      await this.telegramBot.sendRiskAlert(
+        "Entries Paused",
+        `${data.losses} consecutive losses across the book\n\nNo new entries for ${data.minutes} minutes (until ${getISTTime(data.pausedUntil)} IST).`,
+      );
+    });
+
+    // Staged de-risking on intraday drawdown: size down, stop entries, lock in, flatten
+    this.drawdownMonitor.on(
+      "stage_changed",
+      async (change: DrawdownStageChange) => {
+        const summary =
+          `${change.reason}\n` +
+          `Day P&L: ₹${change.dayPnL.toFixed(2)} (peak ₹${change.peakPnL.toFixed(2)})`;
+
+        switch (change.stage) {
+          case "REDUCED":
+            await this.telegramBot.sendRiskAlert(
+              "Drawdown - Size Reduced",
+              `${summary}\n\nNew entries are ${this.config.drawdown.sizeReductionPercent}% smaller for the rest of the day.`,
+            );
+            break;
+          case "HALTED":
+            await this.telegramBot.sendRiskAlert(
+              "Drawdown - New Entries Stopped",
+              `${summary}\n\nOpen positions keep their stops and targets.`,
+            );
+            break;
+          case "LOCKED":
+            await this.telegramBot.sendRiskAlert(
+              "Profit Give-Back - Locking In",
+              `${summary}\n\nAll positions will be closed; no new entries today.`,
+            );
+            await this.closeAllPositions("Profit give-back limit reached");
+            break;
+          case "FLATTENED":
+            await this.activateEmergencyShutdown(
+              `Intraday drawdown limit: ${change.reason}`,
+            );
+            break;
+        }
+      },
+    );
+
+    // A strategy that hits its own loss limit stops for the day; the others keep trading
+    this.strategyAllocator.on(
+      "strategy_loss_limit_reached",
+      async (data: any) => {
+        await this.telegramBot.sendRiskAlert(
+          "Strategy Loss Limit Reached",
+          `Strategy: ${data.strategy}\nDaily P&L: ₹${data.dailyPnL.toFixed(2)}\nLimit: ₹${data.limit.toFixed(2)}\n\n${data.strategy} positions will be closed.`,
+        );
+        await this.closeStrategyPositions(
+          data.strategy,
+          "Strategy daily loss limit reached",
+        );
+      },
+    );
+
     this.scheduler.on("market_open", async () => {
       logger.info(
         "🟢 Market opened - starting strategies and resetting daily data",
       );
-
-      // Reset daily data for fresh start (Paper mode)
-      if (this.config.trading.mode === TradingMode.PAPER) {
-        (this.broker as any).resetDailyData?.();
-        logger.info("📅 Daily market data reset - starting fresh");
-      }
-
-      // WebSocket already connected, just start strategies
-      await this.startStrategies();
+      await this.startTradingDay();
     });
 
     this.scheduler.on("market_close", async () => {
       logger.info("🔴 Market closed - stopping strategies");
-
-      // WebSocket stays connected, just stop strategies
-      await this.stopStrategies();
+      await this.endTradingDay();
     });
 
     this.scheduler.on("auto_square_off", async () => {
@@ -313,6 +649,7 @@ export class TradingEngine extends EventEmitter {
 
     this.scheduler.on("update_prices", async () => {
       await this.positionManager.updateMarketPrices();
+      this.drawdownMonitor.update(this.positionManager.getTotalPnL());
     });
 
     this.scheduler.on("daily_summary", async () => {
@@ -320,6 +657,16 @@ export class TradingEngine extends EventEmitter {
       await this.sendDailySummaryReport();
     });
 
+    // A trailing update whose cancel/re-place fallback lost the broker stop
+    this.stopLossManager.on("stop_loss_missing", async (data: any) => {
+      await this.telegramBot.sendAlert(
+        "🚨 STOP-LOSS MISSING",
+        `${data.symbol} has no broker stop-loss after a failed update.\n` +
+          `Intended stop: ₹${data.stopLossPrice.toFixed(2)}\n\n` +
+          `Place a stop manually or close the position.`,
+      );
+    });
+
     // FIX #4: Heartbeat monitor event handlers
     this.heartbeatMonitor.on("data_feed_dead", async (data: any) => {
       const timeoutMinutes = Math.floor(data.timeSinceData / 60000);
@@ -365,15 +712,36 @@ export class TradingEngine extends EventEmitter {
           `Peak: ₹${data.peakBalance.toFixed(2)}`,
       );
     });
-
-    // NOTE: Telegram command handlers disabled (notification-only mode)
-    // Commands like /status, /positions, etc. are not available
-    // The bot only sends notifications and alerts
   }
 
-  public addStrategy(strategy: IStrategy): void {
+  /**
+   * Register a strategy with its capital bucket and daily limits. Without an explicit
+   * allocation the strategy's "allocation" entry in the parameters file is used, and
+   * without that it gets the whole account and the global risk limits.
+   */
+  public addStrategy(
+    strategy: IStrategy,
+    allocation: Partial<StrategyAllocation> = loadStrategyAllocation(
+      this.config.strategyParamsFile,
+      strategy.getName(),
+    ),
+  ): void {
+    this.strategyAllocator.register(strategy.getName(), allocation);
+    strategy.setContextIndicators?.(this.indicators);
+
     strategy.on("signal", async (signal: StrategySignal) => {
-      await this.handleStrategySignal(signal);
+      // Tag every signal with its origin for conflict handling and P&L attribution
+      const tagged = { ...signal, strategy: signal.strategy || strategy.getName() };
+      tradingMetrics.signalsEmitted.inc({ strategy: tagged.strategy, action: signal.action });
+      this.journalSignal(tagged, "strategy", "PASSED", "signal", signal.price ?? null);
+
+      const task = this.handleStrategySignal(tagged);
+      this.inFlightSignals.add(task);
+      try {
+        await task;
+      } finally {
+        this.inFlightSignals.delete(task);
+      }
     });
 
     strategy.on("error", (error: Error) => {
@@ -392,6 +760,119 @@ export class TradingEngine extends EventEmitter {
     logger.info("Strategy added", { name: strategy.getName() });
   }
 
+  /**
+   * A held symbol trading at its circuit band is exited at once. Against the position
+   * (long at the lower band, short at the upper) the exit joins the queue early - once
+   * the stock locks, stop-losses can't fill. In its favour there is no shortage of
+   * takers at the band, so the gain is booked before a freeze or a reversal.
+   */
+  private async handleCircuitHit(data: MarketData): Promise<void> {
+    if (this.circuitExits.has(data.symbol)) return;
+
+    const position = this.positionManager.getPosition(data.symbol);
+    const bands = circuitLimitDetector.getBands(data.symbol);
+    if (!position || !bands) return;
+
+    const status = circuitLimitDetector.isAtCircuitLimit(
+      data.ltp,
+      bands.upper,
+      bands.lower,
+    );
+    if (!status.atCircuit) return;
+
+    this.circuitExits.add(data.symbol);
+    const adverse = (position.type === "LONG") === (status.type === "LOWER");
+    const reason = `${status.type === "UPPER" ? "Upper" : "Lower"} circuit hit at ₹${status.limit?.toFixed(2)}`;
+
+    logger.warn(`🧱 ${reason} on held ${data.symbol} - exiting`, {
+      position: position.type,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      ltp: data.ltp,
+      adverse,
+    });
+    logger.audit("CIRCUIT_HIT", {
+      symbol: data.symbol,
+      circuit: status.type,
+      limit: status.limit,
+      position: position.type,
+      quantity: position.quantity,
+      entryPrice: position.entryPrice,
+      adverse,
+    });
+    await this.telegramBot.sendAlert(
+      adverse ? "🚨 CIRCUIT HIT - Against Position" : "🧱 Circuit Hit - In Favour",
+      `${data.symbol} ${position.type} ${position.quantity} @ ₹${position.entryPrice.toFixed(2)}\n` +
+        `${reason}\n` +
+        (adverse
+          ? "Exit placed - it may not fill until the band opens. Check the position manually."
+          : "Exit placed to book the move before the stock freezes."),
+    );
+
+    await positionLockManager.withLock(data.symbol, async () => {
+      if (this.positionManager.hasPosition(data.symbol)) {
+        await this.closePosition(data.symbol, reason);
+      }
+    });
+  }
+
+  /**
+   * Register a filled entry's broker-side stop with the stop-loss manager. A ROBO entry's
+   * stop is its own leg order in the order book; the paper and backtest brokers keep the
+   * bracket on the entry order, and modifying that order moves the stop.
+   */
+  private async trackBracketStop(
+    symbol: string,
+    entryOrderId: string,
+    entrySide: OrderSide,
+    quantity: number,
+    stopLoss: number,
+    target?: number,
+  ): Promise<void> {
+    let stopLossOrderId = entryOrderId;
+
+    if (this.config.trading.mode === TradingMode.REAL) {
+      const stopLeg = await this.findStopLossLeg(entryOrderId);
+      if (!stopLeg) {
+        logger.warn("⚠️ ROBO stop-loss leg not found - the stop cannot be trailed", {
+          symbol,
+          entryOrderId,
+        });
+        await this.telegramBot.sendAlert(
+          "⚠️ TRAILING STOP OFF",
+          `${symbol}: the stop-loss leg of ROBO order ${entryOrderId} was not found in the order book.\n` +
+            `The stop stays where it was placed and will not trail - manage it manually if needed.`,
+        );
+        return;
+      }
+      stopLossOrderId = stopLeg.orderId;
+    }
+
+    const exitSide = entrySide === OrderSide.BUY ? OrderSide.SELL : OrderSide.BUY;
+    this.stopLossManager.trackStopLoss(symbol, entryOrderId, stopLossOrderId, exitSide, quantity, stopLoss, target);
+  }
+
+  /**
+   * Look up a ROBO entry's stop-loss leg, backing off between lookups while the
+   * broker has not listed it yet. Null when it never shows up.
+   */
+  private async findStopLossLeg(entryOrderId: string): Promise<Order | null> {
+    for (let attempt = 0; ; attempt++) {
+      // getOrders returns [] on a broker error - treated like a leg not listed yet
+      const orders = await this.broker.getOrders();
+      const stopLeg = orders.find(
+        (o) =>
+          o.parentOrderId === entryOrderId &&
+          (o.type === OrderType.STOP_LOSS || o.type === OrderType.STOP_LOSS_MARKET),
+      );
+      if (stopLeg) return stopLeg;
+
+      const delayMs = this.STOP_LEG_LOOKUP_DELAYS_MS[attempt];
+      if (delayMs === undefined) return null;
+      await new Promise((resolve) => setTimeout(resolve, delayMs));
+    }
+  }
+
   /**
    * Core Trailing Stop-Loss Logic
    * 1. 0.3% profit -> Move SL to Break-Even (Entry Price)
@@ -481,13 +962,13 @@ export class TradingEngine extends EventEmitter {
   }
 
   private async handleStrategySignal(signal: StrategySignal): Promise<void> {
-    if (configManager.isKillSwitchActive()) {
-      logger.warn("Signal ignored - kill switch active", signal);
-      return;
-    }
+    const strategyName = signal.strategy || UNASSIGNED_STRATEGY;
 
     if (!this.scheduler.isMarketHours()) {
       logger.warn("Signal ignored - outside market hours", signal);
+      this.recordSignalRejected(signal, "outside_market_hours", null, {
+        time: getISTTime(clock.now()),
+      });
       return;
     }
 
@@ -500,11 +981,17 @@ export class TradingEngine extends EventEmitter {
           action: signal.action,
         },
       );
+      this.recordSignalRejected(signal, "outside_signal_hours", null, {
+        time: getISTTime(clock.now()),
+      });
       return;
     }
 
     if (this.scheduler.isAfterSquareOffTime()) {
       logger.warn("Signal ignored - after square-off time", signal);
+      this.recordSignalRejected(signal, "after_square_off", null, {
+        time: getISTTime(clock.now()),
+      });
       return;
     }
 
@@ -514,37 +1001,60 @@ export class TradingEngine extends EventEmitter {
     const result = await positionLockManager.withLock(
       signal.symbol,
       async () => {
+        let orderSettled = false; // Filled and journaled - later failures are not the entry's
         try {
+          if (this.isOwnedByOtherStrategy(signal, strategyName)) {
+            this.recordSignalRejected(signal, "symbol_owned_by_other_strategy", null, {
+              owner: this.symbolOwners.get(signal.symbol)?.strategy ?? null,
+            });
+            return;
+          }
+
           if (signal.action === "CLOSE") {
             await this.closePosition(signal.symbol, signal.reason);
             return;
           }
 
-          // IMPROVEMENT: Check order idempotency BEFORE any processing
+          if (this.entriesPaused) {
+            logger.warn("Signal ignored - new entries paused by operator", {
+              symbol: signal.symbol,
+              action: signal.action,
+              strategy: strategyName,
+            });
+            this.recordSignalRejected(signal, "entries_paused");
+            return;
+          }
+
+          if (this.pausedStrategies.has(strategyName)) {
+            logger.warn("Signal ignored - strategy paused by operator", {
+              symbol: signal.symbol,
+              action: signal.action,
+              strategy: strategyName,
+            });
+            this.recordSignalRejected(signal, "strategy_paused");
+            return;
+          }
+
+          if (!this.drawdownMonitor.canOpenNewPositions()) {
+            logger.warn("Signal ignored - new entries stopped by drawdown breaker", {
+              symbol: signal.symbol,
+              action: signal.action,
+              strategy: strategyName,
+              stage: this.drawdownMonitor.getStage(),
+            });
+            this.recordSignalRejected(signal, "drawdown_breaker", null, {
+              drawdownStage: this.drawdownMonitor.getStage(),
+            });
+            return;
+          }
+
+          // Keyed on the signal as received - the idempotency rule claims it in the compliance pipeline
           const orderKey = orderIdempotencyManager.generateOrderKey(
             signal.symbol,
             signal.action,
             signal.quantity || 0,
           );
 
-          if (
-            !orderIdempotencyManager.canPlaceOrder(
-              orderKey,
-              signal.symbol,
-              signal.action,
-            )
-          ) {
-            logger.warn(
-              "Order rejected by idempotency check - duplicate order",
-              {
-                orderKey,
-                symbol: signal.symbol,
-                action: signal.action,
-              },
-            );
-            return; // Exit early, duplicate order
-          }
-
           // Get current price with retry
           const currentPrice = await retry(
             () => this.broker.getLTP(signal.symbol),
@@ -555,10 +1065,6 @@ export class TradingEngine extends EventEmitter {
               symbol: signal.symbol,
               error: error.message,
             });
-            orderIdempotencyManager.markOrderFailed(
-              orderKey,
-              "Price fetch failed",
-            );
             return null;
           });
 
@@ -566,34 +1072,23 @@ export class TradingEngine extends EventEmitter {
             logger.warn("Price fetch failed - skipping signal", {
               symbol: signal.symbol,
             });
+            this.recordSignalRejected(signal, "no_price");
             return;
           }
 
-          // IMPROVEMENT: Check Circuit Limits
-          // If buying and at upper circuit, or selling and at lower circuit, SKIP
-          // We don't have exact circuit limits from API in getLTP usually, but we might have it in quote.
-          // For now using approximate or if we had quote data.
-          // Broker.getLTP only returns number.
-          // We will assume 10% or 20% limits or check if currentPrice is suspiciously round or static?
-          // Actually circuitLimitDetector needs upper/lower limits.
-          // We need to fetch FULL market quote to get circuit limits.
-          // BaseBroker.getLTP returns price. We might need `getQuote` or similar.
-          // AngelOneBroker has `wsDataFeed` which has snapshots.
-          // But `handleSignal` uses `this.broker.getLTP`.
-          // Let's rely on `circuitLimitDetector` logic.
-          // Wait, `circuitLimitDetector.isAtCircuitLimit` takes `price`, `upperLimit`, `lowerLimit`.
-          // We don't have limits here yet.
-          // We need to fetch limits. This is an API limitation in `IBroker`.
-          // For Phase 1, we might skip this if we can't reliably get limits without changing IBroker.
-          // OR we can implement `getQuote` in IBroker.
-          // Let's look at `AngelOneBroker`. It has `client.getLTP`.
-          // Does `client` support getting quote with limits? Yes `getQuote`.
-          // I will SKIP this for now as per plan "Approximate" or "skip if at limit".
-          // If I can't get limits, I can't check.
-          // I'll add a TODO or basic check if I can.
-          // For now, I'll proceed without it to unblock, as `CircuitLimitDetector` exists but data is missing.
-          // Actually, the plan says "Implement ... Integrate".
-          // I'll create `getMarketQuote` in IBroker later.
+          // Full quote for the circuit bands - the circuitLimit rule checks the entry against them
+          const quote =
+            (await this.broker.getQuote(signal.symbol).catch((error) => {
+              logger.warn("Quote fetch failed - circuit bands unknown", {
+                symbol: signal.symbol,
+                error: error.message,
+              });
+              return null;
+            })) ?? null;
+          if (quote) {
+            circuitLimitDetector.recordQuote(quote);
+          }
+
           // For now, I will use `SLIPPAGE_BUFFER_MIN` for conservative slippage estimate
           const slippageBuffer = this.SLIPPAGE_BUFFER_MIN;
 
@@ -627,86 +1122,46 @@ export class TradingEngine extends EventEmitter {
           this.riskManager.updateBalance(currentBalance);
           this.metricsTracker.updateBalance(currentBalance);
 
-          // Calculate quantity: always use 5x margin multiplier
+          // Size with the configured policy on the strategy's capital bucket and the symbol's margin
           let quantity = signal.quantity;
+          let sizing: SizingResult | undefined;
           if (!quantity) {
-            const MARGIN_MULTIPLIER = 5;
-            const positionSizePct =
-              this.config.trading.riskLimits.positionSizePercent || 10;
-            const capitalForTrade =
-              (positionSizePct / 100) * currentBalance * MARGIN_MULTIPLIER;
-            quantity = Math.floor(capitalForTrade / currentPrice);
-
-            logger.info("Quantity calculated", {
+            sizing = this.calculateQuantity(
+              signal,
+              strategyName,
+              currentPrice,
+              stopLoss,
+              currentBalance,
+            );
+            quantity = sizing.quantity;
+          }
+
+          // Smaller entries after drawdown stage 1 and on the day after a losing day
+          const drawdownMultiplier = this.drawdownMonitor.getSizeMultiplier();
+          const losingDayMultiplier = this.riskManager.getSizeMultiplier();
+          const sizeMultiplier = drawdownMultiplier * losingDayMultiplier;
+          if (sizeMultiplier < 1) {
+            const reducedQuantity = Math.floor(quantity * sizeMultiplier);
+            logger.info("📉 Entry down-sized by de-risking rules", {
               symbol: signal.symbol,
-              currentPrice: `₹${currentPrice.toFixed(2)}`,
-              currentBalance: `₹${currentBalance.toFixed(2)}`,
-              capitalForTrade: `₹${capitalForTrade.toFixed(2)}`,
-              finalQuantity: quantity,
-              orderValue: `₹${(quantity * currentPrice).toFixed(2)}`,
+              quantity,
+              reducedQuantity,
+              drawdownMultiplier,
+              losingDayMultiplier,
             });
+            quantity = reducedQuantity;
           }
 
           if (quantity === 0) {
             logger.warn("Calculated quantity is 0", { signal });
-            orderIdempotencyManager.markOrderFailed(orderKey, "Zero quantity");
-            return;
-          }
-
-          // BEFORE placing order, check margin
-          const marginCheck = await marginChecker.checkMarginAvailable(
-            this.broker,
-            quantity * adjustedEntryPrice,
-            this.config.trading.riskLimits.marginMultiplier,
-          );
-
-          if (!marginCheck.available) {
-            logger.error("Insufficient margin", {
-              required: marginCheck.required,
-              available: marginCheck.margin,
+            this.recordSignalRejected(signal, "zero_quantity", currentPrice, {
+              sizedQuantity: sizing?.quantity ?? signal.quantity ?? 0,
+              sizeMultiplier,
+              balance: currentBalance,
             });
-            await this.telegramBot.sendAlert(
-              "⚠️ INSUFFICIENT MARGIN",
-              `Required: ₹${marginCheck.required.toFixed(2)}\nAvailable: ₹${marginCheck.margin.toFixed(2)}`,
-            );
-            orderIdempotencyManager.markOrderFailed(
-              orderKey,
-              "Insufficient margin",
-            );
             return;
           }
 
-          const openPositions = this.positionManager.getAllPositions().length;
-
-          const riskCheck = this.riskManager.checkOrderRisk(
-            signal.symbol,
-            signal.action === "BUY" ? OrderSide.BUY : OrderSide.SELL,
-            quantity,
-            adjustedEntryPrice,
-            stopLoss,
-            openPositions, // ✅ Pass count
-          );
-
-          if (!riskCheck.allowed) {
-            logger.warn("Risk check failed", {
-              signal,
-              reason: riskCheck.reason,
-            });
-            orderIdempotencyManager.markOrderFailed(
-              orderKey,
-              riskCheck.reason || "Risk check failed",
-            );
-            return;
-          }
-
-          // Register for trailing if requested
-          if (signal.useTrailingSL) {
-            this.symbolsToTrail.add(signal.symbol);
-            logger.info(
-              `📝 Symbol registered for Trailing SL: ${signal.symbol}`,
-            );
-          }
-
           // IMPROVEMENT: Determine order type based on trading mode
           const side = signal.action === "BUY" ? OrderSide.BUY : OrderSide.SELL;
           const useROBOOrder = this.config.trading.mode === TradingMode.REAL;
@@ -727,6 +1182,64 @@ export class TradingEngine extends EventEmitter {
                 : currentPrice * (1 - this.LIMIT_ORDER_TOLERANCE); // 0.15% below LTP
           }
 
+          // Ordered pre-trade rules (COMPLIANCE_RULES_FILE): may reject or shrink the order
+          const compliance = await this.compliance.evaluate({
+            symbol: signal.symbol,
+            side,
+            quantity,
+            price: adjustedEntryPrice,
+            limitPrice,
+            ltp: currentPrice,
+            quote,
+            stopLoss,
+            target: signal.target,
+            productType: this.PRODUCT_TYPE,
+            strategy: strategyName,
+            balance: currentBalance,
+            orderKey,
+          });
+
+          for (const decision of compliance.decisions) {
+            if (decision.alert) {
+              await this.telegramBot.sendAlert(
+                decision.alert,
+                `${signal.action} ${signal.symbol} (${strategyName})\n${decision.reason}`,
+              );
+            }
+          }
+
+          if (!compliance.allowed) {
+            logger.warn("🚫 Signal rejected by pre-trade compliance", {
+              signal,
+              rule: compliance.rejectedBy,
+              reason: compliance.reason,
+            });
+            // A duplicate never claimed the key - the attempt holding it is not this one's to fail
+            if (compliance.rejectedBy !== "idempotency") {
+              orderIdempotencyManager.markOrderFailed(
+                orderKey,
+                compliance.reason || "Compliance check failed",
+              );
+            }
+            this.recordSignalRejected(
+              signal,
+              compliance.rejectedBy || "unknown",
+              currentPrice,
+              { quantity, detail: compliance.reason ?? null },
+              "compliance",
+            );
+            return;
+          }
+          quantity = compliance.quantity;
+
+          // Register for trailing if requested
+          if (signal.useTrailingSL) {
+            this.symbolsToTrail.add(signal.symbol);
+            logger.info(
+              `📝 Symbol registered for Trailing SL: ${signal.symbol}`,
+            );
+          }
+
           logger.info("📋 Placing order", {
             symbol: signal.symbol,
             side,
@@ -739,6 +1252,12 @@ export class TradingEngine extends EventEmitter {
             quantity,
           });
 
+          // Claim the symbol before the order goes out - fills can arrive before placeOrder returns
+          this.symbolOwners.set(signal.symbol, {
+            strategy: strategyName,
+            action: signal.action,
+          });
+
           // Place order with retry
           const order = await retry(
             () =>
@@ -763,6 +1282,9 @@ export class TradingEngine extends EventEmitter {
           });
 
           if (!order) {
+            this.releaseSymbol(signal.symbol);
+            tradingMetrics.orders.inc({ event: "place_failed" });
+            this.journalSignal(signal, "execution", "REJECTED", "order_failed", currentPrice, { quantity });
             logger.error("❌ Failed to place order", { signal });
             await this.telegramBot.sendAlert(
               "❌ Order Failed",
@@ -781,6 +1303,7 @@ export class TradingEngine extends EventEmitter {
 
           // Mark order as completed
           orderIdempotencyManager.markOrderCompleted(orderKey, order.orderId);
+          tradingMetrics.orders.inc({ event: "placed" });
 
           // IMPROVEMENT: Set up order timeout for LIMIT orders (not needed for ROBO)
           let orderCancelled = false;
@@ -825,6 +1348,10 @@ export class TradingEngine extends EventEmitter {
           }
 
           if (orderCancelled) {
+            this.releaseSymbol(signal.symbol);
+            this.journalSignal(signal, "execution", "REJECTED", "order_timeout", currentPrice, {
+              orderId: order.orderId,
+            });
             logger.info(
               "Order was cancelled due to timeout - skipping further processing",
             );
@@ -835,6 +1362,11 @@ export class TradingEngine extends EventEmitter {
             fillResult.status === "FAILED" ||
             fillResult.status === "TIMEOUT"
           ) {
+            this.releaseSymbol(signal.symbol);
+            this.journalSignal(signal, "execution", "REJECTED", "not_filled", currentPrice, {
+              orderId: order.orderId,
+              status: fillResult.status,
+            });
             logger.error("❌ Order did not fill", {
               orderId: order.orderId,
               status: fillResult.status,
@@ -853,6 +1385,16 @@ export class TradingEngine extends EventEmitter {
           const actualSlippage = Math.abs(
             (fillPrice - currentPrice) / currentPrice,
           );
+          tradingMetrics.slippage.observe(
+            { strategy: strategyName },
+            actualSlippage * 10000,
+          );
+          orderSettled = true;
+          this.journalSignal(signal, "execution", "FILLED", "filled", currentPrice, {
+            quantity: filledQuantity,
+            fillPrice,
+            slippageBps: Number((actualSlippage * 10000).toFixed(1)),
+          });
 
           logger.info("📊 Order fill analysis", {
             orderId: order.orderId,
@@ -888,6 +1430,11 @@ export class TradingEngine extends EventEmitter {
             );
           }
 
+          // Trailing moves the stop the broker holds - hand it to the stop-loss manager
+          if (filledQuantity > 0) {
+            await this.trackBracketStop(signal.symbol, order.orderId, side, filledQuantity, stopLoss, signal.target);
+          }
+
           // Get account info for telegram
           const balance = await this.broker.getAccountBalance();
           const positions = this.positionManager.getAllPositions();
@@ -907,6 +1454,7 @@ export class TradingEngine extends EventEmitter {
 
           logger.audit("SIGNAL_EXECUTED", {
             signal,
+            sizing: sizing || { policy: "SIGNAL", inputs: { quantity: signal.quantity } },
             order,
             filledQuantity,
             fillPrice,
@@ -915,6 +1463,12 @@ export class TradingEngine extends EventEmitter {
             orderType: useROBOOrder ? "ROBO" : "LIMIT",
           });
         } catch (error: any) {
+          this.releaseSymbol(signal.symbol);
+          if (!orderSettled) {
+            this.journalSignal(signal, "execution", "REJECTED", "error", null, {
+              message: error.message,
+            });
+          }
           logger.error("Error handling strategy signal", error);
           await this.telegramBot.sendAlert(
             "Signal Execution Error",
@@ -929,9 +1483,166 @@ export class TradingEngine extends EventEmitter {
         "Signal processing skipped - position lock could not be acquired",
         { signal },
       );
+      this.recordSignalRejected(signal, "symbol_locked");
+    }
+  }
+
+  /**
+   * Count a signal the engine did not act on and journal where it stopped. Compliance
+   * rejections are journaled under the rule's name and counted as compliance_<rule>.
+   */
+  private recordSignalRejected(
+    signal: StrategySignal,
+    reason: string,
+    price: number | null = null,
+    details?: SignalJournalDetails,
+    stage: SignalJournalStage = "engine",
+  ): void {
+    tradingMetrics.signalsRejected.inc({
+      strategy: signal.strategy || UNASSIGNED_STRATEGY,
+      reason: stage === "compliance" ? `compliance_${reason}` : reason,
+    });
+    this.journalSignal(signal, stage, "REJECTED", reason, price ?? signal.price ?? null, details);
+  }
+
+  /**
+   * Journal an entry signal's outcome at one stage - exits (CLOSE) are not candidates
+   */
+  private journalSignal(
+    signal: StrategySignal,
+    stage: SignalJournalStage,
+    outcome: SignalJournalOutcome,
+    reason: string,
+    price: number | null,
+    details?: SignalJournalDetails,
+  ): void {
+    if (signal.action === "CLOSE") return;
+
+    signalJournal.record(
+      {
+        strategy: signal.strategy || UNASSIGNED_STRATEGY,
+        symbol: signal.symbol,
+        direction: signal.action,
+        price,
+        time: clock.now(),
+      },
+      stage,
+      outcome,
+      reason,
+      details,
+    );
+  }
+
+  /**
+   * Quantity from the configured sizing policy (SIZING_POLICY) for a signal without one.
+   */
+  private calculateQuantity(
+    signal: StrategySignal,
+    strategyName: string,
+    currentPrice: number,
+    stopLoss: number,
+    currentBalance: number,
+  ): SizingResult {
+    const riskLimits = this.config.trading.riskLimits;
+    const sizingConfig = this.config.positionSizing;
+    const outcomes = summariseTradeOutcomes(
+      this.metricsTracker
+        .getAllTrades()
+        .filter((trade) => (trade.strategy || UNASSIGNED_STRATEGY) === strategyName)
+        .map((trade) => trade.pnl),
+    );
+
+    const sizing = this.sizingPolicy.calculate({
+      symbol: signal.symbol,
+      entryPrice: currentPrice,
+      stopLoss,
+      allocatedCapital: this.strategyAllocator.getAllocatedCapital(
+        strategyName,
+        currentBalance,
+      ),
+      marginMultiplier: signal.marginMultiplier || getSymbolMarginMultiplier(signal.symbol),
+      positionSizePercent: riskLimits.positionSizePercent || 10,
+      maxRiskPerTradePercent: riskLimits.maxRiskPerTradePercent,
+      atr: this.indicators.atr(signal.symbol, sizingConfig.atrTimeframe, sizingConfig.atrPeriod),
+      outcomes,
+    });
+
+    logger.info("Quantity calculated", {
+      symbol: signal.symbol,
+      strategy: strategyName,
+      policy: sizing.policy,
+      currentPrice: `₹${currentPrice.toFixed(2)}`,
+      currentBalance: `₹${currentBalance.toFixed(2)}`,
+      ...sizing.inputs,
+      finalQuantity: sizing.quantity,
+      orderValue: `₹${(sizing.quantity * currentPrice).toFixed(2)}`,
+    });
+
+    return sizing;
+  }
+
+  /**
+   * A symbol belongs to the strategy holding (or opening) a position in it until that
+   * position closes. Signals from any other strategy for the symbol are rejected - both
+   * entries that would stack on the position and opposite-side signals that would trade
+   * against it. Positions without an owner (synced from the broker) are not guarded.
+   */
+  private isOwnedByOtherStrategy(
+    signal: StrategySignal,
+    strategyName: string,
+  ): boolean {
+    const owner = this.symbolOwners.get(signal.symbol);
+    if (!owner || owner.strategy === strategyName) {
+      return false;
+    }
+
+    const conflict = {
+      symbol: signal.symbol,
+      owner: owner.strategy,
+      ownerSide: owner.action,
+      rejected: strategyName,
+      rejectedAction: signal.action,
+      reason: signal.reason,
+    };
+
+    if (signal.action === owner.action) {
+      logger.info(
+        `Signal ignored - ${signal.symbol} already held by ${owner.strategy}`,
+        conflict,
+      );
+    } else {
+      logger.warn(
+        `⚔️ Strategy conflict on ${signal.symbol} - ${owner.strategy} keeps the symbol`,
+        conflict,
+      );
+      logger.audit("STRATEGY_CONFLICT", conflict);
+    }
+    return true;
+  }
+
+  /**
+   * Drop the owner claim of an entry that never produced a position
+   */
+  private releaseSymbol(symbol: string): void {
+    if (!this.positionManager.hasPosition(symbol)) {
+      this.symbolOwners.delete(symbol);
     }
   }
 
+  private isPositionOwner(strategy: IStrategy, position: Position): boolean {
+    return !position.strategy || position.strategy === strategy.getName();
+  }
+
+  /**
+   * Notional of the strategy's open positions, counted against its capital bucket
+   */
+  private getStrategyExposure(strategyName: string): number {
+    return this.positionManager
+      .getAllPositions()
+      .filter((p) => this.symbolOwners.get(p.symbol)?.strategy === strategyName)
+      .reduce((sum, p) => sum + p.entryPrice * p.quantity, 0);
+  }
+
   private async closePosition(symbol: string, reason: string): Promise<void> {
     // Note: This is called within withLock, so no need to re-acquire lock
     const position = this.positionManager.getPosition(symbol);
@@ -965,6 +1676,99 @@ export class TradingEngine extends EventEmitter {
     }
   }
 
+  /**
+   * Operator pause: strategies keep running and exits still go out, but no new entries
+   */
+  public setEntriesPaused(paused: boolean): string {
+    this.entriesPaused = paused;
+    logger.warn(paused ? "⏸️ New entries paused by operator" : "▶️ New entries resumed by operator");
+    logger.audit(paused ? "ENTRIES_PAUSED_MANUAL" : "ENTRIES_RESUMED_MANUAL", {});
+    return paused
+      ? "⏸️ New entries paused - exits and stops keep running. /resume to continue."
+      : "▶️ New entries resumed";
+  }
+
+  public isEntriesPaused(): boolean {
+    return this.entriesPaused;
+  }
+
+  /**
+   * Operator pause of one strategy: its signals can still close what it holds, but it
+   * opens nothing new. Returns false for a strategy the engine doesn't run.
+   */
+  public setStrategyPaused(name: string, paused: boolean): boolean {
+    if (!this.strategies.has(name)) {
+      return false;
+    }
+    if (paused) {
+      this.pausedStrategies.add(name);
+    } else {
+      this.pausedStrategies.delete(name);
+    }
+    logger.warn(`${paused ? "⏸️" : "▶️"} Strategy ${name} ${paused ? "paused" : "resumed"} by operator`);
+    logger.audit(paused ? "STRATEGY_PAUSED_MANUAL" : "STRATEGY_RESUMED_MANUAL", { strategy: name });
+    return true;
+  }
+
+  public getStrategyStates(): StrategyControlState[] {
+    const stats = new Map(
+      this.strategyAllocator.getDailyStats().map((s) => [s.strategy, s]),
+    );
+    return [...this.strategies.keys()].map((name) => {
+      const daily = stats.get(name);
+      return {
+        name,
+        paused: this.pausedStrategies.has(name),
+        capitalPercent: daily?.capitalPercent ?? 100,
+        tradesExecutedToday: daily?.tradesExecutedToday ?? 0,
+        dailyPnL: daily?.dailyPnL ?? 0,
+        dailyLossLimit: daily?.dailyLossLimit ?? 0,
+        isAtLossLimit: daily?.isAtLossLimit ?? false,
+      };
+    });
+  }
+
+  public setKillSwitch(active: boolean, source: string): void {
+    configManager.setKillSwitch(active);
+    logger.warn(`🛑 Kill switch ${active ? "activated" : "deactivated"} from ${source}`);
+    logger.audit("KILL_SWITCH", { active, source });
+  }
+
+  /**
+   * Operator close of one symbol, under the same lock as strategy orders. BUSY means an
+   * order for the symbol is in flight right now.
+   */
+  public async closePositionManually(
+    symbol: string,
+    reason: string,
+  ): Promise<ManualCloseResult> {
+    const result = await positionLockManager.withLock(symbol, async () => {
+      if (!this.positionManager.hasPosition(symbol)) {
+        return "NO_POSITION" as const;
+      }
+      await this.closePosition(symbol, reason);
+      return "CLOSED" as const;
+    });
+    return result ?? "BUSY";
+  }
+
+  /**
+   * Operator flatten: closes every position, each under its symbol lock. Returns how many
+   * close orders went out.
+   */
+  public async flattenPositions(reason: string): Promise<number> {
+    const positions = this.positionManager.getAllPositions();
+    logger.info("Flattening all positions", { count: positions.length, reason });
+    logger.audit("FLATTEN_MANUAL", { count: positions.length, reason });
+
+    let closed = 0;
+    for (const position of positions) {
+      const result = await this.closePositionManually(position.symbol, reason);
+      if (result === "CLOSED") closed++;
+    }
+    return closed;
+  }
+
   public async closeAllPositions(reason: string): Promise<void> {
     const positions = this.positionManager.getAllPositions();
 
@@ -975,6 +1779,62 @@ export class TradingEngine extends EventEmitter {
     }
   }
 
+  private async closeStrategyPositions(
+    strategyName: string,
+    reason: string,
+  ): Promise<void> {
+    const positions = this.positionManager
+      .getAllPositions()
+      .filter((p) => this.symbolOwners.get(p.symbol)?.strategy === strategyName);
+
+    logger.info("Closing strategy positions", {
+      strategy: strategyName,
+      count: positions.length,
+      reason,
+    });
+
+    for (const position of positions) {
+      await positionLockManager.withLock(position.symbol, async () => {
+        if (this.positionManager.hasPosition(position.symbol)) {
+          await this.closePosition(position.symbol, reason);
+        }
+      });
+    }
+  }
+
+  /**
+   * Start-of-day routine (market_open): resets broker daily data and starts strategies.
+   */
+  public async startTradingDay(): Promise<void> {
+    // Reset daily data for fresh start (Paper mode)
+    if (this.config.trading.mode === TradingMode.PAPER) {
+      (this.broker as any).resetDailyData?.();
+      logger.info("📅 Daily market data reset - starting fresh");
+    }
+
+    // WebSocket already connected, just start strategies
+    await this.startStrategies();
+  }
+
+  /**
+   * End-of-day routine (market_close): stops strategies, data feed stays connected.
+   */
+  public async endTradingDay(): Promise<void> {
+    // Deliver the session's last bars while strategies are still active
+    this.candleAggregator.flush();
+    await this.stopStrategies();
+  }
+
+  /**
+   * Resolves once every strategy signal received so far has been fully processed.
+   * The backtester calls this after each replayed tick so fills land before the next one.
+   */
+  public async waitForPendingSignals(): Promise<void> {
+    while (this.inFlightSignals.size > 0) {
+      await Promise.allSettled(Array.from(this.inFlightSignals));
+    }
+  }
+
   private async startStrategies(): Promise<void> {
     for (const strategy of this.strategies.values()) {
       await strategy.initialize();
@@ -1000,6 +1860,7 @@ export class TradingEngine extends EventEmitter {
     await this.telegramBot.sendStatusReport({
       mode: this.config.trading.mode,
       killSwitch: configManager.isKillSwitchActive(),
+      entriesPaused: this.entriesPaused,
       positionCount: positions.length,
       balance: balance,
       totalPnL: totalPnL,
@@ -1063,6 +1924,7 @@ export class TradingEngine extends EventEmitter {
       largestWin,
       largestLoss,
       trades: trades,
+      strategies: this.summariseByStrategy(trades),
       startingBalance: this.initialBalance,
       endingBalance: balance,
     });
@@ -1072,12 +1934,55 @@ export class TradingEngine extends EventEmitter {
       dailyPnL: stats.dailyPnL,
       winRate: winRate.toFixed(1),
     });
+
+    const funnel = signalJournal.getFunnel();
+    await this.telegramBot.sendSignalFunnel(funnel);
+    logger.info("🔎 Signal funnel", {
+      date: funnel.date,
+      candidates: funnel.candidates,
+      stages: funnel.stages.map((stage) => `${stage.stage}: ${stage.entered} in, ${stage.rejected} out`),
+      filled: funnel.filled,
+    });
+  }
+
+  private summariseByStrategy(trades: TradeRecord[]): StrategyTradeSummary[] {
+    const byStrategy = new Map<string, StrategyTradeSummary>();
+
+    for (const trade of trades) {
+      const name = trade.strategy || UNASSIGNED_STRATEGY;
+      const entry = byStrategy.get(name) || {
+        strategy: name,
+        trades: 0,
+        wins: 0,
+        losses: 0,
+        netPnL: 0,
+      };
+      entry.trades++;
+      if (trade.result === "WIN") entry.wins++;
+      if (trade.result === "LOSS") entry.losses++;
+      entry.netPnL += trade.netPnL;
+      byStrategy.set(name, entry);
+    }
+
+    return [...byStrategy.values()];
   }
 
   public getOpenPositions(): Position[] {
     return this.positionManager.getAllPositions();
   }
 
+  public getMetricsTracker(): MetricsTracker {
+    return this.metricsTracker;
+  }
+
+  public getCandleAggregator(): CandleAggregator {
+    return this.candleAggregator;
+  }
+
+  public getIndicators(): CandleIndicators {
+    return this.indicators;
+  }
+
   public async verifyAllPositionsClosed(): Promise<void> {
     // Wait 10 seconds for orders to execute
     await new Promise((resolve) => setTimeout(resolve, 10000));
@@ -1257,6 +2162,7 @@ export class TradingEngine extends EventEmitter {
       });
     }
     this.riskManager.resetStartingBalance(this.initialBalance);
+    this.strategyAllocator.resetStartingBalance(this.initialBalance);
 
     await this.positionManager.syncPositions();
 
@@ -1288,6 +2194,9 @@ export class TradingEngine extends EventEmitter {
           count: data.mismatches?.length,
           consecutiveFailures: data.consecutiveFailures,
         });
+        for (const mismatch of data.mismatches || []) {
+          tradingMetrics.reconciliationMismatches.inc({ issue: mismatch.issue });
+        }
       },
     );
 
@@ -1345,6 +2254,55 @@ export class TradingEngine extends EventEmitter {
     });
   }
 
+  /**
+   * Start the engine for a historical replay. Only the broker connection and account
+   * state are initialised: the cron scheduler, Telegram, heartbeat, reconciliation and
+   * dashboard loops all run on wall-clock time, so the replay runner drives the
+   * trading day itself via startTradingDay/closeAllPositions/endTradingDay.
+   */
+  public async startReplay(): Promise<void> {
+    if (this.isRunning) {
+      logger.warn("Trading engine already running");
+      return;
+    }
+
+    const connected = await this.broker.connect();
+    if (!connected) {
+      throw new Error("Replay broker failed to connect");
+    }
+
+    const fetchedBalance = await this.broker.getAccountBalance();
+    if (fetchedBalance > 0) {
+      this.initialBalance = fetchedBalance;
+    }
+    this.riskManager.resetStartingBalance(this.initialBalance);
+    this.strategyAllocator.resetStartingBalance(this.initialBalance);
+
+    await this.positionManager.syncPositions();
+
+    this.isRunning = true;
+    logger.info("Trading engine started in replay mode", {
+      balance: this.initialBalance,
+      strategies: this.strategies.size,
+    });
+  }
+
+  public async stopReplay(): Promise<void> {
+    if (!this.isRunning) {
+      return;
+    }
+
+    await this.waitForPendingSignals();
+    await this.stopStrategies();
+
+    orderIdempotencyManager.stop();
+    positionLockManager.releaseAllLocks();
+    await this.broker.disconnect();
+
+    this.isRunning = false;
+    logger.info("Trading engine replay stopped");
+  }
+
   public async stop(): Promise<void> {
     if (!this.isRunning) {
       logger.warn("Trading engine not running");
@@ -1383,6 +2341,9 @@ export class TradingEngine extends EventEmitter {
     orderIdempotencyManager.stop();
     logger.info("✅ Order idempotency manager stopped");
 
+    // Flush any recorded ticks to disk
+    await tickRecorder.close();
+
     // Stop background reconnection if running
     this.stopBackgroundReconnection();
 
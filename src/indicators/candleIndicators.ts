@@ -0,0 +1,126 @@
+import { Candle, CandleTimeframe } from "../types";
+import { CandleAggregator } from "../services/candleAggregator";
+import {
+  Adx,
+  AdxValue,
+  Atr,
+  Bollinger,
+  BollingerValue,
+  CandleIndicator,
+  Ema,
+  Obv,
+  Rsi,
+  Sma,
+  Supertrend,
+  SupertrendValue,
+} from "./incremental";
+
+/**
+ * Candle Indicators - Per-symbol indicators on the candle aggregator's closed bars
+ *
+ * Strategies ask for a value, e.g. `atr("SBIN-EQ", 5, 14)`, and get null until it has
+ * warmed up. The first request for an indicator creates it and replays the aggregator's
+ * bar history into it; from then on every closed bar updates it once. Subscribed at
+ * construction, so values are current by the time the engine forwards the same bar to
+ * strategies' onCandle().
+ */
+export class CandleIndicators {
+  // `${symbol}|${timeframe}` -> indicator key (e.g. "atr:14") -> indicator
+  private series: Map<string, Map<string, CandleIndicator<unknown>>> = new Map();
+
+  constructor(private readonly aggregator: CandleAggregator) {
+    aggregator.on("candle_closed", (candle: Candle, timeframe: CandleTimeframe) => {
+      const indicators = this.series.get(seriesKey(candle.symbol, timeframe));
+      if (!indicators) return;
+      for (const indicator of indicators.values()) {
+        indicator.update(candle);
+      }
+    });
+  }
+
+  public sma(symbol: string, timeframe: CandleTimeframe, period: number): number | null {
+    return this.get(symbol, timeframe, `sma:${period}`, () => new Sma(period));
+  }
+
+  public ema(symbol: string, timeframe: CandleTimeframe, period: number): number | null {
+    return this.get(symbol, timeframe, `ema:${period}`, () => new Ema(period));
+  }
+
+  public atr(symbol: string, timeframe: CandleTimeframe, period: number = 14): number | null {
+    return this.get(symbol, timeframe, `atr:${period}`, () => new Atr(period));
+  }
+
+  public rsi(symbol: string, timeframe: CandleTimeframe, period: number = 14): number | null {
+    return this.get(symbol, timeframe, `rsi:${period}`, () => new Rsi(period));
+  }
+
+  public bollinger(
+    symbol: string,
+    timeframe: CandleTimeframe,
+    period: number = 20,
+    stdDevs: number = 2,
+  ): BollingerValue | null {
+    return this.get(symbol, timeframe, `bollinger:${period}:${stdDevs}`, () => new Bollinger(period, stdDevs));
+  }
+
+  public supertrend(
+    symbol: string,
+    timeframe: CandleTimeframe,
+    period: number = 10,
+    multiplier: number = 3,
+  ): SupertrendValue | null {
+    return this.get(symbol, timeframe, `supertrend:${period}:${multiplier}`, () => new Supertrend(period, multiplier));
+  }
+
+  public adx(symbol: string, timeframe: CandleTimeframe, period: number = 14): AdxValue | null {
+    return this.get(symbol, timeframe, `adx:${period}`, () => new Adx(period));
+  }
+
+  public obv(symbol: string, timeframe: CandleTimeframe): number | null {
+    return this.get(symbol, timeframe, "obv", () => new Obv());
+  }
+
+  /**
+   * Most recent closed bar, e.g. for bar-range based stops
+   */
+  public lastCandle(symbol: string, timeframe: CandleTimeframe): Candle | null {
+    return this.aggregator.getHistory(symbol, timeframe, 1)[0] || null;
+  }
+
+  /**
+   * Drop every indicator - the next request rebuilds from the aggregator's history
+   */
+  public reset(): void {
+    this.series.clear();
+  }
+
+  private get<T>(
+    symbol: string,
+    timeframe: CandleTimeframe,
+    key: string,
+    create: () => CandleIndicator<T>,
+  ): T | null {
+    const id = seriesKey(symbol, timeframe);
+    let indicators = this.series.get(id);
+    if (!indicators) {
+      indicators = new Map();
+      this.series.set(id, indicators);
+    }
+
+    let indicator = indicators.get(key) as CandleIndicator<T> | undefined;
+    if (!indicator) {
+      indicator = create();
+      // Warm up from bars closed before the first request
+      for (const candle of this.aggregator.getHistory(symbol, timeframe)) {
+        indicator.update(candle);
+      }
+      indicators.set(key, indicator);
+    }
+
+    return indicator.getValue();
+  }
+}
+
+function seriesKey(symbol: string, timeframe: CandleTimeframe): string {
+  return `${symbol}|${timeframe}`;
+}
@@ -0,0 +1,420 @@
+import { Candle } from "../types";
+
+/**
+ * Incremental technical indicators
+ *
+ * Every indicator is fed one closed bar at a time through update() and does O(1) work
+ * per bar - rolling windows are fixed-size ring buffers, smoothed averages keep only
+ * their previous value. update() and getValue() return null until enough bars have
+ * been seen (warm-up).
+ */
+export interface CandleIndicator<T> {
+  update(candle: Candle): T | null;
+  getValue(): T | null;
+  isReady(): boolean;
+}
+
+export interface BollingerValue {
+  middle: number;
+  upper: number;
+  lower: number;
+}
+
+export interface SupertrendValue {
+  value: number;              // Trailing line: below price in an uptrend, above in a downtrend
+  direction: 'UP' | 'DOWN';
+}
+
+export interface AdxValue {
+  adx: number;
+  plusDI: number;
+  minusDI: number;
+}
+
+function assertPeriod(name: string, period: number): void {
+  if (!Number.isInteger(period) || period < 1) {
+    throw new Error(`${name} period must be a positive integer (got ${period})`);
+  }
+}
+
+/**
+ * Fixed-size window of the last `period` values with running sum and sum of squares
+ */
+class RollingWindow {
+  private readonly values: Float64Array;
+  private index = 0;
+  private count = 0;
+  private sum = 0;
+  private sumOfSquares = 0;
+
+  constructor(private readonly period: number) {
+    this.values = new Float64Array(period);
+  }
+
+  public push(value: number): void {
+    if (this.count === this.period) {
+      const evicted = this.values[this.index];
+      this.sum -= evicted;
+      this.sumOfSquares -= evicted * evicted;
+    } else {
+      this.count++;
+    }
+    this.values[this.index] = value;
+    this.index = (this.index + 1) % this.period;
+    this.sum += value;
+    this.sumOfSquares += value * value;
+  }
+
+  public isFull(): boolean {
+    return this.count === this.period;
+  }
+
+  public mean(): number {
+    return this.sum / this.count;
+  }
+
+  public stdDev(): number {
+    const mean = this.mean();
+    // Clamp tiny negative variance from floating-point error
+    return Math.sqrt(Math.max(this.sumOfSquares / this.count - mean * mean, 0));
+  }
+}
+
+/**
+ * Wilder's smoothed average (RMA): simple average of the first `period` values, then
+ * avg = (avg × (period - 1) + value) / period
+ */
+class WilderAverage {
+  private average: number | null = null;
+  private seedSum = 0;
+  private seedCount = 0;
+
+  constructor(private readonly period: number) {}
+
+  public push(value: number): number | null {
+    if (this.average !== null) {
+      this.average = (this.average * (this.period - 1) + value) / this.period;
+      return this.average;
+    }
+
+    this.seedSum += value;
+    this.seedCount++;
+    if (this.seedCount === this.period) {
+      this.average = this.seedSum / this.period;
+    }
+    return this.average;
+  }
+
+  public getValue(): number | null {
+    return this.average;
+  }
+}
+
+function trueRange(candle: Candle, prevClose: number | null): number {
+  if (prevClose === null) return candle.high - candle.low;
+  return Math.max(
+    candle.high - candle.low,
+    Math.abs(candle.high - prevClose),
+    Math.abs(candle.low - prevClose),
+  );
+}
+
+/**
+ * Simple moving average of closes (or any series via push())
+ */
+export class Sma implements CandleIndicator<number> {
+  private readonly window: RollingWindow;
+  private value: number | null = null;
+
+  constructor(period: number) {
+    assertPeriod("SMA", period);
+    this.window = new RollingWindow(period);
+  }
+
+  public push(value: number): number | null {
+    this.window.push(value);
+    this.value = this.window.isFull() ? this.window.mean() : null;
+    return this.value;
+  }
+
+  public update(candle: Candle): number | null {
+    return this.push(candle.close);
+  }
+
+  public getValue(): number | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * Exponential moving average of closes, seeded with the SMA of the first `period` values
+ */
+export class Ema implements CandleIndicator<number> {
+  private readonly multiplier: number;
+  private readonly seed: Sma;
+  private value: number | null = null;
+
+  constructor(period: number) {
+    assertPeriod("EMA", period);
+    this.multiplier = 2 / (period + 1);
+    this.seed = new Sma(period);
+  }
+
+  public push(value: number): number | null {
+    if (this.value === null) {
+      this.value = this.seed.push(value);
+    } else {
+      this.value = (value - this.value) * this.multiplier + this.value;
+    }
+    return this.value;
+  }
+
+  public update(candle: Candle): number | null {
+    return this.push(candle.close);
+  }
+
+  public getValue(): number | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * Average True Range (Wilder smoothing). Ready after `period` bars.
+ */
+export class Atr implements CandleIndicator<number> {
+  private readonly average: WilderAverage;
+  private prevClose: number | null = null;
+
+  constructor(period: number) {
+    assertPeriod("ATR", period);
+    this.average = new WilderAverage(period);
+  }
+
+  public update(candle: Candle): number | null {
+    const value = this.average.push(trueRange(candle, this.prevClose));
+    this.prevClose = candle.close;
+    return value;
+  }
+
+  public getValue(): number | null {
+    return this.average.getValue();
+  }
+
+  public isReady(): boolean {
+    return this.average.getValue() !== null;
+  }
+}
+
+/**
+ * Relative Strength Index (Wilder smoothing). Ready after `period` + 1 bars.
+ */
+export class Rsi implements CandleIndicator<number> {
+  private readonly avgGain: WilderAverage;
+  private readonly avgLoss: WilderAverage;
+  private prevClose: number | null = null;
+  private value: number | null = null;
+
+  constructor(period: number) {
+    assertPeriod("RSI", period);
+    this.avgGain = new WilderAverage(period);
+    this.avgLoss = new WilderAverage(period);
+  }
+
+  public update(candle: Candle): number | null {
+    if (this.prevClose !== null) {
+      const change = candle.close - this.prevClose;
+      const gain = this.avgGain.push(Math.max(change, 0));
+      const loss = this.avgLoss.push(Math.max(-change, 0));
+
+      if (gain !== null && loss !== null) {
+        this.value = loss === 0
+          ? (gain === 0 ? 50 : 100)
+          : 100 - 100 / (1 + gain / loss);
+      }
+    }
+    this.prevClose = candle.close;
+    return this.value;
+  }
+
+  public getValue(): number | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * Bollinger bands: SMA of closes ± `stdDevs` population standard deviations
+ */
+export class Bollinger implements CandleIndicator<BollingerValue> {
+  private readonly window: RollingWindow;
+  private value: BollingerValue | null = null;
+
+  constructor(period: number, private readonly stdDevs: number = 2) {
+    assertPeriod("Bollinger", period);
+    this.window = new RollingWindow(period);
+  }
+
+  public update(candle: Candle): BollingerValue | null {
+    this.window.push(candle.close);
+    if (!this.window.isFull()) return null;
+
+    const middle = this.window.mean();
+    const width = this.stdDevs * this.window.stdDev();
+    this.value = { middle, upper: middle + width, lower: middle - width };
+    return this.value;
+  }
+
+  public getValue(): BollingerValue | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * Supertrend: ATR bands around the bar midpoint that only tighten while the trend
+ * holds, flipping direction when a close crosses the active band. Starts in an uptrend
+ * once the ATR is ready.
+ */
+export class Supertrend implements CandleIndicator<SupertrendValue> {
+  private readonly atr: Atr;
+  private finalUpper = 0;
+  private finalLower = 0;
+  private prevClose: number | null = null;
+  private value: SupertrendValue | null = null;
+
+  constructor(period: number, private readonly multiplier: number = 3) {
+    this.atr = new Atr(period);
+  }
+
+  public update(candle: Candle): SupertrendValue | null {
+    const atr = this.atr.update(candle);
+    if (atr === null) {
+      this.prevClose = candle.close;
+      return null;
+    }
+
+    const mid = (candle.high + candle.low) / 2;
+    const basicUpper = mid + this.multiplier * atr;
+    const basicLower = mid - this.multiplier * atr;
+
+    if (this.value === null || this.prevClose === null) {
+      this.finalUpper = basicUpper;
+      this.finalLower = basicLower;
+    } else {
+      this.finalUpper = basicUpper < this.finalUpper || this.prevClose > this.finalUpper ? basicUpper : this.finalUpper;
+      this.finalLower = basicLower > this.finalLower || this.prevClose < this.finalLower ? basicLower : this.finalLower;
+    }
+
+    let direction: 'UP' | 'DOWN' = this.value?.direction || 'UP';
+    if (direction === 'UP' && candle.close < this.finalLower) {
+      direction = 'DOWN';
+    } else if (direction === 'DOWN' && candle.close > this.finalUpper) {
+      direction = 'UP';
+    }
+
+    this.value = { value: direction === 'UP' ? this.finalLower : this.finalUpper, direction };
+    this.prevClose = candle.close;
+    return this.value;
+  }
+
+  public getValue(): SupertrendValue | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * Average Directional Index with +DI/-DI (Wilder smoothing). Ready after 2 × `period` bars.
+ */
+export class Adx implements CandleIndicator<AdxValue> {
+  private readonly trueRange: WilderAverage;
+  private readonly plusDM: WilderAverage;
+  private readonly minusDM: WilderAverage;
+  private readonly dx: WilderAverage;
+  private prev: Candle | null = null;
+  private value: AdxValue | null = null;
+
+  constructor(period: number) {
+    assertPeriod("ADX", period);
+    this.trueRange = new WilderAverage(period);
+    this.plusDM = new WilderAverage(period);
+    this.minusDM = new WilderAverage(period);
+    this.dx = new WilderAverage(period);
+  }
+
+  public update(candle: Candle): AdxValue | null {
+    const prev = this.prev;
+    this.prev = candle;
+    if (!prev) return null;
+
+    const upMove = candle.high - prev.high;
+    const downMove = prev.low - candle.low;
+    const tr = this.trueRange.push(trueRange(candle, prev.close));
+    const plus = this.plusDM.push(upMove > downMove && upMove > 0 ? upMove : 0);
+    const minus = this.minusDM.push(downMove > upMove && downMove > 0 ? downMove : 0);
+    if (tr === null || plus === null || minus === null) return null;
+
+    const plusDI = tr === 0 ? 0 : (100 * plus) / tr;
+    const minusDI = tr === 0 ? 0 : (100 * minus) / tr;
+    const diSum = plusDI + minusDI;
+    const adx = this.dx.push(diSum === 0 ? 0 : (100 * Math.abs(plusDI - minusDI)) / diSum);
+    if (adx === null) return null;
+
+    this.value = { adx, plusDI, minusDI };
+    return this.value;
+  }
+
+  public getValue(): AdxValue | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
+
+/**
+ * On-Balance Volume: running total of bar volume, added on up closes and subtracted
+ * on down closes. Starts at 0 on the first bar.
+ */
+export class Obv implements CandleIndicator<number> {
+  private prevClose: number | null = null;
+  private value: number | null = null;
+
+  public update(candle: Candle): number {
+    if (this.prevClose === null || this.value === null) {
+      this.value = 0;
+    } else if (candle.close > this.prevClose) {
+      this.value += candle.volume;
+    } else if (candle.close < this.prevClose) {
+      this.value -= candle.volume;
+    }
+    this.prevClose = candle.close;
+    return this.value;
+  }
+
+  public getValue(): number | null {
+    return this.value;
+  }
+
+  public isReady(): boolean {
+    return this.value !== null;
+  }
+}
@@ -1,22 +1,26 @@
 import { TradingEngine } from './core/tradingEngine';
-import { DayHighLowBreakoutStrategy } from './strategies/dayHighLowBreakout';
+import { createStrategy } from './strategies/registry';
 import configManager from './config';
 import { logger } from './utils/logger';
 import { healthCheckServer } from './utils/healthCheck';
+import { tickRecorder } from './services/tickRecorder';
+import { signalJournal } from './services/signalJournal';
 import { isNSEHoliday, getNSEHolidayName } from './utils/nseHolidays';
+import { clock, isISTWeekend, getISTTime } from './utils/clock';
 
 async function main() {
   try {
     logger.info('Initializing Angel Intraday Trading Bot');
     logger.info('='.repeat(50));
 
+    // Offline paper mode simulates its own session - calendar checks don't apply
+    const offline = configManager.isOffline();
+
     // Check if today is a weekend
-    const today = new Date();
-    const istDate = new Date(today.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-    const dayOfWeek = istDate.getDay();
-    if (dayOfWeek === 0 || dayOfWeek === 6) {
-      const dayName = istDate.toLocaleDateString('en-IN', { weekday: 'long', timeZone: 'Asia/Kolkata' });
-      const dateStr = istDate.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
+    const today = clock.date();
+    if (!offline && isISTWeekend(today)) {
+      const dayName = today.toLocaleDateString('en-IN', { weekday: 'long', timeZone: 'Asia/Kolkata' });
+      const dateStr = today.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
 
       logger.info('🚫 WEEKEND DETECTED');
       logger.info('='.repeat(50));
@@ -31,11 +35,7 @@ async function main() {
 
       // Check every hour if it's now a weekday
       const weekdayCheckInterval = setInterval(() => {
-        const now = new Date();
-        const istNow = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-        const currentDay = istNow.getDay();
-
-        if (currentDay !== 0 && currentDay !== 6) {
+        if (!isISTWeekend()) {
           logger.info('✅ WEEKDAY DETECTED - Restarting bot...');
           clearInterval(weekdayCheckInterval);
           logger.info('🔄 Process will restart in 5 seconds...');
@@ -52,9 +52,9 @@ async function main() {
     }
 
     // Check if today is an NSE holiday
-    if (isNSEHoliday(today)) {
+    if (!offline && isNSEHoliday(today)) {
       const holidayName = getNSEHolidayName(today) ?? 'NSE Holiday';
-      const dateStr = istDate.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
+      const dateStr = today.toLocaleDateString('en-IN', { timeZone: 'Asia/Kolkata' });
 
       logger.info('🚫 NSE HOLIDAY DETECTED');
       logger.info('='.repeat(50));
@@ -68,11 +68,9 @@ async function main() {
 
       // Check every hour if the holiday is over (next trading day)
       const holidayCheckInterval = setInterval(() => {
-        const now = new Date();
-        const istNow = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-        const currentDay = istNow.getDay();
+        const now = clock.date();
 
-        if (!isNSEHoliday(now) && currentDay !== 0 && currentDay !== 6) {
+        if (!isNSEHoliday(now) && !isISTWeekend(now)) {
           logger.info('✅ TRADING DAY DETECTED - Restarting bot...');
           clearInterval(holidayCheckInterval);
           setTimeout(() => { process.exit(0); }, 5000);
@@ -127,33 +125,44 @@ async function main() {
       'LT-EQ',
     ];
 
+    // Opt-in raw tick recording (RECORD_TICKS=true) for replay and post-trade analysis
+    tickRecorder.configure(config.tickRecorder);
+
+    // Candidate signals and where each was filtered (SIGNAL_JOURNAL, on by default)
+    signalJournal.configure(config.signalJournal);
+
     const engine = new TradingEngine(config, watchlist);
 
     const initialBalance = 1000000;
     const marginMultiplier = config.trading.riskLimits.marginMultiplier;
 
-    const strategy = new DayHighLowBreakoutStrategy(
-      {
-        marketData: new Map(),
-        positions: new Map(),
-        accountInfo: {
-          balance: initialBalance,
-          availableMargin: initialBalance,
-          usedMargin: 0,
-          realizedPnL: 0,
-          unrealizedPnL: 0,
-          marginMultiplier: marginMultiplier,
-          effectiveBuyingPower: initialBalance * marginMultiplier
+    // Each strategy gets its own context - positions are tracked per strategy
+    for (const name of config.strategies) {
+      const strategy = createStrategy(
+        name,
+        {
+          marketData: new Map(),
+          positions: new Map(),
+          accountInfo: {
+            balance: initialBalance,
+            availableMargin: initialBalance,
+            usedMargin: 0,
+            realizedPnL: 0,
+            unrealizedPnL: 0,
+            marginMultiplier: marginMultiplier,
+            effectiveBuyingPower: initialBalance * marginMultiplier
+          },
+          config: config.trading
         },
-        config: config.trading
-      },
-      watchlist
-    );
+        watchlist,
+        config.strategyParamsFile
+      );
 
-    engine.addStrategy(strategy);
+      engine.addStrategy(strategy);
+    }
 
-    logger.info('Strategy initialized', {
-      name: strategy.getName(),
+    logger.info('Strategies initialized', {
+      names: config.strategies,
       watchlist,
       initialBalance: initialBalance,
       marginMultiplier: marginMultiplier,
@@ -335,11 +344,7 @@ async function main() {
     await engine.start();
 
     // ✅ CRITICAL: Check if restarting late in day with open positions
-    const now = new Date();
-    const istTime = new Date(now.toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-    const currentHour = istTime.getHours();
-
-    if (currentHour >= 15) {
+    if (getISTTime() >= '15:00') {
       logger.warn('🚨 Bot starting after 3:00 PM - checking for open positions');
 
       const positions = engine.getOpenPositions();
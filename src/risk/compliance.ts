@@ -0,0 +1,126 @@
+import { MarketQuote, OrderSide } from '../types';
+import { logger } from '../utils/logger';
+
+/**
+ * An entry order as it stands when it reaches the compliance pipeline (sized, priced)
+ */
+export interface PreTradeOrder {
+  symbol: string;
+  side: OrderSide;
+  quantity: number;
+  price: number;        // Expected entry: LTP with the slippage buffer - used for order value
+  limitPrice?: number;  // Limit orders only
+  ltp: number;          // Last traded price the order was priced from
+  quote: MarketQuote | null; // Full quote (circuit bands, book) when the broker has one
+  stopLoss: number;
+  target?: number;
+  productType: string;
+  strategy: string;
+  balance: number;      // Account balance at the time of the check
+  orderKey: string;     // Idempotency key of the signal behind the order
+}
+
+export type ComplianceOutcome = 'PASS' | 'REJECT' | 'RESIZE';
+
+export interface RuleDecision {
+  outcome: ComplianceOutcome;
+  quantity?: number;    // RESIZE: the smaller quantity the rule allows
+  reason?: string;
+  alert?: string;       // Telegram alert title - set by rules whose decisions the operator should see
+}
+
+export interface ComplianceRule {
+  readonly name: string;
+  evaluate(order: PreTradeOrder): RuleDecision | Promise<RuleDecision>;
+}
+
+export interface ComplianceDecisionRecord extends RuleDecision {
+  rule: string;
+  quantityIn: number;
+}
+
+export interface ComplianceResult {
+  allowed: boolean;
+  quantity: number;                     // Final quantity after any resizes (0 when rejected)
+  rejectedBy?: string;
+  reason?: string;                      // Rejecting rule's reason
+  decisions: ComplianceDecisionRecord[]; // Every rule that ran, in order
+}
+
+/**
+ * Compliance Pipeline - ordered pre-trade rules for entry orders
+ *
+ * Rules run in their configured order. Each one passes the order, rejects it (nothing
+ * after it runs) or resizes it to a smaller quantity that later rules then see. Every
+ * decision is written to the audit log as COMPLIANCE_DECISION. A rule that throws
+ * rejects the order - the pipeline fails closed.
+ */
+export class CompliancePipeline {
+  constructor(private readonly rules: ComplianceRule[]) {}
+
+  public getRuleNames(): string[] {
+    return this.rules.map((rule) => rule.name);
+  }
+
+  public async evaluate(order: PreTradeOrder): Promise<ComplianceResult> {
+    const current: PreTradeOrder = { ...order };
+    const decisions: ComplianceDecisionRecord[] = [];
+
+    for (const rule of this.rules) {
+      let decision: RuleDecision;
+      try {
+        decision = await rule.evaluate({ ...current });
+      } catch (error: any) {
+        decision = { outcome: 'REJECT', reason: `${rule.name} rule failed: ${error.message}` };
+      }
+
+      // A resize to nothing is a rejection; a resize that doesn't shrink the order is a pass
+      if (decision.outcome === 'RESIZE') {
+        const quantity = Math.floor(decision.quantity ?? 0);
+        if (quantity <= 0) {
+          decision = { ...decision, outcome: 'REJECT', quantity: 0 };
+        } else if (quantity >= current.quantity) {
+          decision = { ...decision, outcome: 'PASS', quantity: undefined };
+        } else {
+          decision = { ...decision, quantity };
+        }
+      }
+
+      const record: ComplianceDecisionRecord = { ...decision, rule: rule.name, quantityIn: current.quantity };
+      decisions.push(record);
+
+      logger.audit('COMPLIANCE_DECISION', {
+        rule: rule.name,
+        symbol: current.symbol,
+        side: current.side,
+        strategy: current.strategy,
+        outcome: decision.outcome,
+        quantityIn: current.quantity,
+        quantityOut: decision.outcome === 'REJECT' ? 0 : decision.quantity ?? current.quantity,
+        price: current.price,
+        reason: decision.reason,
+      });
+
+      if (decision.outcome === 'REJECT') {
+        return {
+          allowed: false,
+          quantity: 0,
+          rejectedBy: rule.name,
+          reason: decision.reason || `Rejected by ${rule.name}`,
+          decisions,
+        };
+      }
+
+      if (decision.outcome === 'RESIZE' && decision.quantity !== undefined) {
+        logger.info(`📐 ${rule.name} resized ${current.symbol}`, {
+          from: current.quantity,
+          to: decision.quantity,
+          reason: decision.reason,
+        });
+        current.quantity = decision.quantity;
+      }
+    }
+
+    return { allowed: true, quantity: current.quantity, decisions };
+  }
+}
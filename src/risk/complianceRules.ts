@@ -0,0 +1,192 @@
+import { OrderSide, Position } from '../types';
+import { ComplianceRuleConfig, ComplianceRuleName, ComplianceRuleOptions } from '../config/complianceRules';
+import { productTypeValidator } from '../services/productTypeValidator';
+import { MarginCheckResult } from '../services/marginChecker';
+import { circuitLimitDetector } from '../services/circuitLimitDetector';
+import { ComplianceRule, RuleDecision } from './compliance';
+import { ExposureLimiter } from './exposureLimiter';
+import { RiskManager } from './riskManager';
+import { StrategyAllocator } from './strategyAllocator';
+
+/**
+ * What the built-in rules check against - supplied by the trading engine
+ */
+export interface ComplianceContext {
+  isKillSwitchActive(): boolean;
+  claimOrder(orderKey: string, symbol: string, side: OrderSide): boolean; // False for a duplicate of a pending or just-sent order
+  isEntryWindowOpen(): boolean; // Market open, inside signal hours, before square-off
+  getOpenPositions(): Position[];
+  getStrategyExposure(strategy: string): number;
+  checkMargin(orderValue: number): Promise<MarginCheckResult>;
+  exposureLimiter: ExposureLimiter;
+  strategyAllocator: StrategyAllocator;
+  riskManager: RiskManager;
+}
+
+const PASS: RuleDecision = { outcome: 'PASS' };
+
+function reject(reason: string, alert?: string): RuleDecision {
+  return { outcome: 'REJECT', reason, alert };
+}
+
+/**
+ * Build the enabled rules in their configured order
+ */
+export function createComplianceRules(configs: ComplianceRuleConfig[], context: ComplianceContext): ComplianceRule[] {
+  return configs
+    .filter((config) => config.enabled)
+    .map((config) => createRule(config.rule, config.options, context));
+}
+
+function createRule(name: ComplianceRuleName, options: ComplianceRuleOptions, context: ComplianceContext): ComplianceRule {
+  const rule = (evaluate: ComplianceRule['evaluate']): ComplianceRule => ({ name, evaluate });
+
+  switch (name) {
+    case 'killSwitch':
+      return rule(() => (context.isKillSwitchActive() ? reject('Kill switch active') : PASS));
+
+    case 'idempotency':
+      return rule((order) =>
+        context.claimOrder(order.orderKey, order.symbol, order.side)
+          ? PASS
+          : reject(`Duplicate order ${order.orderKey}`),
+      );
+
+    case 'tradingHours':
+      // Re-checked at order time - the price and balance fetches take a while
+      return rule(() => (context.isEntryWindowOpen() ? PASS : reject('Outside the entry window')));
+
+    case 'bannedList': {
+      const banned = new Set(options.symbols);
+      return rule((order) => (banned.has(order.symbol) ? reject(`${order.symbol} is on the banned list`) : PASS));
+    }
+
+    case 'priceBand':
+      return rule((order) => {
+        if (order.price < options.minPrice) {
+          return reject(`Price ₹${order.price.toFixed(2)} below the ₹${options.minPrice} minimum`);
+        }
+        if (options.maxPrice > 0 && order.price > options.maxPrice) {
+          return reject(`Price ₹${order.price.toFixed(2)} above the ₹${options.maxPrice} maximum`);
+        }
+        return PASS;
+      });
+
+    case 'circuitLimit':
+      return rule((order) => {
+        const quote = order.quote;
+        // No bands from offline and backtest feeds - nothing to check against
+        if (!quote || !(quote.upperCircuit > 0) || !(quote.lowerCircuit > 0)) return PASS;
+
+        const distance = circuitLimitDetector.distanceToCircuit(order.side, order.ltp, quote.upperCircuit, quote.lowerCircuit);
+        if (distance > options.circuitBufferPercent) return PASS;
+
+        const band = order.side === OrderSide.BUY
+          ? `upper circuit ₹${quote.upperCircuit.toFixed(2)}`
+          : `lower circuit ₹${quote.lowerCircuit.toFixed(2)}`;
+        return reject(
+          `LTP ₹${order.ltp.toFixed(2)} is ${Math.max(0, distance).toFixed(2)}% from the ${band} ` +
+          `(min ${options.circuitBufferPercent}%)`,
+          '🚫 Circuit Limit',
+        );
+      });
+
+    case 'fatFinger':
+      return rule((order) => {
+        const prices: Array<[string, number | undefined]> = [
+          ['Entry price', order.price],
+          ['Limit price', order.limitPrice],
+          ['Stop-loss', order.stopLoss],
+          ['Target', order.target],
+        ];
+        for (const [label, price] of prices) {
+          if (price === undefined) continue;
+          const deviation = (Math.abs(price - order.ltp) / order.ltp) * 100;
+          if (deviation > options.maxDeviationPercent) {
+            return reject(
+              `${label} ₹${price.toFixed(2)} is ${deviation.toFixed(2)}% from LTP ₹${order.ltp.toFixed(2)} ` +
+              `(max ${options.maxDeviationPercent}%)`,
+              '🚫 Fat-Finger Check',
+            );
+          }
+        }
+        return PASS;
+      });
+
+    case 'maxQuantity':
+      return rule((order) =>
+        options.maxQuantity > 0 && order.quantity > options.maxQuantity
+          ? { outcome: 'RESIZE', quantity: options.maxQuantity, reason: `Capped at ${options.maxQuantity} shares per order` }
+          : PASS,
+      );
+
+    case 'maxOrderValue':
+      return rule((order) =>
+        options.maxOrderValue > 0 && order.quantity * order.price > options.maxOrderValue
+          ? {
+            outcome: 'RESIZE',
+            quantity: Math.floor(options.maxOrderValue / order.price),
+            reason: `Capped at ₹${options.maxOrderValue} per order`,
+          }
+          : PASS,
+      );
+
+    case 'productType':
+      return rule((order) =>
+        productTypeValidator.validateOrderProductType(order.productType)
+          ? PASS
+          : reject(`Product type ${order.productType} is not intraday`),
+      );
+
+    case 'exposure':
+      return rule((order) => {
+        const check = context.exposureLimiter.checkOrder(
+          order.symbol,
+          order.side,
+          order.quantity,
+          order.price,
+          context.getOpenPositions(),
+          order.balance,
+        );
+        if (!check.limit) return PASS;
+        return check.allowed
+          ? { outcome: 'RESIZE', quantity: check.quantity, reason: check.reason, alert: '⚠️ Exposure Limit - Order Reduced' }
+          : reject(check.reason || 'Exposure limit reached', '🚫 Exposure Limit - Signal Rejected');
+      });
+
+    case 'strategyAllocation':
+      return rule((order) => {
+        const check = context.strategyAllocator.checkSignal(
+          order.strategy,
+          context.getStrategyExposure(order.strategy),
+          order.quantity * order.price,
+          order.balance,
+        );
+        return check.allowed ? PASS : reject(check.reason || 'Strategy allocation check failed');
+      });
+
+    case 'margin':
+      return rule(async (order) => {
+        const check = await context.checkMargin(order.quantity * order.price);
+        return check.available
+          ? PASS
+          : reject(
+            `Insufficient margin - required ₹${check.required.toFixed(2)}, available ₹${check.margin.toFixed(2)}`,
+            '⚠️ INSUFFICIENT MARGIN',
+          );
+      });
+
+    case 'risk':
+      return rule((order) => {
+        const check = context.riskManager.checkOrderRisk(
+          order.symbol,
+          order.side,
+          order.quantity,
+          order.price,
+          order.stopLoss,
+          context.getOpenPositions().length,
+        );
+        return check.allowed ? PASS : reject(check.reason || 'Risk check failed');
+      });
+  }
+}
@@ -0,0 +1,176 @@
+import { EventEmitter } from 'events';
+import { DrawdownConfig } from '../types';
+import { logger } from '../utils/logger';
+import { clock } from '../utils/clock';
+
+/**
+ * NORMAL -> REDUCED (entries down-sized) -> HALTED (no new entries) -> LOCKED (give-back:
+ * positions closed, no new entries) -> FLATTENED (everything closed, trading shut down)
+ */
+export type DrawdownStage = 'NORMAL' | 'REDUCED' | 'HALTED' | 'LOCKED' | 'FLATTENED';
+
+const STAGE_RANK: Record<DrawdownStage, number> = {
+  NORMAL: 0,
+  REDUCED: 1,
+  HALTED: 2,
+  LOCKED: 3,
+  FLATTENED: 4
+};
+
+export interface DrawdownStats {
+  stage: DrawdownStage;
+  dayPnL: number;          // Realized + unrealized since the start of the day (₹)
+  peakPnL: number;         // Best dayPnL so far (₹, never below 0)
+  drawdown: number;        // peakPnL - dayPnL (₹)
+  drawdownPercent: number; // drawdown as % of the day-start balance
+}
+
+export interface DrawdownStageChange extends DrawdownStats {
+  previousStage: DrawdownStage;
+  reason: string;
+}
+
+/**
+ * Drawdown Monitor - intraday peak-to-trough equity drawdown with staged de-risking
+ *
+ * Day P&L is realized P&L from closed trades plus the unrealized P&L of open positions.
+ * Its high-water mark starts at 0 each day, so the drawdown is measured from the day's
+ * best point, not only from the open. Stages only escalate during a day - getting some
+ * of the loss back does not re-enable full size or new entries until the next day.
+ *
+ * The give-back rule arms once the day's peak profit reaches `giveBackActivationPercent`
+ * of the balance, and locks in the rest once `giveBackPercent` of that peak is lost.
+ */
+export class DrawdownMonitor extends EventEmitter {
+  private config: DrawdownConfig;
+  private startingBalance: number;
+  private realizedPnL: number = 0;
+  private unrealizedPnL: number = 0;
+  private peakPnL: number = 0;
+  private stage: DrawdownStage = 'NORMAL';
+  private lastResetDate: string = '';
+
+  constructor(config: DrawdownConfig, startingBalance: number) {
+    super();
+    this.config = config;
+    this.startingBalance = startingBalance;
+    this.resetDailyCounters();
+  }
+
+  /**
+   * Add a closed trade's P&L. The next update() should no longer include the position.
+   */
+  public recordTrade(pnl: number): void {
+    this.resetDailyCounters();
+    this.realizedPnL += pnl;
+  }
+
+  /**
+   * Re-evaluate with the current unrealized P&L of all open positions
+   */
+  public update(unrealizedPnL: number): DrawdownStage {
+    this.resetDailyCounters();
+
+    this.unrealizedPnL = unrealizedPnL;
+    const dayPnL = this.realizedPnL + this.unrealizedPnL;
+    this.peakPnL = Math.max(this.peakPnL, dayPnL);
+
+    const next = this.evaluate(dayPnL);
+    if (next && STAGE_RANK[next.stage] > STAGE_RANK[this.stage]) {
+      const change: DrawdownStageChange = {
+        ...this.getStats(),
+        stage: next.stage,
+        previousStage: this.stage,
+        reason: next.reason
+      };
+      this.stage = next.stage;
+
+      logger.warn(`📉 Drawdown stage ${change.previousStage} -> ${change.stage}`, change);
+      logger.audit('DRAWDOWN_STAGE_CHANGED', change);
+      this.emit('stage_changed', change);
+    }
+
+    return this.stage;
+  }
+
+  /**
+   * Multiplier for new entry quantities (1 unless stage 1 is active)
+   */
+  public getSizeMultiplier(): number {
+    this.resetDailyCounters();
+    return this.stage === 'REDUCED' ? 1 - this.config.sizeReductionPercent / 100 : 1;
+  }
+
+  public canOpenNewPositions(): boolean {
+    this.resetDailyCounters();
+    return STAGE_RANK[this.stage] < STAGE_RANK.HALTED;
+  }
+
+  public getStage(): DrawdownStage {
+    this.resetDailyCounters();
+    return this.stage;
+  }
+
+  public getStats(): DrawdownStats {
+    const dayPnL = this.realizedPnL + this.unrealizedPnL;
+    const drawdown = this.peakPnL - dayPnL;
+
+    return {
+      stage: this.stage,
+      dayPnL,
+      peakPnL: this.peakPnL,
+      drawdown,
+      drawdownPercent: (drawdown / this.startingBalance) * 100
+    };
+  }
+
+  public resetStartingBalance(balance: number): void {
+    this.startingBalance = balance;
+  }
+
+  private evaluate(dayPnL: number): { stage: DrawdownStage; reason: string } | null {
+    const drawdownPercent = ((this.peakPnL - dayPnL) / this.startingBalance) * 100;
+    const peakPercent = (this.peakPnL / this.startingBalance) * 100;
+    const drawdownText = `${drawdownPercent.toFixed(2)}% drawdown from the day's peak`;
+
+    if (this.config.flattenAtPercent > 0 && drawdownPercent >= this.config.flattenAtPercent) {
+      return { stage: 'FLATTENED', reason: `${drawdownText} (flatten at ${this.config.flattenAtPercent}%)` };
+    }
+
+    if (
+      this.config.giveBackActivationPercent > 0 &&
+      peakPercent >= this.config.giveBackActivationPercent &&
+      dayPnL <= this.peakPnL * (1 - this.config.giveBackPercent / 100)
+    ) {
+      return {
+        stage: 'LOCKED',
+        reason: `Gave back ${this.config.giveBackPercent}% of the day's ₹${this.peakPnL.toFixed(0)} peak profit - locking in ₹${dayPnL.toFixed(0)}`
+      };
+    }
+
+    if (this.config.haltEntriesAtPercent > 0 && drawdownPercent >= this.config.haltEntriesAtPercent) {
+      return { stage: 'HALTED', reason: `${drawdownText} (halt entries at ${this.config.haltEntriesAtPercent}%)` };
+    }
+
+    if (this.config.reduceSizeAtPercent > 0 && drawdownPercent >= this.config.reduceSizeAtPercent) {
+      return {
+        stage: 'REDUCED',
+        reason: `${drawdownText} (entries ${this.config.sizeReductionPercent}% smaller from ${this.config.reduceSizeAtPercent}%)`
+      };
+    }
+
+    return null;
+  }
+
+  private resetDailyCounters(): void {
+    const today = clock.date().toISOString().split('T')[0];
+
+    if (this.lastResetDate !== today) {
+      this.realizedPnL = 0;
+      this.unrealizedPnL = 0;
+      this.peakPnL = 0;
+      this.stage = 'NORMAL';
+      this.lastResetDate = today;
+    }
+  }
+}
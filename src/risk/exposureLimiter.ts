@@ -0,0 +1,114 @@
+import { ExposureLimitsConfig, OrderSide, Position, PositionType } from '../types';
+import { getSymbolSector } from '../config/symbolConfig';
+
+export type ExposureLimitName = 'GROSS' | 'NET' | 'SECTOR';
+
+export interface ExposureSnapshot {
+  gross: number;                     // Σ |notional| (₹)
+  net: number;                       // Σ long notional - Σ short notional (₹)
+  bySector: Record<string, number>;  // Gross notional per sector (₹)
+}
+
+export interface ExposureCheckResult {
+  allowed: boolean;
+  quantity: number;                  // Quantity that fits (the requested one, less, or 0)
+  limit?: ExposureLimitName;         // Binding limit when the order was reduced or rejected
+  reason?: string;
+  sector: string;
+}
+
+/**
+ * Exposure Limiter - portfolio-level gross, net and per-sector notional caps
+ *
+ * Limits are a % of the account balance and are checked against open positions marked
+ * at their current price plus the new order. An order that would breach a limit is cut
+ * down to the quantity that still fits; if nothing fits it is rejected. A limit of 0 is
+ * off.
+ */
+export class ExposureLimiter {
+  constructor(private readonly limits: ExposureLimitsConfig) {}
+
+  public getSnapshot(positions: Position[]): ExposureSnapshot {
+    const snapshot: ExposureSnapshot = { gross: 0, net: 0, bySector: {} };
+
+    for (const position of positions) {
+      const notional = Math.abs(position.quantity) * (position.currentPrice || position.entryPrice);
+      const sector = getSymbolSector(position.symbol);
+
+      snapshot.gross += notional;
+      snapshot.net += position.type === PositionType.LONG ? notional : -notional;
+      snapshot.bySector[sector] = (snapshot.bySector[sector] || 0) + notional;
+    }
+
+    return snapshot;
+  }
+
+  public checkOrder(
+    symbol: string,
+    side: OrderSide,
+    quantity: number,
+    price: number,
+    positions: Position[],
+    balance: number,
+  ): ExposureCheckResult {
+    const sector = getSymbolSector(symbol);
+    const snapshot = this.getSnapshot(positions);
+    const direction = side === OrderSide.BUY ? 1 : -1;
+
+    // Notional the order may add under each enabled limit. A net limit counts an order
+    // against the existing skew, so orders that flatten the book get extra room.
+    const headroom: Array<{ limit: ExposureLimitName; max: number; used: number; percent: number }> = [];
+    if (this.limits.maxGrossExposurePercent > 0) {
+      headroom.push({
+        limit: 'GROSS',
+        max: (this.limits.maxGrossExposurePercent / 100) * balance,
+        used: snapshot.gross,
+        percent: this.limits.maxGrossExposurePercent,
+      });
+    }
+    if (this.limits.maxNetExposurePercent > 0) {
+      headroom.push({
+        limit: 'NET',
+        max: (this.limits.maxNetExposurePercent / 100) * balance,
+        used: direction * snapshot.net,
+        percent: this.limits.maxNetExposurePercent,
+      });
+    }
+    if (this.limits.maxSectorExposurePercent > 0) {
+      headroom.push({
+        limit: 'SECTOR',
+        max: (this.limits.maxSectorExposurePercent / 100) * balance,
+        used: snapshot.bySector[sector] || 0,
+        percent: this.limits.maxSectorExposurePercent,
+      });
+    }
+
+    let quantityAllowed = quantity;
+    let binding: (typeof headroom)[number] | undefined;
+    for (const entry of headroom) {
+      const fits = Math.max(Math.floor((entry.max - entry.used) / price), 0);
+      if (fits < quantityAllowed) {
+        quantityAllowed = fits;
+        binding = entry;
+      }
+    }
+
+    if (!binding) {
+      return { allowed: true, quantity, sector };
+    }
+
+    const label = binding.limit === 'SECTOR' ? `Sector (${sector})` : binding.limit === 'GROSS' ? 'Gross' : 'Net';
+    const usage = `₹${binding.used.toFixed(0)} of ₹${binding.max.toFixed(0)} (${binding.percent}% of balance) in use`;
+    const reason = quantityAllowed > 0
+      ? `${label} exposure limit: reduced ${quantity} -> ${quantityAllowed} shares, ${usage}`
+      : `${label} exposure limit reached: ${usage}`;
+
+    return {
+      allowed: quantityAllowed > 0,
+      quantity: quantityAllowed,
+      limit: binding.limit,
+      reason,
+      sector,
+    };
+  }
+}
@@ -0,0 +1,202 @@
+import { PositionSizingConfig, PositionSizingPolicy } from "../types";
+
+export interface TradeOutcomeStats {
+  trades: number;
+  winRate: number; // 0-1
+  avgWin: number;  // ₹, positive
+  avgLoss: number; // ₹, positive
+}
+
+export interface SizingInput {
+  symbol: string;
+  entryPrice: number;
+  stopLoss: number;
+  allocatedCapital: number;    // The strategy's capital bucket (₹)
+  marginMultiplier: number;    // Per-symbol intraday leverage
+  positionSizePercent: number; // POSITION_SIZE_PERCENT
+  maxRiskPerTradePercent: number; // MAX_RISK_PER_TRADE_PERCENT
+  atr: number | null;          // VOLATILITY_TARGET: recent ATR, null while warming up
+  outcomes: TradeOutcomeStats; // KELLY: the strategy's closed-trade history
+}
+
+export interface SizingResult {
+  quantity: number;
+  policy: PositionSizingPolicy; // Policy that produced the quantity (after any fallback)
+  inputs: Record<string, number | string>; // What the calculation used - logged and audited
+}
+
+export interface SizingPolicy {
+  readonly name: PositionSizingPolicy;
+  calculate(input: SizingInput): SizingResult;
+}
+
+/**
+ * Never size beyond what the strategy's bucket can carry with the symbol's margin
+ */
+function capToBuyingPower(quantity: number, input: SizingInput): number {
+  const maxQuantity = Math.floor((input.allocatedCapital * input.marginMultiplier) / input.entryPrice);
+  return Math.max(Math.min(Math.floor(quantity), maxQuantity), 0);
+}
+
+function sizeFromRisk(
+  policy: PositionSizingPolicy,
+  riskAmount: number,
+  input: SizingInput,
+  inputs: Record<string, number | string>,
+): SizingResult {
+  const riskPerShare = Math.abs(input.entryPrice - input.stopLoss);
+  const quantity = riskPerShare > 0 ? capToBuyingPower(riskAmount / riskPerShare, input) : 0;
+
+  return {
+    quantity,
+    policy,
+    inputs: {
+      ...inputs,
+      riskAmount: round(riskAmount),
+      riskPerShare: round(riskPerShare),
+      marginMultiplier: input.marginMultiplier,
+      allocatedCapital: round(input.allocatedCapital),
+    },
+  };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * POSITION_SIZE_PERCENT of the strategy's bucket, leveraged by the symbol's margin
+ */
+export class FixedNotionalSizing implements SizingPolicy {
+  public readonly name = PositionSizingPolicy.FIXED_NOTIONAL;
+
+  public calculate(input: SizingInput): SizingResult {
+    const notional = (input.positionSizePercent / 100) * input.allocatedCapital * input.marginMultiplier;
+
+    return {
+      quantity: capToBuyingPower(notional / input.entryPrice, input),
+      policy: this.name,
+      inputs: {
+        positionSizePercent: input.positionSizePercent,
+        marginMultiplier: input.marginMultiplier,
+        allocatedCapital: round(input.allocatedCapital),
+        notional: round(notional),
+      },
+    };
+  }
+}
+
+/**
+ * Lose MAX_RISK_PER_TRADE_PERCENT of the bucket if the stop is hit
+ */
+export class FixedRiskSizing implements SizingPolicy {
+  public readonly name = PositionSizingPolicy.FIXED_RISK;
+
+  public calculate(input: SizingInput): SizingResult {
+    const riskAmount = (input.maxRiskPerTradePercent / 100) * input.allocatedCapital;
+    return sizeFromRisk(this.name, riskAmount, input, {
+      maxRiskPerTradePercent: input.maxRiskPerTradePercent,
+    });
+  }
+}
+
+/**
+ * Size so that a one-ATR move costs `volatilityTargetPercent` of the bucket - quiet
+ * names get bigger positions, volatile ones smaller. Falls back to fixed-risk sizing
+ * until the ATR has warmed up.
+ */
+export class VolatilityTargetSizing implements SizingPolicy {
+  public readonly name = PositionSizingPolicy.VOLATILITY_TARGET;
+
+  constructor(private readonly config: PositionSizingConfig) {}
+
+  public calculate(input: SizingInput): SizingResult {
+    if (!input.atr || input.atr <= 0) {
+      const fallback = new FixedRiskSizing().calculate(input);
+      return { ...fallback, inputs: { ...fallback.inputs, fallbackReason: "ATR not available" } };
+    }
+
+    const targetAmount = (this.config.volatilityTargetPercent / 100) * input.allocatedCapital;
+    return {
+      quantity: capToBuyingPower(targetAmount / input.atr, input),
+      policy: this.name,
+      inputs: {
+        volatilityTargetPercent: this.config.volatilityTargetPercent,
+        atr: round(input.atr),
+        atrTimeframe: `${this.config.atrTimeframe}m`,
+        atrPeriod: this.config.atrPeriod,
+        targetAmount: round(targetAmount),
+        marginMultiplier: input.marginMultiplier,
+        allocatedCapital: round(input.allocatedCapital),
+      },
+    };
+  }
+}
+
+/**
+ * Risk a fraction of the Kelly criterion f* = W - (1 - W) / R (W = win rate, R = average
+ * win / average loss) from the strategy's closed trades, capped at `kellyMaxRiskPercent`
+ * of the bucket. Uses fixed-risk sizing until `kellyMinTrades` trades exist; a negative
+ * edge sizes to zero so the trade is skipped.
+ */
+export class KellySizing implements SizingPolicy {
+  public readonly name = PositionSizingPolicy.KELLY;
+
+  constructor(private readonly config: PositionSizingConfig) {}
+
+  public calculate(input: SizingInput): SizingResult {
+    const { outcomes } = input;
+    if (outcomes.trades < this.config.kellyMinTrades || outcomes.avgLoss === 0) {
+      const fallback = new FixedRiskSizing().calculate(input);
+      const fallbackReason = outcomes.trades < this.config.kellyMinTrades
+        ? `${outcomes.trades}/${this.config.kellyMinTrades} trades for Kelly`
+        : "No losing trades yet";
+      return { ...fallback, inputs: { ...fallback.inputs, fallbackReason } };
+    }
+
+    const payoff = outcomes.avgWin / outcomes.avgLoss;
+    const kelly = outcomes.winRate - (1 - outcomes.winRate) / payoff;
+    const riskPercent = Math.min(Math.max(kelly, 0) * this.config.kellyFraction * 100, this.config.kellyMaxRiskPercent);
+
+    return sizeFromRisk(this.name, (riskPercent / 100) * input.allocatedCapital, input, {
+      trades: outcomes.trades,
+      winRate: round(outcomes.winRate),
+      payoffRatio: round(payoff),
+      fullKellyPercent: round(kelly * 100),
+      kellyFraction: this.config.kellyFraction,
+      riskPercent: round(riskPercent),
+    });
+  }
+}
+
+/**
+ * Build the sizing policy selected by SIZING_POLICY
+ */
+export function createSizingPolicy(config: PositionSizingConfig): SizingPolicy {
+  switch (config.policy) {
+    case PositionSizingPolicy.FIXED_RISK:
+      return new FixedRiskSizing();
+    case PositionSizingPolicy.VOLATILITY_TARGET:
+      return new VolatilityTargetSizing(config);
+    case PositionSizingPolicy.KELLY:
+      return new KellySizing(config);
+    case PositionSizingPolicy.FIXED_NOTIONAL:
+    default:
+      return new FixedNotionalSizing();
+  }
+}
+
+/**
+ * Win rate and average win/loss of closed trades (breakeven trades count as trades only)
+ */
+export function summariseTradeOutcomes(pnls: number[]): TradeOutcomeStats {
+  const wins = pnls.filter((pnl) => pnl > 0);
+  const losses = pnls.filter((pnl) => pnl < 0);
+
+  return {
+    trades: pnls.length,
+    winRate: pnls.length > 0 ? wins.length / pnls.length : 0,
+    avgWin: wins.length > 0 ? wins.reduce((sum, pnl) => sum + pnl, 0) / wins.length : 0,
+    avgLoss: losses.length > 0 ? Math.abs(losses.reduce((sum, pnl) => sum + pnl, 0)) / losses.length : 0,
+  };
+}
@@ -1,7 +1,9 @@
 import { EventEmitter } from 'events';
-import { RiskLimits, OrderSide } from '../types';
+import { RiskLimits, OrderSide, LossStreakConfig } from '../types';
 import { logger } from '../utils/logger';
 import { chargesCalculator } from '../services/chargesCalculator';
+import { RiskPersistentState, riskStateStore } from '../services/riskStateStore';
+import { clock, getISTTime } from '../utils/clock';
 
 export interface RiskCheckResult {
   allowed: boolean;
@@ -21,10 +23,19 @@ export interface TradeRecord {
   entryTime: Date;
   exitTime: Date;
   result: 'WIN' | 'LOSS' | 'BREAKEVEN';
+  strategy?: string;
 }
 
+const NO_LOSS_STREAK_RULES: LossStreakConfig = {
+  symbolLossLimit: 0,
+  bookLossLimit: 0,
+  bookPauseMinutes: 0,
+  losingDaySizeReductionPercent: 0
+};
+
 export class RiskManager extends EventEmitter {
   private riskLimits: RiskLimits;
+  private lossStreakRules: LossStreakConfig;
   private tradesExecutedToday: number = 0;
   private dailyPnL: number = 0; // This is now Net PnL
   private startingBalance: number = 0;
@@ -32,30 +43,61 @@ export class RiskManager extends EventEmitter {
   private lastResetDate: string = '';
   private dailyTrades: TradeRecord[] = [];
 
-  constructor(riskLimits: RiskLimits, startingBalance: number) {
+  // Loss streak state - persisted via riskStateStore so a restart keeps it
+  private symbolLossStreaks: Map<string, number> = new Map();
+  private blockedSymbols: Set<string> = new Set();
+  private bookLossStreak: number = 0;
+  private pausedUntil: number | null = null;
+  private previousDayPnL: number | null = null;
+
+  constructor(riskLimits: RiskLimits, startingBalance: number, lossStreakRules: LossStreakConfig = NO_LOSS_STREAK_RULES) {
     super();
     this.riskLimits = riskLimits;
+    this.lossStreakRules = lossStreakRules;
     this.startingBalance = startingBalance;
     this.currentBalance = startingBalance;
     this.resetDailyCounters();
   }
 
   private resetDailyCounters(): void {
-    const today = new Date().toISOString().split('T')[0];
+    const today = clock.date().toISOString().split('T')[0];
 
     if (this.lastResetDate !== today) {
+      // On startup the last saved day stands in for the day that just ended
+      const previous = this.lastResetDate ? this.toPersistentState() : riskStateStore.load();
+
+      if (previous && previous.date === today) {
+        this.restoreState(previous);
+        this.lastResetDate = today;
+        logger.info('Daily risk state restored after restart', {
+          date: today,
+          dailyPnL: this.dailyPnL,
+          blockedSymbols: [...this.blockedSymbols],
+          bookLossStreak: this.bookLossStreak
+        });
+        return;
+      }
+
+      if (previous) {
+        this.previousDayPnL = previous.tradesExecuted > 0 ? previous.dailyPnL : previous.previousDayPnL;
+      }
+
       this.tradesExecutedToday = 0;
       this.dailyPnL = 0;
       this.dailyTrades = [];
+      this.symbolLossStreaks.clear();
+      this.blockedSymbols.clear();
+      this.bookLossStreak = 0;
+      this.pausedUntil = null;
       this.lastResetDate = today;
 
-      logger.info('Daily risk counters reset', { date: today });
-      logger.audit('RISK_COUNTERS_RESET', { date: today });
+      logger.info('Daily risk counters reset', { date: today, previousDayPnL: this.previousDayPnL });
+      logger.audit('RISK_COUNTERS_RESET', { date: today, previousDayPnL: this.previousDayPnL });
     }
   }
 
   public checkOrderRisk(
-    _symbol: string,
+    symbol: string,
     _side: OrderSide,
     quantity: number,
     price: number,
@@ -64,6 +106,19 @@ export class RiskManager extends EventEmitter {
   ): RiskCheckResult {
     this.resetDailyCounters();
 
+    // 0. Loss streak rules
+    if (this.blockedSymbols.has(symbol)) {
+      const reason = `${symbol} blocked for the day after ${this.lossStreakRules.symbolLossLimit} consecutive losses`;
+      logger.warn('Risk check failed', { reason });
+      return { allowed: false, reason };
+    }
+
+    if (this.pausedUntil !== null && clock.now() < this.pausedUntil) {
+      const reason = `New entries paused until ${getISTTime(this.pausedUntil)} IST after ${this.lossStreakRules.bookLossLimit} consecutive losses`;
+      logger.warn('Risk check failed', { reason });
+      return { allowed: false, reason };
+    }
+
     // 1. Check Max Daily Trades (system-wide cap across all symbols)
     if (this.tradesExecutedToday >= this.riskLimits.maxTradesPerDay) {
       const reason = `Max trades per day limit reached (${this.riskLimits.maxTradesPerDay})`;
@@ -155,7 +210,10 @@ export class RiskManager extends EventEmitter {
     return finalQuantity;
   }
 
-  public recordTrade(grossPnL: number, tradeDetails?: Partial<TradeRecord>): void {
+  /**
+   * Book a closed trade. Returns its P&L net of charges (gross when no price details are given).
+   */
+  public recordTrade(grossPnL: number, tradeDetails?: Partial<TradeRecord>): number {
     this.resetDailyCounters();
     this.tradesExecutedToday++;
 
@@ -192,7 +250,8 @@ export class RiskManager extends EventEmitter {
         pnlPercent: tradeDetails.pnlPercent || 0,
         entryTime: tradeDetails.entryTime || new Date(),
         exitTime: tradeDetails.exitTime || new Date(),
-        result: netPnL > 0 ? 'WIN' : 'LOSS' // Strict, slightly positive is win, even 0 is break-even but simplified
+        result: netPnL > 0 ? 'WIN' : 'LOSS', // Strict, slightly positive is win, even 0 is break-even but simplified
+        strategy: tradeDetails.strategy
       };
 
       if (Math.abs(netPnL) < 1) trade.result = 'BREAKEVEN'; // Tolerance
@@ -200,6 +259,9 @@ export class RiskManager extends EventEmitter {
       this.dailyTrades.push(trade);
     }
 
+    this.updateLossStreaks(tradeDetails?.symbol, netPnL);
+    riskStateStore.save(this.toPersistentState());
+
 
     logger.info('Trade recorded', {
       tradesExecutedToday: this.tradesExecutedToday,
@@ -217,6 +279,7 @@ export class RiskManager extends EventEmitter {
     });
 
     this.checkRiskThresholds();
+    return netPnL;
   }
 
   public getDailyTrades(): TradeRecord[] {
@@ -224,10 +287,83 @@ export class RiskManager extends EventEmitter {
     return [...this.dailyTrades];
   }
 
+  /**
+   * Multiplier for new entry quantities - reduced the day after a losing day
+   */
+  public getSizeMultiplier(): number {
+    this.resetDailyCounters();
+
+    const reduction = this.lossStreakRules.losingDaySizeReductionPercent;
+    return reduction > 0 && this.previousDayPnL !== null && this.previousDayPnL < 0
+      ? 1 - reduction / 100
+      : 1;
+  }
+
   public updateBalance(balance: number): void {
     this.currentBalance = balance;
   }
 
+  private updateLossStreaks(symbol: string | undefined, netPnL: number): void {
+    // Breakeven (same tolerance as the trade result) neither extends nor breaks a streak
+    if (Math.abs(netPnL) < 1) return;
+
+    if (netPnL > 0) {
+      this.bookLossStreak = 0;
+      if (symbol) this.symbolLossStreaks.delete(symbol);
+      return;
+    }
+
+    this.bookLossStreak++;
+
+    const { symbolLossLimit, bookLossLimit, bookPauseMinutes } = this.lossStreakRules;
+    if (symbol) {
+      const losses = (this.symbolLossStreaks.get(symbol) || 0) + 1;
+      this.symbolLossStreaks.set(symbol, losses);
+
+      if (symbolLossLimit > 0 && losses >= symbolLossLimit && !this.blockedSymbols.has(symbol)) {
+        this.blockedSymbols.add(symbol);
+        logger.warn(`🚫 ${symbol} blocked for the rest of the day`, { symbol, consecutiveLosses: losses });
+        logger.audit('SYMBOL_BLOCKED', { symbol, consecutiveLosses: losses });
+        this.emit('symbol_blocked', { symbol, losses });
+      }
+    }
+
+    if (bookLossLimit > 0 && bookPauseMinutes > 0 && this.bookLossStreak >= bookLossLimit) {
+      const losses = this.bookLossStreak;
+      this.pausedUntil = clock.now() + bookPauseMinutes * 60 * 1000;
+      this.bookLossStreak = 0; // The next pause needs a fresh streak
+      logger.warn(`⏸️ New entries paused for ${bookPauseMinutes} minutes`, {
+        consecutiveLosses: losses,
+        pausedUntil: getISTTime(this.pausedUntil)
+      });
+      logger.audit('ENTRIES_PAUSED', { consecutiveLosses: losses, pausedUntil: this.pausedUntil });
+      this.emit('entries_paused', { losses, minutes: bookPauseMinutes, pausedUntil: this.pausedUntil });
+    }
+  }
+
+  private toPersistentState(): RiskPersistentState {
+    return {
+      date: this.lastResetDate,
+      dailyPnL: this.dailyPnL,
+      tradesExecuted: this.tradesExecutedToday,
+      symbolLossStreaks: Object.fromEntries(this.symbolLossStreaks),
+      blockedSymbols: [...this.blockedSymbols],
+      bookLossStreak: this.bookLossStreak,
+      pausedUntil: this.pausedUntil,
+      previousDayPnL: this.previousDayPnL
+    };
+  }
+
+  private restoreState(state: RiskPersistentState): void {
+    this.dailyPnL = state.dailyPnL;
+    this.tradesExecutedToday = state.tradesExecuted;
+    this.symbolLossStreaks = new Map(Object.entries(state.symbolLossStreaks));
+    this.blockedSymbols = new Set(state.blockedSymbols);
+    this.bookLossStreak = state.bookLossStreak;
+    this.pausedUntil = state.pausedUntil;
+    this.previousDayPnL = state.previousDayPnL;
+  }
+
   private checkRiskThresholds(): void {
     const dailyLossLimit = (this.riskLimits.maxDailyLossPercent / 100) * this.startingBalance;
     const lossPercentage = (Math.abs(this.dailyPnL) / this.startingBalance) * 100;
@@ -270,10 +406,18 @@ export class RiskManager extends EventEmitter {
       dailyLossLimit: dailyLossLimit,
       dailyLossPercentage: lossPercentage,
       maxDailyLossPercent: this.riskLimits.maxDailyLossPercent,
-      isAtRiskLimit: this.dailyPnL < 0 && Math.abs(this.dailyPnL) >= dailyLossLimit
+      isAtRiskLimit: this.dailyPnL < 0 && Math.abs(this.dailyPnL) >= dailyLossLimit,
+      blockedSymbols: [...this.blockedSymbols],
+      entriesPausedUntil: this.pausedUntil !== null && clock.now() < this.pausedUntil ? this.pausedUntil : null,
+      previousDayPnL: this.previousDayPnL,
+      sizeMultiplier: this.getSizeMultiplier()
     };
   }
 
+  public getRiskLimits(): RiskLimits {
+    return { ...this.riskLimits };
+  }
+
   public updateRiskLimits(newLimits: Partial<RiskLimits>): void {
     this.riskLimits = { ...this.riskLimits, ...newLimits };
     logger.info('Risk limits updated', this.riskLimits);
@@ -0,0 +1,211 @@
+import { EventEmitter } from 'events';
+import { RiskLimits, StrategyAllocation } from '../types';
+import { logger } from '../utils/logger';
+import { clock } from '../utils/clock';
+import { RiskCheckResult } from './riskManager';
+
+export interface StrategyDailyStats {
+  strategy: string;
+  capitalPercent: number;
+  tradesExecutedToday: number;
+  winningTrades: number;
+  losingTrades: number;
+  dailyPnL: number; // Net of charges
+  dailyLossLimit: number;
+  isAtLossLimit: boolean;
+}
+
+interface StrategyCounters {
+  trades: number;
+  wins: number;
+  losses: number;
+  pnl: number;
+  lossLimitNotified: boolean;
+}
+
+/**
+ * Strategy Allocator - per-strategy capital buckets and daily limits
+ *
+ * Each strategy registered with the engine gets a share of account capital to size
+ * from, its own trade cap and its own daily loss limit (a % of that share). These sit
+ * inside the system-wide RiskManager limits, which still apply to the account as a
+ * whole. A strategy registered without an allocation gets the whole account and the
+ * global limits, so a single-strategy setup behaves exactly as before.
+ */
+export class StrategyAllocator extends EventEmitter {
+  private riskLimits: RiskLimits;
+  private startingBalance: number;
+  private allocations: Map<string, StrategyAllocation> = new Map();
+  private counters: Map<string, StrategyCounters> = new Map();
+  private lastResetDate: string = '';
+
+  constructor(riskLimits: RiskLimits, startingBalance: number) {
+    super();
+    this.riskLimits = riskLimits;
+    this.startingBalance = startingBalance;
+  }
+
+  /**
+   * Register a strategy's bucket. Missing fields fall back to the whole account and the
+   * global limits. Throws if the buckets of all strategies would exceed 100% of capital.
+   */
+  public register(strategy: string, allocation: Partial<StrategyAllocation> = {}): StrategyAllocation {
+    const resolved: StrategyAllocation = {
+      capitalPercent: allocation.capitalPercent ?? 100,
+      maxTradesPerDay: allocation.maxTradesPerDay ?? this.riskLimits.maxTradesPerDay,
+      maxDailyLossPercent: allocation.maxDailyLossPercent ?? this.riskLimits.maxDailyLossPercent
+    };
+
+    if (resolved.capitalPercent <= 0 || resolved.capitalPercent > 100) {
+      throw new Error(`${strategy}: capitalPercent must be between 0 and 100 (got ${resolved.capitalPercent})`);
+    }
+
+    const otherBuckets = [...this.allocations.entries()]
+      .filter(([name]) => name !== strategy)
+      .reduce((sum, [, a]) => sum + a.capitalPercent, 0);
+
+    if (otherBuckets + resolved.capitalPercent > 100) {
+      throw new Error(
+        `${strategy}: capital allocations exceed 100% ` +
+        `(${otherBuckets}% already allocated, ${resolved.capitalPercent}% requested)`
+      );
+    }
+
+    this.allocations.set(strategy, resolved);
+
+    logger.info('Strategy capital allocated', { strategy, ...resolved });
+    logger.audit('STRATEGY_ALLOCATED', { strategy, ...resolved });
+
+    return resolved;
+  }
+
+  public getAllocation(strategy: string): StrategyAllocation {
+    return this.allocations.get(strategy) || {
+      capitalPercent: 100,
+      maxTradesPerDay: this.riskLimits.maxTradesPerDay,
+      maxDailyLossPercent: this.riskLimits.maxDailyLossPercent
+    };
+  }
+
+  /**
+   * The strategy's share of the given account balance
+   */
+  public getAllocatedCapital(strategy: string, balance: number): number {
+    return (this.getAllocation(strategy).capitalPercent / 100) * balance;
+  }
+
+  /**
+   * Per-strategy pre-trade checks: trade cap, loss limit and bucket exposure.
+   * openExposure is the notional of the strategy's open positions; orderValue the new order.
+   */
+  public checkSignal(
+    strategy: string,
+    openExposure: number,
+    orderValue: number,
+    balance: number
+  ): RiskCheckResult {
+    this.resetDailyCounters();
+
+    const allocation = this.getAllocation(strategy);
+    const counters = this.getCounters(strategy);
+
+    if (counters.trades >= allocation.maxTradesPerDay) {
+      const reason = `${strategy} max trades per day reached (${allocation.maxTradesPerDay})`;
+      logger.warn('Strategy check failed', { strategy, reason });
+      return { allowed: false, reason };
+    }
+
+    const lossLimit = this.getDailyLossLimit(strategy);
+    if (counters.pnl < 0 && Math.abs(counters.pnl) >= lossLimit) {
+      const reason = `${strategy} daily loss limit reached (${allocation.maxDailyLossPercent}% of allocation)`;
+      logger.warn('Strategy check failed', { strategy, reason, dailyPnL: counters.pnl, limit: lossLimit });
+      return { allowed: false, reason };
+    }
+
+    const buyingPower = this.riskLimits.useMargin
+      ? this.getAllocatedCapital(strategy, balance) * this.riskLimits.marginMultiplier
+      : this.getAllocatedCapital(strategy, balance);
+
+    if (openExposure + orderValue > buyingPower) {
+      const reason = `${strategy} capital allocation exhausted (${allocation.capitalPercent}% of balance)`;
+      logger.warn('Strategy check failed', { strategy, reason, openExposure, orderValue, buyingPower });
+      return { allowed: false, reason };
+    }
+
+    return { allowed: true };
+  }
+
+  /**
+   * Attribute a closed trade's net P&L to its strategy
+   */
+  public recordTrade(strategy: string, netPnL: number): void {
+    this.resetDailyCounters();
+
+    const counters = this.getCounters(strategy);
+    counters.trades++;
+    counters.pnl += netPnL;
+    if (netPnL > 0) counters.wins++;
+    else if (netPnL < 0) counters.losses++;
+
+    logger.info('Strategy trade recorded', {
+      strategy,
+      tradesExecutedToday: counters.trades,
+      dailyPnL: counters.pnl,
+      tradePnL: netPnL
+    });
+
+    const lossLimit = this.getDailyLossLimit(strategy);
+    if (counters.pnl < 0 && Math.abs(counters.pnl) >= lossLimit && !counters.lossLimitNotified) {
+      counters.lossLimitNotified = true;
+      logger.error('Strategy daily loss limit reached', { strategy, dailyPnL: counters.pnl, limit: lossLimit });
+      this.emit('strategy_loss_limit_reached', { strategy, dailyPnL: counters.pnl, limit: lossLimit });
+    }
+  }
+
+  public getDailyStats(): StrategyDailyStats[] {
+    this.resetDailyCounters();
+
+    const names = new Set([...this.allocations.keys(), ...this.counters.keys()]);
+    return [...names].map(strategy => {
+      const counters = this.getCounters(strategy);
+      const dailyLossLimit = this.getDailyLossLimit(strategy);
+      return {
+        strategy,
+        capitalPercent: this.getAllocation(strategy).capitalPercent,
+        tradesExecutedToday: counters.trades,
+        winningTrades: counters.wins,
+        losingTrades: counters.losses,
+        dailyPnL: counters.pnl,
+        dailyLossLimit,
+        isAtLossLimit: counters.pnl < 0 && Math.abs(counters.pnl) >= dailyLossLimit
+      };
+    });
+  }
+
+  public resetStartingBalance(balance: number): void {
+    this.startingBalance = balance;
+  }
+
+  private getDailyLossLimit(strategy: string): number {
+    return (this.getAllocation(strategy).maxDailyLossPercent / 100) *
+      this.getAllocatedCapital(strategy, this.startingBalance);
+  }
+
+  private getCounters(strategy: string): StrategyCounters {
+    let counters = this.counters.get(strategy);
+    if (!counters) {
+      counters = { trades: 0, wins: 0, losses: 0, pnl: 0, lossLimitNotified: false };
+      this.counters.set(strategy, counters);
+    }
+    return counters;
+  }
+
+  private resetDailyCounters(): void {
+    const today = clock.date().toISOString().split('T')[0];
+
+    if (this.lastResetDate !== today) {
+      this.counters.clear();
+      this.lastResetDate = today;
+    }
+  }
+}
@@ -0,0 +1,161 @@
+import { EventEmitter } from "events";
+import { Candle, CandleTimeframe, MarketData } from "../types";
+import { logger } from "../utils/logger";
+import { getISTDate } from "../utils/clock";
+
+export const CANDLE_TIMEFRAMES: readonly CandleTimeframe[] = [1, 3, 5, 15];
+
+// One session of 1-minute bars (09:15 - 15:30)
+const DEFAULT_MAX_HISTORY = 375;
+
+interface SymbolCandles {
+  date: string;               // IST trading day of the volume baseline
+  lastCumVolume: number | null; // Cumulative day volume at the previous tick (null = no baseline yet)
+  open: Map<CandleTimeframe, Candle>;
+  history: Map<CandleTimeframe, Candle[]>;
+}
+
+/**
+ * Candle Aggregator - Builds OHLCV bars on several timeframes from ticks
+ *
+ * Bars are aligned to the minute grid (which matches the 09:15 IST open for 1/3/5/15 min)
+ * and stamped with their open time. Bar volume is the change in the tick's cumulative day
+ * volume, so the first tick seen for a symbol each day only sets the baseline.
+ *
+ * A bar closes on the first tick of a later bar for the same symbol, or on flush() at the
+ * end of the session - a symbol that stops ticking keeps its last bar open until then.
+ * Each close emits `candle_closed` (candle, timeframe) and is appended to a rolling
+ * per-symbol history.
+ */
+export class CandleAggregator extends EventEmitter {
+  private symbols: Map<string, SymbolCandles> = new Map();
+  private readonly timeframes: readonly CandleTimeframe[];
+  private readonly maxHistory: number;
+
+  constructor(
+    timeframes: readonly CandleTimeframe[] = CANDLE_TIMEFRAMES,
+    maxHistory: number = DEFAULT_MAX_HISTORY,
+  ) {
+    super();
+    this.timeframes = timeframes;
+    this.maxHistory = maxHistory;
+  }
+
+  public getTimeframes(): readonly CandleTimeframe[] {
+    return this.timeframes;
+  }
+
+  public onTick(data: MarketData): void {
+    const entry = this.getEntry(data.symbol);
+    const tickTime = data.timestamp.getTime();
+
+    const date = getISTDate(tickTime);
+    if (entry.date !== date) {
+      entry.date = date;
+      entry.lastCumVolume = null;
+    }
+
+    let traded = 0;
+    if (entry.lastCumVolume !== null && data.volume >= entry.lastCumVolume) {
+      traded = data.volume - entry.lastCumVolume;
+    }
+    // A drop means the feed restarted its counter - take the new value as the baseline
+    entry.lastCumVolume = data.volume;
+
+    for (const timeframe of this.timeframes) {
+      const bucketStart = Math.floor(tickTime / (timeframe * 60000)) * timeframe * 60000;
+      let candle = entry.open.get(timeframe);
+
+      if (candle && bucketStart < candle.timestamp.getTime()) {
+        // Out-of-order tick for a bar that has already closed - only the volume baseline moves
+        continue;
+      }
+
+      if (candle && bucketStart > candle.timestamp.getTime()) {
+        this.closeCandle(entry, timeframe, candle);
+        candle = undefined;
+      }
+
+      if (!candle) {
+        entry.open.set(timeframe, {
+          symbol: data.symbol,
+          timestamp: new Date(bucketStart),
+          open: data.ltp,
+          high: data.ltp,
+          low: data.ltp,
+          close: data.ltp,
+          volume: traded,
+        });
+        continue;
+      }
+
+      candle.high = Math.max(candle.high, data.ltp);
+      candle.low = Math.min(candle.low, data.ltp);
+      candle.close = data.ltp;
+      candle.volume += traded;
+    }
+  }
+
+  /**
+   * Bar still being built for the symbol, or null
+   */
+  public getCurrentCandle(symbol: string, timeframe: CandleTimeframe): Candle | null {
+    return this.symbols.get(symbol)?.open.get(timeframe) || null;
+  }
+
+  /**
+   * Closed bars, oldest first - the last `count` when given
+   */
+  public getHistory(symbol: string, timeframe: CandleTimeframe, count?: number): Candle[] {
+    const history = this.symbols.get(symbol)?.history.get(timeframe) || [];
+    return count === undefined ? [...history] : history.slice(-count);
+  }
+
+  /**
+   * Close every open bar (end of session). The next tick starts fresh bars.
+   */
+  public flush(): void {
+    for (const entry of this.symbols.values()) {
+      for (const [timeframe, candle] of entry.open) {
+        this.closeCandle(entry, timeframe, candle);
+      }
+    }
+  }
+
+  /**
+   * Drop all bars and history without emitting anything
+   */
+  public reset(): void {
+    this.symbols.clear();
+  }
+
+  private closeCandle(entry: SymbolCandles, timeframe: CandleTimeframe, candle: Candle): void {
+    entry.open.delete(timeframe);
+
+    let history = entry.history.get(timeframe);
+    if (!history) {
+      history = [];
+      entry.history.set(timeframe, history);
+    }
+    history.push(candle);
+    if (history.length > this.maxHistory) {
+      history.shift();
+    }
+
+    try {
+      this.emit("candle_closed", candle, timeframe);
+    } catch (error) {
+      // A failing subscriber must not stop the remaining timeframes from being built
+      logger.error(`Candle subscriber failed for ${candle.symbol} ${timeframe}m`, error);
+    }
+  }
+
+  private getEntry(symbol: string): SymbolCandles {
+    let entry = this.symbols.get(symbol);
+    if (!entry) {
+      entry = { date: "", lastCumVolume: null, open: new Map(), history: new Map() };
+      this.symbols.set(symbol, entry);
+    }
+    return entry;
+  }
+}
@@ -1,10 +1,22 @@
+import { MarketQuote, OrderSide } from '../types';
+import { clock } from '../utils/clock';
+
 export interface CircuitStatus {
     atCircuit: boolean;
     type?: 'UPPER' | 'LOWER';
     limit?: number;
 }
 
+export interface CircuitBands {
+    upper: number;
+    lower: number;
+    date: string; // Day the bands apply to (YYYY-MM-DD)
+}
+
 export class CircuitLimitDetector {
+    // Latest bands per symbol from full quotes - bands are set per day by the exchange
+    private bands: Map<string, CircuitBands> = new Map();
+
     /**
      * Check if current price is at circuit limit
      */
@@ -43,6 +55,36 @@ export class CircuitLimitDetector {
         }
         return { atCircuit: false };
     }
+
+    /**
+     * Remember the day's bands from a full quote (quotes without bands are ignored)
+     */
+    recordQuote(quote: MarketQuote): void {
+        if (!(quote.upperCircuit > 0) || !(quote.lowerCircuit > 0)) return;
+        this.bands.set(quote.symbol, {
+            upper: quote.upperCircuit,
+            lower: quote.lowerCircuit,
+            date: clock.date().toISOString().split('T')[0],
+        });
+    }
+
+    /**
+     * Today's bands for a symbol, if a quote has been seen today
+     */
+    getBands(symbol: string): CircuitBands | null {
+        const bands = this.bands.get(symbol);
+        if (!bands || bands.date !== clock.date().toISOString().split('T')[0]) return null;
+        return bands;
+    }
+
+    /**
+     * How far (% of price) an entry can move before it runs into the circuit on its side -
+     * the upper band for buys, the lower band for sells
+     */
+    distanceToCircuit(side: OrderSide, price: number, upperCircuit: number, lowerCircuit: number): number {
+        const room = side === OrderSide.BUY ? upperCircuit - price : price - lowerCircuit;
+        return (room / price) * 100;
+    }
 }
 
 export const circuitLimitDetector = new CircuitLimitDetector();
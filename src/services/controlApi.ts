@@ -0,0 +1,257 @@
+import crypto from 'crypto';
+import { Order, Position, RiskLimits } from '../types';
+import { LiveMetrics } from './metricsTracker';
+import {
+  SIGNAL_JOURNAL_STAGES,
+  SignalFunnel,
+  SignalJournalEntry,
+  SignalJournalOutcome,
+  SignalJournalQuery,
+  SignalJournalStage
+} from './signalJournal';
+import { logger } from '../utils/logger';
+
+export type ManualCloseResult = 'CLOSED' | 'NO_POSITION' | 'BUSY';
+
+export interface StrategyControlState {
+  name: string;
+  paused: boolean;
+  capitalPercent: number;
+  tradesExecutedToday: number;
+  dailyPnL: number;
+  dailyLossLimit: number;
+  isAtLossLimit: boolean;
+}
+
+/**
+ * What the API reads and acts on - supplied by the trading engine. Pause/resume return
+ * false for a strategy the engine doesn't run.
+ */
+export interface ControlApiHandlers {
+  getPositions(): Position[];
+  getOrders(): Promise<Order[]>;
+  getRiskStats(): object;
+  getLiveMetrics(): LiveMetrics;
+  getCircuitBreakers(): object[];
+  getStrategies(): StrategyControlState[];
+  setStrategyPaused(name: string, paused: boolean): boolean;
+  setKillSwitch(active: boolean): void;
+  closePosition(symbol: string): Promise<ManualCloseResult>;
+  flatten(): Promise<number>;
+  updateRiskLimits(limits: Partial<RiskLimits>): RiskLimits;
+  getSignalJournal(query: SignalJournalQuery): SignalJournalEntry[];
+  getSignalFunnel(date?: string, strategy?: string): SignalFunnel;
+}
+
+export interface ControlApiResponse {
+  status: number;
+  body: unknown;
+}
+
+interface Route {
+  method: 'GET' | 'POST';
+  pattern: RegExp;
+  run: (params: string[], body: any, query: URLSearchParams) => Promise<ControlApiResponse>;
+}
+
+/**
+ * Constant-time token check - fixed-length digests take the same time for every guess
+ */
+export function tokenMatches(expected: string, candidate: string | undefined): boolean {
+  if (!candidate) return false;
+  const digest = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(digest(candidate), digest(expected));
+}
+
+const SIGNAL_JOURNAL_OUTCOMES: SignalJournalOutcome[] = ['REJECTED', 'PASSED', 'FILLED'];
+const DEFAULT_SIGNAL_JOURNAL_LIMIT = 500;
+
+const RISK_LIMIT_NUMBER_KEYS = ['maxRiskPerTradePercent', 'maxDailyLossPercent', 'maxTradesPerDay', 'positionSizePercent', 'marginMultiplier'];
+const RISK_LIMIT_PERCENT_KEYS = ['maxRiskPerTradePercent', 'maxDailyLossPercent', 'positionSizePercent'];
+
+/**
+ * Control API - token-authenticated JSON endpoints served by the health check server
+ *
+ * Every request needs "Authorization: Bearer <CONTROL_API_TOKEN>". Reads return engine
+ * state as-is; every mutating call is audited here and then again by the engine action
+ * it triggers, which takes the same position locks as engine-initiated orders.
+ */
+export class ControlApi {
+  private readonly routes: Route[];
+
+  constructor(private readonly token: string, private readonly handlers: ControlApiHandlers) {
+    this.routes = [
+      { method: 'GET', pattern: /^\/api\/positions$/, run: async () => this.ok(this.handlers.getPositions()) },
+      { method: 'GET', pattern: /^\/api\/orders$/, run: async () => this.ok(await this.handlers.getOrders()) },
+      { method: 'GET', pattern: /^\/api\/risk$/, run: async () => this.ok(this.handlers.getRiskStats()) },
+      { method: 'GET', pattern: /^\/api\/metrics$/, run: async () => this.ok(this.handlers.getLiveMetrics()) },
+      { method: 'GET', pattern: /^\/api\/circuit-breakers$/, run: async () => this.ok(this.handlers.getCircuitBreakers()) },
+      { method: 'GET', pattern: /^\/api\/strategies$/, run: async () => this.ok(this.handlers.getStrategies()) },
+      { method: 'GET', pattern: /^\/api\/signals$/, run: async (_params, _body, query) => this.getSignalJournal(query) },
+      { method: 'GET', pattern: /^\/api\/signals\/funnel$/, run: async (_params, _body, query) => this.getSignalFunnel(query) },
+      { method: 'POST', pattern: /^\/api\/strategies\/([^/]+)\/pause$/, run: async ([name]) => this.setStrategyPaused(name, true) },
+      { method: 'POST', pattern: /^\/api\/strategies\/([^/]+)\/resume$/, run: async ([name]) => this.setStrategyPaused(name, false) },
+      { method: 'POST', pattern: /^\/api\/killswitch$/, run: async (_params, body) => this.setKillSwitch(body) },
+      { method: 'POST', pattern: /^\/api\/positions\/([^/]+)\/close$/, run: async ([symbol]) => this.closePosition(symbol) },
+      { method: 'POST', pattern: /^\/api\/flatten$/, run: async () => this.ok({ closing: await this.handlers.flatten() }) },
+      { method: 'POST', pattern: /^\/api\/risk\/limits$/, run: async (_params, body) => this.updateRiskLimits(body) }
+    ];
+  }
+
+  /**
+   * Handle one request. `rawBody` is the unparsed request body ('' for none).
+   */
+  public async handle(
+    method: string,
+    url: string,
+    authorization: string | undefined,
+    rawBody: string
+  ): Promise<ControlApiResponse> {
+    const [path, search = ''] = url.split('?');
+
+    if (!this.isAuthorized(authorization)) {
+      logger.warn('🔒 Control API request rejected - bad or missing token', { method, path });
+      logger.audit('CONTROL_API_REJECTED', { method, path });
+      return { status: 401, body: { error: 'Unauthorized' } };
+    }
+
+    const matching = this.routes.filter(r => r.pattern.test(path));
+    const route = matching.find(r => r.method === method);
+    if (!route) {
+      return matching.length > 0
+        ? { status: 405, body: { error: `${method} not allowed on ${path}` } }
+        : { status: 404, body: { error: `No such endpoint: ${path}` } };
+    }
+
+    let body: any = {};
+    if (rawBody.trim()) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        body = null;
+      }
+      if (body === null || typeof body !== 'object' || Array.isArray(body)) {
+        return { status: 400, body: { error: 'Request body must be a JSON object' } };
+      }
+    }
+
+    const params = route.pattern.exec(path)!.slice(1).map(p => decodeURIComponent(p));
+
+    if (method === 'POST') {
+      logger.info('🌐 Control API action', { path, body });
+      logger.audit('CONTROL_API_REQUEST', { method, path, body });
+    }
+
+    try {
+      return await route.run(params, body, new URLSearchParams(search));
+    } catch (error: any) {
+      logger.error('Control API request failed', { method, path, error: error.message });
+      return { status: 500, body: { error: error.message } };
+    }
+  }
+
+  private setStrategyPaused(name: string, paused: boolean): ControlApiResponse {
+    if (!this.handlers.setStrategyPaused(name, paused)) {
+      return { status: 404, body: { error: `Unknown strategy: ${name}` } };
+    }
+    return this.ok({ strategy: name, paused });
+  }
+
+  private setKillSwitch(body: any): ControlApiResponse {
+    if (typeof body.active !== 'boolean') {
+      return { status: 400, body: { error: 'Body must be {"active": true|false}' } };
+    }
+    this.handlers.setKillSwitch(body.active);
+    return this.ok({ killSwitch: body.active });
+  }
+
+  private async closePosition(rawSymbol: string): Promise<ControlApiResponse> {
+    const symbol = rawSymbol.toUpperCase();
+    const result = await this.handlers.closePosition(symbol);
+    if (result === 'NO_POSITION') {
+      return { status: 404, body: { error: `No open position in ${symbol}` } };
+    }
+    if (result === 'BUSY') {
+      return { status: 409, body: { error: `${symbol} is busy with another order - try again` } };
+    }
+    return this.ok({ symbol, closing: true });
+  }
+
+  private getSignalJournal(query: URLSearchParams): ControlApiResponse {
+    const errors: string[] = [];
+    const filter: SignalJournalQuery = { limit: DEFAULT_SIGNAL_JOURNAL_LIMIT };
+
+    for (const [key, value] of query) {
+      if (key === 'date') {
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) errors.push('date must be YYYY-MM-DD');
+        else filter.date = value;
+      } else if (key === 'stage') {
+        if (!SIGNAL_JOURNAL_STAGES.includes(value as SignalJournalStage)) errors.push(`stage must be one of ${SIGNAL_JOURNAL_STAGES.join(', ')}`);
+        else filter.stage = value as SignalJournalStage;
+      } else if (key === 'outcome') {
+        const outcome = value.toUpperCase() as SignalJournalOutcome;
+        if (!SIGNAL_JOURNAL_OUTCOMES.includes(outcome)) errors.push(`outcome must be one of ${SIGNAL_JOURNAL_OUTCOMES.join(', ')}`);
+        else filter.outcome = outcome;
+      } else if (key === 'limit') {
+        const limit = Number(value);
+        if (!Number.isInteger(limit) || limit <= 0) errors.push('limit must be a positive integer');
+        else filter.limit = limit;
+      } else if (key === 'symbol') {
+        filter.symbol = value.toUpperCase();
+      } else if (key === 'strategy' || key === 'reason') {
+        filter[key] = value;
+      } else {
+        errors.push(`${key} is not a signal journal filter`);
+      }
+    }
+
+    if (errors.length > 0) {
+      return { status: 400, body: { error: errors.join('; ') } };
+    }
+    return this.ok(this.handlers.getSignalJournal(filter));
+  }
+
+  private getSignalFunnel(query: URLSearchParams): ControlApiResponse {
+    const date = query.get('date') || undefined;
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return { status: 400, body: { error: 'date must be YYYY-MM-DD' } };
+    }
+    return this.ok(this.handlers.getSignalFunnel(date, query.get('strategy') || undefined));
+  }
+
+  private updateRiskLimits(body: any): ControlApiResponse {
+    const errors: string[] = [];
+    const limits: Partial<RiskLimits> = {};
+
+    for (const [key, value] of Object.entries(body)) {
+      if (key === 'useMargin') {
+        if (typeof value !== 'boolean') errors.push('useMargin must be true or false');
+        else limits.useMargin = value;
+      } else if (RISK_LIMIT_NUMBER_KEYS.includes(key)) {
+        if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+          errors.push(`${key} must be a positive number`);
+        } else if (RISK_LIMIT_PERCENT_KEYS.includes(key) && value > 100) {
+          errors.push(`${key} must be at most 100`);
+        } else {
+          (limits as Record<string, number>)[key] = value;
+        }
+      } else {
+        errors.push(`${key} is not a risk limit`);
+      }
+    }
+
+    if (errors.length > 0 || Object.keys(limits).length === 0) {
+      return { status: 400, body: { error: errors.length > 0 ? errors.join('; ') : 'No risk limits given' } };
+    }
+    return this.ok(this.handlers.updateRiskLimits(limits));
+  }
+
+  private isAuthorized(authorization: string | undefined): boolean {
+    const match = /^Bearer\s+(.+)$/.exec(authorization || '');
+    return !!match && tokenMatches(this.token, match[1].trim());
+  }
+
+  private ok(body: unknown): ControlApiResponse {
+    return { status: 200, body };
+  }
+}
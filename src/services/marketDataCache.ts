@@ -1,6 +1,7 @@
 import { EventEmitter } from 'events';
 import { MarketData } from '../types';
 import { logger } from '../utils/logger';
+import { clock } from '../utils/clock';
 
 /**
  * Market Data Cache - Stores real-time WebSocket market data
@@ -115,7 +116,7 @@ export class MarketDataCache extends EventEmitter {
     }
 
     // Check if data is stale
-    const age = Date.now() - data.timestamp.getTime();
+    const age = clock.now() - data.timestamp.getTime();
     if (age > this.STALE_DATA_THRESHOLD_MS) {
       logger.warn('Cached data is stale', {
         symbol,
@@ -141,7 +142,7 @@ export class MarketDataCache extends EventEmitter {
     }
 
     // Check if data is stale
-    const age = Date.now() - data.timestamp.getTime();
+    const age = clock.now() - data.timestamp.getTime();
     if (age > this.STALE_DATA_THRESHOLD_MS) {
       logger.warn('Cached data is stale', {
         symbol,
@@ -177,7 +178,7 @@ export class MarketDataCache extends EventEmitter {
    */
   public getAllMarketData(): Map<string, MarketData> {
     const result = new Map<string, MarketData>();
-    const now = Date.now();
+    const now = clock.now();
 
     for (const [symbol, data] of this.cache.entries()) {
       const age = now - data.timestamp.getTime();
@@ -197,7 +198,7 @@ export class MarketDataCache extends EventEmitter {
     const data = this.cache.get(symbol);
     if (!data) return false;
 
-    const age = Date.now() - data.timestamp.getTime();
+    const age = clock.now() - data.timestamp.getTime();
     return age <= this.STALE_DATA_THRESHOLD_MS;
   }
 
@@ -205,7 +206,7 @@ export class MarketDataCache extends EventEmitter {
    * Get cache statistics
    */
   public getStats() {
-    const now = Date.now();
+    const now = clock.now();
     let freshCount = 0;
     let staleCount = 0;
     const ages: number[] = [];
@@ -239,7 +240,7 @@ export class MarketDataCache extends EventEmitter {
    * Useful for memory management
    */
   public clearStaleData(): number {
-    const now = Date.now();
+    const now = clock.now();
     let removedCount = 0;
 
     for (const [symbol, data] of this.cache.entries()) {
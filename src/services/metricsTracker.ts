@@ -2,6 +2,7 @@ import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
 import fs from 'fs';
 import path from 'path';
+import { clock } from '../utils/clock';
 
 export interface TradeMetrics {
   symbol: string;
@@ -18,6 +19,7 @@ export interface TradeMetrics {
   holdTimeMs: number;
   result: 'WIN' | 'LOSS' | 'BREAKEVEN';
   exitReason: 'TARGET' | 'STOP_LOSS' | 'MANUAL' | 'AUTO_SQUARE_OFF' | 'TIME_BASED';
+  strategy?: string;
 }
 
 export interface DailyMetrics {
@@ -70,12 +72,15 @@ export class MetricsTracker extends EventEmitter {
   private consecutiveWins: number = 0;
 
   // CSV export path
-  private readonly EXPORT_DIR = path.join(process.cwd(), 'exports');
-  private readonly TRADES_CSV = path.join(this.EXPORT_DIR, 'trades.csv');
-  private readonly DAILY_CSV = path.join(this.EXPORT_DIR, 'daily_metrics.csv');
+  private readonly EXPORT_DIR: string;
+  private readonly TRADES_CSV: string;
+  private readonly DAILY_CSV: string;
 
-  constructor(initialBalance: number) {
+  constructor(initialBalance: number, exportDir: string = path.join(process.cwd(), 'exports')) {
     super();
+    this.EXPORT_DIR = exportDir;
+    this.TRADES_CSV = path.join(exportDir, 'trades.csv');
+    this.DAILY_CSV = path.join(exportDir, 'daily_metrics.csv');
     this.startingBalance = initialBalance;
     this.currentBalance = initialBalance;
     this.peakBalance = initialBalance;
@@ -140,7 +145,7 @@ export class MetricsTracker extends EventEmitter {
    * Get live metrics
    */
   public getLiveMetrics(): LiveMetrics {
-    const today = new Date().toISOString().split('T')[0];
+    const today = clock.date().toISOString().split('T')[0];
     const todayTrades = this.trades.filter(t =>
       t.exitTime.toISOString().split('T')[0] === today
     );
@@ -169,75 +174,16 @@ export class MetricsTracker extends EventEmitter {
    * Calculate daily metrics
    */
   public calculateDailyMetrics(date?: string): DailyMetrics {
-    const targetDate = date || new Date().toISOString().split('T')[0];
+    const targetDate = date || clock.date().toISOString().split('T')[0];
     const dayTrades = this.trades.filter(t =>
       t.exitTime.toISOString().split('T')[0] === targetDate
     );
 
     if (dayTrades.length === 0) {
-      return this.getEmptyDailyMetrics(targetDate);
+      return getEmptyDailyMetrics(targetDate);
     }
 
-    const wins = dayTrades.filter(t => t.result === 'WIN');
-    const losses = dayTrades.filter(t => t.result === 'LOSS');
-    const breakEvens = dayTrades.filter(t => t.result === 'BREAKEVEN');
-
-    const totalPnL = dayTrades.reduce((sum, t) => sum + t.pnl, 0);
-    const largestWin = wins.length > 0 ? Math.max(...wins.map(t => t.pnl)) : 0;
-    const largestLoss = losses.length > 0 ? Math.min(...losses.map(t => t.pnl)) : 0;
-
-    const avgSlippage = dayTrades.reduce((sum, t) => sum + t.actualSlippage, 0) / dayTrades.length;
-    const maxSlippage = Math.max(...dayTrades.map(t => t.actualSlippage));
-
-    const avgHoldTime = dayTrades.reduce((sum, t) => sum + t.holdTimeMs, 0) / dayTrades.length;
-
-    // Calculate drawdown for the day
-    let runningBalance = this.startingBalance;
-    let peak = runningBalance;
-    let maxDD = 0;
-
-    for (const trade of dayTrades) {
-      runningBalance += trade.pnl;
-      if (runningBalance > peak) peak = runningBalance;
-      const dd = ((peak - runningBalance) / peak) * 100;
-      if (dd > maxDD) maxDD = dd;
-    }
-
-    // Calculate Sharpe Ratio (simplified daily version)
-    const returns = dayTrades.map(t => t.pnlPercent);
-    const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
-    const stdDev = Math.sqrt(
-      returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length
-    );
-    const sharpeRatio = stdDev > 0 ? avgReturn / stdDev : 0;
-
-    // Calculate capital deployed (sum of all order values)
-    const capitalDeployed = dayTrades.reduce((sum, t) =>
-      sum + (t.entryPrice * t.quantity), 0
-    );
-
-    const capitalEfficiency = capitalDeployed > 0 ? totalPnL / capitalDeployed : 0;
-
-    const metrics: DailyMetrics = {
-      date: targetDate,
-      totalTrades: dayTrades.length,
-      winningTrades: wins.length,
-      losingTrades: losses.length,
-      breakEvenTrades: breakEvens.length,
-      winRate: (wins.length / dayTrades.length) * 100,
-      totalPnL,
-      largestWin,
-      largestLoss,
-      avgSlippage,
-      maxSlippage,
-      avgHoldTimeMs: avgHoldTime,
-      consecutiveLosses: this.calculateMaxConsecutiveLosses(dayTrades),
-      consecutiveWins: this.calculateMaxConsecutiveWins(dayTrades),
-      maxDrawdown: maxDD,
-      sharpeRatio,
-      capitalDeployed,
-      capitalEfficiency
-    };
+    const metrics = calculateTradeMetrics(targetDate, dayTrades, this.startingBalance);
 
     this.dailyMetrics.set(targetDate, metrics);
     this.exportDailyMetricsToCSV(metrics);
@@ -277,7 +223,7 @@ export class MetricsTracker extends EventEmitter {
    */
   public resetDailyCounters(): void {
     // Don't reset trades, but calculate yesterday's metrics
-    const yesterday = new Date();
+    const yesterday = clock.date();
     yesterday.setDate(yesterday.getDate() - 1);
     const yesterdayStr = yesterday.toISOString().split('T')[0];
 
@@ -291,9 +237,11 @@ export class MetricsTracker extends EventEmitter {
    */
   private initializeCSVFiles(): void {
     // Trades CSV
+    const tradesHeader = 'Date,Symbol,Side,EntryTime,ExitTime,EntryPrice,ExitPrice,Quantity,PnL,PnL%,ExpectedSlippage%,ActualSlippage%,HoldTimeMin,Result,ExitReason,Strategy';
     if (!fs.existsSync(this.TRADES_CSV)) {
-      const headers = 'Date,Symbol,Side,EntryTime,ExitTime,EntryPrice,ExitPrice,Quantity,PnL,PnL%,ExpectedSlippage%,ActualSlippage%,HoldTimeMin,Result,ExitReason\n';
-      fs.writeFileSync(this.TRADES_CSV, headers);
+      fs.writeFileSync(this.TRADES_CSV, tradesHeader + '\n');
+    } else {
+      this.upgradeTradesCSV(tradesHeader);
     }
 
     // Daily Metrics CSV
@@ -303,6 +251,28 @@ export class MetricsTracker extends EventEmitter {
     }
   }
 
+  /**
+   * A trades.csv written before the Strategy column was added has a 15-column header.
+   * Rewrite it with the current header and an empty Strategy on the rows it already
+   * holds, so the rows appended from now on line up with the header.
+   */
+  private upgradeTradesCSV(tradesHeader: string): void {
+    const lines = fs.readFileSync(this.TRADES_CSV, 'utf8').split('\n').filter(line => line.trim() !== '');
+    if (lines.length === 0) {
+      fs.writeFileSync(this.TRADES_CSV, tradesHeader + '\n');
+      return;
+    }
+    if (lines[0].split(',').includes('Strategy')) return;
+
+    const rows = lines.slice(1).map(line => line + ',');
+    fs.writeFileSync(this.TRADES_CSV, [tradesHeader, ...rows].join('\n') + '\n');
+
+    logger.info('trades.csv header upgraded with the Strategy column', {
+      file: this.TRADES_CSV,
+      existingTrades: rows.length
+    });
+  }
+
   /**
    * Export trade to CSV
    */
@@ -322,7 +292,8 @@ export class MetricsTracker extends EventEmitter {
       (trade.actualSlippage * 100).toFixed(3),
       (trade.holdTimeMs / 60000).toFixed(2), // Convert to minutes
       trade.result,
-      trade.exitReason
+      trade.exitReason,
+      trade.strategy || ''
     ].join(',') + '\n';
 
     fs.appendFileSync(this.TRADES_CSV, row);
@@ -384,64 +355,6 @@ export class MetricsTracker extends EventEmitter {
     }
   }
 
-  /**
-   * Helper methods
-   */
-  private calculateMaxConsecutiveLosses(trades: TradeMetrics[]): number {
-    let max = 0;
-    let current = 0;
-
-    for (const trade of trades) {
-      if (trade.result === 'LOSS') {
-        current++;
-        max = Math.max(max, current);
-      } else {
-        current = 0;
-      }
-    }
-
-    return max;
-  }
-
-  private calculateMaxConsecutiveWins(trades: TradeMetrics[]): number {
-    let max = 0;
-    let current = 0;
-
-    for (const trade of trades) {
-      if (trade.result === 'WIN') {
-        current++;
-        max = Math.max(max, current);
-      } else {
-        current = 0;
-      }
-    }
-
-    return max;
-  }
-
-  private getEmptyDailyMetrics(date: string): DailyMetrics {
-    return {
-      date,
-      totalTrades: 0,
-      winningTrades: 0,
-      losingTrades: 0,
-      breakEvenTrades: 0,
-      winRate: 0,
-      totalPnL: 0,
-      largestWin: 0,
-      largestLoss: 0,
-      avgSlippage: 0,
-      maxSlippage: 0,
-      avgHoldTimeMs: 0,
-      consecutiveLosses: 0,
-      consecutiveWins: 0,
-      maxDrawdown: 0,
-      sharpeRatio: 0,
-      capitalDeployed: 0,
-      capitalEfficiency: 0
-    };
-  }
-
   /**
    * Get summary report for display
    */
@@ -472,3 +385,139 @@ export class MetricsTracker extends EventEmitter {
     return report;
   }
 }
+
+/**
+ * Aggregate closed trades into a DailyMetrics record.
+ * Drawdown is measured from startingBalance. Shared by the daily CSV export
+ * and backtest summaries so both report identical maths.
+ */
+export function calculateTradeMetrics(
+  label: string,
+  trades: TradeMetrics[],
+  startingBalance: number
+): DailyMetrics {
+  if (trades.length === 0) {
+    return getEmptyDailyMetrics(label);
+  }
+
+  const wins = trades.filter(t => t.result === 'WIN');
+  const losses = trades.filter(t => t.result === 'LOSS');
+  const breakEvens = trades.filter(t => t.result === 'BREAKEVEN');
+
+  const totalPnL = trades.reduce((sum, t) => sum + t.pnl, 0);
+  const largestWin = wins.length > 0 ? Math.max(...wins.map(t => t.pnl)) : 0;
+  const largestLoss = losses.length > 0 ? Math.min(...losses.map(t => t.pnl)) : 0;
+
+  const avgSlippage = trades.reduce((sum, t) => sum + t.actualSlippage, 0) / trades.length;
+  const maxSlippage = Math.max(...trades.map(t => t.actualSlippage));
+
+  const avgHoldTime = trades.reduce((sum, t) => sum + t.holdTimeMs, 0) / trades.length;
+
+  // Calculate drawdown across the trade sequence
+  let runningBalance = startingBalance;
+  let peak = runningBalance;
+  let maxDD = 0;
+
+  for (const trade of trades) {
+    runningBalance += trade.pnl;
+    if (runningBalance > peak) peak = runningBalance;
+    const dd = ((peak - runningBalance) / peak) * 100;
+    if (dd > maxDD) maxDD = dd;
+  }
+
+  // Calculate Sharpe Ratio (simplified per-trade version)
+  const returns = trades.map(t => t.pnlPercent);
+  const avgReturn = returns.reduce((sum, r) => sum + r, 0) / returns.length;
+  const stdDev = Math.sqrt(
+    returns.reduce((sum, r) => sum + Math.pow(r - avgReturn, 2), 0) / returns.length
+  );
+  const sharpeRatio = stdDev > 0 ? avgReturn / stdDev : 0;
+
+  // Calculate capital deployed (sum of all order values)
+  const capitalDeployed = trades.reduce((sum, t) =>
+    sum + (t.entryPrice * t.quantity), 0
+  );
+
+  const capitalEfficiency = capitalDeployed > 0 ? totalPnL / capitalDeployed : 0;
+
+  return {
+    date: label,
+    totalTrades: trades.length,
+    winningTrades: wins.length,
+    losingTrades: losses.length,
+    breakEvenTrades: breakEvens.length,
+    winRate: (wins.length / trades.length) * 100,
+    totalPnL,
+    largestWin,
+    largestLoss,
+    avgSlippage,
+    maxSlippage,
+    avgHoldTimeMs: avgHoldTime,
+    consecutiveLosses: calculateMaxConsecutive(trades, 'LOSS'),
+    consecutiveWins: calculateMaxConsecutive(trades, 'WIN'),
+    maxDrawdown: maxDD,
+    sharpeRatio,
+    capitalDeployed,
+    capitalEfficiency
+  };
+}
+
+/**
+ * Per-strategy metrics for a set of closed trades, keyed by strategy name.
+ * Untagged trades are grouped under UNASSIGNED.
+ */
+export function calculateStrategyMetrics(
+  trades: TradeMetrics[],
+  startingBalance: number
+): Record<string, DailyMetrics> {
+  const byStrategy = new Map<string, TradeMetrics[]>();
+  for (const trade of trades) {
+    const name = trade.strategy || 'UNASSIGNED';
+    byStrategy.set(name, [...(byStrategy.get(name) || []), trade]);
+  }
+
+  const result: Record<string, DailyMetrics> = {};
+  for (const [name, strategyTrades] of byStrategy) {
+    result[name] = calculateTradeMetrics(name, strategyTrades, startingBalance);
+  }
+  return result;
+}
+
+function calculateMaxConsecutive(trades: TradeMetrics[], result: 'WIN' | 'LOSS'): number {
+  let max = 0;
+  let current = 0;
+
+  for (const trade of trades) {
+    if (trade.result === result) {
+      current++;
+      max = Math.max(max, current);
+    } else {
+      current = 0;
+    }
+  }
+
+  return max;
+}
+
+function getEmptyDailyMetrics(date: string): DailyMetrics {
+  return {
+    date,
+    totalTrades: 0,
+    winningTrades: 0,
+    losingTrades: 0,
+    breakEvenTrades: 0,
+    winRate: 0,
+    totalPnL: 0,
+    largestWin: 0,
+    largestLoss: 0,
+    avgSlippage: 0,
+    maxSlippage: 0,
+    avgHoldTimeMs: 0,
+    consecutiveLosses: 0,
+    consecutiveWins: 0,
+    maxDrawdown: 0,
+    sharpeRatio: 0,
+    capitalDeployed: 0,
+    capitalEfficiency: 0
+  };
+}
@@ -1,6 +1,7 @@
 import { IBroker } from '../brokers/base';
 import { Order, OrderStatus } from '../types';
 import { logger } from '../utils/logger';
+import { tradingMetrics } from './prometheusMetrics';
 
 /**
  * OrderFillMonitor - Waits for order fills and handles partial fills
@@ -62,6 +63,8 @@ export class OrderFillMonitor {
             averagePrice: order.averagePrice,
             waitTimeMs: Date.now() - startTime
           });
+          tradingMetrics.orders.inc({ event: 'filled' });
+          tradingMetrics.fillLatency.observe({}, (Date.now() - startTime) / 1000);
 
           return {
             filled: order.filledQuantity,
@@ -82,6 +85,7 @@ export class OrderFillMonitor {
             orderId,
             symbol: order.symbol
           });
+          tradingMetrics.orders.inc({ event: 'rejected' });
 
           return { filled: 0, status: 'FAILED' };
         }
@@ -92,6 +96,7 @@ export class OrderFillMonitor {
             orderId,
             status: order.status
           });
+          tradingMetrics.orders.inc({ event: 'cancelled' });
 
           return { filled: 0, status: 'FAILED' };
         }
@@ -144,6 +149,8 @@ export class OrderFillMonitor {
           expectedQuantity,
           averagePrice: order.averagePrice
         });
+        tradingMetrics.orders.inc({ event: 'partially_filled' });
+        tradingMetrics.fillLatency.observe({}, (Date.now() - startTime) / 1000);
 
         return {
           filled: order.filledQuantity,
@@ -165,6 +172,7 @@ export class OrderFillMonitor {
     });
 
     logger.audit('ORDER_TIMEOUT', { orderId, expectedQuantity });
+    tradingMetrics.orders.inc({ event: 'timed_out' });
 
     return { filled: 0, status: 'TIMEOUT' };
   }
@@ -1,5 +1,6 @@
 import { EventEmitter } from 'events';
 import { logger } from '../utils/logger';
+import { Clock, clock as defaultClock } from '../utils/clock';
 
 interface OrderAttempt {
   orderKey: string;
@@ -28,11 +29,14 @@ export class OrderIdempotencyManager extends EventEmitter {
   private readonly MAX_AGE_MS = 120000; // 2 minutes max age
   private cleanupTimer: NodeJS.Timeout | null = null;
 
-  private readonly STORAGE_DIR = path.join(process.cwd(), 'data');
-  private readonly STORAGE_FILE = path.join(process.cwd(), 'data', 'idempotency_state.json');
+  private STORAGE_DIR = path.join(process.cwd(), 'data');
+  private STORAGE_FILE = path.join(process.cwd(), 'data', 'idempotency_state.json');
 
-  constructor() {
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = defaultClock) {
     super();
+    this.clock = clock;
     this.ensureStorageDir();
     this.loadState();
     this.startCleanupTimer();
@@ -56,7 +60,7 @@ export class OrderIdempotencyManager extends EventEmitter {
 
         if (Array.isArray(parsed)) {
           // Validate and load
-          const now = Date.now();
+          const now = this.clock.now();
           parsed.forEach((item: OrderAttempt) => {
             // Only load items that aren't too old
             if (now - item.timestamp < this.MAX_AGE_MS) {
@@ -81,12 +85,23 @@ export class OrderIdempotencyManager extends EventEmitter {
     }
   }
 
+  /**
+   * Persist to a different directory and start with an empty record set.
+   * Used by the backtester so replays never touch the live bot's idempotency state.
+   */
+  public setStorageDir(storageDir: string): void {
+    this.STORAGE_DIR = storageDir;
+    this.STORAGE_FILE = path.join(storageDir, 'idempotency_state.json');
+    this.orderAttempts.clear();
+    this.ensureStorageDir();
+  }
+
   /**
    * Generate idempotency key for an order
    */
   public generateOrderKey(symbol: string, action: string, quantity: number): string {
     // Use timestamp rounded to nearest second to allow same order within 1 second window
-    const timestamp = Math.floor(Date.now() / 1000);
+    const timestamp = Math.floor(this.clock.now() / 1000);
     return `${symbol}_${action}_${quantity}_${timestamp}`;
   }
 
@@ -123,7 +138,7 @@ export class OrderIdempotencyManager extends EventEmitter {
     }
 
     // If completed or failed, check age
-    const ageMs = Date.now() - existing.timestamp;
+    const ageMs = this.clock.now() - existing.timestamp;
 
     if (ageMs < 5000) {
       // Less than 5 seconds old, likely a duplicate
@@ -165,7 +180,7 @@ export class OrderIdempotencyManager extends EventEmitter {
       orderKey,
       symbol,
       action,
-      timestamp: Date.now(),
+      timestamp: this.clock.now(),
       status: 'PENDING'
     };
 
@@ -226,7 +241,7 @@ export class OrderIdempotencyManager extends EventEmitter {
    * Clean up old order attempts
    */
   private cleanup(): void {
-    const now = Date.now();
+    const now = this.clock.now();
     let cleaned = 0;
 
     for (const [key, attempt] of this.orderAttempts.entries()) {
@@ -255,6 +270,9 @@ export class OrderIdempotencyManager extends EventEmitter {
       this.cleanup();
     }, this.CLEANUP_INTERVAL_MS);
 
+    // Housekeeping only - must not keep the process alive (backtest CLI, jest)
+    this.cleanupTimer.unref();
+
     logger.info('Order idempotency manager started');
   }
 
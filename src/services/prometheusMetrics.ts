@@ -0,0 +1,207 @@
+import { logger } from '../utils/logger';
+
+type Labels = Record<string, string>;
+
+function labelKey(labels: Labels): string {
+  return Object.keys(labels)
+    .sort()
+    .map(name => `${name}="${labels[name].replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`)
+    .join(',');
+}
+
+function sample(name: string, key: string, value: number): string {
+  const formatted = Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : value < 0 ? '-Inf' : 'NaN';
+  return key ? `${name}{${key}} ${formatted}` : `${name} ${formatted}`;
+}
+
+abstract class Metric {
+  constructor(
+    public readonly name: string,
+    public readonly help: string,
+    public readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  public render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join('\n');
+  }
+
+  protected abstract samples(): string[];
+  public abstract reset(): void;
+}
+
+export class Counter extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  public inc(labels: Labels = {}, value: number = 1): void {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) || 0) + value);
+  }
+
+  /** For running totals another component already keeps - set at scrape time by a collector */
+  public set(labels: Labels, total: number): void {
+    this.values.set(labelKey(labels), total);
+  }
+
+  public get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels)) || 0;
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([key, value]) => sample(this.name, key, value));
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+}
+
+export class Gauge extends Metric {
+  private values: Map<string, number> = new Map();
+
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  public set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), value);
+  }
+
+  protected samples(): string[] {
+    return [...this.values].map(([key, value]) => sample(this.name, key, value));
+  }
+
+  public reset(): void {
+    this.values.clear();
+  }
+}
+
+interface HistogramSeries {
+  bucketCounts: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  private series: Map<string, HistogramSeries> = new Map();
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  public observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { bucketCounts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    this.buckets.forEach((bound, i) => {
+      if (value <= bound) series!.bucketCounts[i]++;
+    });
+    series.sum += value;
+    series.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      const withLe = (le: string) => (key ? `${key},le="${le}"` : `le="${le}"`);
+      this.buckets.forEach((bound, i) => {
+        lines.push(sample(`${this.name}_bucket`, withLe(String(bound)), series.bucketCounts[i]));
+      });
+      lines.push(sample(`${this.name}_bucket`, withLe('+Inf'), series.count));
+      lines.push(sample(`${this.name}_sum`, key, series.sum));
+      lines.push(sample(`${this.name}_count`, key, series.count));
+    }
+    return lines;
+  }
+
+  public reset(): void {
+    this.series.clear();
+  }
+}
+
+/**
+ * Metrics Registry - Prometheus text exposition without a client library
+ *
+ * Counters and histograms are updated where things happen. Gauges describe current state
+ * and are filled by collectors right before each scrape: every gauge is cleared first, so
+ * a breaker or position that no longer exists drops out instead of showing its last value.
+ * Collectors are keyed - a component that is re-created (a reconnected data feed)
+ * replaces its collector rather than adding a second one.
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Map<string, () => void> = new Map();
+
+  public counter(name: string, help: string): Counter {
+    return this.register(new Counter(name, help));
+  }
+
+  public gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(name, help));
+  }
+
+  public histogram(name: string, help: string, buckets: number[]): Histogram {
+    return this.register(new Histogram(name, help, buckets));
+  }
+
+  public setCollector(key: string, collect: () => void): void {
+    this.collectors.set(key, collect);
+  }
+
+  public removeCollector(key: string): void {
+    this.collectors.delete(key);
+  }
+
+  public render(): string {
+    for (const metric of this.metrics) {
+      if (metric instanceof Gauge) metric.reset();
+    }
+    for (const [key, collect] of this.collectors) {
+      try {
+        collect();
+      } catch (error: any) {
+        logger.error('Metrics collector failed', { collector: key, error: error.message });
+      }
+    }
+    return this.metrics.map(metric => metric.render()).join('\n\n') + '\n';
+  }
+
+  /** Zero every metric and drop the collectors (tests) */
+  public reset(): void {
+    this.metrics.forEach(metric => metric.reset());
+    this.collectors.clear();
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metricsRegistry = new MetricsRegistry();
+
+export const tradingMetrics = {
+  ticksReceived: metricsRegistry.counter('tradingbot_ticks_received_total', 'Market data ticks received on the WebSocket feed'),
+  websocketConnected: metricsRegistry.gauge('tradingbot_websocket_connected', '1 while the market data WebSocket is connected'),
+  websocketReconnectAttempts: metricsRegistry.gauge('tradingbot_websocket_reconnect_attempts', 'Reconnect attempts since the feed was last connected'),
+  signalsEmitted: metricsRegistry.counter('tradingbot_signals_emitted_total', 'Signals emitted by strategies'),
+  signalsRejected: metricsRegistry.counter('tradingbot_signals_rejected_total', 'Entry signals the engine did not act on, by reason'),
+  orders: metricsRegistry.counter('tradingbot_orders_total', 'Entry orders by event: placed, place_failed, filled, partially_filled, rejected, cancelled, timed_out'),
+  fillLatency: metricsRegistry.histogram('tradingbot_order_fill_latency_seconds', 'Time from order placement until the fill was seen', [0.5, 1, 2, 5, 10, 20, 30]),
+  slippage: metricsRegistry.histogram('tradingbot_entry_slippage_bps', 'Entry fill price vs LTP at signal time, in basis points', [1, 2, 5, 10, 20, 50, 100]),
+  openPositions: metricsRegistry.gauge('tradingbot_open_positions', 'Open positions'),
+  realizedPnL: metricsRegistry.gauge('tradingbot_realized_pnl_rupees', "Today's realized P&L net of charges"),
+  unrealizedPnL: metricsRegistry.gauge('tradingbot_unrealized_pnl_rupees', 'P&L of open positions at the last price'),
+  circuitBreakerState: metricsRegistry.gauge('tradingbot_circuit_breaker_state', '1 for the state each API circuit breaker is in'),
+  circuitBreakerFailures: metricsRegistry.gauge('tradingbot_circuit_breaker_failures', 'Consecutive failures counted by each API circuit breaker'),
+  loginAttempts: metricsRegistry.gauge('tradingbot_broker_login_attempts', 'Failed broker login attempts since the last success'),
+  brokerAuthenticated: metricsRegistry.gauge('tradingbot_broker_authenticated', '1 while the broker session is authenticated'),
+  loginCooldownSeconds: metricsRegistry.gauge('tradingbot_broker_login_cooldown_seconds', 'Time left in the broker login cooldown'),
+  reconciliationMismatches: metricsRegistry.counter('tradingbot_reconciliation_mismatches_total', 'Bot vs broker position mismatches found by reconciliation, by issue')
+};
@@ -0,0 +1,55 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+
+export interface RiskPersistentState {
+  date: string;                              // Day the counters below belong to (YYYY-MM-DD)
+  dailyPnL: number;                          // Net P&L of closed trades that day
+  tradesExecuted: number;                    // Closed trades that day
+  symbolLossStreaks: Record<string, number>; // Consecutive losses per symbol
+  blockedSymbols: string[];                  // Symbols blocked for the rest of the day
+  bookLossStreak: number;                    // Consecutive losses across all symbols
+  pausedUntil: number | null;                // Unix timestamp (ms) until which new entries are paused
+  previousDayPnL: number | null;             // Net P&L of the last day with trades before `date`
+}
+
+/**
+ * Persists RiskManager's loss-streak state so a mid-day restart keeps blocked symbols,
+ * entry pauses and the losing-day size reduction. Unlike the strategy state file it
+ * is not cleared at market open - the previous day's result is needed the next day.
+ */
+class RiskStateStore {
+  private statePath = path.join(process.cwd(), 'state', 'risk_state.json');
+
+  public load(): RiskPersistentState | null {
+    try {
+      if (!fs.existsSync(this.statePath)) return null;
+      return JSON.parse(fs.readFileSync(this.statePath, 'utf8')) as RiskPersistentState;
+    } catch (e: any) {
+      logger.warn('[RiskStateStore] Failed to read risk state - starting fresh', { error: e.message });
+      return null;
+    }
+  }
+
+  public save(state: RiskPersistentState): void {
+    try {
+      const dir = path.dirname(this.statePath);
+      if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+      }
+      fs.writeFileSync(this.statePath, JSON.stringify(state, null, 2), 'utf8');
+    } catch (e: any) {
+      logger.warn('[RiskStateStore] Failed to save risk state', { error: e.message });
+    }
+  }
+
+  /**
+   * Point the store at a different file. Used by the backtester so replays never
+   * read or overwrite the live bot's state.
+   */
+  public setStatePath(statePath: string): void {
+    this.statePath = statePath;
+  }
+}
+
+export const riskStateStore = new RiskStateStore();
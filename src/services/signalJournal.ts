@@ -0,0 +1,260 @@
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { SignalJournalConfig } from '../types';
+import { clock, getISTDate } from '../utils/clock';
+
+/**
+ * Where in the pipeline a candidate was decided: the strategy's own filters, the engine's
+ * gates, the pre-trade compliance rules, or the order itself.
+ */
+export type SignalJournalStage = 'strategy' | 'engine' | 'compliance' | 'execution';
+
+export const SIGNAL_JOURNAL_STAGES: SignalJournalStage[] = ['strategy', 'engine', 'compliance', 'execution'];
+
+/**
+ * PASSED is only recorded at the strategy stage (the signal was emitted) and FILLED only at
+ * the execution stage - every other record is a rejection.
+ */
+export type SignalJournalOutcome = 'REJECTED' | 'PASSED' | 'FILLED';
+
+export type SignalJournalDetails = Record<string, number | string | boolean | null>;
+
+/**
+ * A breakout (or other entry) a strategy saw, before any filter decided on it
+ */
+export interface SignalCandidate {
+  strategy: string;
+  symbol: string;
+  direction: 'BUY' | 'SELL';
+  price: number | null; // LTP when the candidate was seen or decided
+  time: number;         // Epoch ms
+}
+
+/**
+ * One journal record - line format of the journal files (one JSON object per line)
+ */
+export interface SignalJournalEntry {
+  time: string;         // ISO timestamp
+  date: string;         // IST trading day (YYYY-MM-DD)
+  strategy: string;
+  symbol: string;
+  direction: 'BUY' | 'SELL';
+  price: number | null;
+  stage: SignalJournalStage;
+  outcome: SignalJournalOutcome;
+  reason: string;       // Machine-readable, e.g. cooldown, volume_filter, drawdown_breaker, margin, filled
+  details?: SignalJournalDetails;
+}
+
+export interface SignalJournalQuery {
+  date?: string;        // IST day, defaults to today
+  strategy?: string;
+  symbol?: string;
+  stage?: SignalJournalStage;
+  outcome?: SignalJournalOutcome;
+  reason?: string;
+  limit?: number;       // Most recent matches only
+}
+
+export interface SignalFunnelStage {
+  stage: SignalJournalStage;
+  entered: number;
+  rejected: number;
+  reasons: Record<string, number>; // Rejections by reason, most frequent first
+}
+
+export interface SignalFunnel {
+  date: string;
+  candidates: number;   // Everything the strategies saw (= entered at the strategy stage)
+  stages: SignalFunnelStage[];
+  filled: number;
+}
+
+/**
+ * Signal Journal - every candidate entry signal and where it ended up
+ *
+ * Strategies record the breakouts their own filters drop and the ones they emit; the
+ * engine records its gates, compliance rejections and order outcomes. The current day is
+ * kept in memory for the funnel report and queries. When enabled (SIGNAL_JOURNAL, on by
+ * default) each record is also appended to <directory>/<YYYY-MM-DD>.jsonl, and earlier
+ * days are queried from those files. Exit signals (CLOSE) are not journaled.
+ */
+class SignalJournal {
+  private config: SignalJournalConfig = { enabled: false, directory: '', retentionDays: 0 };
+  private currentDate: string = '';
+  private entries: SignalJournalEntry[] = [];
+
+  public configure(config: SignalJournalConfig): void {
+    this.config = { ...config };
+    this.currentDate = '';
+    this.entries = [];
+
+    if (!this.config.enabled) {
+      return;
+    }
+
+    fs.mkdirSync(this.config.directory, { recursive: true });
+    logger.info('📒 Signal journal enabled', {
+      directory: this.config.directory,
+      retentionDays: this.config.retentionDays || 'forever'
+    });
+  }
+
+  public record(
+    candidate: SignalCandidate,
+    stage: SignalJournalStage,
+    outcome: SignalJournalOutcome,
+    reason: string,
+    details?: SignalJournalDetails
+  ): void {
+    const date = getISTDate(candidate.time);
+    if (date !== this.currentDate) {
+      this.startDay(date);
+    }
+
+    const entry: SignalJournalEntry = {
+      time: new Date(candidate.time).toISOString(),
+      date,
+      strategy: candidate.strategy,
+      symbol: candidate.symbol,
+      direction: candidate.direction,
+      price: candidate.price,
+      stage,
+      outcome,
+      reason,
+      ...(details ? { details } : {})
+    };
+    this.entries.push(entry);
+
+    if (!this.config.enabled) {
+      return;
+    }
+
+    try {
+      fs.appendFileSync(this.fileFor(date), JSON.stringify(entry) + '\n');
+    } catch (error: any) {
+      logger.error('Signal journal write failed', { date, error: error.message });
+    }
+  }
+
+  public query(filter: SignalJournalQuery = {}): SignalJournalEntry[] {
+    const matches = this.entriesFor(filter.date).filter(entry =>
+      (!filter.strategy || entry.strategy === filter.strategy) &&
+      (!filter.symbol || entry.symbol === filter.symbol) &&
+      (!filter.stage || entry.stage === filter.stage) &&
+      (!filter.outcome || entry.outcome === filter.outcome) &&
+      (!filter.reason || entry.reason === filter.reason)
+    );
+    return filter.limit && filter.limit > 0 ? matches.slice(-filter.limit) : matches;
+  }
+
+  /**
+   * How many candidates each stage received and dropped. A stage receives what the one
+   * before it did not reject; the strategy stage hands on only the signals it emitted.
+   */
+  public getFunnel(date?: string, strategy?: string): SignalFunnel {
+    const entries = this.query({ date, strategy });
+    const stages: SignalFunnelStage[] = [];
+    let entered = 0;
+
+    for (const stage of SIGNAL_JOURNAL_STAGES) {
+      const atStage = entries.filter(entry => entry.stage === stage);
+      const rejections = atStage.filter(entry => entry.outcome === 'REJECTED');
+      if (stage === 'strategy') {
+        entered = atStage.length;
+      } else if (stage === 'engine') {
+        entered = entries.filter(entry => entry.stage === 'strategy' && entry.outcome === 'PASSED').length;
+      }
+
+      const counts = new Map<string, number>();
+      for (const entry of rejections) {
+        counts.set(entry.reason, (counts.get(entry.reason) || 0) + 1);
+      }
+      const reasons = Object.fromEntries([...counts].sort((a, b) => b[1] - a[1]));
+
+      stages.push({ stage, entered, rejected: rejections.length, reasons });
+      entered = Math.max(0, entered - rejections.length);
+    }
+
+    return {
+      date: date || getISTDate(clock.now()),
+      candidates: stages[0].entered,
+      stages,
+      filled: entries.filter(entry => entry.outcome === 'FILLED').length
+    };
+  }
+
+  /** Forget the in-memory day (tests) */
+  public reset(): void {
+    this.currentDate = '';
+    this.entries = [];
+  }
+
+  private entriesFor(date: string = getISTDate(clock.now())): SignalJournalEntry[] {
+    return date === this.currentDate ? this.entries : this.readDay(date);
+  }
+
+  /**
+   * Day rollover - pick up what an earlier run wrote today and prune old files
+   */
+  private startDay(date: string): void {
+    this.currentDate = date;
+    this.entries = this.readDay(date);
+    this.pruneOldDays(date);
+  }
+
+  private readDay(date: string): SignalJournalEntry[] {
+    if (!this.config.enabled || !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      return [];
+    }
+
+    const file = this.fileFor(date);
+    if (!fs.existsSync(file)) {
+      return [];
+    }
+
+    try {
+      return fs.readFileSync(file, 'utf-8')
+        .split('\n')
+        .filter(line => line.trim())
+        .map(line => JSON.parse(line) as SignalJournalEntry);
+    } catch (error: any) {
+      logger.error('Signal journal read failed', { date, error: error.message });
+      return [];
+    }
+  }
+
+  private fileFor(date: string): string {
+    return path.join(this.config.directory, `${date}.jsonl`);
+  }
+
+  /**
+   * Delete day files older than the retention period (relative to `today`)
+   */
+  private pruneOldDays(today: string): void {
+    if (!this.config.enabled || this.config.retentionDays <= 0 || !fs.existsSync(this.config.directory)) {
+      return;
+    }
+
+    const cutoff = new Date(Date.parse(`${today}T00:00:00Z`) - this.config.retentionDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    for (const entry of fs.readdirSync(this.config.directory)) {
+      const match = /^(\d{4}-\d{2}-\d{2})\.jsonl$/.exec(entry);
+      if (!match || match[1] >= cutoff) {
+        continue;
+      }
+
+      try {
+        fs.rmSync(path.join(this.config.directory, entry), { force: true });
+        logger.info(`🗑️ Signal journal pruned ${match[1]} (retention ${this.config.retentionDays} days)`);
+      } catch (error: any) {
+        logger.warn('Signal journal failed to prune old day', { entry, error: error.message });
+      }
+    }
+  }
+}
+
+export const signalJournal = new SignalJournal();
@@ -115,6 +115,43 @@ export class StopLossManager extends EventEmitter {
     }
   }
 
+  /**
+   * Track a stop the broker already holds for an entry (bracket leg) so it can be trailed
+   * with updateStopLoss - nothing is placed
+   */
+  public trackStopLoss(
+    symbol: string,
+    entryOrderId: string,
+    stopLossOrderId: string,
+    exitSide: OrderSide,
+    quantity: number,
+    stopLossPrice: number,
+    targetPrice?: number
+  ): void {
+    const slRecord: StopLossOrder = {
+      symbol,
+      entryOrderId,
+      stopLossOrderId,
+      stopLossPrice,
+      targetPrice,
+      quantity,
+      side: exitSide,
+      isPlaced: true,
+      isTriggered: false,
+      createdAt: new Date()
+    };
+
+    this.stopLossOrders.set(symbol, slRecord);
+
+    logger.info('📍 Tracking broker-held stop-loss', {
+      symbol,
+      stopLossOrderId,
+      stopLossPrice: `₹${stopLossPrice.toFixed(2)}`
+    });
+
+    logger.audit('STOP_LOSS_TRACKED', slRecord);
+  }
+
   /**
    * Place target/profit-taking order
    */
@@ -211,6 +248,9 @@ export class StopLossManager extends EventEmitter {
 
   /**
    * Update stop-loss price (trailing stop)
+   *
+   * The working stop is modified in place so the position is never without a stop at the
+   * exchange. Only if the broker refuses the modification is it cancelled and re-placed.
    */
   public async updateStopLoss(
     symbol: string,
@@ -222,9 +262,45 @@ export class StopLossManager extends EventEmitter {
       return false;
     }
 
+    const oldPrice = slRecord.stopLossPrice;
+
     try {
-      // Cancel old stop-loss
-      await this.broker.cancelOrder(slRecord.stopLossOrderId);
+      const modified = await this.broker.modifyOrder(slRecord.stopLossOrderId, {
+        triggerPrice: newStopLossPrice
+      });
+
+      if (modified) {
+        slRecord.stopLossPrice = newStopLossPrice;
+
+        logger.info('✅ Stop-loss modified in place', {
+          symbol,
+          oldPrice,
+          newPrice: newStopLossPrice,
+          orderId: slRecord.stopLossOrderId
+        });
+
+        this.emit('stop_loss_updated', {
+          symbol,
+          newStopLossPrice
+        });
+
+        return true;
+      }
+
+      logger.warn('⚠️ Stop-loss modification refused - cancelling and re-placing', {
+        symbol,
+        orderId: slRecord.stopLossOrderId
+      });
+
+      // A stop that can't be cancelled may already have triggered - don't add a second one
+      const cancelled = await this.broker.cancelOrder(slRecord.stopLossOrderId);
+      if (!cancelled) {
+        logger.error('❌ Stop-loss could not be cancelled - leaving it in place', {
+          symbol,
+          orderId: slRecord.stopLossOrderId
+        });
+        return false;
+      }
 
       // Place new stop-loss
       const newStopLossOrder = await this.broker.placeOrder(
@@ -242,7 +318,7 @@ export class StopLossManager extends EventEmitter {
 
         logger.info('✅ Stop-loss updated', {
           symbol,
-          oldPrice: slRecord.stopLossPrice,
+          oldPrice,
           newPrice: newStopLossPrice,
           newOrderId: newStopLossOrder.orderId
         });
@@ -255,6 +331,15 @@ export class StopLossManager extends EventEmitter {
         return true;
       }
 
+      // CRITICAL: The old stop is gone and the new one failed - the position is unprotected
+      logger.error('🚨 Stop-loss re-placement failed - position has no broker stop', {
+        symbol,
+        stopLossPrice: newStopLossPrice
+      });
+      slRecord.stopLossOrderId = undefined;
+      slRecord.isPlaced = false;
+      this.emit('stop_loss_missing', { symbol, stopLossPrice: newStopLossPrice });
+
       return false;
 
     } catch (error: any) {
@@ -1,12 +1,14 @@
 import fs from 'fs';
 import path from 'path';
 import { logger } from '../utils/logger';
+import { getISTDate } from '../utils/clock';
 
 export interface SymbolPersistentState {
   tradesExecutedToday: number;
   isInCooldown: boolean;
   cooldownExpiresAt: number | null; // Unix timestamp (ms) when cooldown ends
   lastResetDate: string;             // YYYY-MM-DD in IST
+  openingRange?: { high: number; low: number }; // Completed opening range (OpeningRangeBreakout)
 }
 
 interface DailyStateFile {
@@ -14,11 +16,7 @@ interface DailyStateFile {
 }
 
 class StrategyStateStore {
-  private readonly statePath = path.join(process.cwd(), 'state', 'daily_state.json');
-
-  private getCurrentISTDate(): string {
-    return new Date().toLocaleString('en-CA', { timeZone: 'Asia/Kolkata' }).split(',')[0].trim();
-  }
+  private statePath = path.join(process.cwd(), 'state', 'daily_state.json');
 
   private ensureDirectory(): void {
     const dir = path.dirname(this.statePath);
@@ -39,13 +37,17 @@ class StrategyStateStore {
   /**
    * Load all saved states. Returns only entries whose lastResetDate matches today (IST).
    * Stale entries from prior days are silently ignored.
+   *
+   * Strategies other than the original DayHighLowBreakout pass a namespace so their
+   * entries ("<namespace>/<symbol>") never collide with another strategy's.
    */
-  public loadTodayState(): DailyStateFile {
-    const today = this.getCurrentISTDate();
+  public loadTodayState(namespace?: string): DailyStateFile {
+    const today = getISTDate();
     const all = this.readFile();
     const result: DailyStateFile = {};
-    for (const [symbol, state] of Object.entries(all)) {
-      if (state.lastResetDate === today) {
+    for (const [key, state] of Object.entries(all)) {
+      const symbol = this.symbolFromKey(key, namespace);
+      if (symbol !== null && state.lastResetDate === today) {
         result[symbol] = state;
       }
     }
@@ -56,29 +58,30 @@ class StrategyStateStore {
    * Persist a single symbol's state.
    * Called after any trade count increment or cooldown state change.
    */
-  public saveSymbolState(symbol: string, state: SymbolPersistentState): void {
+  public saveSymbolState(symbol: string, state: SymbolPersistentState, namespace?: string): void {
     try {
       this.ensureDirectory();
       const current = this.readFile();
-      current[symbol] = state;
+      current[namespace ? `${namespace}/${symbol}` : symbol] = state;
       fs.writeFileSync(this.statePath, JSON.stringify(current, null, 2), 'utf8');
     } catch (e: any) {
       logger.warn(`[StateStore] Failed to save state for ${symbol}`, { error: e.message });
     }
   }
 
+  private symbolFromKey(key: string, namespace?: string): string | null {
+    if (!namespace) {
+      return key.includes('/') ? null : key;
+    }
+    return key.startsWith(`${namespace}/`) ? key.slice(namespace.length + 1) : null;
+  }
+
   /**
-   * Remove today's state file (called at market open for a fresh day).
+   * Point the store at a different file. Used by the backtester so replays never
+   * read or overwrite the live bot's state.
    */
-  public clearDailyState(): void {
-    try {
-      if (fs.existsSync(this.statePath)) {
-        fs.unlinkSync(this.statePath);
-        logger.info('[StateStore] Daily state file cleared for new trading day');
-      }
-    } catch (e: any) {
-      logger.warn('[StateStore] Failed to clear daily state file', { error: e.message });
-    }
+  public setStatePath(statePath: string): void {
+    this.statePath = statePath;
   }
 }
 
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import zlib from 'zlib';
+import { logger } from '../utils/logger';
+import { TickRecorderConfig } from '../types';
+import { getISTDate } from '../utils/clock';
+
+/**
+ * One decoded WebSocket tick exactly as received from the exchange feed.
+ * Line format of the recorded files (one JSON object per line).
+ */
+export interface RecordedTick {
+  token: string;
+  symbol: string;
+  ltp: number;
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+  volume: number;                    // Cumulative volume for the day
+  exchangeTimestamp: number | null;  // Exchange timestamp (epoch ms) from the feed, if present
+  receivedAt: number;                // Local receive time (epoch ms)
+}
+
+interface OpenFile {
+  date: string;
+  gzip: zlib.Gzip;
+  stream: fs.WriteStream;
+}
+
+/**
+ * Tick Recorder - Persists the raw WebSocket tick stream to disk
+ *
+ * Opt-in (RECORD_TICKS=true). Writes gzip-compressed NDJSON to
+ * <directory>/<YYYY-MM-DD>/<SYMBOL>.ndjson.gz, rotating to a new day directory at IST
+ * midnight and pruning day directories older than the retention period.
+ * Files are opened in append mode; a restart mid-day adds a new gzip member to the
+ * same file, which standard gunzip (and the backtest loader) read transparently.
+ */
+class TickRecorder {
+  private config: TickRecorderConfig = { enabled: false, directory: '', retentionDays: 0 };
+  private files: Map<string, OpenFile> = new Map();
+  private lastPrunedDate: string = '';
+  private ticksWritten: number = 0;
+
+  public configure(config: TickRecorderConfig): void {
+    this.config = { ...config };
+    this.lastPrunedDate = '';
+
+    if (!this.config.enabled) {
+      return;
+    }
+
+    fs.mkdirSync(this.config.directory, { recursive: true });
+    logger.info('🎙️ Tick recorder enabled', {
+      directory: this.config.directory,
+      retentionDays: this.config.retentionDays || 'forever'
+    });
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled;
+  }
+
+  /**
+   * Append one tick. No-op while the recorder is disabled.
+   */
+  public record(tick: RecordedTick): void {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const date = getISTDate(tick.exchangeTimestamp ?? tick.receivedAt);
+
+    if (date !== this.lastPrunedDate) {
+      this.lastPrunedDate = date;
+      this.pruneOldDays(date);
+    }
+
+    const file = this.getFile(tick.symbol, date);
+    if (!file) {
+      return;
+    }
+
+    file.gzip.write(JSON.stringify(tick) + '\n');
+    this.ticksWritten++;
+  }
+
+  /**
+   * Flush and close all open files. Recording resumes (appending) on the next tick.
+   */
+  public async close(): Promise<void> {
+    const files = Array.from(this.files.values());
+    this.files.clear();
+
+    await Promise.all(files.map(file => new Promise<void>(resolve => {
+      file.stream.once('close', () => resolve());
+      file.stream.once('error', () => resolve());
+      file.gzip.end();
+    })));
+
+    if (files.length > 0) {
+      logger.info('🎙️ Tick recorder files closed', {
+        files: files.length,
+        ticksWritten: this.ticksWritten
+      });
+    }
+  }
+
+  public getStatistics() {
+    return {
+      enabled: this.config.enabled,
+      directory: this.config.directory,
+      openFiles: this.files.size,
+      ticksWritten: this.ticksWritten
+    };
+  }
+
+  private getFile(symbol: string, date: string): OpenFile | null {
+    const existing = this.files.get(symbol);
+    if (existing && existing.date === date) {
+      return existing;
+    }
+
+    // Day rolled over - finish the previous day's file before opening the new one
+    if (existing) {
+      existing.gzip.end();
+      this.files.delete(symbol);
+    }
+
+    try {
+      const dayDir = path.join(this.config.directory, date);
+      fs.mkdirSync(dayDir, { recursive: true });
+
+      const stream = fs.createWriteStream(path.join(dayDir, `${symbol}.ndjson.gz`), { flags: 'a' });
+      const gzip = zlib.createGzip();
+      gzip.pipe(stream);
+
+      stream.on('error', (error) => {
+        logger.error('Tick recorder write failed', { symbol, date, error: error.message });
+        this.files.delete(symbol);
+      });
+
+      const file: OpenFile = { date, gzip, stream };
+      this.files.set(symbol, file);
+      return file;
+    } catch (error: any) {
+      logger.error('Tick recorder could not open file', { symbol, date, error: error.message });
+      return null;
+    }
+  }
+
+  /**
+   * Delete day directories older than the retention period (relative to `today`).
+   */
+  private pruneOldDays(today: string): void {
+    if (this.config.retentionDays <= 0 || !fs.existsSync(this.config.directory)) {
+      return;
+    }
+
+    const cutoff = new Date(Date.parse(`${today}T00:00:00Z`) - this.config.retentionDays * 24 * 60 * 60 * 1000)
+      .toISOString()
+      .split('T')[0];
+
+    for (const entry of fs.readdirSync(this.config.directory)) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(entry) || entry >= cutoff) {
+        continue;
+      }
+
+      try {
+        fs.rmSync(path.join(this.config.directory, entry), { recursive: true, force: true });
+        logger.info(`🗑️ Tick recorder pruned ${entry} (retention ${this.config.retentionDays} days)`);
+      } catch (error: any) {
+        logger.warn('Tick recorder failed to prune old day', { entry, error: error.message });
+      }
+    }
+  }
+}
+
+export const tickRecorder = new TickRecorder();
@@ -1,5 +1,6 @@
 import { EventEmitter } from "events";
 import { logger } from "../utils/logger";
+import { Clock, clock as defaultClock } from "../utils/clock";
 
 interface VolumeData {
   symbol: string;
@@ -44,8 +45,11 @@ export class VolumeTracker extends EventEmitter {
   private readonly CANDLE_HISTORY = 10; // Number of past candles to average
   private readonly FIVE_MIN_SURGE_THRESHOLD = 2.0; // Current candle must be > 2x avg
 
-  constructor() {
+  private readonly clock: Clock;
+
+  constructor(clock: Clock = defaultClock) {
     super();
+    this.clock = clock;
   }
 
   // ─────────────────────────────────────────────────────────────────────────
@@ -128,11 +132,14 @@ export class VolumeTracker extends EventEmitter {
 
   /**
    * Check if the CURRENT (partial) 5-min candle has a volume surge.
-   * Returns true  → current candle volume > 2x average of last 10 candles → signal allowed
+   * Returns true  → current candle volume >= threshold (default 2x) × average of last 10 candles → signal allowed
    * Returns false → insufficient volume → signal blocked
    * Returns true  → not enough history (< 10 candles) → bypass filter, allow signal
    */
-  public hasFiveMinVolumeSurge(symbol: string): boolean {
+  public hasFiveMinVolumeSurge(
+    symbol: string,
+    threshold: number = this.FIVE_MIN_SURGE_THRESHOLD,
+  ): boolean {
     const candles = this.completedCandles.get(symbol) || [];
 
     if (candles.length < this.CANDLE_HISTORY) {
@@ -160,7 +167,7 @@ export class VolumeTracker extends EventEmitter {
     }
 
     const ratio = currentCandleVolume / avg;
-    const hasSurge = ratio >= this.FIVE_MIN_SURGE_THRESHOLD;
+    const hasSurge = ratio >= threshold;
 
     if (!hasSurge) {
       logger.info(
@@ -169,7 +176,7 @@ export class VolumeTracker extends EventEmitter {
           currentCandleVolume: currentCandleVolume.toLocaleString(),
           avgFiveMinVolume: avg.toFixed(0),
           volumeRatio: `${ratio.toFixed(2)}x`,
-          required: `${this.FIVE_MIN_SURGE_THRESHOLD}x`,
+          required: `${threshold}x`,
           completedCandles: candles.length,
         },
       );
@@ -178,7 +185,7 @@ export class VolumeTracker extends EventEmitter {
         currentCandleVolume: currentCandleVolume.toLocaleString(),
         avgFiveMinVolume: avg.toFixed(0),
         volumeRatio: `${ratio.toFixed(2)}x`,
-        required: `${this.FIVE_MIN_SURGE_THRESHOLD}x`,
+        required: `${threshold}x`,
       });
     }
 
@@ -247,7 +254,7 @@ export class VolumeTracker extends EventEmitter {
       currentVolume: volume,
       avgVolume20Day: avgVolume,
       volumeRatio,
-      lastUpdated: new Date(),
+      lastUpdated: new Date(this.clock.now()),
     };
 
     this.volumeData.set(symbol, volumeData);
@@ -0,0 +1,118 @@
+import { MarketData } from "../types";
+import { logger } from "../utils/logger";
+import { getISTDate } from "../utils/clock";
+
+export interface VwapBands {
+  vwap: number;
+  stdDev: number; // Volume-weighted standard deviation of traded price around VWAP
+  upper: number;
+  lower: number;
+}
+
+interface VwapSession {
+  date: string;              // IST trading day the sums belong to
+  lastCumVolume: number;     // Cumulative day volume at the previous tick
+  priceVolume: number;       // Σ price × volume
+  priceSquaredVolume: number; // Σ price² × volume
+  volume: number;            // Σ volume
+}
+
+/**
+ * VWAP Tracker - Intraday volume-weighted average price and σ bands per symbol
+ *
+ * Ticks carry cumulative day volume, so the volume traded since the previous tick is
+ * attributed to the current LTP. When the tracker first sees a symbol mid-session,
+ * the volume already traded is seeded at the typical price (high + low + LTP) / 3 -
+ * an approximation that fades as the session's own volume accumulates.
+ *
+ * Feeding the same tick twice is harmless (no new volume), so several strategies
+ * can call recordTick() for the same symbol. Sessions reset on the tick's IST date.
+ */
+export class VwapTracker {
+  private sessions: Map<string, VwapSession> = new Map();
+
+  public recordTick(data: MarketData): void {
+    const date = getISTDate(data.timestamp);
+    let session = this.sessions.get(data.symbol);
+
+    if (!session || session.date !== date) {
+      session = { date, lastCumVolume: 0, priceVolume: 0, priceSquaredVolume: 0, volume: 0 };
+      this.sessions.set(data.symbol, session);
+
+      if (data.volume > 0) {
+        const typicalPrice = ((data.high || data.ltp) + (data.low || data.ltp) + data.ltp) / 3;
+        this.addVolume(session, typicalPrice, data.volume);
+        session.lastCumVolume = data.volume;
+        logger.debug(`[VWAP] ${data.symbol} seeded mid-session`, {
+          volume: data.volume,
+          typicalPrice: typicalPrice.toFixed(2),
+        });
+      }
+      return;
+    }
+
+    const traded = data.volume - session.lastCumVolume;
+    if (traded < 0) {
+      // Feed restarted its counter - take the new value as the baseline
+      session.lastCumVolume = data.volume;
+      return;
+    }
+    if (traded === 0) return;
+
+    this.addVolume(session, data.ltp, traded);
+    session.lastCumVolume = data.volume;
+  }
+
+  /**
+   * Current session VWAP, or null before any volume has traded
+   */
+  public getVwap(symbol: string): number | null {
+    const session = this.sessions.get(symbol);
+    if (!session || session.volume === 0) return null;
+    return session.priceVolume / session.volume;
+  }
+
+  /**
+   * VWAP with bands `stdDevs` standard deviations either side
+   */
+  public getBands(symbol: string, stdDevs: number = 2): VwapBands | null {
+    const session = this.sessions.get(symbol);
+    if (!session || session.volume === 0) return null;
+
+    const vwap = session.priceVolume / session.volume;
+    // Clamp tiny negative variance from floating-point error
+    const variance = Math.max(session.priceSquaredVolume / session.volume - vwap * vwap, 0);
+    const stdDev = Math.sqrt(variance);
+
+    return {
+      vwap,
+      stdDev,
+      upper: vwap + stdDevs * stdDev,
+      lower: vwap - stdDevs * stdDev,
+    };
+  }
+
+  public getSessionVolume(symbol: string): number {
+    return this.sessions.get(symbol)?.volume || 0;
+  }
+
+  /**
+   * Drop session sums (one symbol, or all). The next tick starts a fresh session.
+   */
+  public resetSession(symbol?: string): void {
+    if (symbol) {
+      this.sessions.delete(symbol);
+    } else {
+      this.sessions.clear();
+    }
+  }
+
+  private addVolume(session: VwapSession, price: number, volume: number): void {
+    session.priceVolume += price * volume;
+    session.priceSquaredVolume += price * price * volume;
+    session.volume += volume;
+  }
+}
+
+// Export singleton instance
+export const vwapTracker = new VwapTracker();
@@ -0,0 +1,306 @@
+import http from 'http';
+import { BreakoutLevels, Position } from '../types';
+import { TradeRecord } from '../risk/riskManager';
+import { LiveMetrics } from './metricsTracker';
+import { tokenMatches } from './controlApi';
+import { logger } from '../utils/logger';
+import { clock } from '../utils/clock';
+
+export interface DashboardStatus {
+  mode: string;
+  killSwitch: boolean;
+  entriesPaused: boolean;
+}
+
+export interface DashboardBreakout extends BreakoutLevels {
+  strategy: string;
+  toHighPercent: number | null; // How far LTP must rise to break the high (negative once above it)
+  toLowPercent: number | null;  // How far LTP must fall to break the low
+}
+
+export interface DashboardSnapshot {
+  timestamp: string;
+  status: DashboardStatus;
+  balance: number;
+  dayPnL: number;
+  unrealizedPnL: number;
+  positions: Position[];
+  trades: TradeRecord[];
+  equityCurve: number[];
+  breakouts: DashboardBreakout[];
+  feed: { alive: boolean; lastDataSecondsAgo: number | null };
+}
+
+/**
+ * What the dashboard reads - supplied by the trading engine
+ */
+export interface WebDashboardSource {
+  getStatus(): DashboardStatus;
+  getLiveMetrics(): LiveMetrics;
+  getPositions(): Position[];
+  getTodayTrades(): TradeRecord[];
+  getEquityCurve(): number[];
+  getBreakoutLevels(): Array<BreakoutLevels & { strategy: string }>;
+  getFeedHealth(): { alive: boolean; msSinceLastData: number };
+}
+
+/**
+ * Web Dashboard - a single self-contained page served by the health check server
+ *
+ * GET /dashboard?token=... returns the page; the page opens /dashboard/events (Server-Sent
+ * Events) with the same token and redraws on every snapshot. Snapshots are pushed every
+ * few seconds while at least one browser is connected, and not built at all otherwise.
+ * No external scripts, fonts or CDNs - the page works on an air-gapped box.
+ */
+export class WebDashboard {
+  private clients: Set<http.ServerResponse> = new Set();
+  private pushInterval: NodeJS.Timeout | null = null;
+  private readonly PUSH_INTERVAL_MS = 2000;
+
+  constructor(
+    private readonly token: string,
+    private readonly source: WebDashboardSource
+  ) {}
+
+  public getSnapshot(): DashboardSnapshot {
+    const live = this.source.getLiveMetrics();
+    const positions = this.source.getPositions();
+    const feed = this.source.getFeedHealth();
+
+    return {
+      timestamp: clock.date().toISOString(),
+      status: this.source.getStatus(),
+      balance: live.currentBalance,
+      dayPnL: live.todayPnL,
+      unrealizedPnL: positions.reduce((sum, p) => sum + p.pnl, 0),
+      positions,
+      trades: this.source.getTodayTrades(),
+      equityCurve: this.source.getEquityCurve(),
+      breakouts: this.source.getBreakoutLevels().map(level => ({
+        ...level,
+        toHighPercent: level.high !== null ? ((level.high - level.ltp) / level.ltp) * 100 : null,
+        toLowPercent: level.low !== null ? ((level.ltp - level.low) / level.ltp) * 100 : null
+      })),
+      feed: {
+        alive: feed.alive,
+        lastDataSecondsAgo: feed.msSinceLastData > 0 ? Math.round(feed.msSinceLastData / 1000) : null
+      }
+    };
+  }
+
+  /**
+   * Serve /dashboard and /dashboard/events. Returns false for any other path.
+   */
+  public handle(req: http.IncomingMessage, res: http.ServerResponse): boolean {
+    const url = new URL(req.url || '/', 'http://localhost');
+    if (url.pathname !== '/dashboard' && url.pathname !== '/dashboard/events') {
+      return false;
+    }
+
+    if (!tokenMatches(this.token, url.searchParams.get('token') ?? undefined)) {
+      logger.warn('🔒 Dashboard request rejected - bad or missing token', { path: url.pathname });
+      logger.audit('DASHBOARD_REJECTED', { path: url.pathname });
+      res.writeHead(401, { 'Content-Type': 'text/plain' });
+      res.end('Unauthorized - open /dashboard?token=<CONTROL_API_TOKEN>');
+      return true;
+    }
+
+    if (url.pathname === '/dashboard') {
+      res.writeHead(200, {
+        'Content-Type': 'text/html; charset=utf-8',
+        'Cache-Control': 'no-cache',
+        'Content-Security-Policy': "default-src 'self'; script-src 'unsafe-inline'; style-src 'unsafe-inline'"
+      });
+      res.end(DASHBOARD_HTML);
+      return true;
+    }
+
+    this.addClient(req, res);
+    return true;
+  }
+
+  public stop(): void {
+    for (const client of this.clients) {
+      client.end();
+    }
+    this.clients.clear();
+    this.stopPushing();
+  }
+
+  private addClient(req: http.IncomingMessage, res: http.ServerResponse): void {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write('retry: 5000\n\n');
+
+    this.clients.add(res);
+    logger.info('🖥️ Dashboard client connected', { clients: this.clients.size });
+    this.send(res);
+
+    req.on('close', () => {
+      this.clients.delete(res);
+      if (this.clients.size === 0) {
+        this.stopPushing();
+      }
+    });
+
+    if (!this.pushInterval) {
+      this.pushInterval = setInterval(() => this.broadcast(), this.PUSH_INTERVAL_MS);
+      this.pushInterval.unref();
+    }
+  }
+
+  private broadcast(): void {
+    for (const client of this.clients) {
+      this.send(client);
+    }
+  }
+
+  private send(client: http.ServerResponse): void {
+    try {
+      client.write(`data: ${JSON.stringify(this.getSnapshot())}\n\n`);
+    } catch (error: any) {
+      logger.error('Dashboard snapshot failed', { error: error.message });
+    }
+  }
+
+  private stopPushing(): void {
+    if (this.pushInterval) {
+      clearInterval(this.pushInterval);
+      this.pushInterval = null;
+    }
+  }
+}
+
+const DASHBOARD_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Trading Bot</title>
+<style>
+  body { font-family: -apple-system, "Segoe UI", Roboto, sans-serif; margin: 0; background: #0f1419; color: #d9dde3; }
+  header { display: flex; gap: 24px; align-items: baseline; padding: 12px 20px; background: #171e26; flex-wrap: wrap; }
+  header h1 { font-size: 18px; margin: 0; }
+  main { display: grid; grid-template-columns: repeat(auto-fit, minmax(460px, 1fr)); gap: 16px; padding: 16px 20px; }
+  section { background: #171e26; border-radius: 6px; padding: 12px 16px; }
+  h2 { font-size: 14px; margin: 0 0 8px; color: #8b96a3; text-transform: uppercase; letter-spacing: 0.05em; }
+  table { width: 100%; border-collapse: collapse; font-size: 13px; font-variant-numeric: tabular-nums; }
+  th, td { padding: 4px 6px; text-align: right; border-bottom: 1px solid #232c36; }
+  th:first-child, td:first-child { text-align: left; }
+  th { color: #8b96a3; font-weight: normal; }
+  .up { color: #3fb950; } .down { color: #f85149; } .muted { color: #8b96a3; }
+  .badge { padding: 2px 8px; border-radius: 10px; font-size: 12px; background: #232c36; }
+  .badge.bad { background: #5a1e1e; } .badge.good { background: #1e4a2a; }
+  svg { width: 100%; height: 180px; }
+</style>
+</head>
+<body>
+<header>
+  <h1>Trading Bot</h1>
+  <span id="mode" class="badge">-</span>
+  <span id="flags"></span>
+  <span>Balance <b id="balance">-</b></span>
+  <span>Day P&amp;L <b id="dayPnL">-</b></span>
+  <span>Open P&amp;L <b id="unrealized">-</b></span>
+  <span id="feed" class="badge">feed -</span>
+  <span id="updated" class="muted"></span>
+</header>
+<main>
+  <section><h2>Open Positions</h2><table id="positions"></table></section>
+  <section><h2>Equity Curve</h2><svg id="equity" viewBox="0 0 600 180" preserveAspectRatio="none"></svg></section>
+  <section><h2>Today's Trades</h2><table id="trades"></table></section>
+  <section><h2>Breakout Distance</h2><table id="breakouts"></table></section>
+</main>
+<script>
+(function () {
+  var token = new URLSearchParams(location.search).get('token') || '';
+  var rupees = function (v) { return (v < 0 ? '-' : '') + '\\u20B9' + Math.abs(v).toLocaleString('en-IN', { maximumFractionDigits: 2 }); };
+  var pct = function (v) { return v === null ? '-' : v.toFixed(2) + '%'; };
+  var time = function (v) { return new Date(v).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' }); };
+  var signed = function (el, v) { el.textContent = rupees(v); el.className = v > 0 ? 'up' : v < 0 ? 'down' : ''; };
+
+  function table(id, headers, rows) {
+    var el = document.getElementById(id);
+    el.textContent = '';
+    var head = el.insertRow();
+    headers.forEach(function (h) { var th = document.createElement('th'); th.textContent = h; head.appendChild(th); });
+    if (rows.length === 0) {
+      var cell = el.insertRow().insertCell();
+      cell.colSpan = headers.length; cell.className = 'muted'; cell.textContent = 'None';
+      return;
+    }
+    rows.forEach(function (row) {
+      var tr = el.insertRow();
+      row.forEach(function (value) {
+        var td = tr.insertCell();
+        if (value && typeof value === 'object') { td.textContent = value.text; td.className = value.cls; }
+        else { td.textContent = value; }
+      });
+    });
+  }
+  var pnlCell = function (v) { return { text: rupees(v), cls: v > 0 ? 'up' : v < 0 ? 'down' : '' }; };
+
+  function drawEquity(points) {
+    var svg = document.getElementById('equity');
+    svg.textContent = '';
+    if (points.length < 2) return;
+    var min = Math.min.apply(null, points), max = Math.max.apply(null, points), span = (max - min) || 1;
+    var coords = points.map(function (p, i) {
+      return (i / (points.length - 1) * 600).toFixed(1) + ',' + (170 - (p - min) / span * 160).toFixed(1);
+    }).join(' ');
+    var line = document.createElementNS('http://www.w3.org/2000/svg', 'polyline');
+    line.setAttribute('points', coords);
+    line.setAttribute('fill', 'none');
+    line.setAttribute('stroke', points[points.length - 1] >= points[0] ? '#3fb950' : '#f85149');
+    line.setAttribute('stroke-width', '2');
+    line.setAttribute('vector-effect', 'non-scaling-stroke');
+    svg.appendChild(line);
+  }
+
+  function render(s) {
+    document.getElementById('mode').textContent = s.status.mode;
+    var flags = [];
+    if (s.status.killSwitch) flags.push('KILL SWITCH');
+    if (s.status.entriesPaused) flags.push('ENTRIES PAUSED');
+    var flagsEl = document.getElementById('flags');
+    flagsEl.textContent = flags.join(' \\u00B7 ');
+    flagsEl.className = flags.length ? 'badge bad' : '';
+    document.getElementById('balance').textContent = rupees(s.balance);
+    signed(document.getElementById('dayPnL'), s.dayPnL);
+    signed(document.getElementById('unrealized'), s.unrealizedPnL);
+    var feed = document.getElementById('feed');
+    feed.textContent = 'feed ' + (s.feed.alive ? 'live' : 'SILENT') + (s.feed.lastDataSecondsAgo !== null ? ' (' + s.feed.lastDataSecondsAgo + 's)' : '');
+    feed.className = 'badge ' + (s.feed.alive ? 'good' : 'bad');
+    document.getElementById('updated').textContent = 'updated ' + time(s.timestamp);
+
+    table('positions', ['Symbol', 'Side', 'Qty', 'Entry', 'LTP', 'Stop', 'P&L', '%'], s.positions.map(function (p) {
+      return [p.symbol, p.type, p.quantity, p.entryPrice.toFixed(2), p.currentPrice.toFixed(2),
+        p.stopLoss ? p.stopLoss.toFixed(2) : '-', pnlCell(p.pnl), pct(p.pnlPercent)];
+    }));
+    table('trades', ['Symbol', 'Exit', 'Qty', 'Entry', 'Exit Px', 'Net P&L', 'Strategy'], s.trades.slice().reverse().map(function (t) {
+      return [t.symbol, time(t.exitTime), t.quantity, t.entryPrice.toFixed(2), t.exitPrice.toFixed(2), pnlCell(t.netPnL), t.strategy || '-'];
+    }));
+    table('breakouts', ['Symbol', 'Strategy', 'LTP', 'High', 'To High', 'Low', 'To Low'], s.breakouts
+      .slice().sort(function (a, b) { return nearest(a) - nearest(b); })
+      .map(function (b) {
+        return [b.symbol, b.strategy, b.ltp.toFixed(2), b.high === null ? '-' : b.high.toFixed(2), pct(b.toHighPercent),
+          b.low === null ? '-' : b.low.toFixed(2), pct(b.toLowPercent)];
+      }));
+    drawEquity(s.equityCurve);
+  }
+  function nearest(b) {
+    var d = [b.toHighPercent, b.toLowPercent].filter(function (v) { return v !== null; }).map(Math.abs);
+    return d.length ? Math.min.apply(null, d) : Infinity;
+  }
+
+  var events = new EventSource('/dashboard/events?token=' + encodeURIComponent(token));
+  events.onmessage = function (e) { render(JSON.parse(e.data)); };
+  events.onerror = function () { document.getElementById('updated').textContent = 'disconnected - retrying'; };
+})();
+</script>
+</body>
+</html>
+`;
@@ -4,6 +4,8 @@ import { AngelOneClient } from '../brokers/angelone/client';
 import { MarketData } from '../types';
 import { logger } from '../utils/logger';
 import { symbolTokenService } from './symbolTokenService';
+import { tickRecorder } from './tickRecorder';
+import { metricsRegistry, tradingMetrics } from './prometheusMetrics';
 
 interface WebSocketConfig {
   url: string;
@@ -29,6 +31,7 @@ export class WebSocketDataFeed extends EventEmitter {
   private priceTracking: Map<string, any> = new Map();
   private isConnected: boolean = false;
   private reconnectAttempts: number = 0;
+  private ticksReceived: number = 0;
   private heartbeatTimer: NodeJS.Timeout | null = null;
   private reconnectTimer: NodeJS.Timeout | null = null;
 
@@ -61,6 +64,13 @@ export class WebSocketDataFeed extends EventEmitter {
     this.client = client;
     if (marketStartTime) this.marketStartTime = marketStartTime;
     if (marketEndTime) this.marketEndTime = marketEndTime;
+
+    metricsRegistry.setCollector('websocketDataFeed', () => {
+      const stats = this.getStatistics();
+      tradingMetrics.ticksReceived.set({}, stats.ticksReceived);
+      tradingMetrics.websocketConnected.set({}, stats.connected ? 1 : 0);
+      tradingMetrics.websocketReconnectAttempts.set({}, stats.reconnectAttempts);
+    });
   }
 
   /**
@@ -282,30 +292,24 @@ export class WebSocketDataFeed extends EventEmitter {
       // Prices are in paise (divide by 100 to get rupees)
       const subscriptionMode = data.readUInt8(0);
       const exchangeType = data.readUInt8(1);
-      const ltp = data.readBigInt64LE(43) / 100n; // Bytes 43-51
-      const open = data.readBigInt64LE(91) / 100n; // Bytes 91-99
-      const high = data.readBigInt64LE(99) / 100n; // Bytes 99-107
-      const low = data.readBigInt64LE(107) / 100n; // Bytes 107-115
-      const close = data.readBigInt64LE(115) / 100n; // Bytes 115-123
-
-      // Extract volume (bytes 27-35, 8-byte integer)
-      // Volume is typically cumulative for the day
+      // Convert to Number BEFORE dividing - BigInt division would drop the paise
+      const ltpNum = Number(data.readBigInt64LE(43)) / 100; // Bytes 43-51
+      const openNum = Number(data.readBigInt64LE(91)) / 100; // Bytes 91-99
+      const highNum = Number(data.readBigInt64LE(99)) / 100; // Bytes 99-107
+      const lowNum = Number(data.readBigInt64LE(107)) / 100; // Bytes 107-115
+      const closeNum = Number(data.readBigInt64LE(115)) / 100; // Bytes 115-123
+
+      // Bytes 27-35 hold the feed sequence number, 35-43 the exchange timestamp (epoch ms)
+      const exchangeTimestamp = Number(data.readBigInt64LE(35));
+
+      // Cumulative day volume (volume_trade_for_the_day, bytes 67-75)
       let volume = 0;
-      if (data.length >= 35) {
-        try {
-          volume = Number(data.readBigInt64LE(27));
-        } catch (e) {
-          logger.debug('Could not read volume from binary data');
-        }
+      try {
+        volume = Number(data.readBigInt64LE(67));
+      } catch (e) {
+        logger.debug('Could not read volume from binary data');
       }
 
-      // Convert BigInt to Number for market data
-      const ltpNum = Number(ltp);
-      const openNum = Number(open);
-      const highNum = Number(high);
-      const lowNum = Number(low);
-      const closeNum = Number(close);
-
       // Use debug for high-frequency tick data
       logger.debug('📊 Binary tick parsed', {
         token,
@@ -327,6 +331,21 @@ export class WebSocketDataFeed extends EventEmitter {
 
       if (symbol) {
         this.tickCount++; // Increment tick counter
+
+        // Persist the raw tick before market-hours filtering (no-op unless RECORD_TICKS=true)
+        tickRecorder.record({
+          token,
+          symbol,
+          ltp: ltpNum,
+          open: openNum,
+          high: highNum,
+          low: lowNum,
+          close: closeNum,
+          volume,
+          exchangeTimestamp: exchangeTimestamp > 0 ? exchangeTimestamp : null,
+          receivedAt: Date.now()
+        });
+
         this.emitMarketData(symbol, ltpNum, openNum, highNum, lowNum, volume);
       } else {
         logger.warn('⚠️ Token not found in subscriptions', {
@@ -411,6 +430,8 @@ export class WebSocketDataFeed extends EventEmitter {
    * Emit market data event
    */
   private emitMarketData(symbol: string, ltp: number, open: number, high: number, low: number, volume: number = 0): void {
+    this.ticksReceived++;
+
     // CRITICAL: Don't emit data outside market hours to conserve resources
     if (!this.isMarketHours()) {
       return; // Silently drop data outside market hours
@@ -838,7 +859,8 @@ export class WebSocketDataFeed extends EventEmitter {
     return {
       connected: this.isConnected,
       subscriptions: this.subscriptions.size,
-      reconnectAttempts: this.reconnectAttempts
+      reconnectAttempts: this.reconnectAttempts,
+      ticksReceived: this.ticksReceived
     };
   }
 }
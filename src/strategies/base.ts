@@ -1,13 +1,21 @@
 import { EventEmitter } from 'events';
-import { StrategySignal, StrategyContext, MarketData, Position } from '../types';
+import { StrategySignal, StrategyContext, MarketData, Position, Candle, CandleTimeframe, BreakoutLevels } from '../types';
+import { CandleIndicators } from '../indicators/candleIndicators';
+import { signalJournal, SignalCandidate, SignalJournalDetails } from '../services/signalJournal';
+
+// A breakout that keeps extending while a filter holds is journaled once per window, not per tick
+const REJECTION_REPEAT_MS = 5 * 60 * 1000;
 
 export interface IStrategy extends EventEmitter {
   getName(): string;
   initialize(): Promise<void>;
   onMarketData(data: MarketData): void;
+  onCandle?(candle: Candle, timeframe: CandleTimeframe): void; // Closed bars from the engine's CandleAggregator
   onPositionUpdate(position: Position): void;
   setContextPosition(symbol: string, position: Position): void;
   removeContextPosition(symbol: string): void;
+  setContextIndicators?(indicators: CandleIndicators): void;
+  getBreakoutLevels?(): BreakoutLevels[]; // Per-symbol levels a breakout strategy is watching (dashboard)
   shutdown(): Promise<void>;
 
   on(event: 'signal', listener: (signal: StrategySignal) => void): this;
@@ -18,6 +26,7 @@ export abstract class BaseStrategy extends EventEmitter implements IStrategy {
   protected name: string;
   protected context: StrategyContext;
   protected isActive: boolean = false;
+  private lastRejections: Map<string, { reason: string; time: number }> = new Map();
 
   constructor(name: string, context: StrategyContext) {
     super();
@@ -35,6 +44,10 @@ export abstract class BaseStrategy extends EventEmitter implements IStrategy {
 
   public abstract onMarketData(data: MarketData): void;
 
+  /** Called by TradingEngine for every closed bar of every timeframe, before the tick that closed it. */
+  public onCandle(_candle: Candle, _timeframe: CandleTimeframe): void {
+  }
+
   public onPositionUpdate(_position: Position): void {
   }
 
@@ -48,6 +61,33 @@ export abstract class BaseStrategy extends EventEmitter implements IStrategy {
     }
   }
 
+  /**
+   * Journal a candidate entry one of the strategy's own filters dropped (cooldown, volume,
+   * unconfirmed breakout...). Repeats of the same reason for the same symbol and direction
+   * within a few minutes are the same breakout still being filtered and are not recorded.
+   */
+  protected rejectCandidate(
+    candidate: Omit<SignalCandidate, 'strategy'>,
+    reason: string,
+    details?: SignalJournalDetails
+  ): void {
+    const key = `${candidate.symbol}:${candidate.direction}`;
+    const last = this.lastRejections.get(key);
+    if (last && last.reason === reason && candidate.time - last.time < REJECTION_REPEAT_MS) {
+      return;
+    }
+    this.lastRejections.set(key, { reason, time: candidate.time });
+    signalJournal.record({ ...candidate, strategy: this.name }, 'strategy', 'REJECTED', reason, details);
+  }
+
+  /**
+   * A candidate passed the filters (confirmation may still be pending) - the next
+   * rejection for this symbol and direction is a new breakout and always recorded.
+   */
+  protected acceptCandidate(candidate: Omit<SignalCandidate, 'strategy'>): void {
+    this.lastRejections.delete(`${candidate.symbol}:${candidate.direction}`);
+  }
+
   protected emitError(error: Error): void {
     this.emit('error', error);
   }
@@ -65,4 +105,9 @@ export abstract class BaseStrategy extends EventEmitter implements IStrategy {
   public removeContextPosition(symbol: string): void {
     this.context.positions.delete(symbol);
   }
+
+  /** Called by TradingEngine when the strategy is added - indicators on the engine's candles. */
+  public setContextIndicators(indicators: CandleIndicators): void {
+    this.context.indicators = indicators;
+  }
 }
@@ -4,15 +4,118 @@ import {
   MarketData,
   StrategySignal,
   Position,
+  CandleTimeframe,
+  BreakoutLevels,
 } from "../types";
 import { logger } from "../utils/logger";
 import { getSymbolMarginMultiplier } from "../config/symbolConfig";
 import { volumeTracker } from "../services/volumeTracker";
 import { strategyStateStore } from "../services/strategyStateStore";
+import { CANDLE_TIMEFRAMES } from "../services/candleAggregator";
+import { Clock, clock as defaultClock, getISTDate, getISTTime } from "../utils/clock";
+import {
+  ParamSchema,
+  StrategyParameters,
+  loadStrategyParamOverrides,
+} from "../config/strategyParams";
+
+export const DAY_HIGH_LOW_BREAKOUT = "DayHighLowBreakout";
+
+export const DHLB_STOP_MODES = ["PERCENT", "ATR", "BAR_RANGE"] as const;
+export type DhlbStopMode = (typeof DHLB_STOP_MODES)[number];
+
+export interface DayHighLowBreakoutParams {
+  stopMode: DhlbStopMode;           // PERCENT = fixed % of price, ATR / BAR_RANGE = multiples of recent volatility
+  stopLossPercent: number;          // PERCENT: stop distance from entry (% of price)
+  targetPercent: number;            // PERCENT: target distance from entry (% of price)
+  volatilityTimeframe: CandleTimeframe; // ATR / BAR_RANGE: candle timeframe in minutes
+  atrPeriod: number;                // ATR: bars in the average
+  stopMultiple: number;             // ATR / BAR_RANGE: stop distance in ATRs or bar ranges
+  targetMultiple: number;           // ATR / BAR_RANGE: target distance in ATRs or bar ranges
+  minStopPercent: number;           // ATR / BAR_RANGE: clamp on the stop distance (% of price)
+  maxStopPercent: number;
+  minTargetPercent: number;         // ATR / BAR_RANGE: clamp on the target distance (% of price)
+  maxTargetPercent: number;
+  maxTradesPerSymbolPerDay: number; // Hard cap on entries per symbol per day
+  cooldownMinutes: number;          // Re-entry cooldown after a position closes
+  noSignalBeforeTime: string;       // HH:MM IST - gap-open guard, no breakouts before this
+  circuitFreezeMinutes: number;     // No price change for this long = likely halted, skip signals
+  confirmationTicks: number;        // Ticks that must hold beyond the level after the cross (0 = signal on the cross)
+  volumeSurgeMultiplier: number;    // Current 5-min candle volume vs average required to signal
+}
+
+export const DAY_HIGH_LOW_BREAKOUT_DEFAULTS: DayHighLowBreakoutParams = {
+  stopMode: 'PERCENT',
+  stopLossPercent: 0.25,
+  targetPercent: 0.5,
+  volatilityTimeframe: 5,
+  atrPeriod: 14,
+  stopMultiple: 1.5,
+  targetMultiple: 3.0,
+  minStopPercent: 0.15,
+  maxStopPercent: 1.0,
+  minTargetPercent: 0.3,
+  maxTargetPercent: 2.0,
+  maxTradesPerSymbolPerDay: 2,
+  cooldownMinutes: 10,
+  noSignalBeforeTime: '09:20',
+  circuitFreezeMinutes: 3,
+  confirmationTicks: 1,
+  volumeSurgeMultiplier: 2.0,
+};
+
+const DAY_HIGH_LOW_BREAKOUT_SCHEMA: ParamSchema<DayHighLowBreakoutParams> = {
+  stopMode: { type: 'choice', values: DHLB_STOP_MODES },
+  stopLossPercent: { type: 'number', min: 0.01, max: 10 },
+  targetPercent: { type: 'number', min: 0.01, max: 20 },
+  volatilityTimeframe: { type: 'choice', values: CANDLE_TIMEFRAMES },
+  atrPeriod: { type: 'integer', min: 1, max: 100 },
+  stopMultiple: { type: 'number', min: 0.1, max: 10 },
+  targetMultiple: { type: 'number', min: 0.1, max: 20 },
+  minStopPercent: { type: 'number', min: 0.01, max: 10 },
+  maxStopPercent: { type: 'number', min: 0.01, max: 10 },
+  minTargetPercent: { type: 'number', min: 0.01, max: 20 },
+  maxTargetPercent: { type: 'number', min: 0.01, max: 20 },
+  maxTradesPerSymbolPerDay: { type: 'integer', min: 1, max: 50 },
+  cooldownMinutes: { type: 'number', min: 0, max: 375 },
+  noSignalBeforeTime: { type: 'time' },
+  circuitFreezeMinutes: { type: 'number', min: 0.5, max: 60 },
+  confirmationTicks: { type: 'integer', min: 0, max: 20 },
+  volumeSurgeMultiplier: { type: 'number', min: 0, max: 20 },
+};
+
+/**
+ * Build DayHighLowBreakout parameters: built-in defaults, overridden by the
+ * strategy's section of the parameters file when one is configured, then by
+ * `defaultOverrides` (used by the optimiser to try candidate values).
+ */
+export function loadDayHighLowBreakoutParams(
+  filePath?: string | null,
+  defaultOverrides: Partial<DayHighLowBreakoutParams> = {},
+): StrategyParameters<DayHighLowBreakoutParams> {
+  const overrides = filePath
+    ? loadStrategyParamOverrides<DayHighLowBreakoutParams>(filePath, DAY_HIGH_LOW_BREAKOUT)
+    : {};
+
+  return new StrategyParameters(
+    DAY_HIGH_LOW_BREAKOUT,
+    DAY_HIGH_LOW_BREAKOUT_SCHEMA,
+    DAY_HIGH_LOW_BREAKOUT_DEFAULTS,
+    { ...overrides, defaults: { ...overrides.defaults, ...defaultOverrides } },
+  );
+}
+
+interface ExitDistances {
+  stopDistance: number;   // ₹ from entry
+  targetDistance: number; // ₹ from entry
+  stopDescription: string;
+  targetDescription: string;
+}
 
 interface PendingSignal {
   direction: 'BUY' | 'SELL';
   breakoutLevel: number;
+  ticksHeld: number; // Consecutive ticks beyond the level since the cross
 }
 
 interface SymbolState {
@@ -28,14 +131,14 @@ interface SymbolState {
   hasBrokenHighToday: boolean;
   hasBrokenLowToday: boolean;
 
-  // Hard cap: max 2 trades per stock per calendar day
+  // Hard cap: max trades per stock per calendar day (maxTradesPerSymbolPerDay)
   tradesExecutedToday: number;
 
   // Cooldown after position close
   positionClosedAt: number | null; // Timestamp when position was closed
   isInCooldown: boolean; // Whether symbol is in cooldown period
 
-  // 2-tick breakout confirmation: set on first cross, cleared on confirm/cancel
+  // Breakout confirmation: set on first cross, cleared on confirm/cancel
   pendingSignal: PendingSignal | null;
 
   // Circuit breaker detection: timestamp of last price movement
@@ -49,11 +152,28 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
   private symbolStates: Map<string, SymbolState> = new Map();
   private watchlist: string[] = [];
   private readonly LOG_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes in milliseconds
-  private readonly COOLDOWN_PERIOD_MS = 10 * 60 * 1000; // 10 minutes cooldown after position close
 
-  constructor(context: StrategyContext, watchlist: string[] = []) {
-    super("DayHighLowBreakout", context);
+  private readonly params: StrategyParameters<DayHighLowBreakoutParams>;
+  private readonly clock: Clock;
+
+  constructor(
+    context: StrategyContext,
+    watchlist: string[] = [],
+    params: StrategyParameters<DayHighLowBreakoutParams> = loadDayHighLowBreakoutParams(),
+    clock: Clock = defaultClock,
+  ) {
+    super(DAY_HIGH_LOW_BREAKOUT, context);
     this.watchlist = watchlist;
+    this.params = params;
+    this.clock = clock;
+  }
+
+  public getParams(symbol: string): DayHighLowBreakoutParams {
+    return this.params.forSymbol(symbol);
+  }
+
+  private getCooldownMs(symbol: string): number {
+    return this.params.forSymbol(symbol).cooldownMinutes * 60 * 1000;
   }
 
   public async initialize(): Promise<void> {
@@ -65,7 +185,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
 
     for (const symbol of this.watchlist) {
       const saved = savedStates[symbol];
-      const now = Date.now();
+      const now = this.clock.now();
 
       let restoredCooldown = false;
       let restoredTrades = 0;
@@ -78,7 +198,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
           if (saved.cooldownExpiresAt > now) {
             // Cooldown still active — restore with adjusted positionClosedAt
             isInCooldown = true;
-            positionClosedAt = saved.cooldownExpiresAt - this.COOLDOWN_PERIOD_MS;
+            positionClosedAt = saved.cooldownExpiresAt - this.getCooldownMs(symbol);
             restoredCooldown = true;
           }
           // else: cooldown expired during downtime — start fresh, no cooldown
@@ -107,7 +227,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
           tradesExecutedToday: restoredTrades,
           cooldownRestored: restoredCooldown,
           cooldownEndsAt: restoredCooldown && positionClosedAt
-            ? new Date(positionClosedAt + this.COOLDOWN_PERIOD_MS).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })
+            ? new Date(positionClosedAt + this.getCooldownMs(symbol)).toLocaleTimeString('en-IN', { timeZone: 'Asia/Kolkata' })
             : 'N/A',
         });
       }
@@ -120,6 +240,11 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         watchlist: this.watchlist,
       });
     }
+
+    logger.info("⚙️ DayHighLowBreakout parameters", {
+      defaults: this.params.getDefaults(),
+      symbolOverrides: this.params.getOverriddenSymbols(),
+    });
   }
 
   public onMarketData(data: MarketData): void {
@@ -145,7 +270,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       state.dayHigh = data.high || data.ltp; // Initialize from real data, not 0
       state.dayLow = data.low || data.ltp; // Initialize from real data, not Infinity
       state.prevLtp = data.ltp;
-      state.lastPriceChangeAt = Date.now();
+      state.lastPriceChangeAt = this.clock.now();
       logger.info(`📊 [${data.symbol}] Day initialized from first tick`, {
         open: `₹${state.open.toFixed(2)}`,
         dayHigh: `₹${state.dayHigh.toFixed(2)}`,
@@ -156,10 +281,10 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
 
     // Track price movement for circuit breaker detection
     if (data.ltp !== state.prevLtp) {
-      state.lastPriceChangeAt = Date.now();
+      state.lastPriceChangeAt = this.clock.now();
     }
 
-    // Check pending signal confirmation (2-tick confirmation logic)
+    // Check pending signal confirmation (confirmationTicks logic)
     if (state.pendingSignal) {
       this.checkPendingSignalConfirmation(data.symbol, data.ltp, state);
     }
@@ -189,13 +314,11 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
    */
   private checkAndResetForNewDay(state: SymbolState): void {
     // Use IST date so the reset happens at IST midnight, not UTC midnight
-    const istDate = new Date().toLocaleString("en-CA", { timeZone: "Asia/Kolkata" }).split(",")[0].trim();
+    const istDate = getISTDate(this.clock.now());
 
     if (state.lastResetDate !== istDate) {
-      // Clear persisted state file when a new day is detected
-      if (state.lastResetDate !== "") {
-        strategyStateStore.clearDailyState();
-      }
+      // The state file is shared with other strategies - stale entries are filtered by
+      // date on load, so it is not cleared here.
 
       // Reset for new trading day
       state.dayHigh = 0;
@@ -208,7 +331,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       state.positionClosedAt = null;
       state.isInCooldown = false;
       state.pendingSignal = null;
-      state.lastPriceChangeAt = Date.now();
+      state.lastPriceChangeAt = this.clock.now();
       state.lastResetDate = istDate;
 
       logger.info(`🔄 New trading day - state reset`, { date: istDate });
@@ -220,18 +343,18 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
    */
   private checkCooldownExpiry(symbol: string, state: SymbolState): void {
     if (state.isInCooldown && state.positionClosedAt !== null) {
-      const now = Date.now();
+      const now = this.clock.now();
       const timeSinceClose = now - state.positionClosedAt;
 
-      if (timeSinceClose >= this.COOLDOWN_PERIOD_MS) {
+      if (timeSinceClose >= this.getCooldownMs(symbol)) {
         state.isInCooldown = false;
         state.positionClosedAt = null;
 
         // Persist updated state after cooldown expires
         this.saveSymbolState(symbol, state);
 
-        const MAX_TRADES_PER_STOCK_PER_DAY = 2;
-        const remainingTrades = MAX_TRADES_PER_STOCK_PER_DAY - state.tradesExecutedToday;
+        const maxTrades = this.params.forSymbol(symbol).maxTradesPerSymbolPerDay;
+        const remainingTrades = maxTrades - state.tradesExecutedToday;
 
         if (remainingTrades > 0) {
           // Allow re-entry in both directions for remaining trade slots
@@ -244,7 +367,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         } else {
           // Daily cap reached — cooldown cleared but no new signals allowed
           logger.info(
-            `⏰ [${symbol}] Cooldown ended - daily trade limit reached (${MAX_TRADES_PER_STOCK_PER_DAY}/${MAX_TRADES_PER_STOCK_PER_DAY}), no more signals today`,
+            `⏰ [${symbol}] Cooldown ended - daily trade limit reached (${maxTrades}/${maxTrades}), no more signals today`,
           );
         }
       }
@@ -255,31 +378,32 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
    * Saves the persistent portion of a symbol's state to disk.
    */
   private saveSymbolState(symbol: string, state: SymbolState): void {
-    const istDate = new Date().toLocaleString("en-CA", { timeZone: "Asia/Kolkata" }).split(",")[0].trim();
+    const istDate = getISTDate(this.clock.now());
     strategyStateStore.saveSymbolState(symbol, {
       tradesExecutedToday: state.tradesExecutedToday,
       isInCooldown: state.isInCooldown,
       cooldownExpiresAt: state.positionClosedAt !== null
-        ? state.positionClosedAt + this.COOLDOWN_PERIOD_MS
+        ? state.positionClosedAt + this.getCooldownMs(symbol)
         : null,
       lastResetDate: istDate,
     });
   }
 
   /**
-   * 2-tick confirmation: if the pending signal direction is still valid on the
-   * next tick, emit the signal. If price reversed, cancel and allow re-detection.
+   * Breakout confirmation: once price has held beyond the breakout level for
+   * confirmationTicks ticks after the cross, emit the signal. If price reversed,
+   * cancel and allow re-detection.
    */
   private checkPendingSignalConfirmation(symbol: string, ltp: number, state: SymbolState): void {
     const pending = state.pendingSignal!;
 
     if (pending.direction === 'BUY') {
       if (ltp > pending.breakoutLevel) {
-        // Confirmed: price still above breakout level on second tick
-        state.pendingSignal = null;
-        state.tradesExecutedToday++;
-        this.saveSymbolState(symbol, state);
-        this.on_buy_signal(symbol, ltp, pending.breakoutLevel, state.prevLtp);
+        // Price still above breakout level - confirmed once held long enough
+        pending.ticksHeld++;
+        if (pending.ticksHeld >= this.params.forSymbol(symbol).confirmationTicks) {
+          this.confirmSignal(symbol, ltp, state);
+        }
       } else {
         // Reversed: cancel pending signal, reset flag so we can try again
         logger.info(`🔁 [${symbol}] BUY breakout not confirmed (price reversed) - resetting`, {
@@ -288,14 +412,19 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         });
         state.pendingSignal = null;
         state.hasBrokenHighToday = false;
+        this.rejectCandidate(
+          { symbol, direction: 'BUY', price: ltp, time: this.clock.now() },
+          'not_confirmed',
+          { level: pending.breakoutLevel, ticksHeld: pending.ticksHeld },
+        );
       }
     } else {
       if (ltp < pending.breakoutLevel) {
-        // Confirmed: price still below breakout level on second tick
-        state.pendingSignal = null;
-        state.tradesExecutedToday++;
-        this.saveSymbolState(symbol, state);
-        this.on_sell_signal(symbol, ltp, pending.breakoutLevel, state.prevLtp);
+        // Price still below breakout level - confirmed once held long enough
+        pending.ticksHeld++;
+        if (pending.ticksHeld >= this.params.forSymbol(symbol).confirmationTicks) {
+          this.confirmSignal(symbol, ltp, state);
+        }
       } else {
         // Reversed: cancel pending signal, reset flag so we can try again
         logger.info(`🔁 [${symbol}] SELL breakout not confirmed (price reversed) - resetting`, {
@@ -304,12 +433,33 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         });
         state.pendingSignal = null;
         state.hasBrokenLowToday = false;
+        this.rejectCandidate(
+          { symbol, direction: 'SELL', price: ltp, time: this.clock.now() },
+          'not_confirmed',
+          { level: pending.breakoutLevel, ticksHeld: pending.ticksHeld },
+        );
       }
     }
   }
 
+  /**
+   * Consume a daily trade slot for the pending breakout and emit its signal.
+   */
+  private confirmSignal(symbol: string, ltp: number, state: SymbolState): void {
+    const pending = state.pendingSignal!;
+    state.pendingSignal = null;
+    state.tradesExecutedToday++;
+    this.saveSymbolState(symbol, state);
+
+    if (pending.direction === 'BUY') {
+      this.on_buy_signal(symbol, ltp, pending.breakoutLevel, state.prevLtp);
+    } else {
+      this.on_sell_signal(symbol, ltp, pending.breakoutLevel, state.prevLtp);
+    }
+  }
+
   private logPriceLevels(data: MarketData, state: SymbolState): void {
-    const now = Date.now();
+    const now = this.clock.now();
 
     // Log every 5 minutes OR on first data point
     if (
@@ -353,7 +503,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         distanceToLow: `${distanceToLow.toFixed(2)}%`,
         hasBrokenHigh: state.hasBrokenHighToday,
         hasBrokenLow: state.hasBrokenLowToday,
-        timestamp: new Date().toLocaleTimeString("en-IN", {
+        timestamp: new Date(this.clock.now()).toLocaleTimeString("en-IN", {
           timeZone: "Asia/Kolkata",
         }),
       });
@@ -377,17 +527,6 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       return;
     }
 
-    // Skip if symbol is in cooldown period
-    if (state.isInCooldown) {
-      return;
-    }
-
-    // Hard cap: maximum 2 trades per stock per day
-    const MAX_TRADES_PER_STOCK_PER_DAY = 2;
-    if (state.tradesExecutedToday >= MAX_TRADES_PER_STOCK_PER_DAY) {
-      return;
-    }
-
     // Can't check cross without previous LTP or valid day high/low
     if (
       state.prevLtp === 0 ||
@@ -397,87 +536,151 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       return;
     }
 
-    // SHOULD FIX #8 — Gap-up / gap-down guard: skip breakout signals in first 5 minutes.
-    // Gap opens create false breakouts where open price == day high/low.
-    const istNow = new Date(new Date().toLocaleString('en-US', { timeZone: 'Asia/Kolkata' }));
-    const currentTime = `${String(istNow.getHours()).padStart(2, '0')}:${String(istNow.getMinutes()).padStart(2, '0')}`;
-    if (currentTime < '09:20') {
-      return;
-    }
-
-    // SHOULD FIX #11 — Circuit breaker guard: if price has not moved in 3+ minutes,
-    // the stock is likely halted. Skip signals to avoid acting on stale data.
-    const CIRCUIT_FREEZE_MS = 3 * 60 * 1000;
-    if (Date.now() - state.lastPriceChangeAt > CIRCUIT_FREEZE_MS) {
-      logger.warn(`⛔ [${data.symbol}] Price frozen for 3+ min - possible circuit breaker, skipping signal`);
-      return;
-    }
-
     const ltp = data.ltp;
     const prevLtp = state.prevLtp;
 
     const crossedAboveHigh = prevLtp <= dayHigh && ltp > dayHigh;
     const crossedBelowLow = prevLtp >= dayLow && ltp < dayLow;
 
+    let direction: 'BUY' | 'SELL';
     if (crossedAboveHigh && !state.hasBrokenHighToday) {
-      // CRITICAL: Check 5-min candle volume surge before generating signal
-      if (!volumeTracker.hasFiveMinVolumeSurge(data.symbol)) {
-        logger.info(
-          `🚫 BUY signal rejected - insufficient 5-min candle volume`,
-          {
-            symbol: data.symbol,
-            currentCandleVolume: volumeTracker
-              .getCurrentCandleVolume(data.symbol)
-              .toLocaleString(),
-            avgFiveMinVolume: volumeTracker
-              .getAvgFiveMinVolume(data.symbol)
-              .toFixed(0),
-            required: "2.0x",
-            completedCandles: volumeTracker.getCompletedCandleCount(data.symbol),
-          },
-        );
-        return;
-      }
+      direction = 'BUY';
+    } else if (crossedBelowLow && !state.hasBrokenLowToday) {
+      direction = 'SELL';
+    } else {
+      return;
+    }
 
-      // SHOULD FIX #7 — 2-tick confirmation: set pending signal, emit on next tick if confirmed
-      state.hasBrokenHighToday = true;
-      state.pendingSignal = { direction: 'BUY', breakoutLevel: dayHigh };
-      logger.info(`⏳ [${data.symbol}] BUY breakout detected - awaiting 1-tick confirmation`, {
-        dayHigh: `₹${dayHigh.toFixed(2)}`,
-        ltp: `₹${ltp.toFixed(2)}`,
+    const level = direction === 'BUY' ? dayHigh : dayLow;
+    const candidate = { symbol: data.symbol, direction, price: ltp, time: this.clock.now() };
+    const params = this.params.forSymbol(data.symbol);
+
+    // Skip if symbol is in cooldown period
+    if (state.isInCooldown) {
+      const remainingMs = (state.positionClosedAt ?? candidate.time) + this.getCooldownMs(data.symbol) - candidate.time;
+      this.rejectCandidate(candidate, 'cooldown', {
+        level,
+        cooldownRemainingMinutes: Number((remainingMs / 60000).toFixed(1)),
       });
       return;
     }
 
-    if (crossedBelowLow && !state.hasBrokenLowToday) {
-      // CRITICAL: Check 5-min candle volume surge before generating signal
-      if (!volumeTracker.hasFiveMinVolumeSurge(data.symbol)) {
-        logger.info(
-          `🚫 SELL signal rejected - insufficient 5-min candle volume`,
-          {
-            symbol: data.symbol,
-            currentCandleVolume: volumeTracker
-              .getCurrentCandleVolume(data.symbol)
-              .toLocaleString(),
-            avgFiveMinVolume: volumeTracker
-              .getAvgFiveMinVolume(data.symbol)
-              .toFixed(0),
-            required: "2.0x",
-            completedCandles: volumeTracker.getCompletedCandleCount(data.symbol),
-          },
-        );
-        return;
-      }
+    // Hard cap: maximum trades per stock per day
+    if (state.tradesExecutedToday >= params.maxTradesPerSymbolPerDay) {
+      this.rejectCandidate(candidate, 'per_stock_cap', {
+        level,
+        tradesToday: state.tradesExecutedToday,
+        maxTradesPerSymbolPerDay: params.maxTradesPerSymbolPerDay,
+      });
+      return;
+    }
 
-      // SHOULD FIX #7 — 2-tick confirmation
-      state.hasBrokenLowToday = true;
-      state.pendingSignal = { direction: 'SELL', breakoutLevel: dayLow };
-      logger.info(`⏳ [${data.symbol}] SELL breakout detected - awaiting 1-tick confirmation`, {
-        dayLow: `₹${dayLow.toFixed(2)}`,
-        ltp: `₹${ltp.toFixed(2)}`,
+    // SHOULD FIX #8 — Gap-up / gap-down guard: skip breakout signals in the opening minutes.
+    // Gap opens create false breakouts where open price == day high/low.
+    const currentTime = getISTTime(this.clock.now());
+    if (currentTime < params.noSignalBeforeTime) {
+      this.rejectCandidate(candidate, 'gap_guard', {
+        level,
+        time: currentTime,
+        noSignalBeforeTime: params.noSignalBeforeTime,
       });
       return;
     }
+
+    // SHOULD FIX #11 — Circuit breaker guard: if price has not moved for circuitFreezeMinutes,
+    // the stock is likely halted. Skip signals to avoid acting on stale data.
+    if (this.clock.now() - state.lastPriceChangeAt > params.circuitFreezeMinutes * 60 * 1000) {
+      logger.warn(`⛔ [${data.symbol}] Price frozen for ${params.circuitFreezeMinutes}+ min - possible circuit breaker, skipping signal`);
+      this.rejectCandidate(candidate, 'circuit_freeze', {
+        level,
+        frozenMinutes: Number(((this.clock.now() - state.lastPriceChangeAt) / 60000).toFixed(1)),
+      });
+      return;
+    }
+
+    // CRITICAL: Check 5-min candle volume surge before generating signal
+    if (!volumeTracker.hasFiveMinVolumeSurge(data.symbol, params.volumeSurgeMultiplier)) {
+      const currentCandleVolume = volumeTracker.getCurrentCandleVolume(data.symbol);
+      const avgFiveMinVolume = volumeTracker.getAvgFiveMinVolume(data.symbol);
+      logger.info(
+        `🚫 ${direction} signal rejected - insufficient 5-min candle volume`,
+        {
+          symbol: data.symbol,
+          currentCandleVolume: currentCandleVolume.toLocaleString(),
+          avgFiveMinVolume: avgFiveMinVolume.toFixed(0),
+          required: `${params.volumeSurgeMultiplier.toFixed(1)}x`,
+          completedCandles: volumeTracker.getCompletedCandleCount(data.symbol),
+        },
+      );
+      this.rejectCandidate(candidate, 'volume_filter', {
+        level,
+        currentCandleVolume,
+        avgFiveMinVolume: Math.round(avgFiveMinVolume),
+        requiredMultiplier: params.volumeSurgeMultiplier,
+      });
+      return;
+    }
+
+    // SHOULD FIX #7 — Tick confirmation: set pending signal, emit once it holds
+    this.acceptCandidate(candidate);
+    if (direction === 'BUY') {
+      state.hasBrokenHighToday = true;
+    } else {
+      state.hasBrokenLowToday = true;
+    }
+    state.pendingSignal = { direction, breakoutLevel: level, ticksHeld: 0 };
+    if (params.confirmationTicks === 0) {
+      this.confirmSignal(data.symbol, ltp, state);
+      return;
+    }
+    logger.info(`⏳ [${data.symbol}] ${direction} breakout detected - awaiting ${params.confirmationTicks}-tick confirmation`, {
+      [direction === 'BUY' ? 'dayHigh' : 'dayLow']: `₹${level.toFixed(2)}`,
+      ltp: `₹${ltp.toFixed(2)}`,
+    });
+  }
+
+  /**
+   * Stop and target distances from entry (₹). PERCENT uses the fixed percentages; ATR and
+   * BAR_RANGE scale recent volatility on `volatilityTimeframe` candles (ATR, or the range
+   * of the last closed bar) and clamp the result to the min/max percentages. Falls back
+   * to PERCENT while the candles have not warmed up yet.
+   */
+  private calculateExits(symbol: string, ltp: number): ExitDistances {
+    const params = this.params.forSymbol(symbol);
+    const percentExits: ExitDistances = {
+      stopDistance: ltp * params.stopLossPercent / 100,
+      targetDistance: ltp * params.targetPercent / 100,
+      stopDescription: `${params.stopLossPercent}%`,
+      targetDescription: `${params.targetPercent}%`,
+    };
+    if (params.stopMode === 'PERCENT') return percentExits;
+
+    const indicators = this.context.indicators;
+    let volatility: number | null = null;
+    if (params.stopMode === 'ATR') {
+      volatility = indicators?.atr(symbol, params.volatilityTimeframe, params.atrPeriod) ?? null;
+    } else {
+      const bar = indicators?.lastCandle(symbol, params.volatilityTimeframe);
+      volatility = bar ? bar.high - bar.low : null;
+    }
+
+    if (!volatility || volatility <= 0) {
+      logger.info(`📏 [${symbol}] ${params.stopMode} not available yet on ${params.volatilityTimeframe}m candles - using ${params.stopLossPercent}% / ${params.targetPercent}% exits`);
+      return percentExits;
+    }
+
+    const clamp = (distance: number, minPercent: number, maxPercent: number) =>
+      Math.min(Math.max(distance, ltp * minPercent / 100), ltp * maxPercent / 100);
+    const stopDistance = clamp(volatility * params.stopMultiple, params.minStopPercent, params.maxStopPercent);
+    const targetDistance = clamp(volatility * params.targetMultiple, params.minTargetPercent, params.maxTargetPercent);
+    const unit = params.stopMode === 'ATR' ? `ATR(${params.atrPeriod})` : 'bar range';
+
+    return {
+      stopDistance,
+      targetDistance,
+      stopDescription: `${params.stopMultiple}x ${params.volatilityTimeframe}m ${unit} = ${(stopDistance / ltp * 100).toFixed(2)}%`,
+      targetDescription: `${params.targetMultiple}x ${params.volatilityTimeframe}m ${unit} = ${(targetDistance / ltp * 100).toFixed(2)}%`,
+    };
   }
 
   /**
@@ -489,9 +692,10 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
     dayHigh: number,
     prevLtp: number,
   ): void {
-    // Stop Loss: 0.25% below entry  |  Target: 0.5% above entry  (1:2 R:R)
-    const stopLoss = ltp * (1 - 0.0025); // 0.25% below
-    const target = ltp * (1 + 0.005);   // 0.5% above
+    // Stop below / target above entry - fixed % by default (0.25% / 0.5%, 1:2 R:R) or volatility-based
+    const exits = this.calculateExits(symbol, ltp);
+    const stopLoss = ltp - exits.stopDistance;
+    const target = ltp + exits.targetDistance;
 
     // Get symbol-specific margin multiplier
     const marginMultiplier = getSymbolMarginMultiplier(symbol);
@@ -503,6 +707,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       target,
       marginMultiplier,
       useTrailingSL: true, // Enable trailing SL for this strategy
+      price: ltp,
       reason: `Crossed ABOVE day high at ₹${ltp.toFixed(2)} (Day High: ₹${dayHigh.toFixed(2)})`,
       confidence: 0.8, // Increased confidence due to filters
     };
@@ -517,8 +722,8 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       dayHigh: `₹${dayHigh.toFixed(2)}`,
       currentLtp: `₹${ltp.toFixed(2)}`,
       crossConfirmation: `prevLtp (${prevLtp.toFixed(2)}) <= dayHigh (${dayHigh.toFixed(2)}) AND ltp (${ltp.toFixed(2)}) > dayHigh`,
-      stopLoss: `₹${stopLoss.toFixed(2)} (0.25% below)`,
-      target: `₹${target.toFixed(2)} (0.5% above)`,
+      stopLoss: `₹${stopLoss.toFixed(2)} (${exits.stopDescription} below)`,
+      target: `₹${target.toFixed(2)} (${exits.targetDescription} above)`,
       riskReward: `1:${riskRewardRatio.toFixed(2)}`,
     });
 
@@ -539,9 +744,10 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
     dayLow: number,
     prevLtp: number,
   ): void {
-    // Stop Loss: 0.25% above entry  |  Target: 0.5% below entry  (1:2 R:R)
-    const stopLoss = ltp * (1 + 0.0025); // 0.25% above
-    const target = ltp * (1 - 0.005);   // 0.5% below
+    // Stop above / target below entry - fixed % by default (0.25% / 0.5%, 1:2 R:R) or volatility-based
+    const exits = this.calculateExits(symbol, ltp);
+    const stopLoss = ltp + exits.stopDistance;
+    const target = ltp - exits.targetDistance;
 
     // Get symbol-specific margin multiplier
     const marginMultiplier = getSymbolMarginMultiplier(symbol);
@@ -553,6 +759,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       target,
       marginMultiplier,
       useTrailingSL: true, // Enable trailing SL for this strategy
+      price: ltp,
       reason: `Crossed BELOW day low at ₹${ltp.toFixed(2)} (Day Low: ₹${dayLow.toFixed(2)})`,
       confidence: 0.8, // Increased confidence due to filters
     };
@@ -567,8 +774,8 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       dayLow: `₹${dayLow.toFixed(2)}`,
       currentLtp: `₹${ltp.toFixed(2)}`,
       crossConfirmation: `prevLtp (${prevLtp.toFixed(2)}) >= dayLow (${dayLow.toFixed(2)}) AND ltp (${ltp.toFixed(2)}) < dayLow`,
-      stopLoss: `₹${stopLoss.toFixed(2)} (0.25% above)`,
-      target: `₹${target.toFixed(2)} (0.5% below)`,
+      stopLoss: `₹${stopLoss.toFixed(2)} (${exits.stopDescription} above)`,
+      target: `₹${target.toFixed(2)} (${exits.targetDescription} below)`,
       riskReward: `1:${riskRewardRatio.toFixed(2)}`,
     });
 
@@ -585,8 +792,8 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
     if (!state) return;
 
     if (position.quantity === 0) {
-      // Position closed - start 10-minute cooldown
-      state.positionClosedAt = Date.now();
+      // Position closed - start re-entry cooldown
+      state.positionClosedAt = this.clock.now();
       state.isInCooldown = true;
       state.pendingSignal = null; // Cancel any pending signal on close
 
@@ -594,13 +801,13 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       this.saveSymbolState(position.symbol, state);
 
       logger.info(
-        `🔒 [${position.symbol}] Position closed - 10-minute cooldown started`,
+        `🔒 [${position.symbol}] Position closed - ${this.params.forSymbol(position.symbol).cooldownMinutes}-minute cooldown started`,
         {
-          closedAt: new Date().toLocaleTimeString("en-IN", {
+          closedAt: new Date(this.clock.now()).toLocaleTimeString("en-IN", {
             timeZone: "Asia/Kolkata",
           }),
           cooldownEndsAt: new Date(
-            Date.now() + this.COOLDOWN_PERIOD_MS,
+            this.clock.now() + this.getCooldownMs(position.symbol),
           ).toLocaleTimeString("en-IN", { timeZone: "Asia/Kolkata" }),
         },
       );
@@ -621,7 +828,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
         positionClosedAt: null,
         isInCooldown: false,
         pendingSignal: null,
-        lastPriceChangeAt: Date.now(),
+        lastPriceChangeAt: this.clock.now(),
         lastLogTime: 0,
         lastResetDate: "",
       });
@@ -640,12 +847,20 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
     return [...this.watchlist];
   }
 
+  public getBreakoutLevels(): BreakoutLevels[] {
+    return [...this.symbolStates.entries()]
+      .filter(([, state]) => state.prevLtp > 0)
+      .map(([symbol, state]) => ({
+        symbol,
+        ltp: state.prevLtp,
+        high: state.dayHigh > 0 ? state.dayHigh : null,
+        low: state.dayLow !== Infinity ? state.dayLow : null,
+      }));
+  }
+
   public resetDailyData(): void {
     // Use IST date (consistent with checkAndResetForNewDay)
-    const today = new Date().toLocaleString("en-CA", { timeZone: "Asia/Kolkata" }).split(",")[0].trim();
-
-    // Clear persisted state file for the new day
-    strategyStateStore.clearDailyState();
+    const today = getISTDate(this.clock.now());
 
     for (const state of this.symbolStates.values()) {
       // Reset current day's data
@@ -659,7 +874,7 @@ export class DayHighLowBreakoutStrategy extends BaseStrategy {
       state.positionClosedAt = null;
       state.isInCooldown = false;
       state.pendingSignal = null;
-      state.lastPriceChangeAt = Date.now();
+      state.lastPriceChangeAt = this.clock.now();
       state.lastLogTime = 0;
       state.lastResetDate = today;
     }
@@ -0,0 +1,323 @@
+import { BaseStrategy } from "./base";
+import { StrategyContext, MarketData, StrategySignal, Position } from "../types";
+import { logger } from "../utils/logger";
+import { volumeTracker } from "../services/volumeTracker";
+import { SignalCandidate } from "../services/signalJournal";
+import { SymbolPersistentState, strategyStateStore } from "../services/strategyStateStore";
+import { Clock, getISTDate } from "../utils/clock";
+import { StrategyParameters } from "../config/strategyParams";
+
+export interface PendingSignal {
+  direction: 'BUY' | 'SELL';
+  ticksHeld: number; // Consecutive ticks past the level since the cross
+}
+
+/**
+ * Per-symbol trade bookkeeping every intraday strategy keeps - strategies add their own levels
+ */
+export interface IntradaySymbolState {
+  prevLtp: number;
+
+  tradesExecutedToday: number;
+
+  positionClosedAt: number | null;
+  isInCooldown: boolean;
+
+  pendingSignal: PendingSignal | null;
+
+  lastPriceChangeAt: number;
+  lastResetDate: string; // IST YYYY-MM-DD
+}
+
+export interface IntradayStrategyParams {
+  maxTradesPerSymbolPerDay: number;
+  cooldownMinutes: number;
+  circuitFreezeMinutes: number;
+  confirmationTicks: number;
+  volumeSurgeMultiplier: number;
+}
+
+type Candidate = Omit<SignalCandidate, 'strategy'>;
+
+/**
+ * Intraday Strategy - the trade guards shared by OpeningRangeBreakout and Vwap
+ *
+ * Keeps each watchlist symbol's daily trade count, post-exit cooldown and pending
+ * tick confirmation, persists them per strategy through the state store so they
+ * survive restarts, and resets them when the IST date changes. Subclasses find the
+ * cross, run its candidate through `passesTradeGuards` / `passesMarketGuards`, and
+ * build the signal that `publishSignal` sends.
+ */
+export abstract class IntradayStrategy<
+  P extends IntradayStrategyParams,
+  S extends IntradaySymbolState,
+> extends BaseStrategy {
+  protected symbolStates: Map<string, S> = new Map();
+  protected watchlist: string[] = [];
+
+  protected readonly params: StrategyParameters<P>;
+  protected readonly clock: Clock;
+
+  /** Short name used in log lines (ORB, VWAP) */
+  protected abstract readonly label: string;
+
+  constructor(
+    name: string,
+    context: StrategyContext,
+    watchlist: string[],
+    params: StrategyParameters<P>,
+    clock: Clock,
+  ) {
+    super(name, context);
+    this.watchlist = watchlist;
+    this.params = params;
+    this.clock = clock;
+  }
+
+  public getParams(symbol: string): P {
+    return this.params.forSymbol(symbol);
+  }
+
+  protected getCooldownMs(symbol: string): number {
+    return this.params.forSymbol(symbol).cooldownMinutes * 60 * 1000;
+  }
+
+  protected abstract createState(now: number): S;
+
+  /**
+   * Restore what the strategy persisted beyond trade count and cooldown. The
+   * returned fields are added to the restore log line.
+   */
+  protected restoreState(_symbol: string, _state: S, _saved: SymbolPersistentState): Record<string, unknown> {
+    return {};
+  }
+
+  /** Strategy-specific fields to persist alongside trade count and cooldown */
+  protected persistedState(_state: S): Partial<SymbolPersistentState> {
+    return {};
+  }
+
+  /** Called when a cooldown ends with trade slots left for the day */
+  protected onCooldownEnded(_state: S): void {
+  }
+
+  /** Called when a pending signal falls back before it is confirmed */
+  protected onSignalNotConfirmed(_state: S, _direction: 'BUY' | 'SELL'): void {
+  }
+
+  public async initialize(): Promise<void> {
+    await super.initialize();
+
+    // Restore today's trade counts and cooldowns (survives restarts)
+    const savedStates = strategyStateStore.loadTodayState(this.name);
+    const now = this.clock.now();
+    const today = getISTDate(now);
+
+    for (const symbol of this.watchlist) {
+      const saved = savedStates[symbol];
+      const state = this.createState(now);
+
+      if (saved) {
+        state.tradesExecutedToday = saved.tradesExecutedToday;
+        state.lastResetDate = saved.lastResetDate;
+        if (saved.isInCooldown && saved.cooldownExpiresAt !== null && saved.cooldownExpiresAt > now) {
+          state.isInCooldown = true;
+          state.positionClosedAt = saved.cooldownExpiresAt - this.getCooldownMs(symbol);
+        }
+        const restored = this.restoreState(symbol, state, saved);
+
+        logger.info(`[${symbol}] Restored ${this.name} state`, {
+          tradesExecutedToday: state.tradesExecutedToday,
+          cooldownRestored: state.isInCooldown,
+          ...restored,
+        });
+      } else {
+        state.lastResetDate = today;
+      }
+
+      this.symbolStates.set(symbol, state);
+    }
+
+    logger.info(`${this.name} strategy initialized`, {
+      watchlist: this.watchlist,
+      restored: Object.keys(savedStates).length,
+    });
+    logger.info(`⚙️ ${this.name} parameters`, {
+      defaults: this.params.getDefaults(),
+      symbolOverrides: this.params.getOverriddenSymbols(),
+    });
+  }
+
+  /**
+   * Day rollover, cooldown expiry and the last price change - run on every tick
+   * before the strategy looks for a cross.
+   */
+  protected trackTick(data: MarketData, state: S): void {
+    this.checkAndResetForNewDay(state);
+    this.checkCooldownExpiry(data.symbol, state);
+
+    if (data.ltp !== state.prevLtp) {
+      state.lastPriceChangeAt = this.clock.now();
+    }
+  }
+
+  private checkAndResetForNewDay(state: S): void {
+    const istDate = getISTDate(this.clock.now());
+
+    if (state.lastResetDate !== istDate) {
+      // The state file is shared with other strategies - stale entries are filtered by
+      // date on load, so it is not cleared here.
+      Object.assign(state, this.createState(this.clock.now()), { lastResetDate: istDate });
+      logger.info(`🔄 ${this.name} new trading day - state reset`, { date: istDate });
+    }
+  }
+
+  private checkCooldownExpiry(symbol: string, state: S): void {
+    if (!state.isInCooldown || state.positionClosedAt === null) return;
+
+    const timeSinceClose = this.clock.now() - state.positionClosedAt;
+    if (timeSinceClose < this.getCooldownMs(symbol)) return;
+
+    state.isInCooldown = false;
+    state.positionClosedAt = null;
+    this.saveSymbolState(symbol, state);
+
+    const maxTrades = this.params.forSymbol(symbol).maxTradesPerSymbolPerDay;
+    if (state.tradesExecutedToday < maxTrades) {
+      this.onCooldownEnded(state);
+      logger.info(`⏰ [${symbol}] ${this.label} cooldown ended - ready for new signals (${maxTrades - state.tradesExecutedToday} trade(s) remaining today)`);
+    } else {
+      logger.info(`⏰ [${symbol}] ${this.label} cooldown ended - daily trade limit reached (${maxTrades}/${maxTrades}), no more signals today`);
+    }
+  }
+
+  protected saveSymbolState(symbol: string, state: S): void {
+    strategyStateStore.saveSymbolState(
+      symbol,
+      {
+        tradesExecutedToday: state.tradesExecutedToday,
+        isInCooldown: state.isInCooldown,
+        cooldownExpiresAt: state.positionClosedAt !== null
+          ? state.positionClosedAt + this.getCooldownMs(symbol)
+          : null,
+        lastResetDate: getISTDate(this.clock.now()),
+        ...this.persistedState(state),
+      },
+      this.name,
+    );
+  }
+
+  /**
+   * Cooldown and per-symbol cap. Journals the rejection and returns false when one blocks.
+   */
+  protected passesTradeGuards(candidate: Candidate, level: number, state: S): boolean {
+    const params = this.params.forSymbol(candidate.symbol);
+
+    if (state.isInCooldown) {
+      const remainingMs = (state.positionClosedAt ?? candidate.time) + this.getCooldownMs(candidate.symbol) - candidate.time;
+      this.rejectCandidate(candidate, 'cooldown', { level, cooldownRemainingMinutes: Number((remainingMs / 60000).toFixed(1)) });
+      return false;
+    }
+    if (state.tradesExecutedToday >= params.maxTradesPerSymbolPerDay) {
+      this.rejectCandidate(candidate, 'per_stock_cap', {
+        level,
+        tradesToday: state.tradesExecutedToday,
+        maxTradesPerSymbolPerDay: params.maxTradesPerSymbolPerDay,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Frozen price (likely circuit halt) and the 5-min volume surge. Journals the
+   * rejection and returns false when one blocks.
+   */
+  protected passesMarketGuards(candidate: Candidate, level: number, state: S): boolean {
+    const { symbol, direction, time } = candidate;
+    const params = this.params.forSymbol(symbol);
+
+    if (time - state.lastPriceChangeAt > params.circuitFreezeMinutes * 60 * 1000) {
+      logger.warn(`⛔ [${symbol}] Price frozen for ${params.circuitFreezeMinutes}+ min - possible circuit breaker, skipping ${this.label} signal`);
+      this.rejectCandidate(candidate, 'circuit_freeze', {
+        level,
+        frozenMinutes: Number(((time - state.lastPriceChangeAt) / 60000).toFixed(1)),
+      });
+      return false;
+    }
+
+    if (params.volumeSurgeMultiplier > 0 && !volumeTracker.hasFiveMinVolumeSurge(symbol, params.volumeSurgeMultiplier)) {
+      const currentCandleVolume = volumeTracker.getCurrentCandleVolume(symbol);
+      const avgFiveMinVolume = volumeTracker.getAvgFiveMinVolume(symbol);
+      logger.info(`🚫 ${this.label} ${direction} signal rejected - insufficient 5-min candle volume`, {
+        symbol,
+        currentCandleVolume: currentCandleVolume.toLocaleString(),
+        avgFiveMinVolume: avgFiveMinVolume.toFixed(0),
+        required: `${params.volumeSurgeMultiplier.toFixed(1)}x`,
+      });
+      this.rejectCandidate(candidate, 'volume_filter', {
+        level,
+        currentCandleVolume,
+        avgFiveMinVolume: Math.round(avgFiveMinVolume),
+        requiredMultiplier: params.volumeSurgeMultiplier,
+      });
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * Count a tick held past `level` towards the pending signal's confirmation. Returns
+   * true once it has held for `confirmationTicks`; a tick back through the level drops it.
+   */
+  protected checkPendingSignalConfirmation(symbol: string, ltp: number, level: number, state: S): boolean {
+    const pending = state.pendingSignal!;
+    const held = pending.direction === 'BUY' ? ltp > level : ltp < level;
+
+    if (!held) {
+      logger.info(`🔁 [${symbol}] ${this.label} ${pending.direction} cross not confirmed (back past ₹${level.toFixed(2)}) - resetting`, {
+        currentLtp: `₹${ltp.toFixed(2)}`,
+      });
+      state.pendingSignal = null;
+      this.onSignalNotConfirmed(state, pending.direction);
+      this.rejectCandidate(
+        { symbol, direction: pending.direction, price: ltp, time: this.clock.now() },
+        'not_confirmed',
+        { level, ticksHeld: pending.ticksHeld },
+      );
+      return false;
+    }
+
+    pending.ticksHeld++;
+    return pending.ticksHeld >= this.params.forSymbol(symbol).confirmationTicks;
+  }
+
+  /**
+   * Consume a daily trade slot and emit the signal.
+   */
+  protected publishSignal(state: S, signal: StrategySignal): void {
+    state.tradesExecutedToday++;
+    this.saveSymbolState(signal.symbol, state);
+
+    logger.audit("STRATEGY_SIGNAL", {
+      strategy: this.name,
+      signal,
+    });
+
+    this.emitSignal(signal);
+  }
+
+  public onPositionUpdate(position: Position): void {
+    const state = this.symbolStates.get(position.symbol);
+    if (!state) return;
+
+    if (position.quantity === 0) {
+      state.positionClosedAt = this.clock.now();
+      state.isInCooldown = true;
+      state.pendingSignal = null;
+      this.saveSymbolState(position.symbol, state);
+
+      logger.info(`🔒 [${position.symbol}] ${this.label} position closed - ${this.params.forSymbol(position.symbol).cooldownMinutes}-minute cooldown started`);
+    }
+  }
+}
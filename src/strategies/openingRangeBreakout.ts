@@ -0,0 +1,352 @@
+import { IntradayStrategy, IntradaySymbolState } from "./intradayStrategy";
+import {
+  StrategyContext,
+  MarketData,
+  StrategySignal,
+  BreakoutLevels,
+} from "../types";
+import { logger } from "../utils/logger";
+import { getSymbolMarginMultiplier } from "../config/symbolConfig";
+import { volumeTracker } from "../services/volumeTracker";
+import { SymbolPersistentState } from "../services/strategyStateStore";
+import { Clock, clock as defaultClock, getISTTime } from "../utils/clock";
+import {
+  ParamSchema,
+  StrategyParameters,
+  loadStrategyParamOverrides,
+} from "../config/strategyParams";
+
+export const OPENING_RANGE_BREAKOUT = "OpeningRangeBreakout";
+
+export const ORB_STOP_PLACEMENTS = ["OPPOSITE", "MIDPOINT"] as const;
+export type OrbStopPlacement = (typeof ORB_STOP_PLACEMENTS)[number];
+
+export interface OpeningRangeBreakoutParams {
+  rangeStartTime: string;           // HH:MM IST - the opening range starts here (market open)
+  openingRangeMinutes: number;      // Length of the opening range window
+  minRangePercent: number;          // Skip the symbol for the day if the range is narrower (% of range low)
+  maxRangePercent: number;          // Skip the symbol for the day if the range is wider - stop would be too far
+  stopPlacement: OrbStopPlacement;  // OPPOSITE = other side of the range, MIDPOINT = middle of the range
+  targetRangeMultiple: number;      // Target distance from entry, in range widths
+  maxTradesPerSymbolPerDay: number; // Hard cap on entries per symbol per day
+  cooldownMinutes: number;          // Re-entry cooldown after a position closes
+  circuitFreezeMinutes: number;     // No price change for this long = likely halted, skip signals
+  confirmationTicks: number;        // Ticks that must hold beyond the range after the cross (0 = signal on the cross)
+  volumeSurgeMultiplier: number;    // Current 5-min candle volume vs average required to signal
+}
+
+export const OPENING_RANGE_BREAKOUT_DEFAULTS: OpeningRangeBreakoutParams = {
+  rangeStartTime: '09:15',
+  openingRangeMinutes: 15,
+  minRangePercent: 0.1,
+  maxRangePercent: 2.0,
+  stopPlacement: 'OPPOSITE',
+  targetRangeMultiple: 1.5,
+  maxTradesPerSymbolPerDay: 2,
+  cooldownMinutes: 10,
+  circuitFreezeMinutes: 3,
+  confirmationTicks: 1,
+  volumeSurgeMultiplier: 2.0,
+};
+
+const OPENING_RANGE_BREAKOUT_SCHEMA: ParamSchema<OpeningRangeBreakoutParams> = {
+  rangeStartTime: { type: 'time' },
+  openingRangeMinutes: { type: 'integer', min: 1, max: 120 },
+  minRangePercent: { type: 'number', min: 0, max: 10 },
+  maxRangePercent: { type: 'number', min: 0.01, max: 20 },
+  stopPlacement: { type: 'choice', values: ORB_STOP_PLACEMENTS },
+  targetRangeMultiple: { type: 'number', min: 0.1, max: 10 },
+  maxTradesPerSymbolPerDay: { type: 'integer', min: 1, max: 50 },
+  cooldownMinutes: { type: 'number', min: 0, max: 375 },
+  circuitFreezeMinutes: { type: 'number', min: 0.5, max: 60 },
+  confirmationTicks: { type: 'integer', min: 0, max: 20 },
+  volumeSurgeMultiplier: { type: 'number', min: 0, max: 20 },
+};
+
+/**
+ * Build OpeningRangeBreakout parameters: built-in defaults, overridden by the
+ * strategy's section of the parameters file when one is configured, then by
+ * `defaultOverrides`.
+ */
+export function loadOpeningRangeBreakoutParams(
+  filePath?: string | null,
+  defaultOverrides: Partial<OpeningRangeBreakoutParams> = {},
+): StrategyParameters<OpeningRangeBreakoutParams> {
+  const overrides = filePath
+    ? loadStrategyParamOverrides<OpeningRangeBreakoutParams>(filePath, OPENING_RANGE_BREAKOUT)
+    : {};
+
+  return new StrategyParameters(
+    OPENING_RANGE_BREAKOUT,
+    OPENING_RANGE_BREAKOUT_SCHEMA,
+    OPENING_RANGE_BREAKOUT_DEFAULTS,
+    { ...overrides, defaults: { ...overrides.defaults, ...defaultOverrides } },
+  );
+}
+
+interface SymbolState extends IntradaySymbolState {
+  // Opening range, built from ticks inside the window
+  rangeHigh: number;
+  rangeLow: number;
+  rangeComplete: boolean; // Window has closed (range final, or skipped)
+  rangeTradable: boolean; // Range was seen in full and passed the width filter
+
+  // One breakout per direction until a cooldown re-arms it
+  hasBrokenHighToday: boolean;
+  hasBrokenLowToday: boolean;
+}
+
+/**
+ * Opening Range Breakout
+ *
+ * Builds the high/low of the first `openingRangeMinutes` from `rangeStartTime`, then
+ * trades a cross above the range high (BUY) or below the range low (SELL) with the same
+ * 5-min volume-surge filter and tick confirmation as DayHighLowBreakout. The stop sits
+ * on the opposite side of the range (or its midpoint) and the target is a multiple of
+ * the range width. A symbol whose range was not seen in full (bot started late, with
+ * nothing persisted) sits the day out rather than trading a partial range.
+ */
+export class OpeningRangeBreakoutStrategy extends IntradayStrategy<OpeningRangeBreakoutParams, SymbolState> {
+  protected readonly label = 'ORB';
+
+  constructor(
+    context: StrategyContext,
+    watchlist: string[] = [],
+    params: StrategyParameters<OpeningRangeBreakoutParams> = loadOpeningRangeBreakoutParams(),
+    clock: Clock = defaultClock,
+  ) {
+    super(OPENING_RANGE_BREAKOUT, context, watchlist, params, clock);
+  }
+
+  /** Completed ranges are persisted too - a restart after the window keeps trading them */
+  protected restoreState(symbol: string, state: SymbolState, saved: SymbolPersistentState): Record<string, unknown> {
+    if (saved.openingRange) {
+      state.rangeHigh = saved.openingRange.high;
+      state.rangeLow = saved.openingRange.low;
+      this.completeRange(symbol, state);
+    }
+    return { openingRange: saved.openingRange || 'N/A' };
+  }
+
+  protected persistedState(state: SymbolState): Partial<SymbolPersistentState> {
+    return {
+      openingRange: state.rangeTradable
+        ? { high: state.rangeHigh, low: state.rangeLow }
+        : undefined,
+    };
+  }
+
+  public onMarketData(data: MarketData): void {
+    if (!this.isActive) return;
+
+    const state = this.symbolStates.get(data.symbol);
+    if (!state) return;
+
+    if (data.volume) {
+      volumeTracker.recordTick(data.symbol, data.volume, data.timestamp);
+    }
+
+    this.trackTick(data, state);
+
+    const params = this.params.forSymbol(data.symbol);
+    const minutes = toMinutes(getISTTime(this.clock.now()));
+    const rangeStart = toMinutes(params.rangeStartTime);
+    const rangeEnd = rangeStart + params.openingRangeMinutes;
+
+    if (minutes < rangeStart) {
+      state.prevLtp = data.ltp;
+      return;
+    }
+
+    if (minutes < rangeEnd) {
+      // Still inside the window - widen the range
+      state.rangeHigh = Math.max(state.rangeHigh, data.high || data.ltp, data.ltp);
+      state.rangeLow = Math.min(state.rangeLow, data.low || data.ltp, data.ltp);
+      state.prevLtp = data.ltp;
+      return;
+    }
+
+    if (!state.rangeComplete) {
+      this.completeRange(data.symbol, state);
+      this.saveSymbolState(data.symbol, state);
+    }
+
+    if (state.rangeTradable) {
+      if (state.pendingSignal) {
+        const level = state.pendingSignal.direction === 'BUY' ? state.rangeHigh : state.rangeLow;
+        if (this.checkPendingSignalConfirmation(data.symbol, data.ltp, level, state)) {
+          this.confirmSignal(data.symbol, data.ltp, state);
+        }
+      } else {
+        this.checkForBreakout(data, state);
+      }
+    }
+
+    state.prevLtp = data.ltp;
+  }
+
+  /**
+   * Close the opening range and decide whether it is tradable today.
+   */
+  private completeRange(symbol: string, state: SymbolState): void {
+    state.rangeComplete = true;
+    state.rangeTradable = false;
+
+    if (state.rangeHigh === 0 || state.rangeLow === Infinity) {
+      logger.warn(`⛔ [${symbol}] Opening range not observed (started after the window) - no ORB trades today`);
+      return;
+    }
+
+    const { minRangePercent, maxRangePercent } = this.params.forSymbol(symbol);
+    const widthPercent = ((state.rangeHigh - state.rangeLow) / state.rangeLow) * 100;
+
+    if (widthPercent < minRangePercent || widthPercent > maxRangePercent) {
+      logger.info(`🚫 [${symbol}] Opening range ${widthPercent.toFixed(2)}% outside ${minRangePercent}-${maxRangePercent}% - no ORB trades today`, {
+        rangeHigh: `₹${state.rangeHigh.toFixed(2)}`,
+        rangeLow: `₹${state.rangeLow.toFixed(2)}`,
+      });
+      return;
+    }
+
+    state.rangeTradable = true;
+    logger.info(`📐 [${symbol}] Opening range set`, {
+      rangeHigh: `₹${state.rangeHigh.toFixed(2)}`,
+      rangeLow: `₹${state.rangeLow.toFixed(2)}`,
+      width: `${widthPercent.toFixed(2)}%`,
+    });
+  }
+
+  /** Re-arm both directions for the remaining trade slots */
+  protected onCooldownEnded(state: SymbolState): void {
+    state.hasBrokenHighToday = false;
+    state.hasBrokenLowToday = false;
+  }
+
+  /** A failed breakout can be retried */
+  protected onSignalNotConfirmed(state: SymbolState, direction: 'BUY' | 'SELL'): void {
+    if (direction === 'BUY') {
+      state.hasBrokenHighToday = false;
+    } else {
+      state.hasBrokenLowToday = false;
+    }
+  }
+
+  /**
+   * Cross above the range high / below the range low, subject to the same guards as
+   * DayHighLowBreakout: open position, cooldown, per-symbol cap, frozen price and volume.
+   */
+  private checkForBreakout(data: MarketData, state: SymbolState): void {
+    const existingPosition = this.context.positions.get(data.symbol);
+    if (existingPosition && existingPosition.quantity !== 0) return;
+    if (state.prevLtp === 0) return;
+
+    const ltp = data.ltp;
+    let direction: 'BUY' | 'SELL' | null = null;
+    if (!state.hasBrokenHighToday && state.prevLtp <= state.rangeHigh && ltp > state.rangeHigh) {
+      direction = 'BUY';
+    } else if (!state.hasBrokenLowToday && state.prevLtp >= state.rangeLow && ltp < state.rangeLow) {
+      direction = 'SELL';
+    }
+    if (!direction) return;
+
+    const level = direction === 'BUY' ? state.rangeHigh : state.rangeLow;
+    const candidate = { symbol: data.symbol, direction, price: ltp, time: this.clock.now() };
+    if (!this.passesTradeGuards(candidate, level, state)) return;
+    if (!this.passesMarketGuards(candidate, level, state)) return;
+
+    this.acceptCandidate(candidate);
+    if (direction === 'BUY') {
+      state.hasBrokenHighToday = true;
+    } else {
+      state.hasBrokenLowToday = true;
+    }
+    state.pendingSignal = { direction, ticksHeld: 0 };
+
+    const { confirmationTicks } = this.params.forSymbol(data.symbol);
+    if (confirmationTicks === 0) {
+      this.confirmSignal(data.symbol, ltp, state);
+      return;
+    }
+    logger.info(`⏳ [${data.symbol}] ORB ${direction} breakout detected - awaiting ${confirmationTicks}-tick confirmation`, {
+      level: `₹${level.toFixed(2)}`,
+      ltp: `₹${ltp.toFixed(2)}`,
+    });
+  }
+
+  /**
+   * Build the signal with range-based stop and target.
+   */
+  private confirmSignal(symbol: string, ltp: number, state: SymbolState): void {
+    const direction = state.pendingSignal!.direction;
+    state.pendingSignal = null;
+
+    const { stopPlacement, targetRangeMultiple } = this.params.forSymbol(symbol);
+    const width = state.rangeHigh - state.rangeLow;
+    const midpoint = (state.rangeHigh + state.rangeLow) / 2;
+
+    const stopLoss = stopPlacement === 'MIDPOINT'
+      ? midpoint
+      : direction === 'BUY' ? state.rangeLow : state.rangeHigh;
+    const target = direction === 'BUY'
+      ? ltp + width * targetRangeMultiple
+      : ltp - width * targetRangeMultiple;
+
+    const signal: StrategySignal = {
+      symbol,
+      action: direction,
+      stopLoss,
+      target,
+      marginMultiplier: getSymbolMarginMultiplier(symbol),
+      price: ltp,
+      reason: `Opening range breakout ${direction === 'BUY' ? 'ABOVE' : 'BELOW'} ₹${(direction === 'BUY' ? state.rangeHigh : state.rangeLow).toFixed(2)} at ₹${ltp.toFixed(2)} (range ₹${state.rangeLow.toFixed(2)}-₹${state.rangeHigh.toFixed(2)})`,
+      confidence: 0.8,
+    };
+
+    logger.info(`${direction === 'BUY' ? '🚀' : '📉'} ORB ${direction} SIGNAL`, {
+      symbol,
+      rangeHigh: `₹${state.rangeHigh.toFixed(2)}`,
+      rangeLow: `₹${state.rangeLow.toFixed(2)}`,
+      currentLtp: `₹${ltp.toFixed(2)}`,
+      stopLoss: `₹${stopLoss.toFixed(2)} (${stopPlacement.toLowerCase()})`,
+      target: `₹${target.toFixed(2)} (${targetRangeMultiple}x range)`,
+      riskReward: `1:${(Math.abs(target - ltp) / Math.abs(ltp - stopLoss)).toFixed(2)}`,
+    });
+
+    this.publishSignal(state, signal);
+  }
+
+  /** Only ranges that are final and tradable - a range still forming has nothing to break yet */
+  public getBreakoutLevels(): BreakoutLevels[] {
+    return [...this.symbolStates.entries()]
+      .filter(([, state]) => state.prevLtp > 0)
+      .map(([symbol, state]) => ({
+        symbol,
+        ltp: state.prevLtp,
+        high: state.rangeTradable ? state.rangeHigh : null,
+        low: state.rangeTradable ? state.rangeLow : null,
+      }));
+  }
+
+  protected createState(now: number): SymbolState {
+    return {
+      rangeHigh: 0,
+      rangeLow: Infinity,
+      rangeComplete: false,
+      rangeTradable: false,
+      prevLtp: 0,
+      hasBrokenHighToday: false,
+      hasBrokenLowToday: false,
+      tradesExecutedToday: 0,
+      positionClosedAt: null,
+      isInCooldown: false,
+      pendingSignal: null,
+      lastPriceChangeAt: now,
+      lastResetDate: "",
+    };
+  }
+}
+
+function toMinutes(hhmm: string): number {
+  const [hours, minutes] = hhmm.split(':').map(Number);
+  return hours * 60 + minutes;
+}
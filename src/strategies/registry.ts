@@ -0,0 +1,55 @@
+import { IStrategy } from "./base";
+import { StrategyContext } from "../types";
+import {
+  DAY_HIGH_LOW_BREAKOUT,
+  DayHighLowBreakoutStrategy,
+  loadDayHighLowBreakoutParams,
+} from "./dayHighLowBreakout";
+import {
+  OPENING_RANGE_BREAKOUT,
+  OpeningRangeBreakoutStrategy,
+  loadOpeningRangeBreakoutParams,
+} from "./openingRangeBreakout";
+import {
+  VWAP_STRATEGY,
+  VwapStrategy,
+  loadVwapStrategyParams,
+} from "./vwapStrategy";
+
+export const BUILT_IN_STRATEGIES = [DAY_HIGH_LOW_BREAKOUT, OPENING_RANGE_BREAKOUT, VWAP_STRATEGY];
+
+/**
+ * Build a built-in strategy by name with its parameters from the parameters file.
+ * Throws for unknown names so a typo in STRATEGIES fails startup.
+ */
+export function createStrategy(
+  name: string,
+  context: StrategyContext,
+  watchlist: string[],
+  paramsFile: string | null,
+): IStrategy {
+  switch (name) {
+    case DAY_HIGH_LOW_BREAKOUT:
+      return new DayHighLowBreakoutStrategy(
+        context,
+        watchlist,
+        loadDayHighLowBreakoutParams(paramsFile),
+      );
+    case OPENING_RANGE_BREAKOUT:
+      return new OpeningRangeBreakoutStrategy(
+        context,
+        watchlist,
+        loadOpeningRangeBreakoutParams(paramsFile),
+      );
+    case VWAP_STRATEGY:
+      return new VwapStrategy(
+        context,
+        watchlist,
+        loadVwapStrategyParams(paramsFile),
+      );
+    default:
+      throw new Error(
+        `Unknown strategy "${name}" (built-in: ${BUILT_IN_STRATEGIES.join(", ")})`,
+      );
+  }
+}
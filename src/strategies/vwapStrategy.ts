@@ -0,0 +1,280 @@
+import { IntradayStrategy, IntradaySymbolState } from "./intradayStrategy";
+import {
+  StrategyContext,
+  MarketData,
+  StrategySignal,
+} from "../types";
+import { logger } from "../utils/logger";
+import { getSymbolMarginMultiplier } from "../config/symbolConfig";
+import { volumeTracker } from "../services/volumeTracker";
+import { VwapBands, vwapTracker } from "../services/vwapTracker";
+import { Clock, clock as defaultClock, getISTTime } from "../utils/clock";
+import {
+  ParamSchema,
+  StrategyParameters,
+  loadStrategyParamOverrides,
+} from "../config/strategyParams";
+
+export const VWAP_STRATEGY = "Vwap";
+
+export const VWAP_MODES = ["REVERSION", "TREND"] as const;
+export type VwapMode = (typeof VWAP_MODES)[number];
+
+export interface VwapStrategyParams {
+  mode: VwapMode;                   // REVERSION = fade the σ band back to VWAP, TREND = trade a VWAP reclaim
+  bandStdDevs: number;              // Band distance from VWAP in standard deviations
+  stopStdDevs: number;              // Stop distance in σ - beyond the band (REVERSION) or beyond VWAP (TREND)
+  signalStartTime: string;          // HH:MM IST - no signals before this (VWAP and σ need volume to settle)
+  minBandWidthPercent: number;      // Skip when upper-lower band width is below this % of VWAP
+  maxTradesPerSymbolPerDay: number; // Hard cap on entries per symbol per day
+  cooldownMinutes: number;          // Re-entry cooldown after a position closes
+  circuitFreezeMinutes: number;     // No price change for this long = likely halted, skip signals
+  confirmationTicks: number;        // Ticks that must hold past the level after the cross (0 = signal on the cross)
+  volumeSurgeMultiplier: number;    // Current 5-min candle volume vs average required to signal (0 = off)
+}
+
+export const VWAP_STRATEGY_DEFAULTS: VwapStrategyParams = {
+  mode: 'REVERSION',
+  bandStdDevs: 2.0,
+  stopStdDevs: 1.0,
+  signalStartTime: '09:45',
+  minBandWidthPercent: 0.3,
+  maxTradesPerSymbolPerDay: 2,
+  cooldownMinutes: 15,
+  circuitFreezeMinutes: 3,
+  confirmationTicks: 1,
+  volumeSurgeMultiplier: 0,
+};
+
+const VWAP_STRATEGY_SCHEMA: ParamSchema<VwapStrategyParams> = {
+  mode: { type: 'choice', values: VWAP_MODES },
+  bandStdDevs: { type: 'number', min: 0.5, max: 5 },
+  stopStdDevs: { type: 'number', min: 0.1, max: 5 },
+  signalStartTime: { type: 'time' },
+  minBandWidthPercent: { type: 'number', min: 0, max: 20 },
+  maxTradesPerSymbolPerDay: { type: 'integer', min: 1, max: 50 },
+  cooldownMinutes: { type: 'number', min: 0, max: 375 },
+  circuitFreezeMinutes: { type: 'number', min: 0.5, max: 60 },
+  confirmationTicks: { type: 'integer', min: 0, max: 20 },
+  volumeSurgeMultiplier: { type: 'number', min: 0, max: 20 },
+};
+
+/**
+ * Build Vwap strategy parameters: built-in defaults, overridden by the strategy's
+ * section of the parameters file when one is configured, then by `defaultOverrides`.
+ */
+export function loadVwapStrategyParams(
+  filePath?: string | null,
+  defaultOverrides: Partial<VwapStrategyParams> = {},
+): StrategyParameters<VwapStrategyParams> {
+  const overrides = filePath
+    ? loadStrategyParamOverrides<VwapStrategyParams>(filePath, VWAP_STRATEGY)
+    : {};
+
+  return new StrategyParameters(
+    VWAP_STRATEGY,
+    VWAP_STRATEGY_SCHEMA,
+    VWAP_STRATEGY_DEFAULTS,
+    { ...overrides, defaults: { ...overrides.defaults, ...defaultOverrides } },
+  );
+}
+
+interface SymbolState extends IntradaySymbolState {
+  prevBands: VwapBands | null; // Bands at the previous tick - crosses are judged against these
+}
+
+/**
+ * VWAP Strategy
+ *
+ * Trades around the session VWAP computed by the VWAP tracker, in one of two modes:
+ * - REVERSION: price that pushed outside a ±`bandStdDevs` σ band and crosses back inside
+ *   is faded towards VWAP (BUY off the lower band, SELL off the upper). Target is VWAP,
+ *   stop is `stopStdDevs` σ beyond the band.
+ * - TREND: a cross back above VWAP (BUY) or below it (SELL) is traded as continuation.
+ *   Target is the band on the trade side, stop is `stopStdDevs` σ the other side of VWAP.
+ *
+ * Shares the cooldown, per-symbol cap, circuit-freeze and tick-confirmation guards of
+ * the breakout strategies. No signals before `signalStartTime` or while the bands are
+ * too narrow to leave room between stop, entry and target. Only trade counts and
+ * cooldowns are persisted - VWAP itself is rebuilt from the feed, the first tick seeding
+ * it from the day's cumulative volume.
+ */
+export class VwapStrategy extends IntradayStrategy<VwapStrategyParams, SymbolState> {
+  protected readonly label = 'VWAP';
+
+  constructor(
+    context: StrategyContext,
+    watchlist: string[] = [],
+    params: StrategyParameters<VwapStrategyParams> = loadVwapStrategyParams(),
+    clock: Clock = defaultClock,
+  ) {
+    super(VWAP_STRATEGY, context, watchlist, params, clock);
+  }
+
+  public onMarketData(data: MarketData): void {
+    if (!this.isActive) return;
+
+    const state = this.symbolStates.get(data.symbol);
+    if (!state) return;
+
+    if (data.volume) {
+      volumeTracker.recordTick(data.symbol, data.volume, data.timestamp);
+      vwapTracker.recordTick(data);
+    }
+
+    this.trackTick(data, state);
+
+    const params = this.params.forSymbol(data.symbol);
+    const bands = vwapTracker.getBands(data.symbol, params.bandStdDevs);
+
+    if (bands && getISTTime(this.clock.now()) >= params.signalStartTime) {
+      if (state.pendingSignal) {
+        const level = this.entryLevel(params.mode, state.pendingSignal.direction, bands);
+        if (this.checkPendingSignalConfirmation(data.symbol, data.ltp, level, state)) {
+          this.confirmSignal(data.symbol, data.ltp, bands, state);
+        }
+      } else {
+        this.checkForEntry(data, bands, state);
+      }
+    }
+
+    state.prevLtp = data.ltp;
+    state.prevBands = bands;
+  }
+
+  /**
+   * Level a cross is measured against: the band on the entry side (REVERSION) or VWAP (TREND)
+   */
+  private entryLevel(mode: VwapMode, direction: 'BUY' | 'SELL', bands: VwapBands): number {
+    if (mode === 'TREND') return bands.vwap;
+    return direction === 'BUY' ? bands.lower : bands.upper;
+  }
+
+  /**
+   * Cross back inside a band (REVERSION) or through VWAP (TREND), subject to the usual
+   * guards: open position, cooldown, per-symbol cap, band width, frozen price and volume.
+   */
+  private checkForEntry(data: MarketData, bands: VwapBands, state: SymbolState): void {
+    const existingPosition = this.context.positions.get(data.symbol);
+    if (existingPosition && existingPosition.quantity !== 0) return;
+
+    const params = this.params.forSymbol(data.symbol);
+    if (state.prevLtp === 0 || !state.prevBands) return;
+
+    const ltp = data.ltp;
+    const prev = state.prevBands;
+    let direction: 'BUY' | 'SELL' | null = null;
+    if (params.mode === 'REVERSION') {
+      if (state.prevLtp <= prev.lower && ltp > bands.lower) {
+        direction = 'BUY';
+      } else if (state.prevLtp >= prev.upper && ltp < bands.upper) {
+        direction = 'SELL';
+      }
+    } else {
+      if (state.prevLtp <= prev.vwap && ltp > bands.vwap) {
+        direction = 'BUY';
+      } else if (state.prevLtp >= prev.vwap && ltp < bands.vwap) {
+        direction = 'SELL';
+      }
+    }
+    if (!direction) return;
+
+    const level = this.entryLevel(params.mode, direction, bands);
+    const candidate = { symbol: data.symbol, direction, price: ltp, time: this.clock.now() };
+    if (!this.passesTradeGuards(candidate, level, state)) return;
+
+    const bandWidthPercent = ((bands.upper - bands.lower) / bands.vwap) * 100;
+    if (bandWidthPercent < params.minBandWidthPercent) {
+      logger.debug(`[${data.symbol}] VWAP ${direction} cross ignored - bands ${bandWidthPercent.toFixed(2)}% wide (min ${params.minBandWidthPercent}%)`);
+      this.rejectCandidate(candidate, 'band_width', {
+        level,
+        bandWidthPercent: Number(bandWidthPercent.toFixed(3)),
+        minBandWidthPercent: params.minBandWidthPercent,
+      });
+      return;
+    }
+
+    if (!this.passesMarketGuards(candidate, level, state)) return;
+
+    this.acceptCandidate(candidate);
+    state.pendingSignal = { direction, ticksHeld: 0 };
+
+    if (params.confirmationTicks === 0) {
+      this.confirmSignal(data.symbol, ltp, bands, state);
+      return;
+    }
+    logger.info(`⏳ [${data.symbol}] VWAP ${params.mode} ${direction} cross detected - awaiting ${params.confirmationTicks}-tick confirmation`, {
+      level: `₹${level.toFixed(2)}`,
+      ltp: `₹${ltp.toFixed(2)}`,
+    });
+  }
+
+  /**
+   * Build the signal with σ-based stop and target, dropping it when price has already
+   * moved outside them.
+   */
+  private confirmSignal(symbol: string, ltp: number, bands: VwapBands, state: SymbolState): void {
+    const direction = state.pendingSignal!.direction;
+    state.pendingSignal = null;
+
+    const { mode, bandStdDevs, stopStdDevs } = this.params.forSymbol(symbol);
+    const sign = direction === 'BUY' ? 1 : -1;
+    const { vwap, stdDev } = bands;
+
+    const stopLoss = mode === 'REVERSION'
+      ? vwap - sign * (bandStdDevs + stopStdDevs) * stdDev
+      : vwap - sign * stopStdDevs * stdDev;
+    const target = mode === 'REVERSION'
+      ? vwap
+      : vwap + sign * bandStdDevs * stdDev;
+
+    // Confirmation ticks can carry price past the target or back to the stop
+    if ((target - ltp) * sign <= 0 || (ltp - stopLoss) * sign <= 0) {
+      logger.info(`🚫 [${symbol}] VWAP ${direction} signal dropped - LTP ₹${ltp.toFixed(2)} not between stop ₹${stopLoss.toFixed(2)} and target ₹${target.toFixed(2)}`);
+      this.rejectCandidate(
+        { symbol, direction, price: ltp, time: this.clock.now() },
+        'exits_invalid',
+        { stopLoss: Number(stopLoss.toFixed(2)), target: Number(target.toFixed(2)) },
+      );
+      return;
+    }
+
+    const signal: StrategySignal = {
+      symbol,
+      action: direction,
+      stopLoss,
+      target,
+      marginMultiplier: getSymbolMarginMultiplier(symbol),
+      price: ltp,
+      reason: mode === 'REVERSION'
+        ? `VWAP reversion ${direction} from ${direction === 'BUY' ? 'lower' : 'upper'} ${bandStdDevs}σ band at ₹${ltp.toFixed(2)} (VWAP ₹${vwap.toFixed(2)})`
+        : `VWAP ${direction === 'BUY' ? 'reclaim' : 'breakdown'} at ₹${ltp.toFixed(2)} (VWAP ₹${vwap.toFixed(2)})`,
+      confidence: 0.7,
+    };
+
+    logger.info(`${direction === 'BUY' ? '🚀' : '📉'} VWAP ${mode} ${direction} SIGNAL`, {
+      symbol,
+      vwap: `₹${vwap.toFixed(2)}`,
+      stdDev: `₹${stdDev.toFixed(2)}`,
+      currentLtp: `₹${ltp.toFixed(2)}`,
+      stopLoss: `₹${stopLoss.toFixed(2)}`,
+      target: `₹${target.toFixed(2)}`,
+      riskReward: `1:${(Math.abs(target - ltp) / Math.abs(ltp - stopLoss)).toFixed(2)}`,
+    });
+
+    this.publishSignal(state, signal);
+  }
+
+  protected createState(now: number): SymbolState {
+    return {
+      prevLtp: 0,
+      prevBands: null,
+      tradesExecutedToday: 0,
+      positionClosedAt: null,
+      isInCooldown: false,
+      pendingSignal: null,
+      lastPriceChangeAt: now,
+      lastResetDate: "",
+    };
+  }
+}
@@ -1,24 +1,42 @@
 import TelegramBot from 'node-telegram-bot-api';
+import fs from 'fs';
+import path from 'path';
 import { TelegramConfig } from '../types';
 import { logger } from '../utils/logger';
 import { EventEmitter } from 'events';
+import { TelegramCommandHandlers, TelegramCommandRouter } from './commands';
+import { SignalFunnel } from '../services/signalJournal';
+
+export interface StrategyTradeSummary {
+  strategy: string;
+  trades: number;
+  wins: number;
+  losses: number;
+  netPnL: number;
+}
 
 export class TradingTelegramBot extends EventEmitter {
   private bot: TelegramBot | null = null;
   private chatId: string = '';
   private isRunning: boolean = false;
+  private commandsEnabled: boolean = false;
+  private commandRouter: TelegramCommandRouter | null = null;
+  private isPolling: boolean = false;
+  // Only one process may long-poll a bot token - a second poller gets 409 Conflict
+  private readonly POLLING_LOCK_PATH = path.join(process.cwd(), 'state', 'telegram_polling.lock');
 
   constructor(config: TelegramConfig) {
     super();
 
     if (config.botToken) {
-      // Initialize bot WITHOUT polling - notification only mode
+      // Initialize bot WITHOUT polling - command mode starts its own poller in start()
       // This prevents the 409 "Another bot instance is running" error completely!
       this.bot = new TelegramBot(config.botToken, {
         polling: false  // NO POLLING = NO CONFLICTS!
       });
       this.chatId = config.chatId;
-      logger.info('📱 Telegram bot initialized (notification-only mode)');
+      this.commandsEnabled = config.commandsEnabled;
+      logger.info(`📱 Telegram bot initialized (${this.commandsEnabled ? 'command' : 'notification-only'} mode)`);
     } else {
       logger.warn('⚠️ Telegram bot token not configured - notifications disabled');
     }
@@ -209,6 +227,9 @@ ${message}
     let message = `📊 *TRADING BOT STATUS*\n\n`;
     message += `*Mode:* \`${status.mode}\`\n`;
     message += `*Kill Switch:* ${killSwitchStatus}\n`;
+    if (status.entriesPaused) {
+      message += `*Entries:* ⏸️ PAUSED (/resume)\n`;
+    }
     message += `*Open Positions:* ${status.positionCount}\n`;
     message += `*Account Balance:* ₹${status.balance.toLocaleString('en-IN', { maximumFractionDigits: 2 })}\n`;
     message += `${pnlEmoji} *Total P&L:* ₹${status.totalPnL.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
@@ -292,6 +313,7 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
     largestWin: number;
     largestLoss: number;
     trades: any[];
+    strategies?: StrategyTradeSummary[];
     startingBalance: number;
     endingBalance: number;
   }): Promise<void> {
@@ -321,6 +343,16 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
       message += `💔 Largest Loss: ₹${data.largestLoss.toLocaleString('en-IN', { maximumFractionDigits: 2 })}\n\n`;
     }
 
+    // Per-strategy attribution
+    if (data.strategies && data.strategies.length > 0) {
+      message += `🧩 *By Strategy*\n`;
+      for (const s of data.strategies) {
+        const sign = s.netPnL >= 0 ? '+' : '';
+        message += `${s.strategy}: ${sign}₹${s.netPnL.toLocaleString('en-IN', { maximumFractionDigits: 2 })} (${s.trades} trades, ${s.wins}W/${s.losses}L)\n`;
+      }
+      message += `\n`;
+    }
+
     // Trade Details Table
     if (data.trades.length > 0) {
       message += `━━━━━━━━━━━━━━━━━━━━\n`;
@@ -333,7 +365,8 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
       for (const trade of data.trades) {
         const symbol = trade.symbol.replace('-EQ', '').padEnd(9);
         const side = trade.side.padEnd(4);
-        const pnl = (trade.pnl >= 0 ? '+' : '') + trade.pnl.toFixed(0);
+        // FIX: TradeRecord carries netPnL - trade.pnl was undefined and crashed the summary
+        const pnl = (trade.netPnL >= 0 ? '+' : '') + trade.netPnL.toFixed(0);
         const pnlFormatted = pnl.padStart(8);
         const percent = (trade.pnlPercent >= 0 ? '+' : '') + trade.pnlPercent.toFixed(1) + '%';
 
@@ -351,6 +384,42 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
     await this.sendMessage(message);
   }
 
+  /**
+   * End-of-day signal funnel: candidates each stage received and what it filtered out
+   */
+  public async sendSignalFunnel(funnel: SignalFunnel): Promise<void> {
+    let message = `🔎 *SIGNAL FUNNEL* (${funnel.date})\n`;
+    message += `━━━━━━━━━━━━━━━━━━━━\n\n`;
+
+    if (funnel.candidates === 0) {
+      message += `No candidate signals today`;
+      await this.sendMessage(message);
+      return;
+    }
+
+    // Reason names contain underscores - keep them out of Markdown
+    message += `\`\`\`\n`;
+    message += `Candidates seen      ${String(funnel.candidates).padStart(5)}\n`;
+    for (const stage of funnel.stages) {
+      message += `\n${stage.stage.padEnd(12)} in ${String(stage.entered).padStart(4)}  out ${String(stage.rejected).padStart(4)}\n`;
+      for (const [reason, count] of Object.entries(stage.reasons)) {
+        message += `  ${reason.padEnd(24)} ${String(count).padStart(4)}\n`;
+      }
+    }
+    message += `\nFilled               ${String(funnel.filled).padStart(5)}\n`;
+    message += `\`\`\``;
+
+    await this.sendMessage(message);
+  }
+
+  /**
+   * Answer chat commands with these handlers once started. Only the engine's bot does this -
+   * other instances (e.g. the paper broker's) stay notification-only.
+   */
+  public setCommandHandlers(handlers: TelegramCommandHandlers): void {
+    this.commandRouter = new TelegramCommandRouter(this.chatId, handlers);
+  }
+
   public async start(): Promise<void> {
     if (!this.bot) {
       logger.warn('Telegram bot not configured, skipping startup');
@@ -369,10 +438,13 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
       const botInfo = await this.bot.getMe();
       logger.info(`📱 Telegram bot verified: @${botInfo.username}`);
 
-      // NO POLLING NEEDED - Just verify the bot works
-      // Send a test to verify we can send messages
       logger.info('✅ Bot is ready to send notifications');
-      logger.info('ℹ️  Note: Commands like /status are disabled (notification-only mode)');
+
+      if (this.commandsEnabled && this.commandRouter) {
+        await this.startCommandPolling();
+      } else {
+        logger.info('ℹ️  Note: Commands like /status are disabled (notification-only mode)');
+      }
 
       this.isRunning = true;
       logger.info('✅ Telegram notification bot started successfully');
@@ -395,7 +467,109 @@ ${stats.isAtRiskLimit ? '🔴 *AT RISK LIMIT*' : '🟢 Within limits'}
     logger.info('🛑 Stopping Telegram bot...');
     this.isRunning = false;
 
-    // No polling to stop - just mark as stopped
+    await this.stopCommandPolling();
     logger.info('✅ Telegram notification bot stopped');
   }
+
+  /**
+   * Long-poll for commands. A lock file holding our PID keeps a second bot process on
+   * this machine from polling the same token; a 409 from Telegram (a poller elsewhere)
+   * drops this instance back to notification-only.
+   */
+  private async startCommandPolling(): Promise<void> {
+    if (!this.bot || this.isPolling) return;
+
+    if (!this.acquirePollingLock()) {
+      return;
+    }
+
+    this.bot.on('message', async (msg: TelegramBot.Message) => {
+      if (!this.commandRouter) return;
+      const reply = await this.commandRouter.handle(msg.chat.id, msg.text);
+      if (reply) {
+        await this.sendMessage(reply);
+      }
+    });
+
+    this.bot.on('polling_error', async (error: any) => {
+      if (error.response?.statusCode === 409 || error.message?.includes('409')) {
+        logger.error('❌ Another instance is polling this bot - Telegram commands disabled', {
+          error: error.message
+        });
+        await this.stopCommandPolling();
+      } else {
+        logger.warn('Telegram polling error', { error: error.message });
+      }
+    });
+
+    try {
+      await this.bot.startPolling();
+      this.isPolling = true;
+      logger.info('✅ Telegram commands enabled - send /help in the configured chat');
+    } catch (error: any) {
+      logger.error('❌ Failed to start Telegram polling - commands disabled', { error: error.message });
+      this.bot.removeAllListeners('message');
+      this.bot.removeAllListeners('polling_error');
+      this.releasePollingLock();
+    }
+  }
+
+  private async stopCommandPolling(): Promise<void> {
+    if (!this.bot || !this.isPolling) return;
+
+    this.isPolling = false;
+    try {
+      await this.bot.stopPolling();
+    } catch (error: any) {
+      logger.warn('Failed to stop Telegram polling', { error: error.message });
+    }
+    this.bot.removeAllListeners('message');
+    this.bot.removeAllListeners('polling_error');
+    this.releasePollingLock();
+  }
+
+  private acquirePollingLock(): boolean {
+    try {
+      if (fs.existsSync(this.POLLING_LOCK_PATH)) {
+        const pid = parseInt(fs.readFileSync(this.POLLING_LOCK_PATH, 'utf8'), 10);
+        if (pid && pid !== process.pid && this.isProcessAlive(pid)) {
+          logger.warn('⚠️ Telegram commands disabled - another bot process is polling', {
+            pid,
+            lockFile: this.POLLING_LOCK_PATH
+          });
+          return false;
+        }
+        logger.info('Removing stale Telegram polling lock', { pid });
+      }
+
+      fs.mkdirSync(path.dirname(this.POLLING_LOCK_PATH), { recursive: true });
+      fs.writeFileSync(this.POLLING_LOCK_PATH, String(process.pid), 'utf8');
+      return true;
+    } catch (error: any) {
+      logger.error('Failed to take Telegram polling lock - commands disabled', { error: error.message });
+      return false;
+    }
+  }
+
+  private releasePollingLock(): void {
+    try {
+      if (
+        fs.existsSync(this.POLLING_LOCK_PATH) &&
+        parseInt(fs.readFileSync(this.POLLING_LOCK_PATH, 'utf8'), 10) === process.pid
+      ) {
+        fs.unlinkSync(this.POLLING_LOCK_PATH);
+      }
+    } catch (error: any) {
+      logger.warn('Failed to release Telegram polling lock', { error: error.message });
+    }
+  }
+
+  private isProcessAlive(pid: number): boolean {
+    try {
+      process.kill(pid, 0); // Signal 0 only checks the process exists
+      return true;
+    } catch (error: any) {
+      return error.code === 'EPERM'; // Exists but owned by another user
+    }
+  }
 }
@@ -0,0 +1,151 @@
+import { logger } from '../utils/logger';
+import { clock } from '../utils/clock';
+
+/**
+ * What the commands act on - supplied by the trading engine. Report commands send their
+ * own Telegram message; action commands return the reply text.
+ */
+export interface TelegramCommandHandlers {
+  status(): Promise<void>;
+  positions(): Promise<void>;
+  pnl(): Promise<void>;
+  risk(): Promise<void>;
+  pause(): Promise<string>;
+  resume(): Promise<string>;
+  closePosition(symbol: string): Promise<string>;
+  flatten(): Promise<string>;
+  setKillSwitch(active: boolean): Promise<string>;
+}
+
+interface PendingConfirmation {
+  code: string;
+  description: string;
+  expiresAt: number;
+  run: () => Promise<string>;
+}
+
+export const TELEGRAM_HELP = `🤖 *Commands*
+
+/status - Bot status and mode
+/positions - Open positions
+/pnl - P&L summary
+/risk - Risk statistics
+/pause - Stop new entries (exits keep running)
+/resume - Allow new entries again
+/close SYMBOL - Close one position (confirm)
+/flatten - Close every position (confirm)
+/killswitch on|off - Stop all trading / re-enable it (off needs confirm)
+/confirm CODE - Confirm the last pending action`;
+
+/**
+ * Telegram Command Router - turns chat messages into engine actions
+ *
+ * Only the configured chat is obeyed; anything else is ignored and audited. Actions that
+ * close positions or re-enable trading run only after "/confirm CODE" within a minute.
+ * Switching the kill switch on never waits.
+ */
+export class TelegramCommandRouter {
+  private pending: PendingConfirmation | null = null;
+  private readonly CONFIRM_TIMEOUT_MS = 60 * 1000;
+
+  constructor(
+    private readonly chatId: string,
+    private readonly handlers: TelegramCommandHandlers
+  ) {}
+
+  /**
+   * Handle one message. Returns the reply to send, or null when there is nothing to say.
+   */
+  public async handle(chatId: string | number, text: string | undefined): Promise<string | null> {
+    if (!text || !text.startsWith('/')) {
+      return null;
+    }
+
+    if (String(chatId) !== String(this.chatId)) {
+      logger.warn('📱 Telegram command from unknown chat ignored', { chatId, text });
+      logger.audit('TELEGRAM_COMMAND_REJECTED', { chatId, text });
+      return null;
+    }
+
+    // "/close@MyBot RELIANCE-EQ" -> ["close", "RELIANCE-EQ"]
+    const [rawCommand, ...args] = text.trim().split(/\s+/);
+    const command = rawCommand.slice(1).split('@')[0].toLowerCase();
+
+    logger.info('📱 Telegram command received', { command, args });
+    logger.audit('TELEGRAM_COMMAND', { command, args });
+
+    try {
+      switch (command) {
+        case 'start':
+        case 'help':
+          return TELEGRAM_HELP;
+        case 'status':
+          await this.handlers.status();
+          return null;
+        case 'positions':
+          await this.handlers.positions();
+          return null;
+        case 'pnl':
+          await this.handlers.pnl();
+          return null;
+        case 'risk':
+          await this.handlers.risk();
+          return null;
+        case 'pause':
+          return await this.handlers.pause();
+        case 'resume':
+          return await this.handlers.resume();
+        case 'close': {
+          const symbol = args[0]?.toUpperCase();
+          if (!symbol) {
+            return 'Usage: /close SYMBOL';
+          }
+          return this.requestConfirmation(`Close ${symbol}`, () => this.handlers.closePosition(symbol));
+        }
+        case 'flatten':
+          return this.requestConfirmation('Close ALL positions', () => this.handlers.flatten());
+        case 'killswitch': {
+          const state = args[0]?.toLowerCase();
+          if (state === 'on') {
+            this.pending = null;
+            return await this.handlers.setKillSwitch(true);
+          }
+          if (state === 'off') {
+            return this.requestConfirmation('Turn the kill switch OFF and allow trading', () =>
+              this.handlers.setKillSwitch(false)
+            );
+          }
+          return 'Usage: /killswitch on|off';
+        }
+        case 'confirm':
+          return await this.confirm(args[0]);
+        default:
+          return `Unknown command /${command}\n\n${TELEGRAM_HELP}`;
+      }
+    } catch (error: any) {
+      logger.error('Telegram command failed', { command, error: error.message });
+      return `❌ /${command} failed: ${error.message}`;
+    }
+  }
+
+  private requestConfirmation(description: string, run: () => Promise<string>): string {
+    const code = Math.floor(1000 + Math.random() * 9000).toString();
+    this.pending = { code, description, expiresAt: clock.now() + this.CONFIRM_TIMEOUT_MS, run };
+    return `⚠️ ${description}?\n\nSend /confirm ${code} within ${this.CONFIRM_TIMEOUT_MS / 1000} seconds.`;
+  }
+
+  private async confirm(code: string | undefined): Promise<string> {
+    const pending = this.pending;
+    if (!pending || clock.now() > pending.expiresAt) {
+      this.pending = null;
+      return 'Nothing to confirm (or the request expired)';
+    }
+    if (code !== pending.code) {
+      return 'Wrong confirmation code';
+    }
+
+    this.pending = null;
+    logger.audit('TELEGRAM_COMMAND_CONFIRMED', { action: pending.description });
+    return await pending.run();
+  }
+}
@@ -1,8 +1,23 @@
+import type { CandleIndicators } from '../indicators/candleIndicators';
+
 export enum TradingMode {
   PAPER = 'PAPER',
   REAL = 'REAL'
 }
 
+export enum PaperDataSource {
+  ANGEL_ONE = 'ANGEL_ONE', // Live Angel One WebSocket/API (needs ANGEL_*_PAPER credentials)
+  FILE = 'FILE',           // Recorded ticks or 1-min candles replayed from disk
+  SYNTHETIC = 'SYNTHETIC'  // Random-walk prices generated per symbol
+}
+
+export enum PositionSizingPolicy {
+  FIXED_NOTIONAL = 'FIXED_NOTIONAL',       // POSITION_SIZE_PERCENT of the strategy's capital, with margin
+  FIXED_RISK = 'FIXED_RISK',               // MAX_RISK_PER_TRADE_PERCENT of capital lost at the stop
+  VOLATILITY_TARGET = 'VOLATILITY_TARGET', // A one-ATR move costs a fixed % of capital
+  KELLY = 'KELLY'                          // Fractional Kelly from the strategy's trade history, capped
+}
+
 export enum OrderSide {
   BUY = 'BUY',
   SELL = 'SELL'
@@ -29,9 +44,12 @@ export enum PositionType {
   SHORT = 'SHORT'
 }
 
+// Bar length in minutes for aggregated candles
+export type CandleTimeframe = 1 | 3 | 5 | 15;
+
 export interface Candle {
   symbol: string;
-  timestamp: Date;
+  timestamp: Date; // Bar open time
   open: number;
   high: number;
   low: number;
@@ -52,6 +70,14 @@ export interface Order {
   averagePrice: number;
   timestamp: Date;
   broker?: string;
+  parentOrderId?: string; // Bracket (ROBO) exit legs: the entry order they belong to
+}
+
+// Changes to a working order - fields left out keep their current value
+export interface OrderModification {
+  price?: number;        // Limit price
+  triggerPrice?: number; // Stop trigger price
+  quantity?: number;     // Total order quantity (not less than what has filled)
 }
 
 export interface Position {
@@ -68,6 +94,7 @@ export interface Position {
   useTrailingSL?: boolean;   // Whether this position should use trailing SL
   initialStopLoss?: number;   // To track where we started
   isTrailing?: boolean;      // Whether trailing has been activated (e.g. hit BE)
+  strategy?: string;         // Strategy that opened the position (unset for positions synced from the broker)
 }
 
 export interface Trade {
@@ -90,6 +117,15 @@ export interface StrategySignal {
   confidence?: number;
   marginMultiplier?: number;  // Per-symbol margin multiplier (e.g., 5 for MIS stocks)
   useTrailingSL?: boolean;    // Add trailing SL flag
+  strategy?: string;          // Originating strategy - stamped by the engine when not set by the strategy
+  price?: number;             // LTP the signal was generated at (signal journal)
+}
+
+export interface BreakoutLevels {
+  symbol: string;
+  ltp: number;
+  high: number | null; // Level a long entry breaks (day high, opening range high) - null until known
+  low: number | null;  // Level a short entry breaks
 }
 
 export interface MarketData {
@@ -103,6 +139,22 @@ export interface MarketData {
   timestamp: Date;
 }
 
+export interface MarketQuote {
+  symbol: string;
+  ltp: number;
+  open: number;
+  high: number;
+  low: number;
+  prevClose: number;         // Previous session's close
+  upperCircuit: number;      // Exchange price band for the day
+  lowerCircuit: number;
+  bestBid: number | null;    // Top of the order book (null when that side is empty)
+  bestAsk: number | null;
+  totalBuyQuantity: number;  // Pending buy / sell quantity across the book
+  totalSellQuantity: number;
+  timestamp: Date;
+}
+
 export interface RiskLimits {
   maxRiskPerTradePercent: number;
   maxDailyLossPercent: number;
@@ -112,6 +164,12 @@ export interface RiskLimits {
   useMargin: boolean; // Enable/disable margin usage
 }
 
+export interface StrategyAllocation {
+  capitalPercent: number;      // Share of account capital this strategy sizes and deploys from
+  maxTradesPerDay: number;     // Per-strategy cap (the system-wide maxTradesPerDay still applies)
+  maxDailyLossPercent: number; // Loss limit as a % of the strategy's allocated capital
+}
+
 export interface TradingConfig {
   mode: TradingMode;
   autoSquareOffTime: string;
@@ -133,12 +191,84 @@ export interface BrokerConfig {
 export interface TelegramConfig {
   botToken: string;
   chatId: string;
+  commandsEnabled: boolean; // Long-poll for chat commands (TELEGRAM_COMMANDS_ENABLED) - otherwise notification-only
+}
+
+export interface TickRecorderConfig {
+  enabled: boolean;
+  directory: string;      // Root directory; files are written to <directory>/<YYYY-MM-DD>/<SYMBOL>.ndjson.gz
+  retentionDays: number;  // Day directories older than this are deleted (0 = keep forever)
+}
+
+export interface SignalJournalConfig {
+  enabled: boolean;
+  directory: string;      // Records are appended to <directory>/<YYYY-MM-DD>.jsonl
+  retentionDays: number;  // Day files older than this are deleted (0 = keep forever)
+}
+
+export interface PaperFillConfig {
+  latencyMs: number;              // Delay between order submission and the first fill attempt
+  latencyJitterMs: number;        // Random extra delay added on top of latencyMs (0..jitter)
+  spreadBps: number;              // Assumed bid-ask spread in basis points (half is paid per fill, min one tick)
+  impactBps: number;              // Market impact in bps when trading 100% of the average 5-min volume (square-root scaled)
+  maxVolumeParticipation: number; // Max fraction of available volume one fill may take (0 = no partial fills)
+}
+
+export interface PaperDataConfig {
+  source: PaperDataSource;
+  filePath: string;       // FILE: recorded data file or directory (same formats as the backtester)
+  speed: number;          // Offline sources: session-time multiplier (1 = real time, 60 = one minute per second)
+  tickIntervalMs: number; // SYNTHETIC: wall-clock interval between generated ticks
+}
+
+export interface PositionSizingConfig {
+  policy: PositionSizingPolicy;
+  volatilityTargetPercent: number; // VOLATILITY_TARGET: % of capital a one-ATR move should cost
+  atrTimeframe: CandleTimeframe;   // VOLATILITY_TARGET: candle timeframe for the ATR
+  atrPeriod: number;               // VOLATILITY_TARGET: bars in the ATR
+  kellyFraction: number;           // KELLY: share of full Kelly to use (0.5 = half Kelly)
+  kellyMaxRiskPercent: number;     // KELLY: cap on capital risked per trade (%)
+  kellyMinTrades: number;          // KELLY: closed trades needed before Kelly is trusted (fixed-risk until then)
+}
+
+export interface ExposureLimitsConfig {
+  maxGrossExposurePercent: number;  // Σ |position notional| as % of account balance (0 = no limit)
+  maxNetExposurePercent: number;    // |Σ long notional - Σ short notional| as % of balance (0 = no limit)
+  maxSectorExposurePercent: number; // Gross notional in any one sector as % of balance (0 = no limit)
+}
+
+export interface DrawdownConfig {
+  reduceSizeAtPercent: number;       // Stage 1: peak-to-trough drawdown (% of day-start balance) that down-sizes entries (0 = off)
+  sizeReductionPercent: number;      // Stage 1: how much smaller new entries get (50 = half size)
+  haltEntriesAtPercent: number;      // Stage 2: drawdown that stops new entries (0 = off)
+  flattenAtPercent: number;          // Stage 3: drawdown that flattens everything and shuts trading down (0 = off)
+  giveBackActivationPercent: number; // Give-back: day P&L peak (% of balance) that arms the rule (0 = off)
+  giveBackPercent: number;           // Give-back: share of the peak profit that may be given back before locking in
+}
+
+export interface LossStreakConfig {
+  symbolLossLimit: number;               // Consecutive losses on a symbol that block it for the rest of the day (0 = off)
+  bookLossLimit: number;                 // Consecutive losses across all symbols that pause new entries (0 = off)
+  bookPauseMinutes: number;              // How long new entries stay paused after bookLossLimit losses
+  losingDaySizeReductionPercent: number; // Entries this much smaller the day after a losing day (0 = off)
 }
 
 export interface AppConfig {
   trading: TradingConfig;
   broker: BrokerConfig;
   telegram: TelegramConfig;
+  tickRecorder: TickRecorderConfig;
+  signalJournal: SignalJournalConfig;
+  paperFill: PaperFillConfig;
+  paperData: PaperDataConfig;
+  positionSizing: PositionSizingConfig;
+  exposureLimits: ExposureLimitsConfig;
+  drawdown: DrawdownConfig;
+  lossStreak: LossStreakConfig;
+  strategyParamsFile: string | null; // JSON strategy parameter overrides (STRATEGY_PARAMS_FILE)
+  complianceRulesFile: string | null; // JSON pre-trade compliance rule list (COMPLIANCE_RULES_FILE)
+  controlApiToken: string | null;     // Bearer token for the HTTP control API (CONTROL_API_TOKEN) - API off when unset
+  strategies: string[];              // Built-in strategies to run (STRATEGIES, comma-separated)
   logLevel: string;
   enableAuditLog: boolean;
 }
@@ -158,4 +288,5 @@ export interface StrategyContext {
   positions: Map<string, Position>;
   accountInfo: AccountInfo;
   config: TradingConfig;
+  indicators?: CandleIndicators; // Set by TradingEngine when the strategy is added
 }
@@ -1,5 +1,8 @@
 import http from 'http';
 import { logger } from './logger';
+import { ControlApi, tokenMatches } from '../services/controlApi';
+import { WebDashboard } from '../services/webDashboard';
+import { metricsRegistry } from '../services/prometheusMetrics';
 
 interface HealthStatus {
   isHealthy: boolean;
@@ -26,6 +29,10 @@ export class HealthCheckServer {
     uptime: 0
   };
   private startTime: number = Date.now();
+  private controlApi: ControlApi | null = null;
+  private dashboard: WebDashboard | null = null;
+  private metricsToken: string | null = null;
+  private readonly MAX_BODY_BYTES = 64 * 1024;
 
   constructor(port?: number) {
     // Use PORT from environment (Render sets this automatically)
@@ -46,6 +53,20 @@ export class HealthCheckServer {
       // Update uptime
       this.status.uptime = Math.floor((Date.now() - this.startTime) / 1000);
 
+      if (req.url?.startsWith('/api/')) {
+        this.handleControlApi(req, res);
+        return;
+      }
+
+      if (req.url?.startsWith('/dashboard') && this.dashboard?.handle(req, res)) {
+        return;
+      }
+
+      if (req.url === '/metrics') {
+        this.handleMetrics(req, res);
+        return;
+      }
+
       if (req.url === '/health' || req.url === '/') {
         // CRITICAL: Return 200 even during auth cooldown or reconnection
         // These are temporary states, not fatal errors
@@ -88,6 +109,7 @@ export class HealthCheckServer {
     this.server.listen(this.port, () => {
       logger.info(`✅ Health check server started on port ${this.port}`);
       logger.info(`   Health endpoint: http://localhost:${this.port}/health`);
+      logger.info(`   Metrics endpoint: http://localhost:${this.port}/metrics`);
     });
 
     // Handle server errors
@@ -100,6 +122,76 @@ export class HealthCheckServer {
     });
   }
 
+  /**
+   * Serve the control API under /api/ (404 until one is set)
+   */
+  public setControlApi(api: ControlApi): void {
+    this.controlApi = api;
+    logger.info(`🌐 Control API enabled: http://localhost:${this.port}/api/`);
+  }
+
+  /**
+   * Require "Authorization: Bearer <token>" on /metrics (open until set)
+   */
+  public setMetricsToken(token: string): void {
+    this.metricsToken = token;
+  }
+
+  private handleMetrics(req: http.IncomingMessage, res: http.ServerResponse): void {
+    if (this.metricsToken) {
+      const match = /^Bearer\s+(.+)$/.exec(req.headers.authorization || '');
+      if (!match || !tokenMatches(this.metricsToken, match[1].trim())) {
+        res.writeHead(401, { 'Content-Type': 'text/plain' });
+        res.end('Unauthorized');
+        return;
+      }
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+    res.end(metricsRegistry.render());
+  }
+
+  /**
+   * Serve the browser dashboard under /dashboard (404 until one is set)
+   */
+  public setDashboard(dashboard: WebDashboard): void {
+    this.dashboard = dashboard;
+    logger.info(`🖥️ Web dashboard enabled: http://localhost:${this.port}/dashboard?token=<CONTROL_API_TOKEN>`);
+  }
+
+  private handleControlApi(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const send = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-cache' });
+      res.end(JSON.stringify(body, null, 2));
+    };
+
+    const api = this.controlApi;
+    if (!api) {
+      send(404, { error: 'Control API disabled - set CONTROL_API_TOKEN' });
+      return;
+    }
+
+    let body = '';
+    let tooLarge = false;
+    req.on('data', (chunk: Buffer) => {
+      body += chunk.toString();
+      if (body.length > this.MAX_BODY_BYTES && !tooLarge) {
+        tooLarge = true;
+        send(413, { error: 'Request body too large' });
+        req.destroy();
+      }
+    });
+    req.on('end', () => {
+      if (tooLarge) return;
+      api.handle(req.method || 'GET', req.url || '', req.headers.authorization, body)
+        .then(({ status, body: responseBody }) => send(status, responseBody))
+        .catch((error: any) => {
+          logger.error('Control API error', error);
+          send(500, { error: 'Internal error' });
+        });
+    });
+  }
+
   /**
    * Update health status
    */
@@ -167,6 +259,9 @@ export class HealthCheckServer {
         return;
       }
 
+      // Open event streams would otherwise hold the server open until the force-close
+      this.dashboard?.stop();
+
       this.server.close(() => {
         logger.info('Health check server stopped');
         this.server = null;
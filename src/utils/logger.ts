@@ -38,6 +38,10 @@ class Logger {
     }
   }
 
+  public setLogLevel(level: string): void {
+    this.logLevel = this.parseLogLevel(level);
+  }
+
   private ensureDirectories(): void {
     if (!fs.existsSync(this.logDir)) {
       fs.mkdirSync(this.logDir, { recursive: true });
@@ -1,3 +1,5 @@
+import { getISTDate } from './clock';
+
 /**
  * NSE Trading Holiday Calendar
  * Source: NSE India official holiday list
@@ -40,18 +42,11 @@ export const NSE_HOLIDAYS: string[] = [
 ];
 
 
-/**
- * Returns the IST date string YYYY-MM-DD for a given Date object.
- */
-function toISTDateString(date: Date): string {
-  return date.toLocaleDateString('en-CA', { timeZone: 'Asia/Kolkata' }); // en-CA gives YYYY-MM-DD
-}
-
 /**
  * Returns true if the given date is an NSE trading holiday.
  */
 export function isNSEHoliday(date: Date): boolean {
-  const dateStr = toISTDateString(date);
+  const dateStr = getISTDate(date);
   return NSE_HOLIDAYS.includes(dateStr);
 }
 
@@ -60,7 +55,7 @@ export function isNSEHoliday(date: Date): boolean {
  * Useful for logging a friendly message.
  */
 export function getNSEHolidayName(date: Date): string | null {
-  const dateStr = toISTDateString(date);
+  const dateStr = getISTDate(date);
   const names: Record<string, string> = {
     "2025-02-26": "Maha Shivaratri",
     "2025-03-14": "Holi",
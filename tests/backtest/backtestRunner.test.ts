@@ -0,0 +1,122 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { BacktestRunner } from '../../src/backtest/backtestRunner';
+import { AppConfig, MarketData, PaperDataSource, PositionSizingPolicy, TradingMode } from '../../src/types';
+
+// Mock Config Manager to prevent validation errors during import
+jest.mock('../../src/config', () => {
+    let killSwitch = false;
+    const manager = {
+        isKillSwitchActive: jest.fn(() => killSwitch),
+        setKillSwitch: jest.fn((active: boolean) => { killSwitch = active; }),
+        getTradingMode: jest.fn().mockReturnValue('PAPER')
+    };
+    return { __esModule: true, default: manager, configManager: manager };
+});
+
+describe('BacktestRunner', () => {
+    let dir: string;
+
+    const config: AppConfig = {
+        trading: {
+            mode: TradingMode.PAPER,
+            riskLimits: {
+                maxRiskPerTradePercent: 1,
+                maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
+                positionSizePercent: 10,
+                marginMultiplier: 5,
+                useMargin: true
+            },
+            marketStartTime: '09:15',
+            marketEndTime: '15:30',
+            autoSquareOffTime: '15:20',
+            killSwitch: false
+        },
+        broker: { apiKey: '', clientId: '', password: '', totpSecret: '' },
+        telegram: { botToken: '', chatId: '', commandsEnabled: false },
+        tickRecorder: { enabled: false, directory: '', retentionDays: 0 },
+        signalJournal: { enabled: false, directory: '', retentionDays: 0 },
+        paperFill: { latencyMs: 0, latencyJitterMs: 0, spreadBps: 0, impactBps: 0, maxVolumeParticipation: 0 },
+        paperData: { source: PaperDataSource.ANGEL_ONE, filePath: '', speed: 1, tickIntervalMs: 1000 },
+        positionSizing: {
+            policy: PositionSizingPolicy.FIXED_NOTIONAL,
+            volatilityTargetPercent: 0.5,
+            atrTimeframe: 5,
+            atrPeriod: 14,
+            kellyFraction: 0.5,
+            kellyMaxRiskPercent: 2,
+            kellyMinTrades: 20
+        },
+        exposureLimits: { maxGrossExposurePercent: 0, maxNetExposurePercent: 0, maxSectorExposurePercent: 0 },
+        drawdown: {
+            reduceSizeAtPercent: 0,
+            sizeReductionPercent: 50,
+            haltEntriesAtPercent: 0,
+            flattenAtPercent: 0,
+            giveBackActivationPercent: 0,
+            giveBackPercent: 50
+        },
+        lossStreak: { symbolLossLimit: 0, bookLossLimit: 0, bookPauseMinutes: 30, losingDaySizeReductionPercent: 0 },
+        strategyParamsFile: null,
+        complianceRulesFile: null,
+        controlApiToken: null,
+        strategies: ['DayHighLowBreakout'],
+        logLevel: 'error',
+        enableAuditLog: false
+    };
+
+    // One IST session from 09:30, a tick a minute: breakout above 100 at 09:31, target hit at 09:34
+    const day = (prices: number[]) => {
+        let high = 0;
+        let low = Infinity;
+        const ticks: MarketData[] = prices.map((ltp, i) => {
+            high = Math.max(high, ltp);
+            low = Math.min(low, ltp);
+            return {
+                symbol: 'TCS-EQ',
+                ltp,
+                open: prices[0],
+                high,
+                low,
+                close: 100,
+                volume: (i + 1) * 1000,
+                timestamp: new Date(Date.parse('2025-01-06T09:30:00+05:30') + i * 60000)
+            };
+        });
+        return { date: '2025-01-06', ticks };
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'backtest-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should replay a session through the engine and report the bracket exit', async () => {
+        const runner = new BacktestRunner({
+            dataPath: '',
+            outputDir: dir,
+            initialBalance: 100000,
+            days: [day([100, 100.5, 100.6, 100.8, 102, 101.9])],
+            paramOverrides: {
+                confirmationTicks: 0,
+                stopLossPercent: 0.5,
+                targetPercent: 1
+            },
+            config
+        });
+
+        const summary = await runner.run();
+
+        expect(summary).toMatchObject({ tradingDays: 1, ticksReplayed: 6, symbols: ['TCS-EQ'] });
+        expect(summary.overall.totalTrades).toBe(1);
+        expect(summary.overall.winningTrades).toBe(1);
+        expect(runner.getTrades()[0]).toMatchObject({ symbol: 'TCS-EQ', entryPrice: 100.5, exitPrice: 101.505 });
+        expect(summary.endingBalance).toBeCloseTo(100000 + summary.overall.totalPnL);
+        expect(fs.existsSync(path.join(dir, 'summary.json'))).toBe(true);
+    });
+});
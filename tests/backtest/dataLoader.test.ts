@@ -0,0 +1,42 @@
+import { parseCandleCsv, expandCandles, toISTDate } from '../../src/backtest/dataLoader';
+
+describe('Backtest DataLoader', () => {
+    const csv = [
+        'timestamp,symbol,open,high,low,close,volume',
+        '2025-01-06 09:15:00,RELIANCE-EQ,100,102,99,101,4000',
+        '2025-01-06 09:16:00,RELIANCE-EQ,101,101.5,98,98.5,8000'
+    ].join('\n');
+
+    test('should parse zone-less candle timestamps as IST', () => {
+        const candles = parseCandleCsv(csv);
+
+        expect(candles).toHaveLength(2);
+        expect(candles[0].timestamp.toISOString()).toBe('2025-01-06T03:45:00.000Z');
+        expect(candles[1].close).toBe(98.5);
+    });
+
+    test('should expand bullish candles O-L-H-C and bearish candles O-H-L-C', () => {
+        const ticks = expandCandles(parseCandleCsv(csv));
+
+        expect(ticks).toHaveLength(8);
+        expect(ticks.slice(0, 4).map(t => t.ltp)).toEqual([100, 99, 102, 101]);
+        expect(ticks.slice(4).map(t => t.ltp)).toEqual([101, 101.5, 98, 98.5]);
+    });
+
+    test('should carry running day high/low and cumulative volume', () => {
+        const ticks = expandCandles(parseCandleCsv(csv));
+        const last = ticks[ticks.length - 1];
+
+        expect(ticks[1].low).toBe(99);
+        expect(ticks[1].high).toBe(100);
+        expect(last.high).toBe(102);
+        expect(last.low).toBe(98);
+        expect(last.open).toBe(100);
+        expect(last.volume).toBe(12000);
+    });
+
+    test('should group timestamps by IST trading date', () => {
+        expect(toISTDate(new Date('2025-01-06T18:29:00Z'))).toBe('2025-01-06');
+        expect(toISTDate(new Date('2025-01-06T18:31:00Z'))).toBe('2025-01-07');
+    });
+});
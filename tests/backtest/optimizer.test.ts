@@ -0,0 +1,88 @@
+import { ParameterOptimizer, CandidateResult, rankResults, splitWalkForward } from '../../src/backtest/optimizer';
+import { ReplayDay } from '../../src/backtest/dataLoader';
+import { DailyMetrics } from '../../src/services/metricsTracker';
+
+// Only the pure search/ranking logic is tested here - no replays (and no config validation on import)
+jest.mock('../../src/backtest/backtestRunner', () => ({
+    BacktestRunner: jest.fn(),
+    collectSymbols: jest.fn()
+}));
+
+describe('ParameterOptimizer', () => {
+    const optimizer = (overrides: object) => new ParameterOptimizer({
+        dataPath: '',
+        outputDir: '',
+        space: {},
+        ...overrides
+    });
+
+    test('should expand lists and min/max/step ranges into a full grid', () => {
+        const candidates = optimizer({
+            space: {
+                stopLossPercent: [0.2, 0.3],
+                targetPercent: { min: 0.4, max: 0.6, step: 0.1 }
+            }
+        }).buildCandidates();
+
+        expect(candidates).toHaveLength(6);
+        expect(candidates[0]).toEqual({ stopLossPercent: 0.2, targetPercent: 0.4 });
+        expect(candidates[5]).toEqual({ stopLossPercent: 0.3, targetPercent: 0.6 });
+    });
+
+    test('should draw a reproducible, duplicate-free random sample', () => {
+        const options = {
+            search: 'random',
+            samples: 5,
+            seed: 7,
+            space: { cooldownMinutes: { min: 0, max: 30, step: 5 }, confirmationTicks: [0, 1, 2] }
+        };
+
+        const first = optimizer(options).buildCandidates();
+        expect(first).toHaveLength(5);
+        expect(new Set(first.map(c => JSON.stringify(c))).size).toBe(5);
+        expect(optimizer(options).buildCandidates()).toEqual(first);
+    });
+
+    test('should reject parameters that cannot be searched', () => {
+        expect(() => optimizer({ space: { noSignalBeforeTime: [1] } }).buildCandidates()).toThrow(/Cannot optimise/);
+        expect(() => optimizer({ space: { targetPercent: { min: 1, max: 0, step: 0.1 } } }).buildCandidates())
+            .toThrow(/min <= max/);
+    });
+});
+
+describe('rankResults', () => {
+    const result = (totalPnL: number, sharpeRatio: number, maxDrawdown: number, qualified = true): CandidateResult => ({
+        rank: 0,
+        params: {},
+        from: '2025-01-06',
+        to: '2025-01-10',
+        metrics: { totalPnL, sharpeRatio, maxDrawdown, winRate: 50, totalTrades: 10 } as DailyMetrics,
+        returnPercent: 0,
+        qualified
+    });
+
+    test('should rank by the chosen metric with unqualified runs last', () => {
+        const results = [result(100, 0.5, 2), result(300, 0.1, 5), result(500, 2, 1, false)];
+
+        expect(rankResults(results, 'pnl').map(r => r.metrics.totalPnL)).toEqual([300, 100, 500]);
+        expect(rankResults(results, 'sharpe').map(r => r.metrics.totalPnL)).toEqual([100, 300, 500]);
+        expect(rankResults(results, 'drawdown').map(r => r.metrics.maxDrawdown)).toEqual([2, 5, 1]);
+    });
+});
+
+describe('splitWalkForward', () => {
+    const days: ReplayDay[] = ['01', '02', '03', '06', '07', '08', '09'].map(d => ({ date: `2025-01-${d}`, ticks: [] }));
+
+    test('should roll in-sample/out-of-sample windows by the out-of-sample length', () => {
+        const windows = splitWalkForward(days, { inSampleDays: 3, outOfSampleDays: 2 });
+
+        expect(windows).toHaveLength(2);
+        expect(windows[0].inSample.map(d => d.date)).toEqual(['2025-01-01', '2025-01-02', '2025-01-03']);
+        expect(windows[0].outOfSample.map(d => d.date)).toEqual(['2025-01-06', '2025-01-07']);
+        expect(windows[1].outOfSample.map(d => d.date)).toEqual(['2025-01-08', '2025-01-09']);
+    });
+
+    test('should refuse ranges too short for one window', () => {
+        expect(() => splitWalkForward(days, { inSampleDays: 6, outOfSampleDays: 2 })).toThrow(/at least 8 trading days/);
+    });
+});
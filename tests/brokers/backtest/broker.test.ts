@@ -0,0 +1,90 @@
+import { BacktestBroker } from '../../../src/brokers/backtest/broker';
+import { MarketData, OrderSide, OrderStatus, OrderType, PositionType } from '../../../src/types';
+
+describe('BacktestBroker', () => {
+    let broker: BacktestBroker;
+
+    const tick = (ltp: number): MarketData => ({
+        symbol: 'TCS-EQ',
+        ltp,
+        open: 100,
+        high: Math.max(100, ltp),
+        low: Math.min(100, ltp),
+        close: 100,
+        volume: 1000,
+        timestamp: new Date('2025-01-06T04:00:00Z')
+    });
+
+    beforeEach(async () => {
+        broker = new BacktestBroker(100000);
+        await broker.connect();
+    });
+
+    test('should fill at the last replayed price and reject orders before any price', async () => {
+        expect(await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.MARKET, 10)).toBeNull();
+
+        broker.replayTick(tick(100));
+        const order = await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.MARKET, 10);
+
+        expect(order).toMatchObject({ status: OrderStatus.FILLED, filledQuantity: 10, averagePrice: 100 });
+        expect(await broker.getPositions()).toEqual([
+            expect.objectContaining({ symbol: 'TCS-EQ', type: PositionType.LONG, quantity: 10, entryPrice: 100 })
+        ]);
+    });
+
+    test('should cancel a LIMIT order that is not marketable', async () => {
+        broker.replayTick(tick(100));
+
+        const order = await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.LIMIT, 10, 99.5);
+        expect(order!.status).toBe(OrderStatus.CANCELLED);
+        expect(await broker.getPositions()).toEqual([]);
+
+        const marketable = await broker.placeOrder('TCS-EQ', OrderSide.SELL, OrderType.LIMIT, 10, 99.5);
+        expect(marketable).toMatchObject({ status: OrderStatus.FILLED, averagePrice: 100 });
+    });
+
+    test('should exit a bracket at the breaching tick for stops and at the target price for targets', async () => {
+        broker.replayTick(tick(100));
+        await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.LIMIT, 10, 100, 99, 101);
+
+        broker.replayTick(tick(101.4)); // Gapped through the target - filled at the target
+        expect(await broker.getPositions()).toEqual([]);
+        expect(await broker.getAccountBalance()).toBeCloseTo(100010);
+
+        await broker.placeOrder('TCS-EQ', OrderSide.SELL, OrderType.LIMIT, 10, 101, 102, 99);
+        broker.replayTick(tick(101.5));
+        expect(await broker.getPositions()).toHaveLength(1);
+
+        broker.replayTick(tick(102.3)); // Gapped through the stop - filled at the tick
+        expect(await broker.getPositions()).toEqual([]);
+        expect(await broker.getAccountBalance()).toBeCloseTo(100010 - 9);
+    });
+
+    test('should only modify the stop of an open bracket', async () => {
+        broker.replayTick(tick(100));
+        const entry = await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.LIMIT, 10, 100, 99, 103);
+
+        expect(await broker.modifyOrder(entry!.orderId, { quantity: 5 })).toBe(false);
+        expect(await broker.modifyOrder(entry!.orderId, { triggerPrice: 100.5 })).toBe(true);
+        expect((await broker.getPositions())[0]).toMatchObject({ stopLoss: 100.5, target: 103 });
+
+        broker.replayTick(tick(100.4));
+        expect(await broker.getPositions()).toEqual([]);
+        expect(await broker.modifyOrder(entry!.orderId, { triggerPrice: 101 })).toBe(false);
+    });
+
+    test('should average entries and book P&L on partial closes', async () => {
+        broker.replayTick(tick(100));
+        await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.MARKET, 10);
+        broker.replayTick(tick(110));
+        await broker.placeOrder('TCS-EQ', OrderSide.BUY, OrderType.MARKET, 10);
+
+        expect((await broker.getPositions())[0]).toMatchObject({ quantity: 20, entryPrice: 105 });
+
+        broker.replayTick(tick(108));
+        await broker.placeOrder('TCS-EQ', OrderSide.SELL, OrderType.MARKET, 5);
+
+        expect((await broker.getPositions())[0]).toMatchObject({ quantity: 15, entryPrice: 105 });
+        expect(await broker.getAccountBalance()).toBeCloseTo(100015);
+    });
+});
@@ -0,0 +1,66 @@
+import { RealisticFillModel } from '../../../src/brokers/paper/fillModel';
+import { OrderSide, PaperFillConfig } from '../../../src/types';
+
+describe('RealisticFillModel', () => {
+    const config: PaperFillConfig = {
+        latencyMs: 200,
+        latencyJitterMs: 100,
+        spreadBps: 10,
+        impactBps: 20,
+        maxVolumeParticipation: 0.1
+    };
+
+    const model = new RealisticFillModel(config, () => 0.5);
+
+    test('should add jitter to the base latency', () => {
+        expect(model.getLatencyMs()).toBe(250);
+    });
+
+    test('should charge half the spread against the trader, rounded to the tick', () => {
+        // 10 bps of 1000 = 1.00 spread -> 0.50 each side, no volume data so no impact
+        const quote = { ltp: 1000, avgFiveMinVolume: 0, availableVolume: null };
+
+        expect(model.fillMarket(OrderSide.BUY, 10, quote)).toEqual({ price: 1000.5, quantity: 10 });
+        expect(model.fillMarket(OrderSide.SELL, 10, quote)).toEqual({ price: 999.5, quantity: 10 });
+    });
+
+    test('should charge at least one tick of spread on cheap stocks', () => {
+        const quote = { ltp: 50, avgFiveMinVolume: 0, availableVolume: null };
+
+        // Half of a 0.05 tick rounds up to a full tick against a buyer
+        expect(model.fillMarket(OrderSide.BUY, 10, quote)!.price).toBe(50.05);
+        expect(model.fillMarket(OrderSide.SELL, 10, quote)!.price).toBe(49.95);
+    });
+
+    test('should add square-root impact relative to 5-minute volume', () => {
+        // Trading 100% of 5-min volume costs the full 20 bps of impact on top of the half spread
+        const quote = { ltp: 1000, avgFiveMinVolume: 1000, availableVolume: null };
+
+        expect(model.fillMarket(OrderSide.BUY, 1000, quote)!.price).toBe(1002.5);
+    });
+
+    test('should cap each fill at the participation limit', () => {
+        const quote = { ltp: 1000, avgFiveMinVolume: 5000, availableVolume: 5000 };
+
+        expect(model.fillMarket(OrderSide.BUY, 2000, quote)!.quantity).toBe(500);
+        expect(model.fillMarket(OrderSide.BUY, 2000, { ...quote, availableVolume: 5 })).toBeNull();
+    });
+
+    test('should only fill LIMIT orders once price trades through', () => {
+        const at = (ltp: number) => ({ ltp, avgFiveMinVolume: 0, availableVolume: null });
+
+        expect(model.fillLimit(OrderSide.BUY, 100, 10, at(100))).toBeNull();
+        expect(model.fillLimit(OrderSide.BUY, 100, 10, at(100.2))).toBeNull();
+        expect(model.fillLimit(OrderSide.SELL, 100, 10, at(100))).toBeNull();
+    });
+
+    test('should never fill LIMIT orders worse than the limit', () => {
+        const at = (ltp: number) => ({ ltp, avgFiveMinVolume: 0, availableVolume: null });
+
+        // Marketable buy limit: pays spread but is capped at the limit
+        expect(model.fillLimit(OrderSide.BUY, 100.1, 10, at(100))!.price).toBe(100.05);
+        expect(model.fillLimit(OrderSide.BUY, 100.05, 10, at(100))!.price).toBe(100.05);
+        // Sell target just traded through: fills at the target
+        expect(model.fillLimit(OrderSide.SELL, 110, 10, at(110.05))!.price).toBe(110);
+    });
+});
@@ -0,0 +1,94 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { RecordedTickFeed, SyntheticTickFeed, createOfflineFeed } from '../../../src/brokers/paper/offlineFeed';
+import { MarketData, PaperDataSource } from '../../../src/types';
+import { clock, FixedClock, getISTTime } from '../../../src/utils/clock';
+
+describe('Offline market feeds', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'offline-'));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        clock.reset();
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('RecordedTickFeed should replay ticks on its own session clock at the configured speed', () => {
+        const file = path.join(dir, 'candles.csv');
+        fs.writeFileSync(file, [
+            'timestamp,symbol,open,high,low,close,volume',
+            '2025-01-06 09:15:00,TCS-EQ,100,101,99,100.5,1000',
+            '2025-01-06 09:16:00,TCS-EQ,100.5,102,100,101.5,1200',
+            // Next session - played straight after, no overnight wait
+            '2025-01-07 09:15:00,TCS-EQ,103,104,102,103.5,900'
+        ].join('\n'));
+
+        const feed = new RecordedTickFeed(file, ['TCS-EQ'], 60);
+        const ticks: MarketData[] = [];
+        let ended = false;
+        feed.on('market_data', (tick: MarketData) => ticks.push(tick));
+        feed.on('end', () => { ended = true; });
+
+        expect(getISTTime(feed.getClock().now())).toBe('09:15');
+
+        feed.start();
+        expect(ticks).toHaveLength(1);
+
+        // 1 wall-second at 60x = one session minute: the rest of the first candle plus the next one's open
+        jest.advanceTimersByTime(1000);
+        expect(ticks).toHaveLength(5);
+        expect(getISTTime(feed.getClock().now())).toBe('09:16');
+
+        jest.advanceTimersByTime(2000);
+        expect(ticks).toHaveLength(12);
+        expect(ended).toBe(true);
+        expect(ticks[ticks.length - 1].ltp).toBe(103.5);
+    });
+
+    test('SyntheticTickFeed should random-walk every symbol through the session', () => {
+        clock.use(new FixedClock(Date.parse('2025-01-11T06:00:00Z'))); // Saturday -> Friday's session
+        let seed = 0;
+        const random = () => {
+            seed = (seed * 9301 + 49297) % 233280;
+            return seed / 233280;
+        };
+
+        const feed = new SyntheticTickFeed(['RELIANCE-EQ', 'TCS-EQ'], '09:15', '09:20', 1000, 60, random);
+        const ticks: MarketData[] = [];
+        let ended = false;
+        feed.on('market_data', (tick: MarketData) => ticks.push(tick));
+        feed.on('end', () => { ended = true; });
+
+        feed.start();
+        jest.advanceTimersByTime(10000);
+
+        // One tick per symbol per session minute, 09:15 through 09:20 inclusive
+        expect(ticks).toHaveLength(12);
+        expect(ended).toBe(true);
+        expect(ticks[0].timestamp.toISOString()).toBe('2025-01-10T03:45:00.000Z');
+
+        for (const tick of ticks) {
+            expect(tick.low).toBeLessThanOrEqual(tick.ltp);
+            expect(tick.high).toBeGreaterThanOrEqual(tick.ltp);
+            expect(Math.round(tick.ltp * 100) % 5).toBe(0);
+        }
+
+        const volumes = ticks.filter(t => t.symbol === 'TCS-EQ').map(t => t.volume);
+        expect(volumes).toEqual([...volumes].sort((a, b) => a - b));
+    });
+
+    test('createOfflineFeed should return null for the live Angel One source', () => {
+        expect(createOfflineFeed(
+            { source: PaperDataSource.ANGEL_ONE, filePath: '', speed: 1, tickIntervalMs: 1000 },
+            ['TCS-EQ'],
+            '09:15',
+            '15:30'
+        )).toBeNull();
+    });
+});
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { DEFAULT_COMPLIANCE_RULES, loadComplianceRules } from '../../src/config/complianceRules';
+
+describe('loadComplianceRules', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'compliance-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeRules = (content: unknown): string => {
+        const file = path.join(dir, 'compliance.json');
+        fs.writeFileSync(file, JSON.stringify(content));
+        return file;
+    };
+
+    test('should run every built-in rule without a file', () => {
+        expect(loadComplianceRules(null)).toEqual(DEFAULT_COMPLIANCE_RULES);
+    });
+
+    test('should keep the file order and options', () => {
+        const rules = loadComplianceRules(writeRules({
+            rules: [
+                { rule: 'killSwitch' },
+                { rule: 'bannedList', symbols: ['YESBANK-EQ'] },
+                { rule: 'fatFinger', maxDeviationPercent: 3, enabled: false },
+                { rule: 'risk' },
+                { rule: 'margin' }
+            ]
+        }));
+
+        expect(rules.filter(r => ['killSwitch', 'bannedList', 'fatFinger', 'risk', 'margin'].includes(r.rule)).map(r => r.rule))
+            .toEqual(['killSwitch', 'bannedList', 'fatFinger', 'risk', 'margin']);
+        expect(rules.find(r => r.rule === 'bannedList')!.options.symbols).toEqual(['YESBANK-EQ']);
+        expect(rules.find(r => r.rule === 'fatFinger')).toMatchObject({ enabled: false, options: { maxDeviationPercent: 3 } });
+    });
+
+    test('should run rules left out of the file at their default place', () => {
+        const rules = loadComplianceRules(writeRules({
+            rules: [
+                { rule: 'bannedList', symbols: ['YESBANK-EQ'] },
+                { rule: 'risk' },
+                { rule: 'margin' },
+                { rule: 'fatFinger', maxDeviationPercent: 3 }
+            ]
+        }));
+
+        expect(rules.map(r => r.rule)).toEqual([
+            'killSwitch', 'idempotency', 'tradingHours', 'bannedList', 'priceBand', 'circuitLimit', 'maxQuantity', 'maxOrderValue',
+            'productType', 'exposure', 'strategyAllocation', 'risk', 'margin', 'fatFinger'
+        ]);
+        expect(rules.filter(r => !r.enabled)).toEqual([]);
+        expect(rules.find(r => r.rule === 'exposure')!.options).toEqual(DEFAULT_COMPLIANCE_RULES[0].options);
+    });
+
+    test('should report every invalid entry at once', () => {
+        const load = () => loadComplianceRules(writeRules({
+            rules: [
+                { rule: 'killSwitch' },
+                { rule: 'margin', enabled: false },
+                { rule: 'priceBand', minPrice: 100, maxPrice: 50 },
+                { rule: 'maxQuantity', maxOrderValue: 1000 },
+                { rule: 'bannedList', symbols: 'SBIN-EQ' },
+                { rule: 'killSwitch' },
+                { rule: 'circuitBreaker' }
+            ]
+        }));
+
+        expect(load).toThrow(/rules\[1\]: margin cannot be disabled/);
+        expect(load).toThrow(/rules\[2\]\.maxPrice must be above minPrice/);
+        expect(load).toThrow(/rules\[3\]\.maxOrderValue is not an option of maxQuantity/);
+        expect(load).toThrow(/rules\[4\]\.symbols must be a list of symbols/);
+        expect(load).toThrow(/rules\[5\]: killSwitch is listed more than once/);
+        expect(load).toThrow(/rules\[6\]\.rule must be one of/);
+    });
+});
@@ -0,0 +1,106 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { StrategyParameters, ParamSchema, loadStrategyAllocation } from '../../src/config/strategyParams';
+import {
+    DAY_HIGH_LOW_BREAKOUT_DEFAULTS,
+    loadDayHighLowBreakoutParams
+} from '../../src/strategies/dayHighLowBreakout';
+
+interface TestParams {
+    stopPercent: number;
+    maxTrades: number;
+    startTime: string;
+}
+
+describe('StrategyParameters', () => {
+    const schema: ParamSchema<TestParams> = {
+        stopPercent: { type: 'number', min: 0.01, max: 5 },
+        maxTrades: { type: 'integer', min: 1 },
+        startTime: { type: 'time' }
+    };
+    const defaults: TestParams = { stopPercent: 0.25, maxTrades: 2, startTime: '09:20' };
+
+    test('should layer file defaults and per-symbol overrides over the built-in defaults', () => {
+        const params = new StrategyParameters('Test', schema, defaults, {
+            defaults: { stopPercent: 0.5 },
+            symbols: { 'TCS-EQ': { maxTrades: 4 } }
+        });
+
+        expect(params.forSymbol('INFY-EQ')).toEqual({ stopPercent: 0.5, maxTrades: 2, startTime: '09:20' });
+        expect(params.forSymbol('TCS-EQ')).toEqual({ stopPercent: 0.5, maxTrades: 4, startTime: '09:20' });
+        expect(params.getOverriddenSymbols()).toEqual(['TCS-EQ']);
+        expect(defaults.stopPercent).toBe(0.25);
+    });
+
+    test('should report every invalid value with its location', () => {
+        const build = () => new StrategyParameters('Test', schema, defaults, {
+            defaults: { stopPercent: 0, startTime: '9:2' },
+            symbols: { 'TCS-EQ': { maxTrades: 1.5, unknown: 1 } as any }
+        });
+
+        expect(build).toThrow(/Test\.defaults\.stopPercent must be at least 0\.01/);
+        expect(build).toThrow(/Test\.defaults\.startTime must be a time in HH:MM format/);
+        expect(build).toThrow(/Test\.symbols\.TCS-EQ\.maxTrades must be a whole number/);
+        expect(build).toThrow(/Test\.symbols\.TCS-EQ\.unknown is not a known parameter/);
+    });
+});
+
+describe('loadDayHighLowBreakoutParams', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'params-'));
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    const writeParams = (content: unknown): string => {
+        const file = path.join(dir, 'params.json');
+        fs.writeFileSync(file, JSON.stringify(content));
+        return file;
+    };
+
+    test('should use the built-in defaults without a file', () => {
+        expect(loadDayHighLowBreakoutParams(null).forSymbol('TCS-EQ')).toEqual(DAY_HIGH_LOW_BREAKOUT_DEFAULTS);
+    });
+
+    test('should read the strategy section of the file', () => {
+        const params = loadDayHighLowBreakoutParams(writeParams({
+            DayHighLowBreakout: {
+                defaults: { cooldownMinutes: 5 },
+                symbols: { 'RELIANCE-EQ': { confirmationTicks: 0, targetPercent: 0.8 } }
+            },
+            SomeOtherStrategy: { defaults: { anything: true } }
+        }));
+
+        expect(params.forSymbol('TCS-EQ').cooldownMinutes).toBe(5);
+        expect(params.forSymbol('RELIANCE-EQ')).toMatchObject({
+            cooldownMinutes: 5,
+            confirmationTicks: 0,
+            targetPercent: 0.8,
+            stopLossPercent: 0.25
+        });
+    });
+
+    test('should reject malformed files', () => {
+        expect(() => loadDayHighLowBreakoutParams(path.join(dir, 'missing.json'))).toThrow(/Failed to read/);
+        expect(() => loadDayHighLowBreakoutParams(writeParams({ DayHighLowBreakout: { default: {} } })))
+            .toThrow(/DayHighLowBreakout\.default is not recognised/);
+        expect(() => loadDayHighLowBreakoutParams(writeParams({ DayHighLowBreakout: { symbols: [] } })))
+            .toThrow(/symbols must be an object keyed by symbol/);
+    });
+
+    test('should read and validate the strategy capital allocation', () => {
+        expect(loadStrategyAllocation(null, 'DayHighLowBreakout')).toEqual({});
+        expect(loadStrategyAllocation(writeParams({
+            DayHighLowBreakout: { allocation: { capitalPercent: 60, maxTradesPerDay: 4 } }
+        }), 'DayHighLowBreakout')).toEqual({ capitalPercent: 60, maxTradesPerDay: 4 });
+
+        expect(() => loadStrategyAllocation(writeParams({
+            DayHighLowBreakout: { allocation: { capitalPercent: 150 } }
+        }), 'DayHighLowBreakout')).toThrow(/allocation\.capitalPercent must be at most 100/);
+    });
+});
@@ -1,8 +1,16 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
 import { TradingEngine } from '../../src/core/tradingEngine';
-import { AppConfig, TradingMode, OrderSide } from '../../src/types';
+import { AppConfig, TradingMode, OrderSide, OrderStatus, OrderType, PaperDataSource, PositionSizingPolicy, PositionType } from '../../src/types';
+import { createSizingPolicy } from '../../src/risk/positionSizer';
+import { ExposureLimiter } from '../../src/risk/exposureLimiter';
 import { marginChecker } from '../../src/services/marginChecker';
 import { orderIdempotencyManager } from '../../src/services/orderIdempotency';
 import { positionLockManager } from '../../src/utils/positionLock';
+import { circuitLimitDetector } from '../../src/services/circuitLimitDetector';
+import { signalJournal } from '../../src/services/signalJournal';
+import { BacktestBroker } from '../../src/brokers/backtest/broker';
 
 // Mock Dependencies
 jest.mock('../../src/services/marginChecker');
@@ -38,6 +46,7 @@ describe('TradingEngine', () => {
             riskLimits: {
                 maxRiskPerTradePercent: 1,
                 maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
                 positionSizePercent: 10,
                 marginMultiplier: 5,
                 useMargin: true
@@ -48,11 +57,45 @@ describe('TradingEngine', () => {
             killSwitch: false
         },
         broker: { apiKey: '', clientId: '', password: '', totpSecret: '' },
-        telegram: { botToken: '', chatId: '' },
+        telegram: { botToken: '', chatId: '', commandsEnabled: false },
+        tickRecorder: { enabled: false, directory: '', retentionDays: 0 },
+        signalJournal: { enabled: false, directory: '', retentionDays: 0 },
+        paperFill: { latencyMs: 0, latencyJitterMs: 0, spreadBps: 0, impactBps: 0, maxVolumeParticipation: 0 },
+        paperData: { source: PaperDataSource.ANGEL_ONE, filePath: '', speed: 1, tickIntervalMs: 1000 },
+        positionSizing: {
+            policy: PositionSizingPolicy.FIXED_NOTIONAL,
+            volatilityTargetPercent: 0.5,
+            atrTimeframe: 5,
+            atrPeriod: 14,
+            kellyFraction: 0.5,
+            kellyMaxRiskPercent: 2,
+            kellyMinTrades: 20
+        },
+        exposureLimits: { maxGrossExposurePercent: 0, maxNetExposurePercent: 0, maxSectorExposurePercent: 0 },
+        drawdown: {
+            reduceSizeAtPercent: 2,
+            sizeReductionPercent: 50,
+            haltEntriesAtPercent: 3,
+            flattenAtPercent: 0,
+            giveBackActivationPercent: 0,
+            giveBackPercent: 50
+        },
+        lossStreak: { symbolLossLimit: 2, bookLossLimit: 3, bookPauseMinutes: 30, losingDaySizeReductionPercent: 50 },
+        strategyParamsFile: null,
+        complianceRulesFile: null,
+        controlApiToken: null,
+        strategies: ['DayHighLowBreakout'],
         logLevel: 'info',
         enableAuditLog: false
     };
 
+    // Keeps the engine's MetricsTracker off the tracked exports/ directory
+    const exportDir = fs.mkdtempSync(path.join(os.tmpdir(), 'engine-exports-'));
+
+    afterAll(() => {
+        fs.rmSync(exportDir, { recursive: true, force: true });
+    });
+
     beforeEach(() => {
         jest.clearAllMocks();
         // Setup default mocks
@@ -61,7 +104,7 @@ describe('TradingEngine', () => {
         (orderIdempotencyManager.generateOrderKey as jest.Mock).mockReturnValue('TEST_KEY');
 
         // Initialize Engine
-        engine = new TradingEngine(config);
+        engine = new TradingEngine(config, [], { exportDir });
 
         // Mock Scheduler to allow signals (market hours = true)
         (engine['scheduler'].isMarketHours as jest.Mock).mockReturnValue(true);
@@ -70,10 +113,12 @@ describe('TradingEngine', () => {
 
         // Mock Broker LTP
         (engine['broker'].getLTP as jest.Mock).mockResolvedValue(100);
+        (engine['broker'].getQuote as jest.Mock).mockResolvedValue(null);
         (engine['broker'].getAccountBalance as jest.Mock).mockResolvedValue(100000);
 
         // Mock Risk Manager
         (engine['riskManager'].checkOrderRisk as jest.Mock).mockReturnValue({ allowed: true });
+        (engine['riskManager'].getSizeMultiplier as jest.Mock).mockReturnValue(1);
         (engine['riskManager'].calculatePositionSize as jest.Mock).mockReturnValue(10);
 
         // Mock Position Manager
@@ -155,6 +200,300 @@ describe('TradingEngine', () => {
             expect(engine['broker'].placeOrder).toHaveBeenCalled();
             expect(orderIdempotencyManager.markOrderCompleted).toHaveBeenCalledWith('TEST_KEY', 'ORDER_123');
         });
+
+        test('should size from the strategy capital bucket', async () => {
+            engine['strategyAllocator'].register('Breakout', { capitalPercent: 40 });
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 200 });
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', reason: 'Test', strategy: 'Breakout' });
+
+            // 10% of (40% of 100k) x5 margin = 20k -> 200 shares at 100
+            expect((engine['broker'].placeOrder as jest.Mock).mock.calls[0][3]).toBe(200);
+        });
+
+        test('should size from the stop distance with the fixed-risk policy', async () => {
+            engine['sizingPolicy'] = createSizingPolicy({ ...config.positionSizing, policy: PositionSizingPolicy.FIXED_RISK });
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 1000 });
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', stopLoss: 99, reason: 'Test' });
+
+            // 1% of 100k at risk / ₹1 per share to the stop
+            expect((engine['broker'].placeOrder as jest.Mock).mock.calls[0][3]).toBe(1000);
+        });
+
+        test('should down-size a signal to the sector exposure headroom', async () => {
+            engine['exposureLimiter'] = new ExposureLimiter({ maxGrossExposurePercent: 0, maxNetExposurePercent: 0, maxSectorExposurePercent: 100 });
+            (engine['positionManager'].getAllPositions as jest.Mock).mockReturnValue([
+                { symbol: 'HDFCBANK-EQ', type: PositionType.LONG, quantity: 400, entryPrice: 200, currentPrice: 200, pnl: 0, pnlPercent: 0, entryTime: new Date() }
+            ]);
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 199 });
+
+            await engine['handleStrategySignal']({ symbol: 'SBIN-EQ', action: 'BUY', quantity: 500, reason: 'Test' });
+
+            // BANKING already holds ₹80k of the ₹100k cap -> ₹20k at 100.1 = 199 shares
+            expect((engine['broker'].placeOrder as jest.Mock).mock.calls[0][3]).toBe(199);
+            expect(engine['telegramBot'].sendAlert).toHaveBeenCalledWith(
+                expect.stringContaining('Exposure Limit'),
+                expect.stringContaining('Sector (BANKING)')
+            );
+        });
+
+        test('should halve entries after the first drawdown stage and stop them after the second', async () => {
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 50 });
+
+            engine['drawdownMonitor'].update(-25000); // 2.5% of the 1M starting balance from a peak of 0
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test' });
+            expect((engine['broker'].placeOrder as jest.Mock).mock.calls[0][3]).toBe(50);
+
+            engine['drawdownMonitor'].update(-30000);
+            await engine['handleStrategySignal']({ symbol: 'INFY', action: 'BUY', quantity: 100, reason: 'Test' });
+            expect(engine['broker'].placeOrder).toHaveBeenCalledTimes(1);
+        });
+
+        test('should reject a duplicate in the compliance pipeline without failing the pending order', async () => {
+            signalJournal.reset();
+            (orderIdempotencyManager.canPlaceOrder as jest.Mock).mockReturnValue(false);
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test', strategy: 'Breakout' });
+
+            expect(orderIdempotencyManager.canPlaceOrder).toHaveBeenCalledWith('TEST_KEY', 'REL', OrderSide.BUY);
+            expect(orderIdempotencyManager.markOrderFailed).not.toHaveBeenCalled();
+            expect(engine['broker'].placeOrder).not.toHaveBeenCalled();
+            expect(signalJournal.query()).toEqual([
+                expect.objectContaining({ stage: 'compliance', outcome: 'REJECTED', reason: 'idempotency' })
+            ]);
+        });
+
+        test('should reject a buy too close to the upper circuit', async () => {
+            (engine['broker'].getQuote as jest.Mock).mockResolvedValue({
+                symbol: 'REL', ltp: 100, open: 95, high: 100.5, low: 94, prevClose: 92,
+                upperCircuit: 100.8, lowerCircuit: 82.8, bestBid: 99.95, bestAsk: 100,
+                totalBuyQuantity: 50000, totalSellQuantity: 1000, timestamp: new Date()
+            });
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test' });
+
+            expect(orderIdempotencyManager.markOrderFailed).toHaveBeenCalledWith(
+                'TEST_KEY',
+                expect.stringContaining('0.80% from the upper circuit ₹100.80')
+            );
+            expect(engine['broker'].placeOrder).not.toHaveBeenCalled();
+        });
+
+        test('should exit a held long as soon as it trades at its lower circuit', async () => {
+            const position = {
+                symbol: 'CIRC', type: PositionType.LONG, quantity: 40, entryPrice: 110, currentPrice: 99,
+                pnl: -440, pnlPercent: -10, entryTime: new Date()
+            };
+            (engine['positionManager'].getPosition as jest.Mock).mockReturnValue(position);
+            (engine['positionManager'].hasPosition as jest.Mock).mockReturnValue(true);
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'EXIT_1', quantity: 40 });
+            circuitLimitDetector.recordQuote({
+                symbol: 'CIRC', ltp: 101, open: 108, high: 110, low: 100, prevClose: 110,
+                upperCircuit: 121, lowerCircuit: 99, bestBid: 100.9, bestAsk: 101,
+                totalBuyQuantity: 100, totalSellQuantity: 90000, timestamp: new Date()
+            });
+            const tick = { symbol: 'CIRC', ltp: 99, open: 108, high: 110, low: 99, close: 110, volume: 0, timestamp: new Date() };
+
+            await engine['handleCircuitHit']({ ...tick, ltp: 101 });
+            expect(engine['broker'].placeOrder).not.toHaveBeenCalled();
+
+            await engine['handleCircuitHit'](tick);
+            await engine['handleCircuitHit'](tick);
+
+            expect(engine['broker'].placeOrder).toHaveBeenCalledTimes(1);
+            expect(engine['broker'].placeOrder).toHaveBeenCalledWith('CIRC', OrderSide.SELL, 'MARKET', 40);
+            expect(engine['telegramBot'].sendAlert).toHaveBeenCalledWith(
+                '🚨 CIRCUIT HIT - Against Position',
+                expect.stringContaining('Lower circuit hit at ₹99.00')
+            );
+        });
+
+        test('should skip entries while paused from Telegram', async () => {
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 100 });
+
+            engine.setEntriesPaused(true);
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test' });
+            expect(engine['broker'].placeOrder).not.toHaveBeenCalled();
+
+            engine.setEntriesPaused(false);
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test' });
+            expect(engine['broker'].placeOrder).toHaveBeenCalledTimes(1);
+        });
+
+        test('should skip entries only from a strategy paused over the control API', async () => {
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 100 });
+            engine['strategies'].set('Breakout', {} as any);
+
+            expect(engine.setStrategyPaused('Unknown', true)).toBe(false);
+            expect(engine.setStrategyPaused('Breakout', true)).toBe(true);
+            expect(engine.getStrategyStates()).toEqual([expect.objectContaining({ name: 'Breakout', paused: true })]);
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test', strategy: 'Breakout' });
+            expect(engine['broker'].placeOrder).not.toHaveBeenCalled();
+
+            await engine['handleStrategySignal']({ symbol: 'TCS', action: 'BUY', quantity: 100, reason: 'Test', strategy: 'VWAP' });
+            expect(engine['broker'].placeOrder).toHaveBeenCalledTimes(1);
+        });
+
+        test('should keep a symbol with the strategy that holds it', async () => {
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 100 });
+            (engine['positionManager'].hasPosition as jest.Mock).mockReturnValue(true);
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test', strategy: 'Breakout' });
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'SELL', quantity: 100, reason: 'Test', strategy: 'VWAP' });
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'CLOSE', reason: 'Test', strategy: 'VWAP' });
+
+            expect(engine['broker'].placeOrder).toHaveBeenCalledTimes(1);
+            expect(engine['symbolOwners'].get('REL')).toEqual({ strategy: 'Breakout', action: 'BUY' });
+        });
+
+        test('should journal where each entry signal stopped', async () => {
+            signalJournal.reset();
+            (engine['broker'].placeOrder as jest.Mock).mockResolvedValue({ orderId: 'ORDER_1', quantity: 100 });
+            (engine['positionManager'].hasPosition as jest.Mock).mockReturnValue(true);
+
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'BUY', quantity: 100, reason: 'Test', strategy: 'Breakout' });
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'SELL', quantity: 100, reason: 'Test', strategy: 'VWAP', price: 99 });
+            await engine['handleStrategySignal']({ symbol: 'REL', action: 'CLOSE', reason: 'Test', strategy: 'VWAP' });
+
+            expect(signalJournal.query()).toEqual([
+                expect.objectContaining({ strategy: 'Breakout', stage: 'execution', outcome: 'FILLED', details: expect.objectContaining({ quantity: 100 }) }),
+                expect.objectContaining({
+                    strategy: 'VWAP', direction: 'SELL', price: 99, stage: 'engine', outcome: 'REJECTED',
+                    reason: 'symbol_owned_by_other_strategy', details: { owner: 'Breakout' }
+                })
+            ]);
+        });
+    });
+
+    describe('position_closed', () => {
+        const closePosition = (position: object) => {
+            jest.spyOn(engine['metricsTracker'], 'recordTrade').mockImplementation(() => undefined); // No trades.csv rows
+            const [, listener] = (engine['positionManager'].on as jest.Mock).mock.calls
+                .find(([event]) => event === 'position_closed');
+            listener(position);
+        };
+
+        test('should attribute the net P&L booked by the risk manager to the strategy', () => {
+            engine['strategyAllocator'].register('Breakout', { capitalPercent: 40 });
+            (engine['riskManager'].recordTrade as jest.Mock).mockReturnValue(440); // ₹60 of charges
+
+            closePosition({
+                symbol: 'REL', type: 'LONG', quantity: 100, entryPrice: 100, currentPrice: 105, pnl: 500,
+                entryTime: new Date(), strategy: 'Breakout'
+            });
+
+            expect(engine['riskManager'].recordTrade).toHaveBeenCalledWith(500, expect.objectContaining({ symbol: 'REL' }));
+            expect(engine['strategyAllocator'].getDailyStats()).toEqual([
+                expect.objectContaining({ strategy: 'Breakout', tradesExecutedToday: 1, dailyPnL: 440 })
+            ]);
+        });
+
+        test('should feed the drawdown breaker the net realized P&L', () => {
+            (engine['riskManager'].recordTrade as jest.Mock).mockReturnValue(-24100); // ₹100 of charges
+            (engine['positionManager'].getTotalPnL as jest.Mock).mockReturnValue(0);
+
+            closePosition({
+                symbol: 'REL', type: 'LONG', quantity: 1000, entryPrice: 100, currentPrice: 76, pnl: -24000,
+                entryTime: new Date()
+            });
+
+            expect(engine['drawdownMonitor'].getStats()).toEqual(expect.objectContaining({ dayPnL: -24100 }));
+        });
+    });
+
+    describe('trailing stop-loss', () => {
+        const tick = (ltp: number) => ({
+            symbol: 'REL', ltp, open: 100, high: Math.max(100, ltp), low: Math.min(100, ltp), close: 100,
+            volume: 0, timestamp: new Date()
+        });
+
+        test('should move the stop the broker holds once the filled trade is in profit', async () => {
+            const broker = new BacktestBroker(100000);
+            await broker.connect();
+            engine = new TradingEngine(config, ['REL'], { broker, exportDir });
+            (engine['scheduler'].isMarketHours as jest.Mock).mockReturnValue(true);
+            (engine['scheduler'].isSignalGenerationHours as jest.Mock).mockReturnValue(true);
+            (engine['scheduler'].isAfterSquareOffTime as jest.Mock).mockReturnValue(false);
+            (engine['riskManager'].checkOrderRisk as jest.Mock).mockReturnValue({ allowed: true });
+            (engine['riskManager'].getSizeMultiplier as jest.Mock).mockReturnValue(1);
+            (engine['positionManager'].getAllPositions as jest.Mock).mockReturnValue([]);
+
+            broker.replayTick(tick(100));
+            await engine['handleStrategySignal']({
+                symbol: 'REL', action: 'BUY', quantity: 100, stopLoss: 99, target: 103, useTrailingSL: true, reason: 'Test'
+            });
+
+            const [held] = await broker.getPositions();
+            expect(held).toMatchObject({ type: 'LONG', entryPrice: 100, stopLoss: 99 });
+
+            (engine['positionManager'].getPosition as jest.Mock).mockReturnValue({
+                symbol: 'REL', type: 'LONG', quantity: held.quantity, entryPrice: 100, currentPrice: 100.5,
+                pnl: 0, pnlPercent: 0, entryTime: new Date(), stopLoss: 99
+            });
+            await engine['handleTrailingStopLoss'](tick(100.5));
+
+            // 0.5% up: the bracket stop moved to break-even, and the next dip exits there
+            expect((await broker.getPositions())[0].stopLoss).toBe(100);
+            broker.replayTick(tick(99.95));
+            expect(await broker.getPositions()).toEqual([]);
+        });
+
+        describe('REAL mode ROBO stop-loss leg', () => {
+            const stopLeg = {
+                orderId: 'SL_LEG', symbol: 'REL', side: OrderSide.SELL, type: OrderType.STOP_LOSS_MARKET, quantity: 100,
+                stopPrice: 99, status: OrderStatus.PENDING, filledQuantity: 0, averagePrice: 0, timestamp: new Date(),
+                parentOrderId: 'ENTRY_1'
+            };
+            let realEngine: TradingEngine;
+
+            beforeEach(() => {
+                jest.useFakeTimers();
+                realEngine = new TradingEngine(
+                    { ...config, trading: { ...config.trading, mode: TradingMode.REAL } },
+                    ['REL'],
+                    { broker: engine['broker'], exportDir }
+                );
+            });
+
+            afterEach(() => {
+                jest.useRealTimers();
+            });
+
+            test('should keep looking until the broker lists the stop-loss leg', async () => {
+                (realEngine['broker'].getOrders as jest.Mock)
+                    .mockResolvedValueOnce([])
+                    .mockResolvedValueOnce([stopLeg]);
+
+                const tracking = realEngine['trackBracketStop']('REL', 'ENTRY_1', OrderSide.BUY, 100, 99, 103);
+                await jest.advanceTimersByTimeAsync(500);
+                await tracking;
+
+                expect(realEngine['broker'].getOrders).toHaveBeenCalledTimes(2);
+                expect(realEngine['stopLossManager'].getStopLoss('REL')).toMatchObject({
+                    stopLossOrderId: 'SL_LEG',
+                    side: OrderSide.SELL,
+                    stopLossPrice: 99
+                });
+                expect(realEngine['telegramBot'].sendAlert).not.toHaveBeenCalled();
+            });
+
+            test('should alert when the stop-loss leg never shows up', async () => {
+                (realEngine['broker'].getOrders as jest.Mock).mockResolvedValue([]);
+
+                const tracking = realEngine['trackBracketStop']('REL', 'ENTRY_1', OrderSide.BUY, 100, 99, 103);
+                await jest.advanceTimersByTimeAsync(3500);
+                await tracking;
+
+                expect(realEngine['broker'].getOrders).toHaveBeenCalledTimes(4);
+                expect(realEngine['stopLossManager'].getStopLoss('REL')).toBeUndefined();
+                expect(realEngine['telegramBot'].sendAlert).toHaveBeenCalledWith(
+                    '⚠️ TRAILING STOP OFF',
+                    expect.stringContaining('ENTRY_1')
+                );
+            });
+        });
     });
 });
 
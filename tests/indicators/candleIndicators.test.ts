@@ -0,0 +1,23 @@
+import { CandleIndicators } from '../../src/indicators/candleIndicators';
+import { CandleAggregator } from '../../src/services/candleAggregator';
+import { MarketData } from '../../src/types';
+
+describe('CandleIndicators', () => {
+    const tick = (symbol: string, minute: number, ltp: number): MarketData => ({
+        symbol, ltp, open: ltp, high: ltp, low: ltp, close: ltp, volume: 0,
+        timestamp: new Date(Date.parse('2025-01-06T09:15:00+05:30') + minute * 60000)
+    });
+
+    test('should warm up from bar history on first request and update on each closed bar', () => {
+        const aggregator = new CandleAggregator([1]);
+        const indicators = new CandleIndicators(aggregator);
+
+        [100, 101, 102].forEach((ltp, minute) => aggregator.onTick(tick('SBIN-EQ', minute, ltp)));
+        expect(indicators.sma('SBIN-EQ', 1, 2)).toBe(100.5); // Two closed bars replayed
+
+        aggregator.onTick(tick('SBIN-EQ', 3, 103)); // Closes the 102 bar
+        expect(indicators.sma('SBIN-EQ', 1, 2)).toBe(101.5);
+        expect(indicators.sma('SBIN-EQ', 1, 5)).toBeNull();
+        expect(indicators.sma('INFY-EQ', 1, 2)).toBeNull();
+    });
+});
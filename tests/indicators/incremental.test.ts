@@ -0,0 +1,86 @@
+import { Adx, Atr, Bollinger, Ema, Obv, Rsi, Sma, Supertrend } from '../../src/indicators/incremental';
+import { Candle } from '../../src/types';
+
+describe('Incremental indicators', () => {
+    const bar = (close: number, high = close, low = close, volume = 0): Candle => ({
+        symbol: 'TEST-EQ', timestamp: new Date(0), open: close, high, low, close, volume
+    });
+
+    const feed = <T>(indicator: { update(candle: Candle): T | null }, bars: Candle[]): Array<T | null> =>
+        bars.map(candle => indicator.update(candle));
+
+    test('should compute SMA and SMA-seeded EMA with warm-up', () => {
+        const closes = [1, 2, 3, 4, 5].map(c => bar(c));
+
+        expect(feed(new Sma(3), closes)).toEqual([null, null, 2, 3, 4]);
+        // EMA(3): seed 2, then k = 0.5
+        expect(feed(new Ema(3), closes)).toEqual([null, null, 2, 3, 4]);
+
+        const ema = new Ema(3);
+        feed(ema, [bar(10), bar(10), bar(10), bar(20)]);
+        expect(ema.getValue()).toBe(15);
+    });
+
+    test('should compute ATR with Wilder smoothing including gaps', () => {
+        const atr = new Atr(2);
+
+        expect(atr.update(bar(100, 102, 98))).toBeNull(); // TR 4
+        expect(atr.update(bar(108, 110, 106))).toBe(7);   // TR max(4, |110-100|, |106-100|) = 10
+        expect(atr.update(bar(107, 109, 105))).toBe(5.5); // TR 4 -> (7 + 4) / 2
+        expect(atr.isReady()).toBe(true);
+    });
+
+    test('should compute RSI from average gains and losses', () => {
+        const rsi = new Rsi(2);
+
+        expect(feed(rsi, [bar(10), bar(12), bar(11)])).toEqual([null, null, 100 - 100 / (1 + 1 / 0.5)]);
+        // Wilder: avgGain (1 × 1 + 0) / 2 = 0.5, avgLoss (0.5 × 1 + 3) / 2 = 1.75
+        expect(rsi.update(bar(8))).toBeCloseTo(100 - 100 / (1 + 0.5 / 1.75));
+
+        const rising = new Rsi(3);
+        feed(rising, [bar(1), bar(2), bar(3), bar(4)]);
+        expect(rising.getValue()).toBe(100);
+    });
+
+    test('should compute Bollinger bands from a rolling window', () => {
+        const bands = feed(new Bollinger(3, 2), [bar(1), bar(2), bar(3), bar(10)]);
+
+        const sigma = Math.sqrt(2 / 3);
+        expect(bands[1]).toBeNull();
+        expect(bands[2]!.middle).toBeCloseTo(2);
+        expect(bands[2]!.upper).toBeCloseTo(2 + 2 * sigma);
+        expect(bands[2]!.lower).toBeCloseTo(2 - 2 * sigma);
+        expect(bands[3]!.middle).toBeCloseTo(5); // Window 2, 3, 10
+    });
+
+    test('should track Supertrend direction and flip on a close through the band', () => {
+        const supertrend = new Supertrend(2, 1);
+        const rising = [100, 101, 102, 103, 104].map(c => bar(c, c + 0.5, c - 0.5));
+        const values = feed(supertrend, rising);
+
+        expect(values[0]).toBeNull();
+        expect(values[4]).toMatchObject({ direction: 'UP' });
+        expect(values[4]!.value).toBeLessThan(104);
+
+        const flipped = supertrend.update(bar(98, 104, 97.5));
+        expect(flipped).toMatchObject({ direction: 'DOWN' });
+        expect(flipped!.value).toBeGreaterThan(98);
+    });
+
+    test('should compute ADX with directional indicators after two periods', () => {
+        const adx = new Adx(3);
+        const trend = [10, 11, 12, 13, 14, 15, 16].map(c => bar(c, c + 0.5, c - 0.5));
+        const values = feed(adx, trend);
+
+        expect(values.slice(0, 5)).toEqual([null, null, null, null, null]);
+        expect(values[5]).toMatchObject({ adx: 100, minusDI: 0 });
+        expect(values[6]!.plusDI).toBeCloseTo(100 / 1.5); // +DM 1 per bar over TR 1.5 (high - prev close)
+    });
+
+    test('should accumulate OBV on up closes and subtract on down closes', () => {
+        const obv = new Obv();
+
+        expect(feed(obv, [bar(10, 10, 10, 500), bar(11, 11, 11, 300), bar(10, 10, 10, 200), bar(10, 10, 10, 900)]))
+            .toEqual([0, 300, 100, 100]);
+    });
+});
@@ -0,0 +1,168 @@
+import { CompliancePipeline, ComplianceRule, PreTradeOrder } from '../../src/risk/compliance';
+import { ComplianceContext, createComplianceRules } from '../../src/risk/complianceRules';
+import { DEFAULT_COMPLIANCE_RULE_OPTIONS, ComplianceRuleConfig } from '../../src/config/complianceRules';
+import { OrderSide } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+describe('CompliancePipeline', () => {
+    const order: PreTradeOrder = {
+        symbol: 'INFY-EQ',
+        side: OrderSide.BUY,
+        quantity: 100,
+        price: 1000,
+        limitPrice: 1001.5,
+        ltp: 1000,
+        quote: null,
+        stopLoss: 990,
+        target: 1020,
+        productType: 'INTRADAY',
+        strategy: 'Breakout',
+        balance: 1000000,
+        orderKey: 'INFY-EQ_BUY_0_1'
+    };
+
+    const rule = (name: string, evaluate: ComplianceRule['evaluate']): ComplianceRule => ({ name, evaluate });
+
+    beforeEach(() => {
+        jest.spyOn(logger, 'audit').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should run rules in order and pass resized quantities down the pipeline', async () => {
+        const seen: number[] = [];
+        const pipeline = new CompliancePipeline([
+            rule('first', (o) => { seen.push(o.quantity); return { outcome: 'RESIZE', quantity: 60, reason: 'cap' }; }),
+            rule('second', (o) => { seen.push(o.quantity); return { outcome: 'RESIZE', quantity: 80 }; }),
+            rule('third', async (o) => { seen.push(o.quantity); return { outcome: 'PASS' }; })
+        ]);
+
+        const result = await pipeline.evaluate(order);
+
+        expect(seen).toEqual([100, 60, 60]);
+        expect(result).toMatchObject({ allowed: true, quantity: 60 });
+        expect(result.decisions.map(d => d.outcome)).toEqual(['RESIZE', 'PASS', 'PASS']); // Growing back is not a resize
+        expect(logger.audit).toHaveBeenCalledTimes(3);
+        expect(logger.audit).toHaveBeenCalledWith('COMPLIANCE_DECISION', expect.objectContaining({
+            rule: 'first', outcome: 'RESIZE', quantityIn: 100, quantityOut: 60
+        }));
+    });
+
+    test('should stop at the first rejection and fail closed when a rule throws', async () => {
+        const last = jest.fn(() => ({ outcome: 'PASS' as const }));
+        const pipeline = new CompliancePipeline([
+            rule('resizeToZero', () => ({ outcome: 'RESIZE', quantity: 0.4, reason: 'Nothing fits' })),
+            rule('last', last)
+        ]);
+        const broken = new CompliancePipeline([
+            rule('broken', () => { throw new Error('feed down'); }),
+            rule('last', last)
+        ]);
+
+        expect(await pipeline.evaluate(order)).toMatchObject({
+            allowed: false, quantity: 0, rejectedBy: 'resizeToZero', reason: 'Nothing fits'
+        });
+        expect(await broken.evaluate(order)).toMatchObject({
+            allowed: false, rejectedBy: 'broken', reason: 'broken rule failed: feed down'
+        });
+        expect(last).not.toHaveBeenCalled();
+    });
+});
+
+describe('createComplianceRules', () => {
+    const context: ComplianceContext = {
+        isKillSwitchActive: () => false,
+        claimOrder: (orderKey) => orderKey !== 'YESBANK-EQ_BUY_0_1',
+        isEntryWindowOpen: () => true,
+        getOpenPositions: () => [],
+        getStrategyExposure: () => 0,
+        checkMargin: async (orderValue) => ({
+            available: orderValue <= 50000, required: orderValue, margin: 50000, shortfall: Math.max(0, orderValue - 50000)
+        }),
+        exposureLimiter: {} as any,
+        strategyAllocator: {} as any,
+        riskManager: {} as any
+    };
+    const order: PreTradeOrder = {
+        symbol: 'YESBANK-EQ',
+        side: OrderSide.BUY,
+        quantity: 1000,
+        price: 20,
+        ltp: 20,
+        quote: null,
+        stopLoss: 19.8,
+        productType: 'INTRADAY',
+        strategy: 'Breakout',
+        balance: 1000000,
+        orderKey: 'YESBANK-EQ_BUY_0_2'
+    };
+
+    const config = (rule: ComplianceRuleConfig['rule'], options = {}, enabled = true): ComplianceRuleConfig => ({
+        rule, enabled, options: { ...DEFAULT_COMPLIANCE_RULE_OPTIONS, ...options }
+    });
+
+    beforeEach(() => {
+        jest.spyOn(logger, 'audit').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should build only the enabled rules, in file order', () => {
+        const rules = createComplianceRules([
+            config('margin'),
+            config('bannedList', {}, false),
+            config('killSwitch')
+        ], context);
+
+        expect(rules.map(r => r.name)).toEqual(['margin', 'killSwitch']);
+    });
+
+    test('should reject an order whose idempotency key is already claimed', async () => {
+        const pipeline = new CompliancePipeline(createComplianceRules([config('idempotency')], context));
+
+        expect(await pipeline.evaluate(order)).toMatchObject({ allowed: true });
+        expect(await pipeline.evaluate({ ...order, orderKey: 'YESBANK-EQ_BUY_0_1' })).toMatchObject({
+            allowed: false, rejectedBy: 'idempotency', reason: 'Duplicate order YESBANK-EQ_BUY_0_1'
+        });
+    });
+
+    test('should reject banned symbols, fat-fingered stops and orders without margin', async () => {
+        const evaluate = (configs: ComplianceRuleConfig[], o: PreTradeOrder) =>
+            new CompliancePipeline(createComplianceRules(configs, context)).evaluate(o);
+
+        expect((await evaluate([config('bannedList', { symbols: ['YESBANK-EQ'] })], order)).reason)
+            .toBe('YESBANK-EQ is on the banned list');
+
+        const fatFinger = await evaluate([config('fatFinger', { maxDeviationPercent: 3 })], { ...order, stopLoss: 2 });
+        expect(fatFinger.reason).toContain('Stop-loss ₹2.00 is 90.00% from LTP');
+        expect(fatFinger.decisions[0].alert).toBe('🚫 Fat-Finger Check');
+
+        // ₹1 lakh order against ₹50k of margin: capped at ₹40k it fits, capped at ₹60k it doesn't
+        const capped = await evaluate([config('maxOrderValue', { maxOrderValue: 40000 }), config('margin')], { ...order, quantity: 5000 });
+        expect(capped).toMatchObject({ allowed: true, quantity: 2000 });
+        const short = await evaluate([config('maxOrderValue', { maxOrderValue: 60000 }), config('margin')], { ...order, quantity: 5000 });
+        expect(short).toMatchObject({ allowed: false, rejectedBy: 'margin' });
+        expect(short.reason).toContain('Insufficient margin');
+    });
+
+    test('should keep entries away from the circuit they run into', async () => {
+        const rules = createComplianceRules([config('circuitLimit', { circuitBufferPercent: 2 })], context);
+        const pipeline = new CompliancePipeline(rules);
+        const quote = {
+            symbol: 'YESBANK-EQ', ltp: 20, open: 19, high: 20.2, low: 19, prevClose: 18.5,
+            upperCircuit: 20.35, lowerCircuit: 16.65, bestBid: 19.95, bestAsk: 20,
+            totalBuyQuantity: 500000, totalSellQuantity: 1000, timestamp: new Date()
+        };
+
+        const buy = await pipeline.evaluate({ ...order, quote });
+        expect(buy.reason).toBe('LTP ₹20.00 is 1.75% from the upper circuit ₹20.35 (min 2%)');
+        expect(buy.decisions[0].alert).toBe('🚫 Circuit Limit');
+
+        expect((await pipeline.evaluate({ ...order, side: OrderSide.SELL, quote })).allowed).toBe(true);
+        expect((await pipeline.evaluate({ ...order, quote: null })).allowed).toBe(true); // Offline feeds have no bands
+    });
+});
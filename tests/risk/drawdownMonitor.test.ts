@@ -0,0 +1,81 @@
+import { DrawdownMonitor, DrawdownStageChange } from '../../src/risk/drawdownMonitor';
+import { DrawdownConfig } from '../../src/types';
+import { FixedClock, clock } from '../../src/utils/clock';
+
+describe('DrawdownMonitor', () => {
+    const BALANCE = 100000;
+    const config: DrawdownConfig = {
+        reduceSizeAtPercent: 1,
+        sizeReductionPercent: 50,
+        haltEntriesAtPercent: 2,
+        flattenAtPercent: 3,
+        giveBackActivationPercent: 1,
+        giveBackPercent: 50
+    };
+    let fixedClock: FixedClock;
+    let changes: DrawdownStageChange[];
+
+    const monitor = (overrides: Partial<DrawdownConfig> = {}) => {
+        const drawdownMonitor = new DrawdownMonitor({ ...config, ...overrides }, BALANCE);
+        drawdownMonitor.on('stage_changed', (change: DrawdownStageChange) => changes.push(change));
+        return drawdownMonitor;
+    };
+
+    beforeEach(() => {
+        fixedClock = new FixedClock(Date.parse('2025-01-06T10:00:00+05:30'));
+        clock.use(fixedClock);
+        changes = [];
+    });
+
+    afterEach(() => {
+        clock.reset();
+    });
+
+    test('should escalate through the drawdown stages from the day peak', () => {
+        const drawdownMonitor = monitor({ giveBackActivationPercent: 0 });
+
+        drawdownMonitor.update(500);                  // Peak +500
+        expect(drawdownMonitor.update(-400)).toBe('NORMAL');  // 0.9% from the peak
+        expect(drawdownMonitor.update(-500)).toBe('REDUCED'); // 1.0%
+        expect(drawdownMonitor.getSizeMultiplier()).toBe(0.5);
+        expect(drawdownMonitor.canOpenNewPositions()).toBe(true);
+
+        expect(drawdownMonitor.update(-1500)).toBe('HALTED');
+        expect(drawdownMonitor.canOpenNewPositions()).toBe(false);
+        expect(drawdownMonitor.update(-2500)).toBe('FLATTENED');
+
+        expect(changes.map(change => change.stage)).toEqual(['REDUCED', 'HALTED', 'FLATTENED']);
+        expect(changes[2]).toMatchObject({ previousStage: 'HALTED', peakPnL: 500, drawdown: 3000, drawdownPercent: 3 });
+    });
+
+    test('should count realized P&L and not relax the stage on a recovery', () => {
+        const drawdownMonitor = monitor({ giveBackActivationPercent: 0 });
+
+        drawdownMonitor.recordTrade(-1200);
+        expect(drawdownMonitor.update(0)).toBe('REDUCED');
+        expect(drawdownMonitor.update(1500)).toBe('REDUCED'); // Day P&L +300, new peak
+        expect(drawdownMonitor.getStats()).toMatchObject({ dayPnL: 300, peakPnL: 300, drawdown: 0 });
+    });
+
+    test('should lock in profit once the armed give-back is reached', () => {
+        const drawdownMonitor = monitor();
+
+        drawdownMonitor.update(800);                        // Below the 1% activation
+        expect(drawdownMonitor.update(400)).toBe('NORMAL');
+        drawdownMonitor.update(1600);                       // Armed at 1.6%
+        expect(drawdownMonitor.update(900)).toBe('NORMAL');
+        expect(drawdownMonitor.update(800)).toBe('LOCKED');  // Half of the 1600 peak given back
+        expect(drawdownMonitor.canOpenNewPositions()).toBe(false);
+        expect(changes[0].reason).toContain('Gave back 50%');
+    });
+
+    test('should start each day fresh', () => {
+        const drawdownMonitor = monitor();
+        drawdownMonitor.update(-2500);
+        expect(drawdownMonitor.getStage()).toBe('HALTED');
+
+        fixedClock.set(Date.parse('2025-01-07T09:15:00+05:30'));
+        expect(drawdownMonitor.canOpenNewPositions()).toBe(true);
+        expect(drawdownMonitor.getStats()).toMatchObject({ stage: 'NORMAL', dayPnL: 0, peakPnL: 0 });
+    });
+});
@@ -0,0 +1,71 @@
+import { ExposureLimiter } from '../../src/risk/exposureLimiter';
+import { getSymbolSector } from '../../src/config/symbolConfig';
+import { OrderSide, Position, PositionType } from '../../src/types';
+
+describe('ExposureLimiter', () => {
+    const BALANCE = 100000;
+
+    const position = (symbol: string, type: PositionType, quantity: number, currentPrice: number): Position => ({
+        symbol, type, quantity, entryPrice: currentPrice, currentPrice, pnl: 0, pnlPercent: 0, entryTime: new Date()
+    });
+
+    const limiter = (gross = 0, net = 0, sector = 0) => new ExposureLimiter({
+        maxGrossExposurePercent: gross,
+        maxNetExposurePercent: net,
+        maxSectorExposurePercent: sector
+    });
+
+    test('should map watchlist symbols to sectors', () => {
+        expect(getSymbolSector('SBIN-EQ')).toBe('BANKING');
+        expect(getSymbolSector('INFY-EQ')).toBe('IT');
+        expect(getSymbolSector('UNKNOWN-EQ')).toBe('UNCLASSIFIED');
+    });
+
+    test('should mark open positions to gross, net and sector exposure', () => {
+        const snapshot = limiter().getSnapshot([
+            position('SBIN-EQ', PositionType.LONG, 100, 500),
+            position('HDFCBANK-EQ', PositionType.SHORT, 10, 1000),
+            position('TCS-EQ', PositionType.LONG, 5, 2000)
+        ]);
+
+        expect(snapshot).toEqual({ gross: 70000, net: 50000, bySector: { BANKING: 60000, IT: 10000 } });
+    });
+
+    test('should pass orders unchanged when every limit is off or has room', () => {
+        expect(limiter().checkOrder('SBIN-EQ', OrderSide.BUY, 10000, 100, [], BALANCE))
+            .toEqual({ allowed: true, quantity: 10000, sector: 'BANKING' });
+        expect(limiter(300, 200, 100).checkOrder('SBIN-EQ', OrderSide.BUY, 500, 100, [], BALANCE).quantity).toBe(500);
+    });
+
+    test('should down-size to the gross headroom and reject when none is left', () => {
+        const open = [position('TCS-EQ', PositionType.LONG, 100, 2500)]; // ₹250k of ₹300k
+
+        const reduced = limiter(300).checkOrder('SBIN-EQ', OrderSide.SELL, 1000, 100, open, BALANCE);
+        expect(reduced).toMatchObject({ allowed: true, quantity: 500, limit: 'GROSS' });
+        expect(reduced.reason).toContain('reduced 1000 -> 500');
+
+        const full = [position('TCS-EQ', PositionType.LONG, 120, 2500)];
+        expect(limiter(300).checkOrder('SBIN-EQ', OrderSide.SELL, 10, 100, full, BALANCE))
+            .toMatchObject({ allowed: false, quantity: 0, limit: 'GROSS' });
+    });
+
+    test('should limit net skew per side and give flattening orders extra room', () => {
+        const longBook = [position('TCS-EQ', PositionType.LONG, 60, 2500)]; // Net +₹150k of ₹200k
+
+        expect(limiter(0, 200).checkOrder('INFY-EQ', OrderSide.BUY, 1000, 100, longBook, BALANCE))
+            .toMatchObject({ allowed: true, quantity: 500, limit: 'NET' });
+        // A short can take net from +150k down to -200k
+        expect(limiter(0, 200).checkOrder('INFY-EQ', OrderSide.SELL, 3500, 100, longBook, BALANCE))
+            .toEqual({ allowed: true, quantity: 3500, sector: 'IT' });
+    });
+
+    test('should cap each sector separately and report the binding sector', () => {
+        const open = [position('HDFCBANK-EQ', PositionType.LONG, 50, 1800)]; // BANKING ₹90k of ₹100k
+
+        const banking = limiter(0, 0, 100).checkOrder('AXISBANK-EQ', OrderSide.SELL, 200, 100, open, BALANCE);
+        expect(banking).toMatchObject({ allowed: true, quantity: 100, limit: 'SECTOR', sector: 'BANKING' });
+        expect(banking.reason).toContain('Sector (BANKING)');
+
+        expect(limiter(0, 0, 100).checkOrder('TCS-EQ', OrderSide.BUY, 200, 100, open, BALANCE).limit).toBeUndefined();
+    });
+});
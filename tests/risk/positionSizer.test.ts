@@ -0,0 +1,69 @@
+import {
+    KellySizing,
+    SizingInput,
+    createSizingPolicy,
+    summariseTradeOutcomes
+} from '../../src/risk/positionSizer';
+import { PositionSizingConfig, PositionSizingPolicy } from '../../src/types';
+
+describe('Position sizing policies', () => {
+    const config: PositionSizingConfig = {
+        policy: PositionSizingPolicy.FIXED_NOTIONAL,
+        volatilityTargetPercent: 0.5,
+        atrTimeframe: 5,
+        atrPeriod: 14,
+        kellyFraction: 0.5,
+        kellyMaxRiskPercent: 2,
+        kellyMinTrades: 4
+    };
+
+    const input: SizingInput = {
+        symbol: 'TCS-EQ',
+        entryPrice: 100,
+        stopLoss: 99,
+        allocatedCapital: 100000,
+        marginMultiplier: 5,
+        positionSizePercent: 10,
+        maxRiskPerTradePercent: 1,
+        atr: 2,
+        outcomes: summariseTradeOutcomes([])
+    };
+
+    const size = (policy: PositionSizingPolicy, overrides: Partial<SizingInput> = {}) =>
+        createSizingPolicy({ ...config, policy }).calculate({ ...input, ...overrides });
+
+    test('should size fixed notional from the bucket and the symbol margin', () => {
+        // 10% of 100k x5 = 50k at 100
+        expect(size(PositionSizingPolicy.FIXED_NOTIONAL).quantity).toBe(500);
+        expect(size(PositionSizingPolicy.FIXED_NOTIONAL, { marginMultiplier: 1 }).quantity).toBe(100);
+    });
+
+    test('should size fixed risk from the stop distance, capped at the bucket buying power', () => {
+        expect(size(PositionSizingPolicy.FIXED_RISK).quantity).toBe(1000); // 1k risk / ₹1
+        expect(size(PositionSizingPolicy.FIXED_RISK, { stopLoss: 99.9 }).quantity).toBe(5000); // 10k shares capped at 500k / 100
+    });
+
+    test('should size volatility target from ATR and fall back to fixed risk without it', () => {
+        const sized = size(PositionSizingPolicy.VOLATILITY_TARGET);
+        expect(sized).toMatchObject({ quantity: 250, policy: PositionSizingPolicy.VOLATILITY_TARGET }); // 500 / ATR 2
+
+        const fallback = size(PositionSizingPolicy.VOLATILITY_TARGET, { atr: null });
+        expect(fallback).toMatchObject({ quantity: 1000, policy: PositionSizingPolicy.FIXED_RISK });
+        expect(fallback.inputs.fallbackReason).toBe('ATR not available');
+    });
+
+    test('should risk a capped fraction of Kelly once enough trades exist', () => {
+        const kelly = new KellySizing(config);
+
+        // W 0.5, R 2 -> f* 25%, half Kelly 12.5% capped at 2% -> 2k risk / ₹1
+        const edge = summariseTradeOutcomes([200, -100, 200, -100]);
+        expect(kelly.calculate({ ...input, outcomes: edge })).toMatchObject({ quantity: 2000, policy: PositionSizingPolicy.KELLY });
+
+        // W 0.25, R 1 -> negative edge, no trade
+        const noEdge = summariseTradeOutcomes([100, -100, -100, -100]);
+        expect(kelly.calculate({ ...input, outcomes: noEdge }).quantity).toBe(0);
+
+        // Too few trades -> fixed risk
+        expect(kelly.calculate({ ...input, outcomes: summariseTradeOutcomes([100]) }).policy).toBe(PositionSizingPolicy.FIXED_RISK);
+    });
+});
@@ -1,15 +1,20 @@
 import { RiskManager } from '../../src/risk/riskManager';
 import { RiskLimits, OrderSide } from '../../src/types';
 import { chargesCalculator } from '../../src/services/chargesCalculator';
+import { riskStateStore } from '../../src/services/riskStateStore';
+import { FixedClock, clock } from '../../src/utils/clock';
 
 // Mock charges calculator to have predictable charges
 jest.mock('../../src/services/chargesCalculator');
+// Keep loss streak state in memory instead of state/risk_state.json
+jest.mock('../../src/services/riskStateStore');
 
 describe('RiskManager', () => {
     let riskManager: RiskManager;
     const defaultRiskLimits: RiskLimits = {
         maxRiskPerTradePercent: 1,
         maxDailyLossPercent: 2,
+        maxTradesPerDay: 5,
         positionSizePercent: 10,
         marginMultiplier: 5,
         useMargin: true
@@ -68,7 +73,7 @@ describe('RiskManager', () => {
             // Charges 50 (Entry) + 50 (Exit) = 100 in implementation logic? 
             // riskManager calls calculateTotalCharges for Entry and Exit
 
-            riskManager.recordTrade(1000, {
+            const netPnL = riskManager.recordTrade(1000, {
                 symbol: 'REL',
                 side: 'BUY',
                 quantity: 10,
@@ -86,6 +91,7 @@ describe('RiskManager', () => {
 
             const stats = riskManager.getRiskStats();
             expect(stats.dailyPnL).toBe(900);
+            expect(netPnL).toBe(900);
         });
 
         test('should reject orders after daily loss limit exceeded', () => {
@@ -112,4 +118,83 @@ describe('RiskManager', () => {
             expect(result.reason).toContain('Max daily loss limit reached');
         });
     });
+
+    describe('loss streak rules', () => {
+        const rules = { symbolLossLimit: 2, bookLossLimit: 3, bookPauseMinutes: 30, losingDaySizeReductionPercent: 50 };
+        let fixedClock: FixedClock;
+
+        // Net -500 after the mocked 100 of charges
+        const loss = (manager: RiskManager, symbol: string) =>
+            manager.recordTrade(-400, { symbol, side: 'BUY', quantity: 10, entryPrice: 1000, exitPrice: 960 });
+
+        beforeEach(() => {
+            fixedClock = new FixedClock(Date.parse('2025-01-06T10:00:00+05:30'));
+            clock.use(fixedClock);
+            (riskStateStore.load as jest.Mock).mockReturnValue(null);
+        });
+
+        afterEach(() => {
+            clock.reset();
+        });
+
+        test('should block a symbol for the day after consecutive losses on it', () => {
+            const manager = new RiskManager(defaultRiskLimits, startingBalance, { ...rules, bookLossLimit: 0 });
+
+            loss(manager, 'REL');
+            manager.recordTrade(1000, { symbol: 'REL', side: 'BUY', quantity: 10, entryPrice: 1000, exitPrice: 1100 });
+            loss(manager, 'REL');
+            expect(manager.checkOrderRisk('REL', OrderSide.BUY, 10, 1000, 950).allowed).toBe(true); // Win broke the streak
+
+            loss(manager, 'REL');
+            const result = manager.checkOrderRisk('REL', OrderSide.BUY, 10, 1000, 950);
+            expect(result.allowed).toBe(false);
+            expect(result.reason).toContain('REL blocked for the day');
+            expect(manager.checkOrderRisk('TCS', OrderSide.BUY, 10, 1000, 950).allowed).toBe(true);
+        });
+
+        test('should pause all new entries after consecutive losses across the book', () => {
+            const manager = new RiskManager(defaultRiskLimits, startingBalance, { ...rules, symbolLossLimit: 0 });
+            const paused = jest.fn();
+            manager.on('entries_paused', paused);
+
+            ['REL', 'TCS', 'INFY'].forEach(symbol => loss(manager, symbol));
+
+            expect(paused).toHaveBeenCalledWith(expect.objectContaining({ losses: 3, minutes: 30 }));
+            expect(manager.checkOrderRisk('SBIN', OrderSide.BUY, 10, 1000, 950).reason).toContain('paused until 10:30 IST');
+
+            fixedClock.set(Date.parse('2025-01-06T10:30:00+05:30'));
+            expect(manager.checkOrderRisk('SBIN', OrderSide.BUY, 10, 1000, 950).allowed).toBe(true);
+        });
+
+        test('should restore blocks from the saved state after a restart', () => {
+            const before = new RiskManager(defaultRiskLimits, startingBalance, rules);
+            loss(before, 'REL');
+            loss(before, 'REL');
+
+            const saved = (riskStateStore.save as jest.Mock).mock.calls.at(-1)[0];
+            expect(saved).toMatchObject({ date: '2025-01-06', dailyPnL: -1000, blockedSymbols: ['REL'] });
+
+            (riskStateStore.load as jest.Mock).mockReturnValue(saved);
+            const after = new RiskManager(defaultRiskLimits, startingBalance, rules);
+            expect(after.checkOrderRisk('REL', OrderSide.BUY, 10, 1000, 950).allowed).toBe(false);
+            expect(after.getRiskStats().dailyPnL).toBe(-1000);
+        });
+
+        test('should reduce size the day after a losing day', () => {
+            const manager = new RiskManager(defaultRiskLimits, startingBalance, rules);
+            expect(manager.getSizeMultiplier()).toBe(1);
+
+            loss(manager, 'REL');
+            fixedClock.set(Date.parse('2025-01-07T09:15:00+05:30'));
+            expect(manager.getSizeMultiplier()).toBe(0.5);
+            expect(manager.checkOrderRisk('REL', OrderSide.BUY, 10, 1000, 950).allowed).toBe(true);
+
+            // Same after a restart: yesterday's result comes from the saved state
+            (riskStateStore.load as jest.Mock).mockReturnValue({
+                date: '2025-01-06', dailyPnL: -500, tradesExecuted: 1, symbolLossStreaks: { REL: 1 },
+                blockedSymbols: [], bookLossStreak: 1, pausedUntil: null, previousDayPnL: null
+            });
+            expect(new RiskManager(defaultRiskLimits, startingBalance, rules).getSizeMultiplier()).toBe(0.5);
+        });
+    });
 });
@@ -0,0 +1,81 @@
+import { StrategyAllocator } from '../../src/risk/strategyAllocator';
+import { RiskLimits } from '../../src/types';
+
+describe('StrategyAllocator', () => {
+    let allocator: StrategyAllocator;
+    const riskLimits: RiskLimits = {
+        maxRiskPerTradePercent: 1,
+        maxDailyLossPercent: 2,
+        maxTradesPerDay: 5,
+        positionSizePercent: 10,
+        marginMultiplier: 5,
+        useMargin: true
+    };
+    const balance = 100000;
+
+    beforeEach(() => {
+        allocator = new StrategyAllocator(riskLimits, balance);
+    });
+
+    test('should give an unallocated strategy the whole account and the global limits', () => {
+        expect(allocator.register('Breakout')).toEqual({
+            capitalPercent: 100,
+            maxTradesPerDay: 5,
+            maxDailyLossPercent: 2
+        });
+        expect(allocator.getAllocatedCapital('Breakout', balance)).toBe(100000);
+    });
+
+    test('should refuse allocations that exceed the account', () => {
+        allocator.register('Breakout', { capitalPercent: 60 });
+
+        expect(() => allocator.register('VWAP', { capitalPercent: 50 })).toThrow(/exceed 100%/);
+        expect(() => allocator.register('VWAP', { capitalPercent: 40 })).not.toThrow();
+        // Re-registering replaces the strategy's own bucket rather than adding to it
+        expect(() => allocator.register('Breakout', { capitalPercent: 60 })).not.toThrow();
+    });
+
+    test('should cap exposure at the strategy bucket with margin', () => {
+        allocator.register('Breakout', { capitalPercent: 40 });
+
+        // 40% of 100k = 40k, x5 margin = 200k buying power
+        expect(allocator.checkSignal('Breakout', 150000, 50000, balance).allowed).toBe(true);
+        const result = allocator.checkSignal('Breakout', 150000, 60000, balance);
+        expect(result.allowed).toBe(false);
+        expect(result.reason).toContain('capital allocation exhausted');
+    });
+
+    test('should enforce the per-strategy trade cap independently', () => {
+        allocator.register('Breakout', { capitalPercent: 50, maxTradesPerDay: 2 });
+        allocator.register('VWAP', { capitalPercent: 50 });
+
+        allocator.recordTrade('Breakout', 100);
+        allocator.recordTrade('Breakout', -50);
+
+        expect(allocator.checkSignal('Breakout', 0, 1000, balance).reason).toContain('max trades per day');
+        expect(allocator.checkSignal('VWAP', 0, 1000, balance).allowed).toBe(true);
+    });
+
+    test('should stop a strategy once its own loss limit is hit', () => {
+        allocator.register('Breakout', { capitalPercent: 50, maxDailyLossPercent: 2 });
+        const listener = jest.fn();
+        allocator.on('strategy_loss_limit_reached', listener);
+
+        // Limit is 2% of the 50k bucket = 1000
+        allocator.recordTrade('Breakout', -600);
+        expect(listener).not.toHaveBeenCalled();
+
+        allocator.recordTrade('Breakout', -500);
+        allocator.recordTrade('Breakout', -10);
+        expect(listener).toHaveBeenCalledTimes(1);
+        expect(listener).toHaveBeenCalledWith({ strategy: 'Breakout', dailyPnL: -1100, limit: 1000 });
+
+        expect(allocator.checkSignal('Breakout', 0, 1000, balance).reason).toContain('daily loss limit');
+        expect(allocator.getDailyStats()).toEqual([expect.objectContaining({
+            strategy: 'Breakout',
+            tradesExecutedToday: 3,
+            losingTrades: 3,
+            isAtLossLimit: true
+        })]);
+    });
+});
@@ -0,0 +1,63 @@
+import { CandleAggregator } from '../../src/services/candleAggregator';
+import { Candle, CandleTimeframe, MarketData } from '../../src/types';
+
+describe('CandleAggregator', () => {
+    const SYMBOL = 'SBIN-EQ';
+    const at = (time: string, date = '2025-01-06') => new Date(`${date}T${time}+05:30`);
+
+    const tick = (time: string, ltp: number, volume: number, date?: string): MarketData => ({
+        symbol: SYMBOL, ltp, open: ltp, high: ltp, low: ltp, close: ltp, volume, timestamp: at(time, date)
+    });
+
+    let aggregator: CandleAggregator;
+    let closed: Array<{ candle: Candle; timeframe: CandleTimeframe }>;
+
+    beforeEach(() => {
+        aggregator = new CandleAggregator([1, 5], 3);
+        closed = [];
+        aggregator.on('candle_closed', (candle: Candle, timeframe: CandleTimeframe) => closed.push({ candle, timeframe }));
+    });
+
+    test('should build OHLCV bars from ticks using the change in cumulative volume', () => {
+        aggregator.onTick(tick('09:15:05', 100, 1000)); // Baseline only
+        aggregator.onTick(tick('09:15:30', 102, 1500));
+        aggregator.onTick(tick('09:15:50', 99, 1800));
+        aggregator.onTick(tick('09:16:10', 101, 2000)); // Closes the 09:15 1m bar
+
+        expect(closed).toEqual([{
+            timeframe: 1,
+            candle: { symbol: SYMBOL, timestamp: at('09:15:00'), open: 100, high: 102, low: 99, close: 99, volume: 800 }
+        }]);
+        expect(aggregator.getCurrentCandle(SYMBOL, 1)).toMatchObject({ open: 101, volume: 200 });
+        expect(aggregator.getCurrentCandle(SYMBOL, 5)).toMatchObject({
+            timestamp: at('09:15:00'), open: 100, high: 102, low: 99, close: 101, volume: 1000
+        });
+    });
+
+    test('should align higher timeframes to the 09:15 open and keep a rolling history', () => {
+        for (let minute = 15; minute <= 35; minute++) {
+            aggregator.onTick(tick(`09:${minute}:00`, minute, minute * 100));
+        }
+
+        const fiveMin = closed.filter(c => c.timeframe === 5).map(c => c.candle);
+        expect(fiveMin.map(c => c.timestamp)).toEqual([at('09:15:00'), at('09:20:00'), at('09:25:00'), at('09:30:00')]);
+        expect(fiveMin[1]).toMatchObject({ open: 20, high: 24, low: 20, close: 24, volume: 500 });
+
+        // History is capped at 3 bars per timeframe, oldest first
+        expect(aggregator.getHistory(SYMBOL, 5).map(c => c.open)).toEqual([20, 25, 30]);
+        expect(aggregator.getHistory(SYMBOL, 1, 2).map(c => c.open)).toEqual([33, 34]);
+    });
+
+    test('should close open bars on flush and start a new volume baseline each day', () => {
+        aggregator.onTick(tick('15:29:00', 100, 50000));
+        aggregator.onTick(tick('15:29:30', 101, 50500));
+        aggregator.flush();
+
+        expect(closed.map(c => c.timeframe)).toEqual([1, 5]);
+        expect(aggregator.getCurrentCandle(SYMBOL, 1)).toBeNull();
+
+        aggregator.onTick(tick('09:15:00', 98, 300, '2025-01-07'));
+        aggregator.onTick(tick('09:15:20', 97, 700, '2025-01-07'));
+        expect(aggregator.getCurrentCandle(SYMBOL, 1)).toMatchObject({ open: 98, low: 97, volume: 400 });
+    });
+});
@@ -0,0 +1,95 @@
+import { ControlApi, ControlApiHandlers } from '../../src/services/controlApi';
+import { logger } from '../../src/utils/logger';
+
+describe('ControlApi', () => {
+    const TOKEN = 'test-token-0123456789';
+    const AUTH = `Bearer ${TOKEN}`;
+    let handlers: jest.Mocked<ControlApiHandlers>;
+    let api: ControlApi;
+
+    beforeEach(() => {
+        jest.spyOn(logger, 'audit').mockImplementation(() => undefined);
+        handlers = {
+            getPositions: jest.fn().mockReturnValue([]),
+            getOrders: jest.fn().mockResolvedValue([]),
+            getRiskStats: jest.fn().mockReturnValue({ dailyPnL: -500 }),
+            getLiveMetrics: jest.fn(),
+            getCircuitBreakers: jest.fn().mockReturnValue([]),
+            getStrategies: jest.fn().mockReturnValue([]),
+            setStrategyPaused: jest.fn((name: string, _paused: boolean) => name === 'VWAP'),
+            setKillSwitch: jest.fn(),
+            closePosition: jest.fn().mockResolvedValue('CLOSED'),
+            flatten: jest.fn().mockResolvedValue(2),
+            updateRiskLimits: jest.fn().mockReturnValue({ maxTradesPerDay: 3 }),
+            getSignalJournal: jest.fn().mockReturnValue([]),
+            getSignalFunnel: jest.fn()
+        };
+        api = new ControlApi(TOKEN, handlers);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should refuse requests without the right bearer token', async () => {
+        expect((await api.handle('GET', '/api/risk', undefined, '')).status).toBe(401);
+        expect((await api.handle('POST', '/api/flatten', 'Bearer wrong-token', '')).status).toBe(401);
+        expect(handlers.flatten).not.toHaveBeenCalled();
+        expect(logger.audit).toHaveBeenCalledWith('CONTROL_API_REJECTED', { method: 'POST', path: '/api/flatten' });
+
+        expect(await api.handle('GET', '/api/risk?fresh=1', AUTH, '')).toEqual({ status: 200, body: { dailyPnL: -500 } });
+    });
+
+    test('should route actions to the engine and audit them', async () => {
+        expect(await api.handle('POST', '/api/strategies/VWAP/pause', AUTH, '')).toEqual({
+            status: 200, body: { strategy: 'VWAP', paused: true }
+        });
+        expect((await api.handle('POST', '/api/strategies/Unknown/resume', AUTH, '')).status).toBe(404);
+
+        expect((await api.handle('POST', '/api/positions/infy-eq/close', AUTH, '')).status).toBe(200);
+        expect(handlers.closePosition).toHaveBeenCalledWith('INFY-EQ');
+        handlers.closePosition.mockResolvedValueOnce('BUSY');
+        expect((await api.handle('POST', '/api/positions/INFY-EQ/close', AUTH, '')).status).toBe(409);
+
+        expect((await api.handle('POST', '/api/killswitch', AUTH, '{"active":true}')).status).toBe(200);
+        expect(handlers.setKillSwitch).toHaveBeenCalledWith(true);
+        expect(logger.audit).toHaveBeenCalledWith('CONTROL_API_REQUEST', {
+            method: 'POST', path: '/api/killswitch', body: { active: true }
+        });
+    });
+
+    test('should validate request bodies and methods', async () => {
+        expect((await api.handle('POST', '/api/killswitch', AUTH, '{"active":"yes"}')).status).toBe(400);
+        expect((await api.handle('POST', '/api/killswitch', AUTH, 'not json')).status).toBe(400);
+        expect((await api.handle('GET', '/api/flatten', AUTH, '')).status).toBe(405);
+        expect((await api.handle('GET', '/api/unknown', AUTH, '')).status).toBe(404);
+
+        const bad = await api.handle('POST', '/api/risk/limits', AUTH, '{"maxDailyLossPercent":150,"leverage":10}');
+        expect(bad.status).toBe(400);
+        expect((bad.body as any).error).toBe('maxDailyLossPercent must be at most 100; leverage is not a risk limit');
+        expect(handlers.updateRiskLimits).not.toHaveBeenCalled();
+
+        expect(await api.handle('POST', '/api/risk/limits', AUTH, '{"maxTradesPerDay":3}')).toEqual({
+            status: 200, body: { maxTradesPerDay: 3 }
+        });
+        expect(handlers.updateRiskLimits).toHaveBeenCalledWith({ maxTradesPerDay: 3 });
+    });
+
+    test('should pass signal journal filters through', async () => {
+        expect((await api.handle('GET', '/api/signals?symbol=infy-eq&stage=strategy&outcome=rejected&limit=20', AUTH, '')).status).toBe(200);
+        expect(handlers.getSignalJournal).toHaveBeenCalledWith({ symbol: 'INFY-EQ', stage: 'strategy', outcome: 'REJECTED', limit: 20 });
+
+        const bad = await api.handle('GET', '/api/signals?stage=broker&date=06-01-2025', AUTH, '');
+        expect(bad.status).toBe(400);
+        expect((bad.body as any).error).toBe('stage must be one of strategy, engine, compliance, execution; date must be YYYY-MM-DD');
+
+        await api.handle('GET', '/api/signals/funnel?date=2025-01-06', AUTH, '');
+        expect(handlers.getSignalFunnel).toHaveBeenCalledWith('2025-01-06', undefined);
+    });
+
+    test('should report handler failures as server errors', async () => {
+        handlers.getOrders.mockRejectedValue(new Error('broker down'));
+
+        expect(await api.handle('GET', '/api/orders', AUTH, '')).toEqual({ status: 500, body: { error: 'broker down' } });
+    });
+});
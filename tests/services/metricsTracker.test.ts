@@ -0,0 +1,60 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { MetricsTracker, TradeMetrics } from '../../src/services/metricsTracker';
+
+describe('MetricsTracker', () => {
+    const OLD_HEADER = 'Date,Symbol,Side,EntryTime,ExitTime,EntryPrice,ExitPrice,Quantity,PnL,PnL%,ExpectedSlippage%,ActualSlippage%,HoldTimeMin,Result,ExitReason';
+    const OLD_ROW = '2025-01-06,TCS-EQ,BUY,2025-01-06T04:00:00.000Z,2025-01-06T05:00:00.000Z,100.00,101.00,10,10.00,1.00,0.100,0.050,60.00,WIN,TARGET';
+    let dir: string;
+    let tradesPath: string;
+
+    const trade: TradeMetrics = {
+        symbol: 'INFY-EQ',
+        entryTime: new Date('2025-01-07T04:00:00Z'),
+        exitTime: new Date('2025-01-07T04:30:00Z'),
+        side: 'SELL',
+        entryPrice: 200,
+        exitPrice: 198,
+        quantity: 5,
+        pnl: 10,
+        pnlPercent: 1,
+        expectedSlippage: 0.001,
+        actualSlippage: 0.0005,
+        holdTimeMs: 30 * 60 * 1000,
+        result: 'WIN',
+        exitReason: 'TARGET',
+        strategy: 'OpeningRangeBreakout'
+    };
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'metrics-'));
+        tradesPath = path.join(dir, 'trades.csv');
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should add the Strategy column to a trades.csv written before it existed', () => {
+        fs.writeFileSync(tradesPath, `${OLD_HEADER}\n${OLD_ROW}\n`);
+
+        const tracker = new MetricsTracker(100000, dir);
+        tracker.recordTrade(trade);
+
+        const lines = fs.readFileSync(tradesPath, 'utf8').trim().split('\n');
+        expect(lines[0]).toBe(`${OLD_HEADER},Strategy`);
+        expect(lines[1]).toBe(`${OLD_ROW},`);
+        expect(lines[2].endsWith(',TARGET,OpeningRangeBreakout')).toBe(true);
+        expect(lines.map(line => line.split(',').length)).toEqual([16, 16, 16]);
+    });
+
+    test('should leave a trades.csv that already has the Strategy column alone', () => {
+        const current = `${OLD_HEADER},Strategy\n${OLD_ROW},DayHighLowBreakout\n`;
+        fs.writeFileSync(tradesPath, current);
+
+        new MetricsTracker(100000, dir);
+
+        expect(fs.readFileSync(tradesPath, 'utf8')).toBe(current);
+    });
+});
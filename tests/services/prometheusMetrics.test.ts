@@ -0,0 +1,66 @@
+import { MetricsRegistry } from '../../src/services/prometheusMetrics';
+import { logger } from '../../src/utils/logger';
+
+describe('MetricsRegistry', () => {
+    let registry: MetricsRegistry;
+
+    beforeEach(() => {
+        registry = new MetricsRegistry();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    test('should render counters and histograms in Prometheus text format', () => {
+        const rejected = registry.counter('bot_signals_rejected_total', 'Rejected signals');
+        const latency = registry.histogram('bot_fill_latency_seconds', 'Fill latency', [1, 5]);
+
+        rejected.inc({ strategy: 'Breakout', reason: 'kill_switch' });
+        rejected.inc({ reason: 'kill_switch', strategy: 'Breakout' });
+        rejected.inc({ strategy: 'VWAP "2"', reason: 'risk' });
+        latency.observe({}, 0.4);
+        latency.observe({}, 3);
+        latency.observe({}, 12);
+
+        expect(registry.render()).toBe([
+            '# HELP bot_signals_rejected_total Rejected signals',
+            '# TYPE bot_signals_rejected_total counter',
+            'bot_signals_rejected_total{reason="kill_switch",strategy="Breakout"} 2',
+            'bot_signals_rejected_total{reason="risk",strategy="VWAP \\"2\\""} 1',
+            '',
+            '# HELP bot_fill_latency_seconds Fill latency',
+            '# TYPE bot_fill_latency_seconds histogram',
+            'bot_fill_latency_seconds_bucket{le="1"} 1',
+            'bot_fill_latency_seconds_bucket{le="5"} 2',
+            'bot_fill_latency_seconds_bucket{le="+Inf"} 3',
+            'bot_fill_latency_seconds_sum 15.4',
+            'bot_fill_latency_seconds_count 3',
+            ''
+        ].join('\n'));
+    });
+
+    test('should refill gauges from collectors on every scrape', () => {
+        const state = registry.gauge('bot_breaker_state', 'Breaker state');
+        let breakers = ['orders', 'quotes'];
+        registry.setCollector('breakers', () => breakers.forEach(name => state.set({ breaker: name }, 1)));
+        expect(registry.render()).toContain('bot_breaker_state{breaker="quotes"} 1');
+
+        // Gone breakers drop out; a re-created component replaces its collector
+        breakers = ['orders'];
+        registry.setCollector('breakers', () => breakers.forEach(name => state.set({ breaker: name }, 0)));
+        const text = registry.render();
+        expect(text).toContain('bot_breaker_state{breaker="orders"} 0');
+        expect(text).not.toContain('quotes');
+    });
+
+    test('should keep scraping when a collector throws', () => {
+        jest.spyOn(logger, 'error').mockImplementation(() => undefined);
+        const open = registry.gauge('bot_open_positions', 'Open positions');
+        registry.setCollector('broken', () => { throw new Error('broker offline'); });
+        registry.setCollector('engine', () => open.set({}, 2));
+
+        expect(registry.render()).toContain('bot_open_positions 2');
+        expect(logger.error).toHaveBeenCalledWith('Metrics collector failed', { collector: 'broken', error: 'broker offline' });
+    });
+});
@@ -0,0 +1,85 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { signalJournal, SignalCandidate } from '../../src/services/signalJournal';
+
+describe('SignalJournal', () => {
+    let dir: string;
+
+    // 2025-01-06 IST trading session
+    const candidate = (symbol: string, time: string, strategy = 'DayHighLowBreakout'): SignalCandidate => ({
+        strategy,
+        symbol,
+        direction: 'BUY',
+        price: 100,
+        time: Date.parse(`2025-01-06T${time}:00+05:30`)
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'signals-'));
+    });
+
+    afterEach(() => {
+        signalJournal.configure({ enabled: false, directory: '', retentionDays: 0 });
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should count candidates through each stage of the funnel', () => {
+        signalJournal.configure({ enabled: false, directory: dir, retentionDays: 0 });
+        signalJournal.record(candidate('INFY-EQ', '09:18'), 'strategy', 'REJECTED', 'gap_guard');
+        signalJournal.record(candidate('TCS-EQ', '09:40'), 'strategy', 'REJECTED', 'volume_filter', { currentCandleVolume: 1200 });
+        signalJournal.record(candidate('SBIN-EQ', '09:45'), 'strategy', 'REJECTED', 'volume_filter');
+        for (const symbol of ['INFY-EQ', 'TCS-EQ', 'SBIN-EQ', 'ITC-EQ']) {
+            signalJournal.record(candidate(symbol, '10:00'), 'strategy', 'PASSED', 'signal');
+        }
+        signalJournal.record(candidate('INFY-EQ', '10:00'), 'engine', 'REJECTED', 'duplicate_order');
+        signalJournal.record(candidate('TCS-EQ', '10:00'), 'compliance', 'REJECTED', 'margin');
+        signalJournal.record(candidate('SBIN-EQ', '10:00'), 'execution', 'FILLED', 'filled');
+
+        const funnel = signalJournal.getFunnel('2025-01-06');
+
+        expect(funnel.candidates).toBe(7);
+        expect(funnel.stages).toEqual([
+            { stage: 'strategy', entered: 7, rejected: 3, reasons: { volume_filter: 2, gap_guard: 1 } },
+            { stage: 'engine', entered: 4, rejected: 1, reasons: { duplicate_order: 1 } },
+            { stage: 'compliance', entered: 3, rejected: 1, reasons: { margin: 1 } },
+            { stage: 'execution', entered: 2, rejected: 0, reasons: {} }
+        ]);
+        expect(funnel.filled).toBe(1); // ITC-EQ still waiting for its fill
+        expect(signalJournal.query({ date: '2025-01-06', reason: 'volume_filter', limit: 1 })).toEqual([
+            expect.objectContaining({ symbol: 'SBIN-EQ', stage: 'strategy' })
+        ]);
+        expect(fs.readdirSync(dir)).toEqual([]); // Disabled - memory only
+    });
+
+    test('should append to day files and read them back after a restart', () => {
+        fs.writeFileSync(path.join(dir, '2024-12-01.jsonl'), '');
+        signalJournal.configure({ enabled: true, directory: dir, retentionDays: 30 });
+        signalJournal.record(candidate('INFY-EQ', '10:00'), 'strategy', 'REJECTED', 'cooldown', { cooldownRemainingMinutes: 4.5 });
+
+        // Restart mid-day: today's earlier records are picked up again
+        signalJournal.configure({ enabled: true, directory: dir, retentionDays: 30 });
+        signalJournal.record(candidate('TCS-EQ', '11:00', 'Vwap'), 'strategy', 'PASSED', 'signal');
+
+        const lines = fs.readFileSync(path.join(dir, '2025-01-06.jsonl'), 'utf-8').trim().split('\n');
+        expect(lines.map(line => JSON.parse(line).symbol)).toEqual(['INFY-EQ', 'TCS-EQ']);
+        expect(JSON.parse(lines[0])).toEqual({
+            time: '2025-01-06T04:30:00.000Z',
+            date: '2025-01-06',
+            strategy: 'DayHighLowBreakout',
+            symbol: 'INFY-EQ',
+            direction: 'BUY',
+            price: 100,
+            stage: 'strategy',
+            outcome: 'REJECTED',
+            reason: 'cooldown',
+            details: { cooldownRemainingMinutes: 4.5 }
+        });
+        expect(signalJournal.getFunnel('2025-01-06').candidates).toBe(2);
+        expect(signalJournal.getFunnel('2025-01-06', 'Vwap').candidates).toBe(1);
+        expect(signalJournal.query({ date: '2025-01-03' })).toEqual([]);
+
+        // Files past the retention period are pruned when a day starts
+        expect(fs.readdirSync(dir).sort()).toEqual(['2025-01-06.jsonl']);
+    });
+});
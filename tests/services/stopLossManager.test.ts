@@ -0,0 +1,73 @@
+import { StopLossManager } from '../../src/services/stopLossManager';
+import { IBroker } from '../../src/brokers/base';
+import { OrderSide, OrderType, Position, PositionType } from '../../src/types';
+
+// Mock Broker
+const mockBroker = {
+    placeOrder: jest.fn(),
+    modifyOrder: jest.fn(),
+    cancelOrder: jest.fn()
+} as unknown as IBroker;
+
+describe('StopLossManager', () => {
+    const position: Position = {
+        symbol: 'INFY-EQ',
+        type: PositionType.LONG,
+        quantity: 50,
+        entryPrice: 1500,
+        currentPrice: 1500,
+        pnl: 0,
+        pnlPercent: 0,
+        entryTime: new Date()
+    };
+    let manager: StopLossManager;
+
+    beforeEach(async () => {
+        jest.clearAllMocks();
+        manager = new StopLossManager(mockBroker);
+        (mockBroker.placeOrder as jest.Mock).mockResolvedValueOnce({ orderId: 'SL_1' });
+        await manager.placeStopLoss('INFY-EQ', 'ENTRY_1', position, 1485);
+    });
+
+    test('should trail the stop by modifying the working order in place', async () => {
+        (mockBroker.modifyOrder as jest.Mock).mockResolvedValue(true);
+
+        expect(await manager.updateStopLoss('INFY-EQ', 1500)).toBe(true);
+
+        expect(mockBroker.modifyOrder).toHaveBeenCalledWith('SL_1', { triggerPrice: 1500 });
+        expect(mockBroker.cancelOrder).not.toHaveBeenCalled();
+        expect(manager.getStopLoss('INFY-EQ')).toMatchObject({ stopLossOrderId: 'SL_1', stopLossPrice: 1500 });
+    });
+
+    test('should cancel and re-place when the broker refuses the modification', async () => {
+        (mockBroker.modifyOrder as jest.Mock).mockResolvedValue(false);
+        (mockBroker.cancelOrder as jest.Mock).mockResolvedValue(true);
+        (mockBroker.placeOrder as jest.Mock).mockResolvedValueOnce({ orderId: 'SL_2' });
+
+        expect(await manager.updateStopLoss('INFY-EQ', 1500)).toBe(true);
+
+        expect(mockBroker.cancelOrder).toHaveBeenCalledWith('SL_1');
+        expect(mockBroker.placeOrder).toHaveBeenLastCalledWith(
+            'INFY-EQ', OrderSide.SELL, OrderType.STOP_LOSS_MARKET, 50, undefined, 1500
+        );
+        expect(manager.getStopLoss('INFY-EQ')).toMatchObject({ stopLossOrderId: 'SL_2', stopLossPrice: 1500 });
+    });
+
+    test('should leave a stop it cannot cancel alone and report one it could not re-place', async () => {
+        const missing = jest.fn();
+        manager.on('stop_loss_missing', missing);
+        (mockBroker.modifyOrder as jest.Mock).mockResolvedValue(false);
+        (mockBroker.cancelOrder as jest.Mock).mockResolvedValueOnce(false);
+
+        expect(await manager.updateStopLoss('INFY-EQ', 1500)).toBe(false);
+        expect(mockBroker.placeOrder).toHaveBeenCalledTimes(1); // Only the original stop
+        expect(manager.getStopLoss('INFY-EQ')?.stopLossPrice).toBe(1485);
+
+        (mockBroker.cancelOrder as jest.Mock).mockResolvedValueOnce(true);
+        (mockBroker.placeOrder as jest.Mock).mockResolvedValueOnce(null);
+
+        expect(await manager.updateStopLoss('INFY-EQ', 1500)).toBe(false);
+        expect(missing).toHaveBeenCalledWith({ symbol: 'INFY-EQ', stopLossPrice: 1500 });
+        expect(manager.getStopLoss('INFY-EQ')?.stopLossOrderId).toBeUndefined();
+    });
+});
@@ -0,0 +1,81 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { strategyStateStore } from '../../src/services/strategyStateStore';
+import { DayHighLowBreakoutStrategy, loadDayHighLowBreakoutParams } from '../../src/strategies/dayHighLowBreakout';
+import { MarketData, StrategyContext, TradingMode } from '../../src/types';
+import { FixedClock } from '../../src/utils/clock';
+
+describe('StrategyStateStore', () => {
+    const SYMBOL = 'TCS-EQ';
+    let dir: string;
+    let statePath: string;
+
+    const context = (): StrategyContext => ({
+        marketData: new Map(),
+        positions: new Map(),
+        accountInfo: {
+            balance: 100000,
+            availableMargin: 100000,
+            usedMargin: 0,
+            realizedPnL: 0,
+            unrealizedPnL: 0,
+            marginMultiplier: 5,
+            effectiveBuyingPower: 500000
+        },
+        config: {
+            mode: TradingMode.PAPER,
+            autoSquareOffTime: '15:20',
+            marketStartTime: '09:15',
+            marketEndTime: '15:30',
+            killSwitch: false,
+            riskLimits: {
+                maxRiskPerTradePercent: 1,
+                maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
+                positionSizePercent: 10,
+                marginMultiplier: 5,
+                useMargin: true
+            }
+        }
+    });
+
+    const tick = (time: number): MarketData => ({
+        symbol: SYMBOL, ltp: 100, open: 100, high: 100, low: 100, close: 100, volume: 0, timestamp: new Date(time)
+    });
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'strategy-state-'));
+        statePath = path.join(dir, 'daily_state.json');
+        strategyStateStore.setStatePath(statePath);
+    });
+
+    afterEach(() => {
+        strategyStateStore.setStatePath(path.join(process.cwd(), 'state', 'daily_state.json'));
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should keep other strategies\' entries when DayHighLowBreakout rolls over to a new day', async () => {
+        const day1 = Date.parse('2025-01-06T09:30:00+05:30');
+        const day2 = Date.parse('2025-01-07T09:30:00+05:30');
+        const clock = new FixedClock(day1);
+        const strategy = new DayHighLowBreakoutStrategy(context(), [SYMBOL], loadDayHighLowBreakoutParams(), clock);
+        await strategy.initialize();
+        strategy.onMarketData(tick(day1));
+
+        clock.set(day2);
+        const orbEntry = {
+            tradesExecutedToday: 2,
+            isInCooldown: true,
+            cooldownExpiresAt: day2 + 10 * 60 * 1000,
+            lastResetDate: '2025-01-07'
+        };
+        strategyStateStore.saveSymbolState(SYMBOL, orbEntry, 'OpeningRangeBreakout');
+
+        strategy.onMarketData(tick(day2));
+        strategy.resetDailyData();
+
+        const saved = JSON.parse(fs.readFileSync(statePath, 'utf8'));
+        expect(saved['OpeningRangeBreakout/TCS-EQ']).toEqual(orbEntry);
+    });
+});
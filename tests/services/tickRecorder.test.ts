@@ -0,0 +1,82 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import zlib from 'zlib';
+import { tickRecorder, RecordedTick } from '../../src/services/tickRecorder';
+
+describe('TickRecorder', () => {
+    let dir: string;
+
+    const tick = (symbol: string, exchangeTimestamp: number, ltp: number): RecordedTick => ({
+        token: '2885',
+        symbol,
+        ltp,
+        open: 100,
+        high: 102,
+        low: 99,
+        close: 98,
+        volume: 1500,
+        exchangeTimestamp,
+        receivedAt: exchangeTimestamp + 20
+    });
+
+    const readLines = (file: string): any[] =>
+        zlib.gunzipSync(fs.readFileSync(file)).toString('utf-8').trim().split('\n').map(l => JSON.parse(l));
+
+    beforeEach(() => {
+        dir = fs.mkdtempSync(path.join(os.tmpdir(), 'ticks-'));
+    });
+
+    afterEach(async () => {
+        await tickRecorder.close();
+        tickRecorder.configure({ enabled: false, directory: '', retentionDays: 0 });
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('should ignore ticks while disabled', async () => {
+        tickRecorder.configure({ enabled: false, directory: dir, retentionDays: 0 });
+        tickRecorder.record(tick('RELIANCE-EQ', Date.parse('2025-01-06T04:00:00Z'), 101));
+        await tickRecorder.close();
+
+        expect(fs.readdirSync(dir)).toHaveLength(0);
+    });
+
+    test('should write per-day, per-symbol gzip NDJSON keyed by IST date', async () => {
+        tickRecorder.configure({ enabled: true, directory: dir, retentionDays: 0 });
+        tickRecorder.record(tick('RELIANCE-EQ', Date.parse('2025-01-06T04:00:00Z'), 101));
+        tickRecorder.record(tick('RELIANCE-EQ', Date.parse('2025-01-06T04:00:01Z'), 101.05));
+        // 19:00 UTC is already the next day in IST
+        tickRecorder.record(tick('RELIANCE-EQ', Date.parse('2025-01-06T19:00:00Z'), 103));
+        await tickRecorder.close();
+
+        const day1 = readLines(path.join(dir, '2025-01-06', 'RELIANCE-EQ.ndjson.gz'));
+        const day2 = readLines(path.join(dir, '2025-01-07', 'RELIANCE-EQ.ndjson.gz'));
+
+        expect(day1.map(t => t.ltp)).toEqual([101, 101.05]);
+        expect(day1[0]).toMatchObject({ token: '2885', volume: 1500, close: 98 });
+        expect(day2).toHaveLength(1);
+    });
+
+    test('should append to an existing day file after close', async () => {
+        tickRecorder.configure({ enabled: true, directory: dir, retentionDays: 0 });
+        tickRecorder.record(tick('TCS-EQ', Date.parse('2025-01-06T04:00:00Z'), 4000));
+        await tickRecorder.close();
+        tickRecorder.record(tick('TCS-EQ', Date.parse('2025-01-06T05:00:00Z'), 4010));
+        await tickRecorder.close();
+
+        const lines = readLines(path.join(dir, '2025-01-06', 'TCS-EQ.ndjson.gz'));
+        expect(lines.map(t => t.ltp)).toEqual([4000, 4010]);
+    });
+
+    test('should prune day directories older than the retention period', async () => {
+        fs.mkdirSync(path.join(dir, '2024-12-01'));
+        fs.mkdirSync(path.join(dir, '2025-01-04'));
+        fs.mkdirSync(path.join(dir, 'notes'));
+
+        tickRecorder.configure({ enabled: true, directory: dir, retentionDays: 5 });
+        tickRecorder.record(tick('INFY-EQ', Date.parse('2025-01-06T04:00:00Z'), 1900));
+        await tickRecorder.close();
+
+        expect(fs.readdirSync(dir).sort()).toEqual(['2025-01-04', '2025-01-06', 'notes']);
+    });
+});
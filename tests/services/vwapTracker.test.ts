@@ -0,0 +1,41 @@
+import { VwapTracker } from '../../src/services/vwapTracker';
+import { MarketData } from '../../src/types';
+
+describe('VwapTracker', () => {
+    const SYMBOL = 'INFY-EQ';
+    const at = (date: string, time: string) => new Date(`${date}T${time}:00+05:30`);
+
+    const tick = (ltp: number, volume: number, timestamp: Date, high = ltp, low = ltp): MarketData => ({
+        symbol: SYMBOL, ltp, open: ltp, high, low, close: ltp, volume, timestamp
+    });
+
+    test('should weight each price by the volume traded since the previous tick', () => {
+        const tracker = new VwapTracker();
+
+        tracker.recordTick(tick(100, 0, at('2025-01-06', '09:15')));
+        tracker.recordTick(tick(100, 100, at('2025-01-06', '09:16')));
+        tracker.recordTick(tick(110, 400, at('2025-01-06', '09:17'))); // 300 traded at 110
+        tracker.recordTick(tick(110, 400, at('2025-01-06', '09:17'))); // Duplicate tick - no new volume
+
+        // (100 × 100 + 110 × 300) / 400 = 107.5; σ² = (100² × 100 + 110² × 300) / 400 - 107.5²
+        const bands = tracker.getBands(SYMBOL, 2)!;
+        expect(bands.vwap).toBeCloseTo(107.5);
+        expect(bands.stdDev).toBeCloseTo(Math.sqrt(18.75));
+        expect(bands.upper).toBeCloseTo(107.5 + 2 * Math.sqrt(18.75));
+        expect(bands.lower).toBeCloseTo(107.5 - 2 * Math.sqrt(18.75));
+        expect(tracker.getSessionVolume(SYMBOL)).toBe(400);
+    });
+
+    test('should seed a mid-session start from the typical price and reset on a new day', () => {
+        const tracker = new VwapTracker();
+
+        tracker.recordTick(tick(102, 1000, at('2025-01-06', '11:00'), 105, 99)); // (105 + 99 + 102) / 3 = 102
+        expect(tracker.getVwap(SYMBOL)).toBeCloseTo(102);
+
+        tracker.recordTick(tick(90, 0, at('2025-01-07', '09:15')));
+        expect(tracker.getVwap(SYMBOL)).toBeNull();
+
+        tracker.recordTick(tick(91, 50, at('2025-01-07', '09:16')));
+        expect(tracker.getVwap(SYMBOL)).toBeCloseTo(91);
+    });
+});
@@ -0,0 +1,96 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { WebDashboard, WebDashboardSource } from '../../src/services/webDashboard';
+import { PositionType } from '../../src/types';
+import { logger } from '../../src/utils/logger';
+
+describe('WebDashboard', () => {
+    const TOKEN = 'dashboard-token-0123';
+    let source: WebDashboardSource;
+    let dashboard: WebDashboard;
+
+    beforeEach(() => {
+        jest.spyOn(logger, 'audit').mockImplementation(() => undefined);
+        source = {
+            getStatus: () => ({ mode: 'PAPER', killSwitch: false, entriesPaused: true }),
+            getLiveMetrics: () => ({ currentBalance: 1002000, todayPnL: 2000 } as any),
+            getPositions: () => [
+                { symbol: 'INFY-EQ', type: PositionType.LONG, quantity: 10, entryPrice: 1500, currentPrice: 1510, pnl: 100, pnlPercent: 0.67, entryTime: new Date() },
+                { symbol: 'TCS-EQ', type: PositionType.SHORT, quantity: 5, entryPrice: 3500, currentPrice: 3520, pnl: -100.5, pnlPercent: -0.57, entryTime: new Date() }
+            ],
+            getTodayTrades: () => [],
+            getEquityCurve: () => [1000000, 1001000, 1002000],
+            getBreakoutLevels: () => [
+                { strategy: 'DayHighLowBreakout', symbol: 'SBIN-EQ', ltp: 800, high: 808, low: 780 },
+                { strategy: 'OpeningRangeBreakout', symbol: 'SBIN-EQ', ltp: 800, high: null, low: null }
+            ],
+            getFeedHealth: () => ({ alive: true, msSinceLastData: 2400 })
+        };
+        dashboard = new WebDashboard(TOKEN, source);
+    });
+
+    afterEach(() => {
+        dashboard.stop();
+        jest.restoreAllMocks();
+    });
+
+    test('should build a snapshot with open P&L and breakout distances', () => {
+        const snapshot = dashboard.getSnapshot();
+
+        expect(snapshot).toMatchObject({
+            status: { mode: 'PAPER', entriesPaused: true },
+            balance: 1002000,
+            dayPnL: 2000,
+            unrealizedPnL: -0.5,
+            equityCurve: [1000000, 1001000, 1002000],
+            feed: { alive: true, lastDataSecondsAgo: 2 }
+        });
+        expect(snapshot.breakouts[0].toHighPercent).toBeCloseTo(1);
+        expect(snapshot.breakouts[0].toLowPercent).toBeCloseTo(2.5);
+        expect(snapshot.breakouts[1]).toMatchObject({ toHighPercent: null, toLowPercent: null });
+    });
+
+    test('should serve the page and stream snapshots only with the token', async () => {
+        const server = http.createServer((req, res) => {
+            if (!dashboard.handle(req, res)) {
+                res.writeHead(404);
+                res.end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        const { port } = server.address() as AddressInfo;
+
+        // Resolves with the status and everything received up to the first SSE message
+        const get = (path: string) => new Promise<{ status?: number; body: string }>((resolve, reject) => {
+            http.get({ host: '127.0.0.1', port, path }, res => {
+                let body = '';
+                res.on('data', chunk => {
+                    body += chunk;
+                    if (/data: .*\n\n/.test(body)) {
+                        res.destroy();
+                        resolve({ status: res.statusCode, body });
+                    }
+                });
+                res.on('end', () => resolve({ status: res.statusCode, body }));
+            }).on('error', reject);
+        });
+
+        try {
+            expect((await get('/dashboard')).status).toBe(401);
+            expect((await get('/dashboard/events?token=wrong')).status).toBe(401);
+            expect((await get('/health')).status).toBe(404);
+
+            const page = await get(`/dashboard?token=${TOKEN}`);
+            expect(page.status).toBe(200);
+            expect(page.body).toContain('new EventSource');
+            expect(page.body).not.toMatch(/<script src=|<link /); // Nothing loaded from elsewhere
+
+            const events = await get(`/dashboard/events?token=${TOKEN}`);
+            const snapshot = JSON.parse(events.body.split('data: ')[1]);
+            expect(snapshot.positions.map((p: any) => p.symbol)).toEqual(['INFY-EQ', 'TCS-EQ']);
+        } finally {
+            dashboard.stop();
+            await new Promise(resolve => server.close(resolve));
+        }
+    });
+});
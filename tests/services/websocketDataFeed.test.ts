@@ -0,0 +1,57 @@
+import { WebSocketDataFeed } from '../../src/services/websocketDataFeed';
+import { AngelOneClient } from '../../src/brokers/angelone/client';
+import { tickRecorder } from '../../src/services/tickRecorder';
+import { MarketData } from '../../src/types';
+
+describe('WebSocketDataFeed', () => {
+    /**
+     * A SmartAPI WebSocket V2 FULL-mode (SNAP_QUOTE) packet - 379 bytes, little-endian,
+     * prices in paise
+     */
+    const fullModePacket = (token: string): Buffer => {
+        const packet = Buffer.alloc(379);
+        packet.writeUInt8(3, 0);                                 // Subscription mode: SNAP_QUOTE
+        packet.writeUInt8(1, 1);                                 // Exchange: NSE_CM
+        packet.write(token, 2, 'ascii');                         // Token, null-padded to 25 bytes
+        packet.writeBigInt64LE(918273n, 27);                     // Sequence number
+        packet.writeBigInt64LE(1736136000000n, 35);              // Exchange timestamp (epoch ms)
+        packet.writeBigInt64LE(123456n, 43);                     // LTP ₹1234.56
+        packet.writeBigInt64LE(25n, 51);                         // Last traded quantity
+        packet.writeBigInt64LE(123012n, 59);                     // Average traded price
+        packet.writeBigInt64LE(4567890n, 67);                    // Volume traded for the day
+        packet.writeDoubleLE(150000, 75);                        // Total buy quantity
+        packet.writeDoubleLE(175000, 83);                        // Total sell quantity
+        packet.writeBigInt64LE(122000n, 91);                     // Open ₹1220.00
+        packet.writeBigInt64LE(124599n, 99);                     // High ₹1245.99
+        packet.writeBigInt64LE(121501n, 107);                    // Low ₹1215.01
+        packet.writeBigInt64LE(121875n, 115);                    // Previous close ₹1218.75
+        packet.writeBigInt64LE(1736135999000n, 123);             // Last traded timestamp
+        return packet;
+    };
+
+    test('should parse paise prices and the day volume from a FULL-mode packet', () => {
+        const feed = new WebSocketDataFeed({} as AngelOneClient);
+        feed['subscriptions'].set('RELIANCE-EQ', { symbol: 'RELIANCE-EQ', token: '2885', mode: 'SNAP_QUOTE' });
+        jest.spyOn(feed as any, 'isMarketHours').mockReturnValue(true);
+        const record = jest.spyOn(tickRecorder, 'record').mockImplementation(() => undefined);
+
+        const ticks: MarketData[] = [];
+        feed.on('market_data', (tick: MarketData) => ticks.push(tick));
+        feed['handleMessage'](fullModePacket('2885'));
+
+        expect(ticks).toEqual([expect.objectContaining({
+            symbol: 'RELIANCE-EQ',
+            ltp: 1234.56,
+            open: 1220,
+            high: 1245.99,
+            low: 1215.01,
+            volume: 4567890
+        })]);
+        expect(record).toHaveBeenCalledWith(expect.objectContaining({
+            token: '2885',
+            close: 1218.75,
+            volume: 4567890,
+            exchangeTimestamp: 1736136000000
+        }));
+    });
+});
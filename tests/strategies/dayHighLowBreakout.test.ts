@@ -0,0 +1,156 @@
+import {
+    DayHighLowBreakoutStrategy,
+    DayHighLowBreakoutParams,
+    loadDayHighLowBreakoutParams
+} from '../../src/strategies/dayHighLowBreakout';
+import { CandleAggregator } from '../../src/services/candleAggregator';
+import { CandleIndicators } from '../../src/indicators/candleIndicators';
+import { volumeTracker } from '../../src/services/volumeTracker';
+import { signalJournal } from '../../src/services/signalJournal';
+import { MarketData, StrategyContext, StrategySignal, TradingMode } from '../../src/types';
+import { FixedClock } from '../../src/utils/clock';
+
+jest.mock('../../src/services/strategyStateStore', () => ({
+    strategyStateStore: {
+        loadTodayState: jest.fn().mockReturnValue({}),
+        saveSymbolState: jest.fn()
+    }
+}));
+
+describe('DayHighLowBreakoutStrategy exits', () => {
+    const SYMBOL = 'HDFCBANK-EQ';
+    const at = (time: string) => Date.parse(`2025-01-06T${time}:00+05:30`);
+    let clock: FixedClock;
+    let signals: StrategySignal[];
+
+    const context = (): StrategyContext => ({
+        marketData: new Map(),
+        positions: new Map(),
+        accountInfo: {
+            balance: 100000,
+            availableMargin: 100000,
+            usedMargin: 0,
+            realizedPnL: 0,
+            unrealizedPnL: 0,
+            marginMultiplier: 5,
+            effectiveBuyingPower: 500000
+        },
+        config: {
+            mode: TradingMode.PAPER,
+            autoSquareOffTime: '15:20',
+            marketStartTime: '09:15',
+            marketEndTime: '15:30',
+            killSwitch: false,
+            riskLimits: {
+                maxRiskPerTradePercent: 1,
+                maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
+                positionSizePercent: 10,
+                marginMultiplier: 5,
+                useMargin: true
+            }
+        }
+    });
+
+    const tick = (time: string, ltp: number): MarketData => ({
+        symbol: SYMBOL, ltp, open: 100, high: ltp, low: ltp, close: ltp, volume: 0, timestamp: new Date(at(time))
+    });
+
+    // 5-min bars: 09:15 H102 L99 C99 (TR 3), 09:20 H101 L100 C101 (TR 2) -> ATR(2) 2.5, last bar range 1
+    const indicators = (): CandleIndicators => {
+        const aggregator = new CandleAggregator([5]);
+        const candleIndicators = new CandleIndicators(aggregator);
+        for (const [time, ltp] of [['09:15', 100], ['09:17', 102], ['09:18', 99], ['09:20', 100], ['09:22', 101], ['09:25', 100]] as const) {
+            aggregator.onTick(tick(time, ltp));
+        }
+        return candleIndicators;
+    };
+
+    // Breakout above the 100 day high at 100.5
+    const breakout = async (overrides: Partial<DayHighLowBreakoutParams>, withIndicators = true) => {
+        const strategy = new DayHighLowBreakoutStrategy(
+            context(),
+            [SYMBOL],
+            loadDayHighLowBreakoutParams(null, { confirmationTicks: 0, ...overrides }),
+            clock
+        );
+        if (withIndicators) {
+            strategy.setContextIndicators(indicators());
+        }
+        strategy.on('signal', (signal: StrategySignal) => signals.push(signal));
+        await strategy.initialize();
+
+        strategy.onMarketData(tick('09:30', 100));
+        strategy.onMarketData(tick('09:30', 100.5));
+        expect(signals).toHaveLength(1);
+        return signals[0];
+    };
+
+    beforeEach(() => {
+        volumeTracker.resetSessionVolume();
+        clock = new FixedClock(at('09:30'));
+        signals = [];
+    });
+
+    test('should keep fixed percentage exits by default', async () => {
+        const signal = await breakout({});
+
+        expect(signal.stopLoss).toBeCloseTo(100.5 * (1 - 0.0025));
+        expect(signal.target).toBeCloseTo(100.5 * 1.005);
+    });
+
+    test('should size exits from ATR and clamp them to the configured range', async () => {
+        const signal = await breakout({ stopMode: 'ATR', atrPeriod: 2, stopMultiple: 0.2, targetMultiple: 1 });
+
+        expect(signal.stopLoss).toBeCloseTo(100.5 - 0.5);        // 0.2 × 2.5, inside 0.15%-1%
+        expect(signal.target).toBeCloseTo(100.5 + 100.5 * 0.02); // 2.5 capped at maxTargetPercent 2%
+    });
+
+    test('should size exits from the last bar range with the minimum stop applied', async () => {
+        const signal = await breakout({ stopMode: 'BAR_RANGE', stopMultiple: 0.1, targetMultiple: 1 });
+
+        expect(signal.stopLoss).toBeCloseTo(100.5 - 100.5 * 0.0015); // 0.1 raised to minStopPercent 0.15%
+        expect(signal.target).toBeCloseTo(101.5);
+    });
+
+    test('should journal breakouts its own filters drop', async () => {
+        signalJournal.reset();
+        clock.set(at('09:18'));
+        const strategy = new DayHighLowBreakoutStrategy(
+            context(),
+            [SYMBOL],
+            loadDayHighLowBreakoutParams(null, { confirmationTicks: 1 }),
+            clock
+        );
+        strategy.on('signal', (signal: StrategySignal) => signals.push(signal));
+        await strategy.initialize();
+
+        // Gap guard until 09:20 - the breakout extending tick after tick is one rejection
+        strategy.onMarketData(tick('09:18', 100));
+        strategy.onMarketData(tick('09:18', 100.5));
+        strategy.onMarketData(tick('09:19', 100.8));
+
+        // Past the guard: crosses 100.8, then falls back before the confirmation tick
+        clock.set(at('09:30'));
+        strategy.onMarketData(tick('09:30', 101.2));
+        strategy.onMarketData(tick('09:30', 100.7));
+
+        expect(signals).toHaveLength(0);
+        expect(signalJournal.query({ date: '2025-01-06', symbol: SYMBOL })).toEqual([
+            expect.objectContaining({
+                stage: 'strategy', outcome: 'REJECTED', reason: 'gap_guard', direction: 'BUY', price: 100.5,
+                details: { level: 100, time: '09:18', noSignalBeforeTime: '09:20' }
+            }),
+            expect.objectContaining({
+                reason: 'not_confirmed', price: 100.7, details: { level: 100.8, ticksHeld: 0 }
+            })
+        ]);
+    });
+
+    test('should fall back to percentage exits until volatility is available', async () => {
+        const signal = await breakout({ stopMode: 'ATR' }, false);
+
+        expect(signal.stopLoss).toBeCloseTo(100.5 * (1 - 0.0025));
+        expect(signal.target).toBeCloseTo(100.5 * 1.005);
+    });
+});
@@ -0,0 +1,152 @@
+import {
+    OpeningRangeBreakoutStrategy,
+    OpeningRangeBreakoutParams,
+    loadOpeningRangeBreakoutParams
+} from '../../src/strategies/openingRangeBreakout';
+import { strategyStateStore } from '../../src/services/strategyStateStore';
+import { volumeTracker } from '../../src/services/volumeTracker';
+import { MarketData, StrategyContext, StrategySignal, TradingMode } from '../../src/types';
+import { FixedClock } from '../../src/utils/clock';
+
+jest.mock('../../src/services/strategyStateStore', () => ({
+    strategyStateStore: {
+        loadTodayState: jest.fn().mockReturnValue({}),
+        saveSymbolState: jest.fn()
+    }
+}));
+
+describe('OpeningRangeBreakoutStrategy', () => {
+    const SYMBOL = 'TCS-EQ';
+    const at = (time: string) => Date.parse(`2025-01-06T${time}:00+05:30`);
+    let clock: FixedClock;
+    let signals: StrategySignal[];
+
+    const context = (): StrategyContext => ({
+        marketData: new Map(),
+        positions: new Map(),
+        accountInfo: {
+            balance: 100000,
+            availableMargin: 100000,
+            usedMargin: 0,
+            realizedPnL: 0,
+            unrealizedPnL: 0,
+            marginMultiplier: 5,
+            effectiveBuyingPower: 500000
+        },
+        config: {
+            mode: TradingMode.PAPER,
+            autoSquareOffTime: '15:20',
+            marketStartTime: '09:15',
+            marketEndTime: '15:30',
+            killSwitch: false,
+            riskLimits: {
+                maxRiskPerTradePercent: 1,
+                maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
+                positionSizePercent: 10,
+                marginMultiplier: 5,
+                useMargin: true
+            }
+        }
+    });
+
+    const start = async (overrides: Partial<OpeningRangeBreakoutParams> = {}) => {
+        const strategy = new OpeningRangeBreakoutStrategy(
+            context(),
+            [SYMBOL],
+            loadOpeningRangeBreakoutParams(null, overrides),
+            clock
+        );
+        strategy.on('signal', (signal: StrategySignal) => signals.push(signal));
+        await strategy.initialize();
+        return strategy;
+    };
+
+    const tick = (strategy: OpeningRangeBreakoutStrategy, time: string, ltp: number) => {
+        clock.set(at(time));
+        const data: MarketData = {
+            symbol: SYMBOL, ltp, open: 100, high: ltp, low: ltp, close: ltp, volume: 0, timestamp: new Date(at(time))
+        };
+        strategy.onMarketData(data);
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        (strategyStateStore.loadTodayState as jest.Mock).mockReturnValue({});
+        volumeTracker.resetSessionVolume();
+        clock = new FixedClock(at('09:15'));
+        signals = [];
+    });
+
+    test('should trade a confirmed break of the opening range with a range-based stop and target', async () => {
+        const strategy = await start();
+
+        tick(strategy, '09:15', 100);
+        tick(strategy, '09:18', 101);
+        tick(strategy, '09:25', 99.5);
+        tick(strategy, '09:30', 100.5); // Window closed: range 99.5 - 101
+
+        tick(strategy, '09:31', 101.2); // Cross - awaiting confirmation
+        expect(signals).toHaveLength(0);
+
+        tick(strategy, '09:31', 101.3);
+        expect(signals).toHaveLength(1);
+        expect(signals[0]).toMatchObject({ symbol: SYMBOL, action: 'BUY', stopLoss: 99.5 });
+        expect(signals[0].target).toBeCloseTo(101.3 + 1.5 * 1.5);
+
+        // Range is persisted under the strategy's own namespace for restarts
+        expect(strategyStateStore.saveSymbolState).toHaveBeenCalledWith(
+            SYMBOL,
+            expect.objectContaining({ tradesExecutedToday: 1, openingRange: { high: 101, low: 99.5 } }),
+            'OpeningRangeBreakout'
+        );
+    });
+
+    test('should use the range midpoint as the stop when configured', async () => {
+        const strategy = await start({ stopPlacement: 'MIDPOINT', confirmationTicks: 0, openingRangeMinutes: 5 });
+
+        tick(strategy, '09:15', 100);
+        tick(strategy, '09:17', 101);
+        tick(strategy, '09:20', 100);
+        tick(strategy, '09:21', 99.9);
+
+        expect(signals).toHaveLength(1);
+        expect(signals[0]).toMatchObject({ action: 'SELL', stopLoss: 100.5 });
+    });
+
+    test('should sit the day out when the range is too wide or was not observed', async () => {
+        const wide = await start({ maxRangePercent: 1 });
+        tick(wide, '09:15', 100);
+        tick(wide, '09:20', 102);
+        tick(wide, '09:30', 101);
+        tick(wide, '09:31', 102.5);
+        tick(wide, '09:32', 102.6);
+
+        const late = await start();
+        tick(late, '09:45', 100);
+        tick(late, '09:46', 101);
+        tick(late, '09:47', 101.5);
+
+        expect(signals).toHaveLength(0);
+    });
+
+    test('should restore a completed range after a restart', async () => {
+        (strategyStateStore.loadTodayState as jest.Mock).mockReturnValue({
+            [SYMBOL]: {
+                tradesExecutedToday: 0,
+                isInCooldown: false,
+                cooldownExpiresAt: null,
+                lastResetDate: '2025-01-06',
+                openingRange: { high: 101, low: 99.5 }
+            }
+        });
+        clock.set(at('10:00'));
+        const strategy = await start({ confirmationTicks: 0 });
+
+        tick(strategy, '10:00', 100);
+        tick(strategy, '10:01', 99.4);
+
+        expect(strategyStateStore.loadTodayState).toHaveBeenCalledWith('OpeningRangeBreakout');
+        expect(signals).toEqual([expect.objectContaining({ action: 'SELL', stopLoss: 101 })]);
+    });
+});
@@ -0,0 +1,119 @@
+import { VwapStrategy, VwapStrategyParams, loadVwapStrategyParams } from '../../src/strategies/vwapStrategy';
+import { strategyStateStore } from '../../src/services/strategyStateStore';
+import { vwapTracker } from '../../src/services/vwapTracker';
+import { volumeTracker } from '../../src/services/volumeTracker';
+import { MarketData, StrategyContext, StrategySignal, TradingMode } from '../../src/types';
+import { FixedClock } from '../../src/utils/clock';
+
+jest.mock('../../src/services/strategyStateStore', () => ({
+    strategyStateStore: {
+        loadTodayState: jest.fn().mockReturnValue({}),
+        saveSymbolState: jest.fn()
+    }
+}));
+
+describe('VwapStrategy', () => {
+    const SYMBOL = 'TCS-EQ';
+    const at = (time: string) => Date.parse(`2025-01-06T${time}:00+05:30`);
+    let clock: FixedClock;
+    let signals: StrategySignal[];
+
+    // Cumulative volume per tick: VWAP 101 σ 1 after 09:16, VWAP 100 σ 1.63 after 09:17,
+    // then a flush to 94 below the lower 2σ band and a recovery to 99 back inside it
+    const SESSION: Array<[string, number, number]> = [
+        ['09:15', 100, 1000],
+        ['09:16', 102, 2000],
+        ['09:17', 98, 3000],
+        ['09:18', 94, 3100],
+        ['09:19', 99, 3200]
+    ];
+
+    const context = (): StrategyContext => ({
+        marketData: new Map(),
+        positions: new Map(),
+        accountInfo: {
+            balance: 100000,
+            availableMargin: 100000,
+            usedMargin: 0,
+            realizedPnL: 0,
+            unrealizedPnL: 0,
+            marginMultiplier: 5,
+            effectiveBuyingPower: 500000
+        },
+        config: {
+            mode: TradingMode.PAPER,
+            autoSquareOffTime: '15:20',
+            marketStartTime: '09:15',
+            marketEndTime: '15:30',
+            killSwitch: false,
+            riskLimits: {
+                maxRiskPerTradePercent: 1,
+                maxDailyLossPercent: 2,
+                maxTradesPerDay: 5,
+                positionSizePercent: 10,
+                marginMultiplier: 5,
+                useMargin: true
+            }
+        }
+    });
+
+    const run = async (overrides: Partial<VwapStrategyParams>) => {
+        const strategy = new VwapStrategy(
+            context(),
+            [SYMBOL],
+            loadVwapStrategyParams(null, { signalStartTime: '09:15', minBandWidthPercent: 0, confirmationTicks: 0, ...overrides }),
+            clock
+        );
+        strategy.on('signal', (signal: StrategySignal) => signals.push(signal));
+        await strategy.initialize();
+
+        for (const [time, ltp, volume] of SESSION) {
+            clock.set(at(time));
+            const data: MarketData = {
+                symbol: SYMBOL, ltp, open: 100, high: ltp, low: ltp, close: ltp, volume, timestamp: new Date(at(time))
+            };
+            strategy.onMarketData(data);
+        }
+    };
+
+    beforeEach(() => {
+        jest.clearAllMocks();
+        vwapTracker.resetSession();
+        volumeTracker.resetSessionVolume();
+        clock = new FixedClock(at('09:15'));
+        signals = [];
+    });
+
+    test('should fade a move back inside the lower band towards VWAP in REVERSION mode', async () => {
+        await run({ mode: 'REVERSION' });
+
+        const bands = vwapTracker.getBands(SYMBOL, 2)!;
+        expect(signals).toHaveLength(1);
+        expect(signals[0]).toMatchObject({ symbol: SYMBOL, action: 'BUY' });
+        expect(signals[0].target).toBeCloseTo(bands.vwap);
+        expect(signals[0].stopLoss).toBeCloseTo(bands.vwap - 3 * bands.stdDev);
+
+        expect(strategyStateStore.saveSymbolState).toHaveBeenCalledWith(
+            SYMBOL,
+            expect.objectContaining({ tradesExecutedToday: 1 }),
+            'Vwap'
+        );
+    });
+
+    test('should trade a cross through VWAP towards the band in TREND mode', async () => {
+        // 09:16 reclaim above VWAP is before the start time; 09:17 loses VWAP (100, σ 1.63)
+        await run({ mode: 'TREND', signalStartTime: '09:17', maxTradesPerSymbolPerDay: 1 });
+
+        const sigma = Math.sqrt(8 / 3);
+        expect(signals).toHaveLength(1);
+        expect(signals[0]).toMatchObject({ action: 'SELL' });
+        expect(signals[0].target).toBeCloseTo(100 - 2 * sigma);
+        expect(signals[0].stopLoss).toBeCloseTo(100 + sigma);
+    });
+
+    test('should ignore crosses while the bands are too narrow', async () => {
+        await run({ mode: 'REVERSION', minBandWidthPercent: 10 });
+
+        expect(signals).toHaveLength(0);
+    });
+});
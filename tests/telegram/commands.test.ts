@@ -0,0 +1,87 @@
+import { TelegramCommandHandlers, TelegramCommandRouter } from '../../src/telegram/commands';
+import { FixedClock, clock } from '../../src/utils/clock';
+import { logger } from '../../src/utils/logger';
+
+describe('TelegramCommandRouter', () => {
+    const CHAT_ID = '12345';
+    let handlers: jest.Mocked<TelegramCommandHandlers>;
+    let router: TelegramCommandRouter;
+    let fixedClock: FixedClock;
+
+    const codeFrom = (reply: string | null): string => /\/confirm (\d{4})/.exec(reply || '')![1];
+
+    beforeEach(() => {
+        fixedClock = new FixedClock(Date.parse('2025-01-06T11:00:00+05:30'));
+        clock.use(fixedClock);
+        jest.spyOn(logger, 'audit').mockImplementation(() => undefined);
+        handlers = {
+            status: jest.fn().mockResolvedValue(undefined),
+            positions: jest.fn().mockResolvedValue(undefined),
+            pnl: jest.fn().mockResolvedValue(undefined),
+            risk: jest.fn().mockResolvedValue(undefined),
+            pause: jest.fn().mockResolvedValue('paused'),
+            resume: jest.fn().mockResolvedValue('resumed'),
+            closePosition: jest.fn().mockResolvedValue('closed'),
+            flatten: jest.fn().mockResolvedValue('flattened'),
+            setKillSwitch: jest.fn().mockResolvedValue('kill switch set')
+        };
+        router = new TelegramCommandRouter(CHAT_ID, handlers);
+    });
+
+    afterEach(() => {
+        clock.reset();
+        jest.restoreAllMocks();
+    });
+
+    test('should only obey the configured chat', async () => {
+        expect(await router.handle(99999, '/flatten')).toBeNull();
+        expect(await router.handle(99999, '/killswitch on')).toBeNull();
+        expect(handlers.setKillSwitch).not.toHaveBeenCalled();
+        expect(logger.audit).toHaveBeenCalledWith('TELEGRAM_COMMAND_REJECTED', { chatId: 99999, text: '/flatten' });
+
+        expect(await router.handle(12345, '/status@TradingBot')).toBeNull();
+        expect(handlers.status).toHaveBeenCalled();
+        expect(await router.handle(CHAT_ID, 'hello')).toBeNull();
+    });
+
+    test('should run pause, resume and kill switch on straight away', async () => {
+        expect(await router.handle(CHAT_ID, '/pause')).toBe('paused');
+        expect(await router.handle(CHAT_ID, '/resume')).toBe('resumed');
+        expect(await router.handle(CHAT_ID, '/killswitch ON')).toBe('kill switch set');
+        expect(handlers.setKillSwitch).toHaveBeenCalledWith(true);
+    });
+
+    test('should close a position only after the matching confirmation', async () => {
+        const reply = await router.handle(CHAT_ID, '/close reliance-eq');
+        expect(reply).toContain('Close RELIANCE-EQ?');
+        expect(handlers.closePosition).not.toHaveBeenCalled();
+
+        expect(await router.handle(CHAT_ID, '/confirm 0000')).toBe('Wrong confirmation code');
+        expect(await router.handle(CHAT_ID, `/confirm ${codeFrom(reply)}`)).toBe('closed');
+        expect(handlers.closePosition).toHaveBeenCalledWith('RELIANCE-EQ');
+
+        // Used up
+        expect(await router.handle(CHAT_ID, `/confirm ${codeFrom(reply)}`)).toContain('Nothing to confirm');
+    });
+
+    test('should let confirmations expire and make kill switch off wait for one', async () => {
+        const flatten = await router.handle(CHAT_ID, '/flatten');
+        fixedClock.set(Date.parse('2025-01-06T11:01:01+05:30'));
+        expect(await router.handle(CHAT_ID, `/confirm ${codeFrom(flatten)}`)).toContain('expired');
+        expect(handlers.flatten).not.toHaveBeenCalled();
+
+        const off = await router.handle(CHAT_ID, '/killswitch off');
+        expect(handlers.setKillSwitch).not.toHaveBeenCalled();
+        await router.handle(CHAT_ID, `/confirm ${codeFrom(off)}`);
+        expect(handlers.setKillSwitch).toHaveBeenCalledWith(false);
+    });
+
+    test('should report handler failures and unknown commands', async () => {
+        handlers.flatten.mockRejectedValue(new Error('broker down'));
+        const reply = await router.handle(CHAT_ID, '/flatten');
+
+        expect(await router.handle(CHAT_ID, `/confirm ${codeFrom(reply)}`)).toBe('❌ /confirm failed: broker down');
+        expect(await router.handle(CHAT_ID, '/buy INFY')).toContain('Unknown command /buy');
+        expect(await router.handle(CHAT_ID, '/close')).toBe('Usage: /close SYMBOL');
+    });
+});
@@ -0,0 +1,101 @@
+import {
+    FixedClock,
+    SimulatedClock,
+    AcceleratedClock,
+    clock,
+    getISTDate,
+    getISTTime,
+    getISTDayOfWeek,
+    isISTWeekend
+} from '../../src/utils/clock';
+import { MarketScheduler } from '../../src/core/scheduler';
+
+describe('Clock', () => {
+    afterEach(() => {
+        clock.reset();
+    });
+
+    test('FixedClock should only move when set', () => {
+        const fixed = new FixedClock(new Date('2025-01-06T04:00:00Z'));
+        expect(fixed.now()).toBe(Date.parse('2025-01-06T04:00:00Z'));
+
+        fixed.set(1000);
+        expect(fixed.now()).toBe(1000);
+    });
+
+    test('SimulatedClock should never move backwards', () => {
+        const sim = new SimulatedClock(10000);
+        sim.set(5000);
+        expect(sim.now()).toBe(10000);
+
+        sim.advance(-100);
+        expect(sim.now()).toBe(10000);
+
+        sim.advance(250);
+        sim.set(20000);
+        expect(sim.now()).toBe(20000);
+    });
+
+    test('AcceleratedClock should run at a multiple of its source', () => {
+        const source = new FixedClock(0);
+        const accelerated = new AcceleratedClock(new Date('2025-01-06T03:45:00Z'), 60, source);
+
+        source.set(60 * 1000);
+        expect(accelerated.now()).toBe(Date.parse('2025-01-06T04:45:00Z'));
+        expect(() => new AcceleratedClock(0, 0, source)).toThrow();
+    });
+
+    test('process-wide clock should delegate to the installed clock', () => {
+        clock.use(new FixedClock(42));
+        expect(clock.now()).toBe(42);
+        expect(clock.date().getTime()).toBe(42);
+
+        clock.reset();
+        expect(Math.abs(clock.now() - Date.now())).toBeLessThan(1000);
+    });
+
+    test('IST helpers should apply the +05:30 offset', () => {
+        // 18:45 UTC Friday is 00:15 Saturday in IST
+        const late = Date.parse('2025-01-10T18:45:00Z');
+        expect(getISTDate(late)).toBe('2025-01-11');
+        expect(getISTTime(late)).toBe('00:15');
+        expect(getISTDayOfWeek(late)).toBe(6);
+        expect(isISTWeekend(late)).toBe(true);
+
+        const open = new Date('2025-01-06T03:45:00Z');
+        expect(getISTTime(open)).toBe('09:15');
+        expect(isISTWeekend(open)).toBe(false);
+    });
+
+    test('IST helpers should default to the process-wide clock', () => {
+        clock.use(new FixedClock(Date.parse('2025-01-06T10:00:00Z')));
+        expect(getISTDate()).toBe('2025-01-06');
+        expect(getISTTime()).toBe('15:30');
+    });
+});
+
+describe('MarketScheduler with an injected clock', () => {
+    const at = (iso: string) => new FixedClock(new Date(iso));
+    const scheduler = (time: FixedClock) =>
+        new MarketScheduler('09:15', '15:30', '15:15', '09:30', '15:00', time);
+
+    test('should follow the injected clock for signal hours', () => {
+        const time = at('2025-01-06T03:50:00Z'); // Monday 09:20 IST
+        const s = scheduler(time);
+        expect(s.isMarketHours()).toBe(true);
+        expect(s.isSignalGenerationHours()).toBe(false);
+
+        time.set(new Date('2025-01-06T05:00:00Z')); // 10:30 IST
+        expect(s.isSignalGenerationHours()).toBe(true);
+
+        time.set(new Date('2025-01-06T09:50:00Z')); // 15:20 IST
+        expect(s.isSignalGenerationHours()).toBe(false);
+        expect(s.isAfterSquareOffTime()).toBe(true);
+    });
+
+    test('should treat IST weekends as closed', () => {
+        const s = scheduler(at('2025-01-11T05:00:00Z')); // Saturday 10:30 IST
+        expect(s.isMarketHours()).toBe(false);
+        expect(s.isSignalGenerationHours()).toBe(false);
+    });
+});
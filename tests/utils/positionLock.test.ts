@@ -0,0 +1,30 @@
+import { PositionLockManager } from '../../src/utils/positionLock';
+import { SimulatedClock, clock } from '../../src/utils/clock';
+
+describe('PositionLockManager', () => {
+    let locks: PositionLockManager;
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+        locks = new PositionLockManager();
+    });
+
+    afterEach(() => {
+        locks.releaseAllLocks();
+        clock.reset();
+        jest.useRealTimers();
+    });
+
+    test('should hold a lock for its timeout in wall time however fast a simulated clock runs', async () => {
+        const sim = new SimulatedClock(Date.parse('2025-01-06T04:00:00Z'));
+        clock.use(sim);
+
+        expect(await locks.acquireLock('REL')).toBe(true);
+        sim.advance(60 * 60 * 1000);
+        expect(await locks.acquireLock('REL')).toBe(false);
+
+        jest.advanceTimersByTime(5000);
+        expect(locks.isLocked('REL')).toBe(false);
+        expect(await locks.acquireLock('REL')).toBe(true);
+    });
+});